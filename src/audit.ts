@@ -0,0 +1,66 @@
+/**
+ * `claude-threads audit` subcommand
+ *
+ * Prints permission decisions from the audit log, filtered by session, user,
+ * tool and date range.
+ */
+
+import {
+  formatAuditLine,
+  parseAuditDate,
+  queryAuditLog,
+  readAuditLog,
+  AUDIT_LOG_PATH,
+  type AuditFilter,
+} from './persistence/audit-log.js';
+import { dim, red } from './utils/output.js';
+
+export interface AuditCommandOptions {
+  session?: string;
+  user?: string;
+  tool?: string;
+  since?: string;
+  until?: string;
+  json?: boolean;
+}
+
+/**
+ * Print matching audit entries. Returns the process exit code.
+ */
+export function runAuditCommand(options: AuditCommandOptions, path: string = AUDIT_LOG_PATH): number {
+  const filter: AuditFilter = {
+    session: options.session,
+    user: options.user?.replace(/^@/, ''),
+    tool: options.tool,
+  };
+
+  for (const key of ['since', 'until'] as const) {
+    const value = options[key];
+    if (value === undefined) continue;
+    const date = parseAuditDate(value);
+    if (!date) {
+      console.error(red(`Invalid --${key} value "${value}" (use a date like 2026-01-31 or an age like 24h or 7d)`));
+      return 1;
+    }
+    filter[key] = date;
+  }
+
+  const entries = queryAuditLog(readAuditLog(path), filter);
+
+  if (options.json) {
+    for (const entry of entries) {
+      console.log(JSON.stringify(entry));
+    }
+    return 0;
+  }
+
+  if (entries.length === 0) {
+    console.log(dim(`No matching permission decisions in ${path}`));
+    return 0;
+  }
+  for (const entry of entries) {
+    console.log(formatAuditLine(entry));
+  }
+  console.log(dim(`\n${entries.length} decision${entries.length === 1 ? '' : 's'}`));
+  return 0;
+}
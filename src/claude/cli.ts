@@ -6,6 +6,8 @@ import { existsSync, readFileSync, watchFile, unwatchFile, unlinkSync, statSync,
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { createLogger } from '../utils/logger.js';
+import { loadPermissionPolicy, loadPermissionTimeout } from '../config/permission-policy.js';
+import { getPermissionStatePath, getSessionUsersPath, readPermissionState, type SessionPermissionState } from '../mcp/session-permissions.js';
 
 const log = createLogger('claude');
 
@@ -87,7 +89,17 @@ export interface ImageContentBlock {
   };
 }
 
-export type ContentBlock = TextContentBlock | ImageContentBlock;
+export interface DocumentContentBlock {
+  type: 'document';
+  source: {
+    type: 'base64';
+    media_type: 'application/pdf';
+    data: string;
+  };
+  title?: string;
+}
+
+export type ContentBlock = TextContentBlock | ImageContentBlock | DocumentContentBlock;
 
 export interface PlatformMcpConfig {
   type: string;
@@ -95,6 +107,7 @@ export interface PlatformMcpConfig {
   token: string;
   channelId: string;
   allowedUsers: string[];
+  platformId?: string;  // Platform instance ID (selects per-platform settings)
 }
 
 export interface ClaudeCliOptions {
@@ -103,9 +116,11 @@ export interface ClaudeCliOptions {
   skipPermissions?: boolean;  // If true, use --dangerously-skip-permissions
   sessionId?: string;  // Claude session ID (UUID) for --session-id or --resume
   resume?: boolean;    // If true, use --resume instead of --session-id
+  forkFrom?: string;   // Claude session ID to fork: resume its history as the new sessionId
   chrome?: boolean;    // If true, enable Chrome integration with --chrome
   platformConfig?: PlatformMcpConfig;  // Platform-specific config for MCP server
   appendSystemPrompt?: string;  // Additional system prompt to append
+  model?: string;      // Model alias or ID for --model (default: the CLI's)
 }
 
 export class ClaudeCli extends EventEmitter {
@@ -116,6 +131,7 @@ export class ClaudeCli extends EventEmitter {
   private statusFilePath: string | null = null;
   private lastStatusData: StatusLineData | null = null;
   private stderrBuffer = '';  // Capture stderr for error detection
+  private busy = false;  // A message was sent and its result hasn't arrived yet
 
   constructor(options: ClaudeCliOptions) {
     super();
@@ -148,6 +164,15 @@ export class ClaudeCli extends EventEmitter {
     return this.lastStatusData;
   }
 
+  /**
+   * Get the session-wide approvals recorded by the permission server
+   * (✅ allow all, 🔓 allowed tools). Returns null if none were made.
+   */
+  getPermissionState(): SessionPermissionState | null {
+    if (this.options.skipPermissions || !this.options.sessionId) return null;
+    return readPermissionState(getPermissionStatePath(this.options.sessionId));
+  }
+
   /**
    * Start watching the status file for changes.
    * Emits 'status' event when new data is available.
@@ -202,7 +227,9 @@ export class ClaudeCli extends EventEmitter {
 
     // Add session ID for persistence/resume support
     if (this.options.sessionId) {
-      if (this.options.resume) {
+      if (this.options.forkFrom) {
+        args.push('--resume', this.options.forkFrom, '--fork-session', '--session-id', this.options.sessionId);
+      } else if (this.options.resume) {
         args.push('--resume', this.options.sessionId);
       } else {
         args.push('--session-id', this.options.sessionId);
@@ -229,6 +256,12 @@ export class ClaudeCli extends EventEmitter {
         PLATFORM_CHANNEL_ID: platformConfig.channelId,
         PLATFORM_THREAD_ID: this.options.threadId || '',
         ALLOWED_USERS: platformConfig.allowedUsers.join(','),
+        PERMISSION_POLICY: JSON.stringify(loadPermissionPolicy(this.options.workingDir)),
+        PERMISSION_TIMEOUT: JSON.stringify(loadPermissionTimeout(platformConfig.platformId)),
+        PERMISSION_STATE_FILE: this.options.sessionId ? getPermissionStatePath(this.options.sessionId) : '',
+        SESSION_USERS_FILE: this.options.sessionId ? getSessionUsersPath(this.options.sessionId) : '',
+        WORKING_DIR: this.options.workingDir,
+        CLAUDE_SESSION_ID: this.options.sessionId || '',
         DEBUG: this.debug ? '1' : '',
       };
 
@@ -251,6 +284,10 @@ export class ClaudeCli extends EventEmitter {
       args.push('--chrome');
     }
 
+    if (this.options.model) {
+      args.push('--model', this.options.model);
+    }
+
     // Append system prompt for context
     if (this.options.appendSystemPrompt) {
       args.push('--append-system-prompt', this.options.appendSystemPrompt);
@@ -320,6 +357,7 @@ export class ClaudeCli extends EventEmitter {
       : `[${content.length} blocks]`;
     log.debug(`Sending: ${preview}...`);
     this.process.stdin.write(msg);
+    this.busy = true;
   }
 
   // Send a tool result response
@@ -353,6 +391,7 @@ export class ClaudeCli extends EventEmitter {
       try {
         const event = JSON.parse(trimmed) as ClaudeEvent;
         log.debug(`Event: ${event.type} ${JSON.stringify(event).substring(0, 200)}`);
+        if (event.type === 'result') this.busy = false;
         this.emit('event', event);
       } catch {
         log.debug(`Raw: ${trimmed.substring(0, 200)}`);
@@ -364,6 +403,14 @@ export class ClaudeCli extends EventEmitter {
     return this.process !== null;
   }
 
+  /**
+   * Whether Claude is working on a turn: a message was sent and the turn's
+   * result hasn't arrived yet.
+   */
+  isBusy(): boolean {
+    return this.busy && this.process !== null;
+  }
+
   /**
    * Get the last stderr output (up to 10KB).
    */
@@ -459,6 +506,7 @@ export class ClaudeCli extends EventEmitter {
   interrupt(): boolean {
     if (!this.process) return false;
     this.process.kill('SIGINT');
+    this.busy = false;
     return true;
   }
 
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getModelDisplayName, isValidModel, loadDefaultModel, normalizeModel } from './model.js';
+import type { NewConfig } from '../config/migration.js';
+
+describe('model names', () => {
+  it('accepts aliases and model IDs', () => {
+    expect(isValidModel('sonnet')).toBe(true);
+    expect(isValidModel('claude-sonnet-4-5-20250929')).toBe(true);
+    expect(isValidModel('claude-opus-4-5[1m]')).toBe(true);
+    expect(isValidModel('opus; rm -rf /')).toBe(false);
+  });
+
+  it('lowercases aliases only', () => {
+    expect(normalizeModel(' Opus ')).toBe('opus');
+    expect(normalizeModel('Claude-Custom')).toBe('Claude-Custom');
+  });
+
+  it('formats display names', () => {
+    expect(getModelDisplayName('claude-opus-4-5-20251101')).toBe('Opus 4.5');
+    expect(getModelDisplayName('haiku')).toBe('Haiku');
+  });
+});
+
+describe('loadDefaultModel', () => {
+  let repo: string;
+  const config = {
+    version: 2,
+    workingDir: '/',
+    platforms: [
+      { id: 'mm', type: 'mattermost', displayName: 'MM', model: 'haiku' },
+      { id: 'slack', type: 'slack', displayName: 'Slack' },
+    ],
+  } as unknown as NewConfig;
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), 'claude-threads-model-'));
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('uses the platform default', () => {
+    expect(loadDefaultModel(repo, 'mm', config)).toBe('haiku');
+    expect(loadDefaultModel(repo, 'slack', config)).toBeUndefined();
+  });
+
+  it('prefers the repository default', () => {
+    writeFileSync(join(repo, '.claude-threads.yaml'), 'model: Sonnet\n');
+    expect(loadDefaultModel(repo, 'mm', config)).toBe('sonnet');
+  });
+
+  it('ignores invalid models', () => {
+    writeFileSync(join(repo, '.claude-threads.yaml'), 'model: [opus]\n');
+    expect(loadDefaultModel(repo, 'mm', config)).toBe('haiku');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Claude model selection
+ *
+ * Sessions run with the model chosen by `!model`, or else the default from
+ * the repository's .claude-threads.yaml (`model:`) or the platform config
+ * (`model` on the platform entry). Without any of these the Claude CLI uses
+ * its own default.
+ */
+
+import { loadConfigWithMigration, type NewConfig } from '../config/migration.js';
+import { readRepoConfig, REPO_CONFIG_FILE } from '../config/permission-policy.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('model');
+
+/** Aliases the Claude CLI resolves to the latest model of a family */
+export const MODEL_ALIASES = ['opus', 'sonnet', 'haiku'];
+
+/**
+ * Whether a value looks like a model alias or ID (e.g. `sonnet`,
+ * `claude-sonnet-4-5-20250929`, `claude-opus-4-5[1m]`)
+ */
+export function isValidModel(model: string): boolean {
+  return /^[\w.:@[\]-]+$/.test(model) && model.length <= 100;
+}
+
+/**
+ * Normalize a model given by a user: aliases are case-insensitive
+ */
+export function normalizeModel(model: string): string {
+  const lower = model.trim().toLowerCase();
+  return MODEL_ALIASES.includes(lower) ? lower : model.trim();
+}
+
+/**
+ * Convert model ID to display name
+ * e.g., "claude-opus-4-5-20251101" -> "Opus 4.5"
+ */
+export function getModelDisplayName(modelId: string): string {
+  // Common model name patterns
+  if (modelId.includes('opus-4-5') || modelId.includes('opus-4.5')) return 'Opus 4.5';
+  if (modelId.includes('opus-4')) return 'Opus 4';
+  if (modelId.includes('opus')) return 'Opus';
+  if (modelId.includes('sonnet-4')) return 'Sonnet 4';
+  if (modelId.includes('sonnet-3-5') || modelId.includes('sonnet-3.5')) return 'Sonnet 3.5';
+  if (modelId.includes('sonnet')) return 'Sonnet';
+  if (modelId.includes('haiku-4-5') || modelId.includes('haiku-4.5')) return 'Haiku 4.5';
+  if (modelId.includes('haiku')) return 'Haiku';
+  // Fallback: extract the model family name
+  const match = modelId.match(/claude-(\w+)/);
+  return match ? match[1].charAt(0).toUpperCase() + match[1].slice(1) : modelId;
+}
+
+function toModel(value: unknown, source: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !isValidModel(value.trim())) {
+    log.warn(`Ignoring model ${JSON.stringify(value)} in ${source} - expected an alias (${MODEL_ALIASES.join(', ')}) or a model ID`);
+    return undefined;
+  }
+  return normalizeModel(value);
+}
+
+/**
+ * Default model for a session: the repository's model wins over the platform's
+ */
+export function loadDefaultModel(
+  workingDir: string,
+  platformId: string,
+  config: NewConfig | null = loadConfigWithMigration()
+): string | undefined {
+  const platform = config?.platforms?.find(p => p.id === platformId);
+  return toModel(readRepoConfig(workingDir)?.model, REPO_CONFIG_FILE)
+    ?? toModel(platform?.model, `the config of platform ${platformId}`);
+}
+
+/**
+ * Model to start a session's Claude CLI with (undefined: the CLI default)
+ *
+ * @param selected - Model chosen with !model, if any
+ */
+export function resolveSessionModel(
+  selected: string | undefined,
+  workingDir: string,
+  platformId: string
+): string | undefined {
+  return selected ?? loadDefaultModel(workingDir, platformId);
+}
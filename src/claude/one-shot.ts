@@ -0,0 +1,67 @@
+/**
+ * One-shot Claude calls
+ *
+ * Runs `claude -p` for a single prompt outside of any session, e.g. to
+ * summarize a thread for `!summary`. The call gets its own conversation, so
+ * the session's context is left untouched.
+ */
+
+import { spawn } from 'child_process';
+import { tmpdir } from 'os';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('one-shot');
+
+export interface OneShotOptions {
+  /** Model alias or ID (default: the CLI default) */
+  model?: string;
+  /** Working directory (default: the temp directory, away from any project) */
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/**
+ * Send one prompt to Claude and return its text reply
+ */
+export function runClaudeOneShot(prompt: string, options: OneShotOptions = {}): Promise<string> {
+  const claudePath = process.env.CLAUDE_PATH || 'claude';
+  const args = ['-p', '--output-format', 'text', '--max-turns', '1'];
+  if (options.model) args.push('--model', options.model);
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(claudePath, args, {
+      cwd: options.cwd ?? tmpdir(),
+      env: process.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    proc.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGTERM');
+      reject(new Error(`Claude did not answer within ${Math.round((options.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 1000)}s`));
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    proc.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0 && stdout.trim()) {
+        resolve(stdout.trim());
+        return;
+      }
+      log.debug(`claude -p exited with code ${code}: ${stderr.substring(0, 500)}`);
+      reject(new Error(stderr.trim().split('\n').pop() || `claude exited with code ${code}`));
+    });
+
+    proc.stdin.end(prompt);
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getProjectDir, getTranscriptPath, copyTranscript, parseTranscript } from './session-files.js';
+
+describe('getProjectDir', () => {
+  it('encodes the working directory like the CLI', () => {
+    expect(getProjectDir('/home/me/my.repo', '/cfg')).toBe('/cfg/projects/-home-me-my-repo');
+    expect(getProjectDir('/home/me/repo-worktrees/feature_x', '/cfg')).toBe('/cfg/projects/-home-me-repo-worktrees-feature-x');
+  });
+});
+
+describe('copyTranscript', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'claude-threads-transcripts-'));
+  });
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('copies the transcript into the other project directory', () => {
+    mkdirSync(getProjectDir('/repo', configDir), { recursive: true });
+    writeFileSync(getTranscriptPath('abc', '/repo', configDir), '{"type":"user"}\n');
+
+    expect(copyTranscript('abc', '/repo', '/repo-worktrees/fork', configDir)).toBe(true);
+    expect(readFileSync(getTranscriptPath('abc', '/repo-worktrees/fork', configDir), 'utf-8')).toBe('{"type":"user"}\n');
+  });
+
+  it('returns false when there is no transcript', () => {
+    expect(copyTranscript('missing', '/repo', '/elsewhere', configDir)).toBe(false);
+  });
+});
+
+describe('parseTranscript', () => {
+  const lines = [
+    { type: 'summary', summary: 'ignored' },
+    { type: 'user', timestamp: '2026-01-01T10:00:00Z', message: { role: 'user', content: 'List the files' } },
+    { type: 'assistant', timestamp: '2026-01-01T10:00:05Z', message: { role: 'assistant', content: [
+      { type: 'text', text: 'Sure.' },
+      { type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'ls' } },
+    ] } },
+    { type: 'user', message: { role: 'user', content: [
+      { type: 'tool_result', tool_use_id: 't1', content: [{ type: 'text', text: 'a.ts\nb.ts' }] },
+    ] } },
+    { type: 'assistant', isSidechain: true, message: { role: 'assistant', content: [{ type: 'text', text: 'subagent' }] } },
+    { type: 'user', isMeta: true, message: { role: 'user', content: 'meta' } },
+  ];
+
+  it('pairs tool calls with their results and skips sidechain and meta entries', () => {
+    const jsonl = lines.map(l => JSON.stringify(l)).join('\n') + '\n{broken';
+    expect(parseTranscript(jsonl)).toEqual([
+      { kind: 'user', timestamp: '2026-01-01T10:00:00Z', text: 'List the files' },
+      { kind: 'assistant', timestamp: '2026-01-01T10:00:05Z', text: 'Sure.' },
+      { kind: 'tool', timestamp: '2026-01-01T10:00:05Z', id: 't1', name: 'Bash', input: { command: 'ls' }, result: 'a.ts\nb.ts', isError: false },
+    ]);
+  });
+});
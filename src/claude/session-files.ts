@@ -0,0 +1,165 @@
+/**
+ * Claude CLI session transcripts
+ *
+ * The CLI keeps each conversation as a JSONL transcript under
+ * ~/.claude/projects/<encoded working directory>/<session id>.jsonl, and
+ * `--resume` only finds sessions of the current working directory. Copying the
+ * transcript lets a session be resumed (or forked) in another directory,
+ * e.g. a fresh git worktree. The transcript is also the source for `!export` and `!summary`.
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+/**
+ * Claude CLI config directory (respects CLAUDE_CONFIG_DIR)
+ */
+export function getClaudeConfigDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude');
+}
+
+/**
+ * Directory holding the transcripts for a working directory.
+ * The CLI replaces every non-alphanumeric character with a dash.
+ */
+export function getProjectDir(workingDir: string, configDir: string = getClaudeConfigDir()): string {
+  return join(configDir, 'projects', workingDir.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+export function getTranscriptPath(
+  sessionId: string,
+  workingDir: string,
+  configDir: string = getClaudeConfigDir()
+): string {
+  return join(getProjectDir(workingDir, configDir), `${sessionId}.jsonl`);
+}
+
+/**
+ * Copy a session transcript so it can be resumed from another working directory.
+ * Returns false if the transcript does not exist.
+ */
+export function copyTranscript(
+  sessionId: string,
+  fromDir: string,
+  toDir: string,
+  configDir: string = getClaudeConfigDir()
+): boolean {
+  const source = getTranscriptPath(sessionId, fromDir, configDir);
+  if (!existsSync(source)) return false;
+  const target = getTranscriptPath(sessionId, toDir, configDir);
+  if (source === target) return true;
+  mkdirSync(getProjectDir(toDir, configDir), { recursive: true });
+  copyFileSync(source, target);
+  return true;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * One entry of a conversation: a user prompt, an assistant reply, or a tool
+ * call together with its result.
+ */
+export type TranscriptItem =
+  | { kind: 'user'; timestamp?: string; text: string }
+  | { kind: 'assistant'; timestamp?: string; text: string }
+  | {
+      kind: 'tool';
+      timestamp?: string;
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+      result?: string;
+      isError?: boolean;
+    };
+
+interface TranscriptLine {
+  type?: string;
+  timestamp?: string;
+  isMeta?: boolean;
+  isSidechain?: boolean;
+  message?: { content?: unknown };
+}
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+function blockText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return (content as ContentBlock[])
+    .filter(b => b?.type === 'text' && typeof b.text === 'string')
+    .map(b => b.text)
+    .join('\n');
+}
+
+/**
+ * Parse a transcript into conversation items. Subagent (sidechain) and meta
+ * entries are skipped, and tool results are attached to their tool calls.
+ */
+export function parseTranscript(jsonl: string): TranscriptItem[] {
+  const items: TranscriptItem[] = [];
+  const tools = new Map<string, Extract<TranscriptItem, { kind: 'tool' }>>();
+
+  for (const line of jsonl.split('\n')) {
+    if (!line.trim()) continue;
+    let entry: TranscriptLine;
+    try {
+      entry = JSON.parse(line) as TranscriptLine;
+    } catch {
+      continue;
+    }
+    if (entry.isSidechain || entry.isMeta) continue;
+    if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+
+    const content = entry.message?.content;
+    const timestamp = entry.timestamp;
+
+    if (typeof content === 'string') {
+      if (content.trim()) items.push({ kind: entry.type, timestamp, text: content });
+      continue;
+    }
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content as ContentBlock[]) {
+      if (block?.type === 'text' && block.text?.trim()) {
+        items.push({ kind: entry.type, timestamp, text: block.text });
+      } else if (block?.type === 'tool_use' && block.id && block.name) {
+        const tool = { kind: 'tool' as const, timestamp, id: block.id, name: block.name, input: block.input ?? {} };
+        tools.set(block.id, tool);
+        items.push(tool);
+      } else if (block?.type === 'tool_result' && block.tool_use_id) {
+        const tool = tools.get(block.tool_use_id);
+        if (tool) {
+          tool.result = blockText(block.content);
+          tool.isError = block.is_error === true;
+        }
+      }
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Read and parse a session's transcript; returns null if it does not exist.
+ */
+export function readTranscript(
+  sessionId: string,
+  workingDir: string,
+  configDir: string = getClaudeConfigDir()
+): TranscriptItem[] | null {
+  const path = getTranscriptPath(sessionId, workingDir, configDir);
+  if (!existsSync(path)) return null;
+  return parseTranscript(readFileSync(path, 'utf-8'));
+}
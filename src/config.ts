@@ -12,6 +12,8 @@ export type {
   NewConfig,
   PlatformInstanceConfig,
   MattermostPlatformConfig,
+  SlackPlatformConfig,
+  DiscordPlatformConfig,
   WorktreeMode,
 } from './config/migration.js';
 
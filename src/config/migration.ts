@@ -1,6 +1,8 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { homedir } from 'os';
+import type { PermissionRule } from '../mcp/permission-policy.js';
+import type { TimeoutAction } from '../mcp/permission-timeout.js';
 
 // YAML config path
 export const CONFIG_PATH = resolve(homedir(), '.config', 'claude-threads', 'config.yaml');
@@ -17,13 +19,32 @@ export interface NewConfig {
   chrome: boolean;
   worktreeMode: WorktreeMode;
   keepAlive?: boolean; // Optional, defaults to true when undefined
+  permissions?: PermissionsConfig;
+  budgets?: BudgetsConfig;
   platforms: PlatformInstanceConfig[];
 }
 
+export interface PermissionsConfig {
+  rules?: PermissionRule[]; // Allow/deny/ask rules evaluated before prompting
+  trustRepoAllowRules?: boolean; // Apply `allow` rules from a repo's .claude-threads.yaml (default: only deny/ask)
+  timeout?: number; // Seconds to wait for an answer (default: 120)
+  onTimeout?: TimeoutAction; // What happens when nobody answers (default: deny)
+  toolTimeouts?: Record<string, number>; // Seconds per tool name glob, e.g. { Bash: 300 }
+}
+
+export interface BudgetsConfig {
+  session?: number; // USD per session
+  userDaily?: number; // USD per session owner per day
+  globalDaily?: number; // USD per day across all sessions
+  warnAt?: number[]; // Percentages of a budget that post a warning (default: [50, 80])
+}
+
 export interface PlatformInstanceConfig {
   id: string;
-  type: 'mattermost' | 'slack';
+  type: 'mattermost' | 'slack' | 'discord';
   displayName: string;
+  permissionTimeout?: number; // Seconds to wait for permission answers on this platform
+  model?: string;             // Default Claude model for sessions on this platform
   // Platform-specific fields (TypeScript allows extra properties)
   [key: string]: unknown;
 }
@@ -40,14 +61,26 @@ export interface MattermostPlatformConfig extends PlatformInstanceConfig {
 
 export interface SlackPlatformConfig extends PlatformInstanceConfig {
   type: 'slack';
-  botToken: string;
-  appToken: string;
+  botToken: string;       // xoxb- token for the Web API
+  appToken: string;       // xapp- token for Socket Mode
+  apiUrl?: string;        // Web API base URL (defaults to https://slack.com/api)
   channelId: string;
   botName: string;
   allowedUsers: string[];
   skipPermissions: boolean;
 }
 
+export interface DiscordPlatformConfig extends PlatformInstanceConfig {
+  type: 'discord';
+  token: string;          // Bot token
+  channelId: string;      // Text or forum channel to listen in
+  guildId?: string;       // Server ID (looked up from the channel when omitted)
+  botName: string;
+  allowedUsers: string[];
+  skipPermissions: boolean;
+  apiUrl?: string;        // REST API base URL (defaults to https://discord.com/api/v10)
+}
+
 // =============================================================================
 // Config Loading
 // =============================================================================
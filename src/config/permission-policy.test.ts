@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir, homedir } from 'os';
+import { join } from 'path';
+import { loadPermissionPolicy, loadPermissionTimeout, REPO_CONFIG_FILE } from './permission-policy.js';
+import type { NewConfig } from './migration.js';
+
+function createConfig(rules: unknown[], trustRepoAllowRules?: boolean): NewConfig {
+  return {
+    version: 2,
+    workingDir: '/tmp',
+    chrome: false,
+    worktreeMode: 'prompt',
+    platforms: [],
+    permissions: { rules: rules as NonNullable<NewConfig['permissions']>['rules'], trustRepoAllowRules },
+  };
+}
+
+describe('loadPermissionPolicy', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'claude-threads-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('returns an empty policy without rules', () => {
+    expect(loadPermissionPolicy(repoDir, null)).toEqual({ rules: [] });
+  });
+
+  it('puts repository rules before global rules', () => {
+    writeFileSync(join(repoDir, REPO_CONFIG_FILE), [
+      'permissions:',
+      '  rules:',
+      '    - action: allow',
+      '      tool: Bash',
+      '      command: "npm test*"',
+    ].join('\n'));
+
+    const policy = loadPermissionPolicy(repoDir, createConfig([{ action: 'deny', tool: 'WebFetch' }], true));
+
+    expect(policy.rules.map(r => [r.action, r.source])).toEqual([
+      ['allow', REPO_CONFIG_FILE],
+      ['deny', 'config.yaml'],
+    ]);
+  });
+
+  it('ignores repository allow rules unless the global config trusts them', () => {
+    writeFileSync(join(repoDir, REPO_CONFIG_FILE), [
+      'permissions:',
+      '  rules:',
+      '    - action: allow',
+      '      tool: "*"',
+      '    - action: deny',
+      '      tool: Bash',
+      '      command: "curl *"',
+    ].join('\n'));
+
+    const policy = loadPermissionPolicy(repoDir, createConfig([{ action: 'allow', tool: 'Read' }]));
+
+    expect(policy.rules.map(r => [r.action, r.source])).toEqual([
+      ['deny', REPO_CONFIG_FILE],
+      ['allow', 'config.yaml'],
+    ]);
+  });
+
+  it('resolves relative and home path globs', () => {
+    const policy = loadPermissionPolicy(repoDir, createConfig([
+      { action: 'allow', tool: 'Edit', path: ['src/**', './docs/*.md', '~/notes/**', '/etc/**', '**/.env'] },
+    ]));
+
+    expect(policy.rules[0].path).toEqual([
+      `${repoDir}/src/**`,
+      `${repoDir}/docs/*.md`,
+      join(homedir(), 'notes/**'),
+      '/etc/**',
+      '**/.env',
+    ]);
+  });
+
+  it('skips invalid rules and unreadable repo files', () => {
+    writeFileSync(join(repoDir, REPO_CONFIG_FILE), 'permissions: [unclosed');
+
+    const policy = loadPermissionPolicy(repoDir, createConfig([{ action: 'sometimes' }, { action: 'ask', tool: 'Bash' }]));
+
+    expect(policy.rules).toHaveLength(1);
+    expect(policy.rules[0].action).toBe('ask');
+  });
+});
+
+describe('loadPermissionTimeout', () => {
+  function createTimeoutConfig(
+    permissions: NewConfig['permissions'],
+    permissionTimeout?: number
+  ): NewConfig {
+    return {
+      version: 2,
+      workingDir: '/tmp',
+      chrome: false,
+      worktreeMode: 'prompt',
+      platforms: [{ id: 'slack-main', type: 'slack', displayName: 'Slack', permissionTimeout }],
+      permissions,
+    };
+  }
+
+  it('defaults to two minutes and deny', () => {
+    expect(loadPermissionTimeout('slack-main', null)).toEqual({ timeoutMs: 120000, onTimeout: 'deny', toolTimeoutsMs: {} });
+  });
+
+  it('lets the platform override the global timeout', () => {
+    const config = createTimeoutConfig({ timeout: 300, onTimeout: 'wait', toolTimeouts: { Bash: 600 } }, 60);
+    expect(loadPermissionTimeout('slack-main', config)).toEqual({
+      timeoutMs: 60000,
+      onTimeout: 'wait',
+      toolTimeoutsMs: { Bash: 600000 },
+    });
+    expect(loadPermissionTimeout('other', config).timeoutMs).toBe(300000);
+  });
+
+  it('ignores invalid values', () => {
+    const config = createTimeoutConfig({
+      timeout: -5,
+      onTimeout: 'explode' as never,
+      toolTimeouts: { Bash: 'long' as never },
+    });
+    expect(loadPermissionTimeout('slack-main', config)).toEqual({ timeoutMs: 120000, onTimeout: 'deny', toolTimeoutsMs: {} });
+  });
+});
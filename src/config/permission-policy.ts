@@ -0,0 +1,149 @@
+/**
+ * Permission policy loading
+ *
+ * Collects permission rules from the global config (`permissions.rules` in
+ * config.yaml) and the repository's `.claude-threads.yaml`, resolving relative
+ * path globs against the session's working directory. A repository can only
+ * restrict itself (deny/ask) unless the global config sets
+ * `permissions.trustRepoAllowRules` - otherwise a cloned repo could
+ * auto-approve any tool for itself. The result is handed to
+ * the MCP permission server (see src/mcp/permission-policy.ts), together with
+ * the prompt timeout settings (see src/mcp/permission-timeout.ts).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { isAbsolute, resolve } from 'path';
+import { loadConfigWithMigration, type NewConfig } from './migration.js';
+import { formatRule, parseRules, type PermissionPolicy, type PermissionRule } from '../mcp/permission-policy.js';
+import {
+  DEFAULT_PERMISSION_TIMEOUT,
+  isTimeoutAction,
+  type PermissionTimeoutSettings,
+} from '../mcp/permission-timeout.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('policy');
+
+/** Per-repository config file, read from the session's working directory */
+export const REPO_CONFIG_FILE = '.claude-threads.yaml';
+
+/**
+ * Resolve a path glob: `~` → home directory, relative globs → working directory.
+ * Globs starting with `**` apply anywhere and are left alone.
+ */
+function resolvePathGlob(glob: string, workingDir: string): string {
+  if (glob.startsWith('~/')) return resolve(homedir(), glob.substring(2));
+  if (isAbsolute(glob) || glob.startsWith('**')) return glob;
+  return `${workingDir.replace(/\/$/, '')}/${glob.replace(/^\.\//, '')}`;
+}
+
+function resolveRulePaths(rule: PermissionRule, workingDir: string): PermissionRule {
+  if (rule.path === undefined) return rule;
+  const paths = Array.isArray(rule.path) ? rule.path : [rule.path];
+  return { ...rule, path: paths.map(glob => resolvePathGlob(glob, workingDir)) };
+}
+
+/**
+ * Settings from a repository's .claude-threads.yaml
+ */
+export interface RepoConfig {
+  permissions?: { rules?: unknown };
+  /** Default Claude model for sessions in this repository */
+  model?: unknown;
+}
+
+/**
+ * Read the repository config from a working directory (null if absent or invalid)
+ */
+export function readRepoConfig(workingDir: string): RepoConfig | null {
+  const file = resolve(workingDir, REPO_CONFIG_FILE);
+  if (!existsSync(file)) return null;
+  try {
+    return Bun.YAML.parse(readFileSync(file, 'utf-8')) as RepoConfig | null;
+  } catch (err) {
+    log.warn(`Could not parse ${file}: ${err}`);
+    return null;
+  }
+}
+
+/**
+ * Drop `allow` rules from the repository config unless the global config trusts them
+ */
+function restrictRepoRules(rules: PermissionRule[], trusted: boolean): PermissionRule[] {
+  if (trusted) return rules;
+  return rules.filter(rule => {
+    if (rule.action !== 'allow') return true;
+    log.warn(`Ignoring allow rule \`${formatRule(rule)}\` from ${REPO_CONFIG_FILE} - set permissions.trustRepoAllowRules in config.yaml to apply it`);
+    return false;
+  });
+}
+
+/**
+ * Load the permission policy that applies to a working directory.
+ * Repository rules come first so they win ties with global rules.
+ */
+export function loadPermissionPolicy(
+  workingDir: string,
+  config: NewConfig | null = loadConfigWithMigration()
+): PermissionPolicy {
+  const repo = parseRules(readRepoConfig(workingDir)?.permissions?.rules, REPO_CONFIG_FILE);
+  const sources = [
+    { ...repo, rules: restrictRepoRules(repo.rules, config?.permissions?.trustRepoAllowRules === true) },
+    parseRules(config?.permissions?.rules, 'config.yaml'),
+  ];
+
+  const rules: PermissionRule[] = [];
+  for (const { rules: parsed, errors } of sources) {
+    for (const error of errors) {
+      log.warn(`Ignoring permission rule - ${error}`);
+    }
+    rules.push(...parsed.map(rule => resolveRulePaths(rule, workingDir)));
+  }
+  return { rules };
+}
+
+function toTimeoutMs(seconds: unknown, setting: string): number | undefined {
+  if (seconds === undefined) return undefined;
+  if (typeof seconds !== 'number' || !(seconds > 0)) {
+    log.warn(`Ignoring ${setting} - expected a number of seconds, got ${JSON.stringify(seconds)}`);
+    return undefined;
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Load permission prompt timeouts for a platform.
+ * A tool timeout wins over the platform's `permissionTimeout`, which wins over
+ * the global `permissions.timeout`.
+ */
+export function loadPermissionTimeout(
+  platformId: string | undefined,
+  config: NewConfig | null = loadConfigWithMigration()
+): PermissionTimeoutSettings {
+  const permissions = config?.permissions;
+  const platform = config?.platforms?.find(p => p.id === platformId);
+
+  let onTimeout = DEFAULT_PERMISSION_TIMEOUT.onTimeout;
+  if (permissions?.onTimeout !== undefined) {
+    if (isTimeoutAction(permissions.onTimeout)) {
+      onTimeout = permissions.onTimeout;
+    } else {
+      log.warn(`Ignoring permissions.onTimeout "${permissions.onTimeout}" - expected deny, allow or wait`);
+    }
+  }
+
+  const toolTimeoutsMs: Record<string, number> = {};
+  for (const [tool, seconds] of Object.entries(permissions?.toolTimeouts ?? {})) {
+    const ms = toTimeoutMs(seconds, `permissions.toolTimeouts.${tool}`);
+    if (ms !== undefined) toolTimeoutsMs[tool] = ms;
+  }
+
+  return {
+    timeoutMs: toTimeoutMs(platform?.permissionTimeout, `permissionTimeout for platform ${platformId}`)
+      ?? toTimeoutMs(permissions?.timeout, 'permissions.timeout')
+      ?? DEFAULT_PERMISSION_TIMEOUT.timeoutMs,
+    onTimeout,
+    toolTimeoutsMs,
+  };
+}
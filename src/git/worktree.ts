@@ -149,7 +149,7 @@ export async function listWorktrees(repoRoot: string): Promise<WorktreeInfo[]> {
 /**
  * Check if a branch exists (local or remote)
  */
-async function branchExists(repoRoot: string, branch: string): Promise<boolean> {
+export async function branchExists(repoRoot: string, branch: string): Promise<boolean> {
   try {
     // Check local branches
     await execGit(['rev-parse', '--verify', `refs/heads/${branch}`], repoRoot);
@@ -226,6 +226,13 @@ export async function removeWorktree(repoRoot: string, worktreePath: string): Pr
   await execGit(['worktree', 'prune'], repoRoot);
 }
 
+/**
+ * Delete a local branch (e.g. one created for a worktree that was removed again)
+ */
+export async function deleteBranch(repoRoot: string, branch: string): Promise<void> {
+  await execGit(['branch', '-D', branch], repoRoot);
+}
+
 /**
  * Find a worktree by branch name
  */
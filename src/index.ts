@@ -1,25 +1,27 @@
 #!/usr/bin/env bun
 
-import { program } from 'commander';
-import { loadConfigWithMigration, configExists as checkConfigExists, type MattermostPlatformConfig } from './config/migration.js';
+import { program, type OptionValues } from 'commander';
+import { loadConfigWithMigration, configExists as checkConfigExists } from './config/migration.js';
 import type { CliArgs } from './config.js';
 import { runOnboarding } from './onboarding.js';
-import { MattermostClient } from './platform/mattermost/client.js';
-import { SessionManager } from './session/index.js';
-import type { PlatformPost, PlatformUser } from './platform/index.js';
+import { createPlatformClient } from './platform/client-factory.js';
+import { SessionManager, loadBudgetSettings } from './session/index.js';
+import type { PlatformClient } from './platform/index.js';
+import { createMessageRouter } from './message-router.js';
 import { checkForUpdates } from './update-notifier.js';
-import { getReleaseNotes, formatReleaseNotes } from './changelog.js';
 import { printLogo } from './logo.js';
 import { VERSION } from './version.js';
 import { keepAlive } from './utils/keep-alive.js';
 import { dim, bold, cyan, yellow, red } from './utils/output.js';
 import { validateClaudeCli } from './claude/version-check.js';
+import { runAuditCommand } from './audit.js';
+import { runUsageCommand } from './usage.js';
 
 // Define CLI options
 program
   .name('claude-threads')
   .version(VERSION)
-  .description('Share Claude Code sessions in Mattermost')
+  .description('Share Claude Code sessions in Mattermost, Slack and Discord')
   .option('--url <url>', 'Mattermost server URL')
   .option('--token <token>', 'Mattermost bot token')
   .option('--channel <id>', 'Mattermost channel ID')
@@ -35,16 +37,41 @@ program
   .option('--setup', 'Run interactive setup wizard (reconfigure existing settings)')
   .option('--debug', 'Enable debug logging')
   .option('--skip-version-check', 'Skip Claude CLI version compatibility check')
-  .parse();
+  .action((opts: OptionValues) => {
+    main(opts).catch(e => { console.error(e); process.exit(1); });
+  });
 
-const opts = program.opts();
+program
+  .command('audit')
+  .description('Query the permission audit log')
+  .option('--session <id>', 'Thread ID or Claude session ID (prefix)')
+  .option('--user <username>', 'Only decisions answered by this user')
+  .option('--tool <name>', 'Only decisions for this tool')
+  .option('--since <date>', 'From a date/time or age (e.g. 2026-01-31, 24h, 7d)')
+  .option('--until <date>', 'Up to a date/time or age')
+  .option('--json', 'Print matching entries as JSON lines')
+  .action((auditOpts) => {
+    process.exit(runAuditCommand(auditOpts));
+  });
+
+program
+  .command('usage')
+  .description('Report cost and token usage by user, model, repository and session')
+  .option('--period <period>', 'today, week, month or all (default: month)')
+  .option('--since <date>', 'From a date/time or age instead (e.g. 2026-01-31, 24h, 7d)')
+  .option('--until <date>', 'Up to a date/time or age')
+  .option('--user <username>', 'Only sessions owned by this user')
+  .option('--json', 'Print matching entries as JSON lines')
+  .action((usageOpts) => {
+    process.exit(runUsageCommand(usageOpts));
+  });
 
 // Check if required args are provided via CLI
-function hasRequiredCliArgs(args: typeof opts): boolean {
+function hasRequiredCliArgs(args: OptionValues): boolean {
   return !!(args.url && args.token && args.channel);
 }
 
-async function main() {
+async function main(opts: OptionValues) {
   // Check for updates (non-blocking, shows notification if available)
   checkForUpdates();
 
@@ -95,14 +122,17 @@ async function main() {
   const keepAliveEnabled = newConfig.keepAlive !== false;
   keepAlive.setEnabled(keepAliveEnabled);
 
-  // Get first Mattermost platform
-  const platformConfig = newConfig.platforms.find(p => p.type === 'mattermost') as MattermostPlatformConfig;
-  if (!platformConfig) {
-    throw new Error('No Mattermost platform configured.');
+  if (newConfig.platforms.length === 0) {
+    throw new Error('No platforms configured. Run with --setup to configure.');
   }
 
   const config = newConfig;
 
+  // Claude's permission mode is shared by all sessions, so only skip prompts
+  // when every configured platform opts in
+  const skipPermissions = config.platforms.every(p => p.skipPermissions === true);
+  const mixedPermissions = !skipPermissions && config.platforms.some(p => p.skipPermissions === true);
+
   // Print ASCII logo
   printLogo();
 
@@ -113,8 +143,6 @@ async function main() {
   console.log(dim(`  v${VERSION}`));
   console.log('');
   console.log(`  📂 ${cyan(workingDir)}`);
-  console.log(`  💬 ${cyan('@' + platformConfig.botName)}`);
-  console.log(`  🌐 ${dim(platformConfig.url)}`);
 
   // Display Claude CLI version
   if (claudeValidation.installed) {
@@ -127,14 +155,21 @@ async function main() {
     console.log(`  🤖 ${red('Claude CLI not found')}`);
   }
 
-  if (platformConfig.skipPermissions) {
+  if (skipPermissions) {
     console.log(`  ⚠️ ${dim('Permissions disabled')}`);
   } else {
     console.log(`  🔐 ${dim('Interactive permissions')}`);
+    if (mixedPermissions) {
+      console.log(`     ${yellow('skipPermissions is only honored when every platform sets it')}`);
+    }
   }
   if (config.chrome) {
     console.log(`  🌐 ${dim('Chrome integration enabled')}`);
   }
+  const budgets = loadBudgetSettings(config);
+  if (budgets) {
+    console.log(`  💰 ${dim('Cost budgets enabled')}`);
+  }
   if (keepAliveEnabled) {
     console.log(`  ☕ ${dim('Keep-alive enabled')}`);
   }
@@ -149,306 +184,65 @@ async function main() {
     process.exit(1);
   }
 
-  const mattermost = new MattermostClient(platformConfig);
-  const session = new SessionManager(workingDir, platformConfig.skipPermissions, config.chrome, config.worktreeMode);
-
-  // Register platform (connects event handlers)
-  session.addPlatform(platformConfig.id, mattermost);
-
-  mattermost.on('message', async (post: PlatformPost, user: PlatformUser | null) => {
-    try {
-    const username = user?.username || 'unknown';
-    const message = post.message;
-    const threadRoot = post.rootId || post.id;
-
-    // Check for !kill command FIRST - works anywhere, even as the first message
-    const lowerMessage = message.trim().toLowerCase();
-    if (lowerMessage === '!kill' || (mattermost.isBotMentioned(message) && mattermost.extractPrompt(message).toLowerCase() === '!kill')) {
-      if (!mattermost.isUserAllowed(username)) {
-        await mattermost.createPost('⛔ Only authorized users can use `!kill`', threadRoot);
-        return;
-      }
-      // Notify all active sessions before killing
-      for (const tid of session.getActiveThreadIds()) {
-        try {
-          await mattermost.createPost(`🔴 **EMERGENCY SHUTDOWN** by @${username}`, tid);
-        } catch { /* ignore */ }
-      }
-      console.log(`  🔴 EMERGENCY SHUTDOWN initiated by @${username}`);
-      session.killAllSessionsAndUnpersist();
-      mattermost.disconnect();
-      process.exit(1);
-    }
-
-    // Follow-up in active thread
-    if (session.isInSessionThread(threadRoot)) {
-      // If message starts with @mention to someone else, ignore it (side conversation)
-      // Note: Mattermost usernames can contain letters, numbers, hyphens, periods, and underscores
-      const mentionMatch = message.trim().match(/^@([\w.-]+)/);
-      if (mentionMatch && mentionMatch[1].toLowerCase() !== mattermost.getBotName().toLowerCase()) {
-        return; // Side conversation, don't interrupt
-      }
-
-      const content = mattermost.isBotMentioned(message)
-        ? mattermost.extractPrompt(message)
-        : message.trim();
-      const lowerContent = content.toLowerCase();
-
-      // Check for stop/cancel commands (only from allowed users)
-      // Note: Using ! prefix instead of / to avoid Mattermost slash command interception
-      if (lowerContent === '!stop' || lowerContent === 'stop' ||
-          lowerContent === '!cancel' || lowerContent === 'cancel') {
-        if (session.isUserAllowedInSession(threadRoot, username)) {
-          await session.cancelSession(threadRoot, username);
-        }
-        return;
-      }
-
-      // Check for !escape/!interrupt commands (soft interrupt, keeps session alive)
-      if (lowerContent === '!escape' || lowerContent === '!interrupt') {
-        if (session.isUserAllowedInSession(threadRoot, username)) {
-          await session.interruptSession(threadRoot, username);
-        }
-        return;
-      }
-
-      // Note: !kill is handled at the top level, before session thread check
-
-      // Check for !help command
-      if (lowerContent === '!help' || lowerContent === 'help') {
-        await mattermost.createPost(
-          `**Available commands:**\n\n` +
-          `| Command | Description |\n` +
-          `|:--------|:------------|\n` +
-          `| \`!help\` | Show this help message |\n` +
-          `| \`!release-notes\` | Show release notes for current version |\n` +
-          `| \`!context\` | Show context usage (tokens used/remaining) |\n` +
-          `| \`!cost\` | Show token usage and cost for this session |\n` +
-          `| \`!compact\` | Compress context to free up space |\n` +
-          `| \`!cd <path>\` | Change working directory (restarts Claude) |\n` +
-          `| \`!worktree <branch>\` | Create and switch to a git worktree |\n` +
-          `| \`!worktree list\` | List all worktrees for the repo |\n` +
-          `| \`!worktree switch <branch>\` | Switch to an existing worktree |\n` +
-          `| \`!worktree remove <branch>\` | Remove a worktree |\n` +
-          `| \`!worktree off\` | Disable worktree prompts for this session |\n` +
-          `| \`!invite @user\` | Invite a user to this session |\n` +
-          `| \`!kick @user\` | Remove an invited user |\n` +
-          `| \`!permissions interactive\` | Enable interactive permissions |\n` +
-          `| \`!escape\` | Interrupt current task (session stays active) |\n` +
-          `| \`!stop\` | Stop this session |\n` +
-          `| \`!kill\` | Emergency shutdown (kills ALL sessions, exits bot) |\n\n` +
-          `**Reactions:**\n` +
-          `- 👍 Approve action · ✅ Approve all · 👎 Deny\n` +
-          `- ⏸️ Interrupt current task (session stays active)\n` +
-          `- ❌ or 🛑 Stop session`,
-          threadRoot
-        );
-        return;
-      }
-
-      // Check for !release-notes command
-      if (lowerContent === '!release-notes' || lowerContent === '!changelog') {
-        const notes = getReleaseNotes(VERSION);
-        if (notes) {
-          await mattermost.createPost(formatReleaseNotes(notes), threadRoot);
-        } else {
-          await mattermost.createPost(
-            `📋 **claude-threads v${VERSION}**\n\nRelease notes not available. See [GitHub releases](https://github.com/anneschuth/claude-threads/releases).`,
-            threadRoot
-          );
-        }
-        return;
-      }
-
-      // Check for !invite command
-      const inviteMatch = content.match(/^!invite\s+@?([\w.-]+)/i);
-      if (inviteMatch) {
-        await session.inviteUser(threadRoot, inviteMatch[1], username);
-        return;
-      }
-
-      // Check for !kick command
-      const kickMatch = content.match(/^!kick\s+@?([\w.-]+)/i);
-      if (kickMatch) {
-        await session.kickUser(threadRoot, kickMatch[1], username);
-        return;
-      }
-
-      // Check for !permissions command
-      const permMatch = content.match(/^!permissions?\s+(interactive|auto)/i);
-      if (permMatch) {
-        const mode = permMatch[1].toLowerCase();
-        if (mode === 'interactive') {
-          await session.enableInteractivePermissions(threadRoot, username);
-        } else {
-          // Can't upgrade to auto - that would be less secure
-          await mattermost.createPost(
-            `⚠️ Cannot upgrade to auto permissions - can only downgrade to interactive`,
-            threadRoot
-          );
-        }
-        return;
-      }
-
-      // Check for !cd command
-      const cdMatch = content.match(/^!cd\s+(.+)/i);
-      if (cdMatch) {
-        await session.changeDirectory(threadRoot, cdMatch[1].trim(), username);
-        return;
-      }
-
-      // Check for !worktree command
-      const worktreeMatch = content.match(/^!worktree\s+(\S+)(?:\s+(.*))?$/i);
-      if (worktreeMatch) {
-        const subcommand = worktreeMatch[1].toLowerCase();
-        const args = worktreeMatch[2]?.trim();
-
-        switch (subcommand) {
-          case 'list':
-            await session.listWorktreesCommand(threadRoot, username);
-            break;
-          case 'switch':
-            if (!args) {
-              await mattermost.createPost('❌ Usage: `!worktree switch <branch>`', threadRoot);
-            } else {
-              await session.switchToWorktree(threadRoot, args, username);
-            }
-            break;
-          case 'remove':
-            if (!args) {
-              await mattermost.createPost('❌ Usage: `!worktree remove <branch>`', threadRoot);
-            } else {
-              await session.removeWorktreeCommand(threadRoot, args, username);
-            }
-            break;
-          case 'off':
-            await session.disableWorktreePrompt(threadRoot, username);
-            break;
-          default:
-            // Treat as branch name: !worktree feature/foo
-            await session.createAndSwitchToWorktree(threadRoot, subcommand, username);
-        }
-        return;
-      }
-
-      // Check for pending worktree prompt - treat message as branch name response
-      if (session.hasPendingWorktreePrompt(threadRoot)) {
-        // Only session owner can respond
-        if (session.isUserAllowedInSession(threadRoot, username)) {
-          const handled = await session.handleWorktreeBranchResponse(threadRoot, content, username, post.id);
-          if (handled) return;
-        }
-      }
-
-      // Check for Claude Code slash commands (translate ! to /)
-      // These are sent directly to Claude Code as /commands
-      if (lowerContent === '!context' || lowerContent === '!cost' || lowerContent === '!compact') {
-        if (session.isUserAllowedInSession(threadRoot, username)) {
-          // Translate !command to /command for Claude Code
-          const claudeCommand = '/' + lowerContent.substring(1);
-          await session.sendFollowUp(threadRoot, claudeCommand);
-        }
-        return;
-      }
-
-      // Check if user is allowed in this session
-      if (!session.isUserAllowedInSession(threadRoot, username)) {
-        // Request approval for their message
-        if (content) await session.requestMessageApproval(threadRoot, username, content);
-        return;
-      }
-
-      // Get any attached files (images)
-      const files = post.metadata?.files;
-
-      if (content || files?.length) await session.sendFollowUp(threadRoot, content, files);
-      return;
-    }
+  const session = new SessionManager(workingDir, skipPermissions, config.chrome, config.worktreeMode, budgets);
+  const clients: PlatformClient[] = [];
 
-    // Check for paused session that can be resumed
-    if (session.hasPausedSession(threadRoot)) {
-      // If message starts with @mention to someone else, ignore it (side conversation)
-      const mentionMatch = message.trim().match(/^@([\w.-]+)/);
-      if (mentionMatch && mentionMatch[1].toLowerCase() !== mattermost.getBotName().toLowerCase()) {
-        return; // Side conversation, don't interrupt
-      }
-
-      const content = mattermost.isBotMentioned(message)
-        ? mattermost.extractPrompt(message)
-        : message.trim();
-
-      // Check if user is allowed in the paused session
-      const persistedSession = session.getPersistedSession(threadRoot);
-      if (persistedSession) {
-        // Defensive: handle missing sessionAllowedUsers (old persisted data)
-        const allowedUsers = new Set(persistedSession.sessionAllowedUsers || []);
-        if (!allowedUsers.has(username) && !mattermost.isUserAllowed(username)) {
-          // Not allowed - could request approval but that would require the session to be active
-          await mattermost.createPost(`⚠️ @${username} is not authorized to resume this session`, threadRoot);
-          return;
-        }
-      }
-
-      // Get any attached files (images)
-      const files = post.metadata?.files;
-
-      if (content || files?.length) {
-        await session.resumePausedSession(threadRoot, content, files);
-      }
-      return;
+  const disconnectAll = () => {
+    for (const client of clients) {
+      client.disconnect();
     }
+  };
 
-    // New session requires @mention
-    if (!mattermost.isBotMentioned(message)) return;
-
-    if (!mattermost.isUserAllowed(username)) {
-      await mattermost.createPost(`⚠️ @${username} is not authorized`, threadRoot);
-      return;
-    }
+  const onKill = async (username: string) => {
+    // Notify all active sessions (on their own platforms) before killing
+    await session.postToAllSessions(`🔴 **EMERGENCY SHUTDOWN** by @${username}`);
+    console.log(`  🔴 EMERGENCY SHUTDOWN initiated by @${username}`);
+    session.killAllSessionsAndUnpersist();
+    disconnectAll();
+    process.exit(1);
+  };
 
-    const prompt = mattermost.extractPrompt(message);
-    const files = post.metadata?.files;
+  for (const platformConfig of config.platforms) {
+    const client = createPlatformClient(platformConfig);
+    clients.push(client);
 
-    if (!prompt && !files?.length) {
-      await mattermost.createPost(`Mention me with your request`, threadRoot);
-      return;
-    }
+    // Register platform (connects reaction/channel handlers)
+    session.addPlatform(platformConfig.id, client);
 
-    // Check for inline branch syntax: "on branch X" or "!worktree X"
-    const branchMatch = prompt.match(/(?:on branch|!worktree)\s+(\S+)/i);
-    if (branchMatch) {
-      const branch = branchMatch[1];
-      // Remove the branch specification from the prompt
-      const cleanedPrompt = prompt.replace(/(?:on branch|!worktree)\s+\S+/i, '').trim();
-      await session.startSessionWithWorktree({ prompt: cleanedPrompt || prompt, files }, branch, username, threadRoot, platformConfig.id, user?.displayName);
-      return;
-    }
+    client.on('message', createMessageRouter(client, session, { onKill }));
+    client.on('error', (e) => console.error(`  ❌ ${client.displayName}:`, e));
+  }
 
-    await session.startSession({ prompt, files }, username, threadRoot, platformConfig.id, user?.displayName);
-    } catch (err) {
-      console.error('  ❌ Error handling message:', err);
-      // Try to notify user if possible
-      try {
-        const threadRoot = post.rootId || post.id;
-        await mattermost.createPost(
-          `⚠️ An error occurred. Please try again.`,
-          threadRoot
-        );
-      } catch {
-        // Ignore if we can't post the error message
-      }
+  // Connect all platforms; one failing platform doesn't block the others
+  const results = await Promise.allSettled(clients.map(client => client.connect()));
+
+  let connectedCount = 0;
+  results.forEach((result, i) => {
+    const platformConfig = config.platforms[i];
+    const label = `${bold(platformConfig.displayName)} ${dim(`(${platformConfig.type})`)} ${cyan('@' + String(platformConfig.botName))}`;
+    const location = typeof platformConfig.url === 'string' ? platformConfig.url : `#${String(platformConfig.channelId)}`;
+    const permissions = platformConfig.skipPermissions === true ? '⚡' : '🔐';
+    if (result.status === 'fulfilled') {
+      connectedCount++;
+      console.log(`  ✅ ${label} ${dim(location)} ${permissions}`);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.log(`  ❌ ${label} ${dim(location)}`);
+      console.log(`     ${red(reason)}`);
     }
   });
+  console.log('');
 
-  mattermost.on('connected', () => {});
-  mattermost.on('error', (e) => console.error('  ❌ Error:', e));
-
-  await mattermost.connect();
+  if (connectedCount === 0) {
+    console.error(red('  ❌ No platform could be connected'));
+    disconnectAll();
+    process.exit(1);
+  }
 
   // Resume any persisted sessions from before restart
   await session.initialize();
 
-  console.log(`  ✅ ${bold('Ready!')} Waiting for @${platformConfig.botName} mentions...`);
+  console.log(`  ✅ ${bold('Ready!')} Waiting for mentions on ${connectedCount}/${clients.length} platform(s)...`);
   console.log('');
 
   let isShuttingDown = false;
@@ -471,7 +265,7 @@ async function main() {
     }
 
     await session.killAllSessions();
-    mattermost.disconnect();
+    disconnectAll();
     // Don't call process.exit() here - let the signal handler do it after we resolve
   };
   // Remove any existing signal handlers (e.g., from 'when-exit' package)
@@ -489,4 +283,4 @@ async function main() {
   });
 }
 
-main().catch(e => { console.error(e); process.exit(1); });
+program.parse();
@@ -135,6 +135,18 @@ export async function addReaction(
   });
 }
 
+/**
+ * Remove a user's reaction from a post
+ */
+export async function removeReaction(
+  config: MattermostApiConfig,
+  postId: string,
+  userId: string,
+  emojiName: string
+): Promise<void> {
+  await mattermostApi(config, 'DELETE', `/users/${userId}/posts/${postId}/reactions/${encodeURIComponent(emojiName)}`);
+}
+
 /**
  * Check if a user is allowed based on an allowlist
  *
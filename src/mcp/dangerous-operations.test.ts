@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'bun:test';
+import { classifyDanger } from './dangerous-operations.js';
+
+describe('classifyDanger', () => {
+  const bash = (command: string) => classifyDanger('Bash', { command }, '/repo');
+
+  it('flags force pushes and remote deletes', () => {
+    expect(bash('git push --force origin main')).toBe('force push');
+    expect(bash('git push -f')).toBe('force push');
+    expect(bash('git push --force-with-lease')).toBe('force push');
+    expect(bash('git push origin +main')).toBe('force push');
+    expect(bash('git push origin --delete feature')).toBe('remote branch deletion');
+    expect(bash('git push origin :feature')).toBe('remote branch deletion');
+    expect(bash('git push -u origin feature')).toBeNull();
+  });
+
+  it('flags recursive deletes and history rewrites', () => {
+    expect(bash('rm -rf build')).toBe('recursive delete');
+    expect(bash('sudo rm -fr /')).toBe('recursive delete');
+    expect(bash('rm --recursive dist')).toBe('recursive delete');
+    expect(bash('git reset --hard HEAD~3')).toBe('hard reset discards local changes');
+    expect(bash('git clean -fdx')).toBe('git clean deletes untracked files');
+    expect(bash('rm foo.txt')).toBeNull();
+    expect(bash('git reset HEAD~1')).toBeNull();
+  });
+
+  it('flags deploy scripts and terraform', () => {
+    expect(bash('./scripts/deploy.sh production')).toBe('deploy script');
+    expect(bash('npm run deploy:prod')).toBe('deploy script');
+    expect(bash('fly deploy')).toBe('deploy script');
+    expect(bash('terraform apply -auto-approve')).toBe('terraform apply');
+    expect(bash('terraform plan')).toBeNull();
+    expect(bash('bash scripts/deploy.sh')).toBe('deploy script');
+    expect(bash('make deploy')).toBe('deploy script');
+    expect(bash('cat deployment.yaml')).toBeNull();
+  });
+
+  it('does not flag commands that merely mention deploy', () => {
+    expect(bash('cat deploy.md')).toBeNull();
+    expect(bash('cd deploy')).toBeNull();
+    expect(bash('ls scripts/deploy')).toBeNull();
+    expect(bash('git add deploy/config.yaml')).toBeNull();
+    expect(bash('npm test -- deploy.test.ts')).toBeNull();
+  });
+
+  it('checks every chained command', () => {
+    expect(bash('npm test && rm -rf node_modules')).toBe('recursive delete');
+    expect(bash('npm test && npm run build')).toBeNull();
+    expect(bash('true & rm -rf /')).toBe('recursive delete');
+    expect(bash('echo hi & git push --force')).toBe('force push');
+  });
+
+  it('flags writes outside the working directory', () => {
+    expect(classifyDanger('Write', { file_path: '/etc/hosts' }, '/repo')).toBe('writes outside the working directory');
+    expect(classifyDanger('Edit', { file_path: '/repo/../other/a.ts' }, '/repo')).toBe('writes outside the working directory');
+    expect(classifyDanger('Edit', { file_path: '/repository/a.ts' }, '/repo')).toBe('writes outside the working directory');
+    expect(classifyDanger('Edit', { file_path: '/repo/src/a.ts' }, '/repo')).toBeNull();
+    expect(classifyDanger('Edit', { file_path: 'src/a.ts' }, '/repo')).toBeNull();
+    expect(classifyDanger('Read', { file_path: '/etc/hosts' }, '/repo')).toBeNull();
+  });
+
+  it('skips the path check without a working directory', () => {
+    expect(classifyDanger('Write', { file_path: '/etc/hosts' })).toBeNull();
+  });
+});
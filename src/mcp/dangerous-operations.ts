@@ -0,0 +1,132 @@
+/**
+ * Dangerous operation classifier
+ *
+ * Flags destructive tool calls - force pushes, recursive deletes, deploy
+ * scripts, file writes outside the session's working directory - so the
+ * permission server can require approval from two different users.
+ */
+
+import { isAbsolute, resolve } from 'path';
+import type { ToolInput } from '../utils/tool-formatter.js';
+import { splitCommand } from './permission-policy.js';
+
+/** Tools that write to the file given in their input */
+const FILE_WRITE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+/** Wrappers that run the rest of the command line */
+const COMMAND_WRAPPERS = ['sudo', 'env', 'nohup', 'time', 'exec'];
+
+function getWords(command: string): string[] {
+  const words = command.split(/\s+/).filter(Boolean);
+  // Skip wrappers and leading VAR=value assignments
+  while (words.length > 1 && (COMMAND_WRAPPERS.includes(words[0]) || /^\w+=/.test(words[0]))) {
+    words.shift();
+  }
+  return words;
+}
+
+function hasShortFlag(words: string[], flag: string): boolean {
+  return words.some(w => /^-[a-zA-Z]+$/.test(w) && w.includes(flag));
+}
+
+const DEPLOY_PATTERN = /(^|[/_.:-])deploy([/_.:-]|$)/i;
+
+/** Programs that run the script or target named by their first argument */
+const SCRIPT_RUNNERS = ['npm', 'pnpm', 'yarn', 'bun', 'npx', 'make', 'just', 'bash', 'sh', 'zsh', 'node', 'python', 'python3', 'ruby', 'deno'];
+
+/** Programs that only read, list or move files - `cd deploy` runs nothing */
+const FILE_COMMANDS = ['cd', 'ls', 'cat', 'less', 'more', 'head', 'tail', 'grep', 'rg', 'find', 'tree', 'stat', 'wc',
+  'mkdir', 'touch', 'cp', 'mv', 'rm', 'echo', 'vi', 'vim', 'nano', 'code', 'open', 'git'];
+
+/**
+ * Whether the command runs a deploy: the program itself (`./deploy.sh`),
+ * the script a runner starts (`npm run deploy:prod`, `bash scripts/deploy.sh`)
+ * or a CLI's subcommand (`fly deploy`) - not a file merely named deploy.
+ */
+function runsDeploy(words: string[]): boolean {
+  const [program, ...args] = words;
+  if (DEPLOY_PATTERN.test(program)) return true;
+
+  const name = program.substring(program.lastIndexOf('/') + 1);
+  if (SCRIPT_RUNNERS.includes(name)) {
+    const script = args.find(a => !a.startsWith('-') && a !== 'run' && a !== 'run-script');
+    return script !== undefined && DEPLOY_PATTERN.test(script);
+  }
+
+  const [subcommand] = args;
+  return subcommand !== undefined && !FILE_COMMANDS.includes(name) &&
+    /^[a-z][\w:-]*$/i.test(subcommand) && DEPLOY_PATTERN.test(subcommand);
+}
+
+/**
+ * Classify one command (no chaining); returns why it is dangerous, or null
+ */
+function classifyCommand(command: string): string | null {
+  const words = getWords(command);
+  const [program, subcommand] = words;
+  if (!program) return null;
+
+  if (program === 'git' && subcommand === 'push') {
+    const args = words.slice(2);
+    if (args.some(a => a.startsWith('--force') || a === '--mirror' || a.startsWith('+')) || hasShortFlag(args, 'f')) {
+      return 'force push';
+    }
+    if (args.some(a => a === '--delete' || a.startsWith(':')) || hasShortFlag(args, 'd')) {
+      return 'remote branch deletion';
+    }
+  }
+
+  if (program === 'git' && subcommand === 'reset' && words.includes('--hard')) {
+    return 'hard reset discards local changes';
+  }
+
+  if (program === 'git' && subcommand === 'clean' && hasShortFlag(words.slice(2), 'f')) {
+    return 'git clean deletes untracked files';
+  }
+
+  if (program === 'rm' && (hasShortFlag(words, 'r') || hasShortFlag(words, 'R') || words.includes('--recursive'))) {
+    return 'recursive delete';
+  }
+
+  if (runsDeploy(words)) {
+    return 'deploy script';
+  }
+
+  if (program === 'terraform' && (subcommand === 'apply' || subcommand === 'destroy')) {
+    return `terraform ${subcommand}`;
+  }
+
+  return null;
+}
+
+function isInside(path: string, dir: string): boolean {
+  const base = dir.replace(/\/$/, '');
+  return path === base || path.startsWith(base + '/');
+}
+
+/**
+ * Check whether a tool call is dangerous enough to need two approvals.
+ * Returns a short reason (e.g. "recursive delete") or null.
+ *
+ * @param workingDir - Session working directory; writes outside it are dangerous
+ */
+export function classifyDanger(toolName: string, input: ToolInput, workingDir?: string): string | null {
+  if (toolName === 'Bash' && typeof input.command === 'string') {
+    for (const part of splitCommand(input.command)) {
+      const reason = classifyCommand(part);
+      if (reason) return reason;
+    }
+    return null;
+  }
+
+  if (FILE_WRITE_TOOLS.includes(toolName) && workingDir) {
+    const filePath = input.file_path ?? input.notebook_path;
+    if (typeof filePath !== 'string' || !filePath) return null;
+    const resolved = isAbsolute(filePath) ? resolve(filePath) : resolve(workingDir, filePath);
+    if (!isInside(resolved, resolve(workingDir))) {
+      return 'writes outside the working directory';
+    }
+  }
+
+  return null;
+}
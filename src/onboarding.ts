@@ -7,9 +7,16 @@ import {
   type PlatformInstanceConfig,
   type MattermostPlatformConfig,
   type SlackPlatformConfig,
+  type DiscordPlatformConfig,
 } from './config/migration.js';
 import { bold, dim, green } from './utils/output.js';
 
+const PLATFORM_TYPE_NAMES: Record<PlatformInstanceConfig['type'], string> = {
+  mattermost: 'Mattermost',
+  slack: 'Slack',
+  discord: 'Discord',
+};
+
 const onCancel = () => {
   console.log('');
   console.log(dim('  Setup cancelled.'));
@@ -93,9 +100,10 @@ export async function runOnboarding(reconfigure = false): Promise<void> {
       choices: [
         { title: 'Mattermost', value: 'mattermost' },
         { title: 'Slack', value: 'slack' },
+        { title: 'Discord', value: 'discord' },
         ...(isFirst ? [] : [{ title: '(Done - finish setup)', value: 'done' }]),
       ],
-      initial: existingPlatform?.type === 'slack' ? 1 : 0,
+      initial: existingPlatform?.type === 'slack' ? 1 : existingPlatform?.type === 'discord' ? 2 : 0,
     }, { onCancel });
 
     if (platformType === 'done') {
@@ -111,7 +119,7 @@ export async function runOnboarding(reconfigure = false): Promise<void> {
         message: 'Platform ID',
         initial: existingPlatform?.id ||
                  (config.platforms.length === 0 ? 'default' : `${platformType}-${platformNumber}`),
-        hint: 'Unique identifier (e.g., mattermost-main, slack-eng)',
+        hint: 'Unique identifier (e.g., mattermost-main, slack-eng, discord-oss)',
         validate: (v: string) => {
           if (!v.match(/^[a-z0-9-]+$/)) return 'Use lowercase letters, numbers, hyphens only';
           if (config.platforms.some(p => p.id === v)) return 'ID already in use';
@@ -123,7 +131,7 @@ export async function runOnboarding(reconfigure = false): Promise<void> {
         name: 'displayName',
         message: 'Display name',
         initial: existingPlatform?.displayName ||
-                 (platformType === 'mattermost' ? 'Mattermost' : 'Slack'),
+                 PLATFORM_TYPE_NAMES[platformType as PlatformInstanceConfig['type']],
         hint: 'Human-readable name (e.g., "Internal Team", "Engineering")',
       },
     ], { onCancel });
@@ -132,6 +140,9 @@ export async function runOnboarding(reconfigure = false): Promise<void> {
     if (platformType === 'mattermost') {
       const platform = await setupMattermostPlatform(platformId, displayName, existingPlatform);
       config.platforms.push(platform);
+    } else if (platformType === 'discord') {
+      const platform = await setupDiscordPlatform(platformId, displayName, existingPlatform);
+      config.platforms.push(platform);
     } else {
       const platform = await setupSlackPlatform(platformId, displayName, existingPlatform);
       config.platforms.push(platform);
@@ -349,3 +360,78 @@ async function setupSlackPlatform(
     skipPermissions: response.skipPermissions,
   };
 }
+
+async function setupDiscordPlatform(
+  id: string,
+  displayName: string,
+  existing?: PlatformInstanceConfig
+): Promise<DiscordPlatformConfig> {
+  console.log('');
+  console.log(dim('  Discord setup (requires the Message Content intent):'));
+  console.log(dim('  Create app at: discord.com/developers/applications'));
+  console.log('');
+
+  const existingDiscord = existing?.type === 'discord' ? existing as DiscordPlatformConfig : undefined;
+
+  const response = await prompts([
+    {
+      type: 'password',
+      name: 'token',
+      message: 'Bot Token',
+      initial: existingDiscord?.token,
+      hint: existingDiscord?.token ? 'Enter to keep existing' : 'Bot tab > Reset Token',
+      validate: (v: string) => {
+        if (!v && existingDiscord?.token) return true;
+        return v.length > 0 ? true : 'Token is required';
+      },
+    },
+    {
+      type: 'text',
+      name: 'channelId',
+      message: 'Channel ID',
+      initial: existingDiscord?.channelId || '',
+      hint: 'Text or forum channel (enable Developer Mode, right-click > Copy Channel ID)',
+      validate: (v: string) => /^\d+$/.test(v) ? true : 'Channel ID must be numeric',
+    },
+    {
+      type: 'text',
+      name: 'botName',
+      message: 'Bot mention name',
+      initial: existingDiscord?.botName || 'claude',
+      hint: 'The bot\'s username - users will @mention it',
+    },
+    {
+      type: 'text',
+      name: 'allowedUsers',
+      message: 'Allowed usernames (optional)',
+      initial: existingDiscord?.allowedUsers?.join(',') || '',
+      hint: 'Comma-separated, or empty for everyone',
+    },
+    {
+      type: 'confirm',
+      name: 'skipPermissions',
+      message: 'Auto-approve all actions?',
+      initial: existingDiscord?.skipPermissions || false,
+      hint: 'If no, you\'ll approve via emoji reactions',
+    },
+  ], { onCancel });
+
+  // Use existing token if user left it empty
+  const finalToken = response.token || existingDiscord?.token;
+  if (!finalToken) {
+    console.log('');
+    console.log(dim('  ⚠️  Bot token is required. Setup cancelled.'));
+    process.exit(1);
+  }
+
+  return {
+    id,
+    type: 'discord',
+    displayName,
+    token: finalToken,
+    channelId: response.channelId,
+    botName: response.botName,
+    allowedUsers: response.allowedUsers?.split(',').map((u: string) => u.trim()).filter((u: string) => u) || [],
+    skipPermissions: response.skipPermissions,
+  };
+}
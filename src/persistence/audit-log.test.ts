@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  appendAuditEntry,
+  readAuditLog,
+  queryAuditLog,
+  parseAuditDate,
+  parseAuditQuery,
+  summarizeToolInput,
+  formatAuditTable,
+  type AuditEntry,
+} from './audit-log.js';
+
+function createEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: '2026-03-01T10:00:00.000Z',
+    platform: 'mattermost',
+    threadId: 'thread-1',
+    sessionId: 'uuid-1',
+    tool: 'Bash',
+    input: 'npm test',
+    decision: 'allow',
+    source: 'user',
+    users: ['alice'],
+    latencyMs: 4200,
+    ...overrides,
+  };
+}
+
+describe('audit log file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-audit-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends and reads entries, creating the directory', () => {
+    const file = join(dir, 'nested', 'audit.jsonl');
+    appendAuditEntry(createEntry(), file);
+    appendAuditEntry(createEntry({ tool: 'Edit' }), file);
+    expect(readAuditLog(file).map(e => e.tool)).toEqual(['Bash', 'Edit']);
+  });
+
+  it('skips malformed lines', () => {
+    const file = join(dir, 'audit.jsonl');
+    appendAuditEntry(createEntry(), file);
+    appendFileSync(file, '{"timestamp": "2026-03\n');
+    expect(readAuditLog(file)).toHaveLength(1);
+    expect(readAuditLog(join(dir, 'missing.jsonl'))).toEqual([]);
+  });
+});
+
+describe('queryAuditLog', () => {
+  const entries = [
+    createEntry(),
+    createEntry({ threadId: 'thread-2', sessionId: 'uuid-2', tool: 'Edit', users: ['bob'] }),
+    createEntry({ timestamp: '2026-03-05T10:00:00.000Z', decision: 'deny', source: 'timeout', users: [] }),
+  ];
+
+  it('filters by session, user and tool', () => {
+    expect(queryAuditLog(entries, { session: 'thread-2' })).toHaveLength(1);
+    expect(queryAuditLog(entries, { session: 'uuid-1' })).toHaveLength(2);
+    expect(queryAuditLog(entries, { user: 'bob' })[0].tool).toBe('Edit');
+    expect(queryAuditLog(entries, { tool: 'bash' })).toHaveLength(2);
+  });
+
+  it('filters by date range', () => {
+    const since = new Date('2026-03-02T00:00:00Z');
+    expect(queryAuditLog(entries, { since })).toHaveLength(1);
+    expect(queryAuditLog(entries, { until: since })).toHaveLength(2);
+  });
+});
+
+describe('parseAuditDate', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  it('parses relative ages and dates', () => {
+    expect(parseAuditDate('24h', now)?.toISOString()).toBe('2026-03-09T12:00:00.000Z');
+    expect(parseAuditDate('7d', now)?.toISOString()).toBe('2026-03-03T12:00:00.000Z');
+    expect(parseAuditDate('2026-03-01T00:00:00Z', now)?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(parseAuditDate('yesterday', now)).toBeNull();
+  });
+});
+
+describe('parseAuditQuery', () => {
+  it('recognizes users, ages and tools', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    expect(parseAuditQuery('@alice Bash 2d', now)).toEqual({
+      user: 'alice',
+      tool: 'Bash',
+      since: new Date('2026-03-08T12:00:00Z'),
+    });
+    expect(parseAuditQuery('')).toEqual({});
+  });
+});
+
+describe('summarizeToolInput', () => {
+  it('uses the command, the path or JSON', () => {
+    expect(summarizeToolInput('Bash', { command: 'ls -la' })).toBe('ls -la');
+    expect(summarizeToolInput('Edit', { file_path: '/repo/a.ts', old_string: 'x' })).toBe('/repo/a.ts');
+    expect(summarizeToolInput('TodoWrite', { todos: [] })).toBe('{"todos":[]}');
+  });
+});
+
+describe('formatAuditTable', () => {
+  it('renders one row per entry and escapes pipes', () => {
+    const table = formatAuditTable([createEntry({ input: 'cat a | grep b' }), createEntry({ users: [], source: 'policy', decision: 'deny' })]);
+    const lines = table.split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain('cat a \\| grep b');
+    expect(lines[2]).toContain('✅ allow by @alice');
+    expect(lines[3]).toContain('❌ deny (policy)');
+  });
+});
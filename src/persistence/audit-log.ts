@@ -0,0 +1,195 @@
+/**
+ * Permission audit log
+ *
+ * The MCP permission server appends one JSON line per permission decision to
+ * ~/.config/claude-threads/audit.jsonl. The log is queried by the `!audit`
+ * command and the `claude-threads audit` CLI subcommand for compliance reviews.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { formatDuration, truncate } from '../utils/format.js';
+
+export const AUDIT_LOG_PATH = join(homedir(), '.config', 'claude-threads', 'audit.jsonl');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How a decision was reached:
+ * - `user`: a user reacted to the prompt
+ * - `policy`: a permission policy rule matched
+ * - `allow-all`: ✅ "allow all" was active
+ * - `session-scope`: the tool was allowed for the session with 🔓
+ * - `timeout`: nobody answered in time
+ * - `error`: the prompt could not be posted or answered
+ */
+export type AuditSource = 'user' | 'policy' | 'allow-all' | 'session-scope' | 'timeout' | 'error';
+
+export interface AuditEntry {
+  /** ISO timestamp of the decision */
+  timestamp: string;
+  platform: string;
+  threadId: string;
+  /** Claude session ID (changes when the working directory changes) */
+  sessionId: string;
+  tool: string;
+  /** Short plain-text summary of the tool input */
+  input: string;
+  decision: 'allow' | 'deny';
+  source: AuditSource;
+  /** Users who answered the prompt (several for two-person approvals) */
+  users: string[];
+  /** Time from the request to the decision */
+  latencyMs: number;
+  /** Extra context, e.g. the matched policy rule or the danger reason */
+  detail?: string;
+}
+
+export interface AuditFilter {
+  /** Thread ID or Claude session ID (prefix match) */
+  session?: string;
+  user?: string;
+  /** Tool name (case-insensitive) */
+  tool?: string;
+  since?: Date;
+  until?: Date;
+}
+
+// =============================================================================
+// Writing and reading
+// =============================================================================
+
+/**
+ * Summarize a tool input for the log: the command, the file path, or
+ * truncated JSON for other tools.
+ */
+export function summarizeToolInput(toolName: string, input: Record<string, unknown>): string {
+  if (toolName === 'Bash' && typeof input.command === 'string') {
+    return truncate(input.command, 500);
+  }
+  for (const key of ['file_path', 'notebook_path', 'path', 'url', 'pattern']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) return truncate(value, 500);
+  }
+  return truncate(JSON.stringify(input), 500);
+}
+
+export function appendAuditEntry(entry: AuditEntry, path: string = AUDIT_LOG_PATH): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  appendFileSync(path, JSON.stringify(entry) + '\n', 'utf-8');
+}
+
+/**
+ * Read all audit entries; malformed lines are skipped
+ */
+export function readAuditLog(path: string = AUDIT_LOG_PATH): AuditEntry[] {
+  if (!existsSync(path)) return [];
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as AuditEntry;
+      if (typeof entry.timestamp === 'string' && typeof entry.tool === 'string') {
+        entries.push({ ...entry, users: Array.isArray(entry.users) ? entry.users : [] });
+      }
+    } catch {
+      // Skip lines from interrupted writes
+    }
+  }
+  return entries;
+}
+
+// =============================================================================
+// Querying
+// =============================================================================
+
+/**
+ * Parse a date filter: an ISO date/time, or a relative age like `30m`, `24h`, `7d`.
+ * Returns null if the value is not understood.
+ */
+export function parseAuditDate(value: string, now: Date = new Date()): Date | null {
+  const relative = value.trim().match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(now.getTime() - parseInt(relative[1], 10) * unitMs);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse free-form filter words as used by `!audit`: `@user`, a relative age
+ * or date for `since`, anything else is a tool name.
+ */
+export function parseAuditQuery(text: string, now: Date = new Date()): AuditFilter {
+  const filter: AuditFilter = {};
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (word.startsWith('@')) {
+      filter.user = word.substring(1);
+    } else if (/^\d+[mhd]$/.test(word) || /^\d{4}-\d{2}-\d{2}/.test(word)) {
+      filter.since = parseAuditDate(word, now) ?? undefined;
+    } else {
+      filter.tool = word;
+    }
+  }
+  return filter;
+}
+
+export function queryAuditLog(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const tool = filter.tool?.toLowerCase();
+  return entries.filter(entry => {
+    if (filter.session && !entry.threadId.startsWith(filter.session) && !entry.sessionId.startsWith(filter.session)) {
+      return false;
+    }
+    if (filter.user && !entry.users.includes(filter.user)) return false;
+    if (tool && entry.tool.toLowerCase() !== tool) return false;
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    return true;
+  });
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function describeOutcome(entry: AuditEntry): string {
+  const icon = entry.decision === 'allow' ? '✅' : '❌';
+  const by = entry.users.length > 0
+    ? ` by ${entry.users.map(u => `@${u}`).join(', ')}`
+    : ` (${entry.source})`;
+  return `${icon} ${entry.decision}${by}`;
+}
+
+/**
+ * Markdown table of entries, for posting in a thread
+ */
+export function formatAuditTable(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => {
+    const time = entry.timestamp.replace('T', ' ').substring(0, 19);
+    const input = truncate(entry.input, 60).replace(/\|/g, '\\|').replace(/`/g, "'");
+    return `| ${time} | ${entry.tool} | \`${input}\` | ${describeOutcome(entry)} | ${formatDuration(entry.latencyMs)} |`;
+  });
+  return [
+    '| Time (UTC) | Tool | Input | Decision | Latency |',
+    '|:--|:--|:--|:--|--:|',
+    ...rows,
+  ].join('\n');
+}
+
+/**
+ * One line per entry, for the terminal
+ */
+export function formatAuditLine(entry: AuditEntry): string {
+  const time = entry.timestamp.replace('T', ' ').substring(0, 19);
+  const detail = entry.detail ? ` - ${entry.detail}` : '';
+  return `${time}  ${entry.threadId.substring(0, 8)}  ${entry.tool.padEnd(10)} ` +
+    `${describeOutcome(entry)} in ${formatDuration(entry.latencyMs)}${detail}\n    ${truncate(entry.input, 120)}`;
+}
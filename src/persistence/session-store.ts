@@ -62,6 +62,12 @@ export interface PersistedSession {
   sessionDescription?: string;                   // Longer description of what's happening (1-2 sentences)
   // Pull request URL
   pullRequestUrl?: string;                       // Full URL to PR (GitHub, GitLab, Bitbucket, Azure DevOps, etc.)
+  // Forks
+  forkedFromThreadId?: string;                   // Thread of the session this one was forked from
+  forkThreadIds?: string[];                      // Threads forked from this session
+  // Cost budgets
+  spentUSD?: number;                             // Cost counted against the session budget
+  model?: string;                                // Model chosen with !model
   // Message counter
   messageCount?: number;                         // Number of user messages sent to Claude
   // Resume failure tracking
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { dayKey, getDailySpend, markBudgetWarning, recordSpend } from './spend-ledger.js';
+
+describe('spend ledger', () => {
+  let dir: string;
+  let path: string;
+  const today = new Date(2026, 0, 15, 12, 0, 0);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-spend-'));
+    path = join(dir, 'spend.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses the local calendar day as key', () => {
+    expect(dayKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+  });
+
+  it('adds spend per user and in total', () => {
+    recordSpend('alice', 1.5, today, path);
+    recordSpend('bob', 0.25, today, path);
+    recordSpend('alice', 0.5, today, path);
+
+    const spend = getDailySpend(today, path);
+    expect(spend.totalUSD).toBe(2.25);
+    expect(spend.users).toEqual({ alice: 2, bob: 0.25 });
+    expect(getDailySpend(new Date(2026, 0, 16), path).totalUSD).toBe(0);
+  });
+
+  it('drops days older than a month', () => {
+    recordSpend('alice', 1, new Date(2025, 11, 1), path);
+    recordSpend('alice', 1, today, path);
+
+    expect(Object.keys(JSON.parse(readFileSync(path, 'utf-8')))).toEqual(['2026-01-15']);
+  });
+
+  it('remembers posted warnings per day', () => {
+    expect(markBudgetWarning('global:80', today, path)).toBe(true);
+    expect(markBudgetWarning('global:80', today, path)).toBe(false);
+    expect(markBudgetWarning('global:80', new Date(2026, 0, 16), path)).toBe(true);
+  });
+});
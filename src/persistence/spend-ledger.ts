@@ -0,0 +1,106 @@
+/**
+ * Daily spend ledger
+ *
+ * Cost budgets (see src/session/budget.ts) need to know how much each user and
+ * the bot as a whole spent today, across sessions and restarts. Spend is kept
+ * per local calendar day in ~/.config/claude-threads/spend.json; days older
+ * than RETENTION_DAYS are dropped.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('spend');
+
+export const SPEND_LEDGER_PATH = join(homedir(), '.config', 'claude-threads', 'spend.json');
+
+const RETENTION_DAYS = 31;
+
+export interface DailySpend {
+  totalUSD: number;
+  /** Spend per session owner */
+  users: Record<string, number>;
+  /** Budget warnings already posted this day */
+  warned: string[];
+}
+
+type Ledger = Record<string, DailySpend>;
+
+/**
+ * Ledger key for a date: the local calendar day as YYYY-MM-DD
+ */
+export function dayKey(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyDay(): DailySpend {
+  return { totalUSD: 0, users: {}, warned: [] };
+}
+
+function readLedger(path: string): Ledger {
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as Ledger;
+  } catch (err) {
+    log.warn(`Failed to read spend ledger ${path}: ${err}`);
+    return {};
+  }
+}
+
+function writeLedger(ledger: Ledger, now: Date, path: string): void {
+  const cutoff = dayKey(new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  for (const day of Object.keys(ledger)) {
+    if (day < cutoff) delete ledger[day];
+  }
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(ledger, null, 2), 'utf-8');
+}
+
+/**
+ * Spend recorded for a day
+ */
+export function getDailySpend(date: Date = new Date(), path: string = SPEND_LEDGER_PATH): DailySpend {
+  return readLedger(path)[dayKey(date)] ?? emptyDay();
+}
+
+/**
+ * Add spend for a user to the day's totals
+ */
+export function recordSpend(
+  username: string,
+  costUSD: number,
+  date: Date = new Date(),
+  path: string = SPEND_LEDGER_PATH
+): DailySpend {
+  const ledger = readLedger(path);
+  const day = ledger[dayKey(date)] ?? emptyDay();
+  day.totalUSD += costUSD;
+  day.users[username] = (day.users[username] ?? 0) + costUSD;
+  ledger[dayKey(date)] = day;
+  writeLedger(ledger, date, path);
+  return day;
+}
+
+/**
+ * Remember that a daily budget warning was posted.
+ * Returns false if it was already posted that day.
+ */
+export function markBudgetWarning(
+  key: string,
+  date: Date = new Date(),
+  path: string = SPEND_LEDGER_PATH
+): boolean {
+  const ledger = readLedger(path);
+  const day = ledger[dayKey(date)] ?? emptyDay();
+  if (day.warned.includes(key)) return false;
+  day.warned.push(key);
+  ledger[dayKey(date)] = day;
+  writeLedger(ledger, date, path);
+  return true;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  appendUsageEntries,
+  readUsageLog,
+  queryUsageLog,
+  getPeriodStart,
+  parseUsageQuery,
+  summarizeUsage,
+  formatUsageReport,
+  type UsageEntry,
+} from './usage-log.js';
+
+function createEntry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+  return {
+    timestamp: '2026-03-04T10:00:00.000Z',
+    platform: 'mattermost',
+    threadId: 'thread-1',
+    sessionId: 'uuid-1',
+    user: 'alice',
+    model: 'claude-opus-4-5-20251101',
+    repository: '/repos/app',
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheReadTokens: 5000,
+    cacheCreationTokens: 0,
+    costUSD: 0.5,
+    ...overrides,
+  };
+}
+
+describe('usage log file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-usage-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends and reads entries, creating the directory', () => {
+    const file = join(dir, 'nested', 'usage.jsonl');
+    appendUsageEntries([createEntry(), createEntry({ model: 'claude-haiku-4-5-20251001' })], file);
+    appendUsageEntries([createEntry({ user: 'bob' })], file);
+    expect(readUsageLog(file).map(e => e.user)).toEqual(['alice', 'alice', 'bob']);
+  });
+
+  it('skips malformed lines', () => {
+    const file = join(dir, 'usage.jsonl');
+    appendUsageEntries([createEntry()], file);
+    appendFileSync(file, '{"timestamp": "2026-03\n');
+    expect(readUsageLog(file)).toHaveLength(1);
+    expect(readUsageLog(join(dir, 'missing.jsonl'))).toEqual([]);
+  });
+});
+
+describe('usage queries', () => {
+  // Wednesday
+  const now = new Date(2026, 2, 4, 15, 30);
+
+  it('computes period starts in local time', () => {
+    expect(getPeriodStart('today', now)).toEqual(new Date(2026, 2, 4));
+    expect(getPeriodStart('week', now)).toEqual(new Date(2026, 2, 2));
+    expect(getPeriodStart('week', new Date(2026, 2, 8))).toEqual(new Date(2026, 2, 2));
+    expect(getPeriodStart('month', now)).toEqual(new Date(2026, 2, 1));
+    expect(getPeriodStart('all', now)).toBeUndefined();
+  });
+
+  it('parses a period and user in any order', () => {
+    expect(parseUsageQuery('')).toEqual({ period: 'today' });
+    expect(parseUsageQuery('@bob Week')).toEqual({ period: 'week', user: 'bob' });
+    expect(parseUsageQuery('yesterday')).toBeNull();
+  });
+
+  it('filters by user and time', () => {
+    const entries = [
+      createEntry({ timestamp: new Date(2026, 2, 1, 9).toISOString() }),
+      createEntry({ timestamp: new Date(2026, 2, 4, 9).toISOString() }),
+      createEntry({ timestamp: new Date(2026, 2, 4, 9).toISOString(), user: 'bob' }),
+    ];
+    expect(queryUsageLog(entries, { since: getPeriodStart('today', now) })).toHaveLength(2);
+    expect(queryUsageLog(entries, { user: 'alice' })).toHaveLength(2);
+  });
+});
+
+describe('usage reports', () => {
+  const entries = [
+    createEntry({ sessionTitle: 'Fix login' }),
+    createEntry({ model: 'claude-haiku-4-5-20251001', costUSD: 0.05, inputTokens: 100, outputTokens: 10, cacheReadTokens: 0 }),
+    createEntry({ user: 'bob', threadId: 'thread-2', repository: '/repos/api', costUSD: 2 }),
+  ];
+
+  it('totals usage per user, model, repository and session', () => {
+    const summary = summarizeUsage(entries);
+    expect(summary.total).toEqual({ costUSD: 2.55, tokens: 12510, turns: 3 });
+    expect(summary.byUser.get('alice')?.costUSD).toBeCloseTo(0.55);
+    expect(summary.byModel.get('claude-haiku-4-5-20251001')?.tokens).toBe(110);
+    expect(summary.byRepository.get('/repos/api')?.costUSD).toBe(2);
+    expect(summary.bySession.get('thread-1')).toEqual({ costUSD: 0.55, tokens: 6310, turns: 2, title: 'Fix login' });
+  });
+
+  it('formats markdown tables sorted by cost', () => {
+    const report = formatUsageReport(summarizeUsage(entries));
+    expect(report).toContain('**Total:** $2.55 · 12,510 tokens');
+    expect(report).toContain('| User | Cost | Tokens |\n|:--|--:|--:|\n| @bob | $2.00 | 6,200 |\n| @alice | $0.55 | 6,310 |');
+    expect(report).toContain('| `api` | $2.00 | 6,200 |');
+    expect(report).toContain('| Fix login | $0.55 | 6,310 |');
+    expect(report).toContain('| `thread-2` | $2.00 | 6,200 |');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Usage log
+ *
+ * Cost and token usage of every Claude turn is appended as JSON lines to
+ * ~/.config/claude-threads/usage.jsonl, one line per model used in the turn.
+ * Unlike the session usage stats, the log outlives sessions and restarts; it
+ * is summarized by the `!usage` command and the `claude-threads usage` CLI
+ * subcommand, per user, model, repository and session.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
+import { formatNumber, truncate } from '../utils/format.js';
+
+export const USAGE_LOG_PATH = join(homedir(), '.config', 'claude-threads', 'usage.jsonl');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UsageEntry {
+  /** ISO timestamp of the turn's result */
+  timestamp: string;
+  platform: string;
+  threadId: string;
+  /** Claude session ID (changes when the working directory changes) */
+  sessionId: string;
+  /** Session title at the time, if known */
+  sessionTitle?: string;
+  /** Session owner, who the usage is accounted to */
+  user: string;
+  model: string;
+  /** Repository root (or working directory outside git worktrees) */
+  repository: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUSD: number;
+}
+
+/**
+ * Report periods: since local midnight, since Monday, since the 1st of the month
+ */
+export type UsagePeriod = 'today' | 'week' | 'month' | 'all';
+
+export const USAGE_PERIODS: UsagePeriod[] = ['today', 'week', 'month', 'all'];
+
+export interface UsageFilter {
+  user?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface UsageTotals {
+  costUSD: number;
+  /** Input, output and cache tokens */
+  tokens: number;
+  /** Number of entries (turns per model) */
+  turns: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byUser: Map<string, UsageTotals>;
+  byModel: Map<string, UsageTotals>;
+  byRepository: Map<string, UsageTotals>;
+  /** Keyed by thread ID */
+  bySession: Map<string, UsageTotals & { title?: string }>;
+}
+
+// =============================================================================
+// Writing and reading
+// =============================================================================
+
+export function appendUsageEntries(entries: UsageEntry[], path: string = USAGE_LOG_PATH): void {
+  if (entries.length === 0) return;
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  appendFileSync(path, entries.map(e => JSON.stringify(e) + '\n').join(''), 'utf-8');
+}
+
+/**
+ * Read all usage entries; malformed lines are skipped
+ */
+export function readUsageLog(path: string = USAGE_LOG_PATH): UsageEntry[] {
+  if (!existsSync(path)) return [];
+  const entries: UsageEntry[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as UsageEntry;
+      if (typeof entry.timestamp === 'string' && typeof entry.costUSD === 'number') {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip lines from interrupted writes
+    }
+  }
+  return entries;
+}
+
+// =============================================================================
+// Querying
+// =============================================================================
+
+/**
+ * Start of a report period in local time (undefined for `all`)
+ */
+export function getPeriodStart(period: UsagePeriod, now: Date = new Date()): Date | undefined {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (period) {
+    case 'today':
+      return start;
+    case 'week':
+      // Weeks start on Monday
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return start;
+    case 'month':
+      start.setDate(1);
+      return start;
+    case 'all':
+      return undefined;
+  }
+}
+
+/**
+ * Parse the words of `!usage`: a period and/or `@user`, in any order.
+ * Returns null if a word is not understood.
+ */
+export function parseUsageQuery(text: string): { period: UsagePeriod; user?: string } | null {
+  const query: { period: UsagePeriod; user?: string } = { period: 'today' };
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const lower = word.toLowerCase();
+    if (word.startsWith('@') && word.length > 1) {
+      query.user = word.substring(1);
+    } else if ((USAGE_PERIODS as string[]).includes(lower)) {
+      query.period = lower as UsagePeriod;
+    } else {
+      return null;
+    }
+  }
+  return query;
+}
+
+export function queryUsageLog(entries: UsageEntry[], filter: UsageFilter): UsageEntry[] {
+  return entries.filter(entry => {
+    if (filter.user && entry.user !== filter.user) return false;
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    return true;
+  });
+}
+
+function emptyTotals(): UsageTotals {
+  return { costUSD: 0, tokens: 0, turns: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageEntry): void {
+  totals.costUSD += entry.costUSD;
+  totals.tokens += entry.inputTokens + entry.outputTokens + entry.cacheReadTokens + entry.cacheCreationTokens;
+  totals.turns += 1;
+}
+
+function addTo(map: Map<string, UsageTotals & { title?: string }>, key: string, entry: UsageEntry): UsageTotals & { title?: string } {
+  const totals = map.get(key) ?? emptyTotals();
+  addEntry(totals, entry);
+  map.set(key, totals);
+  return totals;
+}
+
+export function summarizeUsage(entries: UsageEntry[]): UsageSummary {
+  const summary: UsageSummary = {
+    total: emptyTotals(),
+    byUser: new Map(),
+    byModel: new Map(),
+    byRepository: new Map(),
+    bySession: new Map(),
+  };
+  for (const entry of entries) {
+    addEntry(summary.total, entry);
+    addTo(summary.byUser, entry.user, entry);
+    addTo(summary.byModel, entry.model, entry);
+    addTo(summary.byRepository, entry.repository, entry);
+    const session = addTo(summary.bySession, entry.threadId, entry);
+    if (entry.sessionTitle) session.title = entry.sessionTitle;
+  }
+  return summary;
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function formatCost(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/** Rows sorted by cost, most expensive first */
+function sortedRows<T extends UsageTotals>(map: Map<string, T>, limit: number): Array<[string, T]> {
+  return [...map.entries()].sort((a, b) => b[1].costUSD - a[1].costUSD).slice(0, limit);
+}
+
+function markdownTable(heading: string, rows: Array<[string, UsageTotals]>): string {
+  return [
+    `| ${heading} | Cost | Tokens |`,
+    '|:--|--:|--:|',
+    ...rows.map(([name, t]) => `| ${name.replace(/\|/g, '\\|')} | ${formatCost(t.costUSD)} | ${formatNumber(t.tokens)} |`),
+  ].join('\n');
+}
+
+/**
+ * Markdown report for posting in a thread
+ *
+ * @param limit - Rows per table
+ */
+export function formatUsageReport(summary: UsageSummary, limit = 10): string {
+  const sections = [
+    `**Total:** ${formatCost(summary.total.costUSD)} · ${formatNumber(summary.total.tokens)} tokens`,
+    markdownTable('User', sortedRows(summary.byUser, limit).map(([u, t]) => [`@${u}`, t])),
+    markdownTable('Model', sortedRows(summary.byModel, limit)),
+    markdownTable('Repository', sortedRows(summary.byRepository, limit).map(([r, t]) => [`\`${basename(r)}\``, t])),
+    markdownTable('Session', sortedRows(summary.bySession, limit).map(([threadId, t]) => [
+      t.title ? truncate(t.title, 50) : `\`${threadId.substring(0, 8)}\``,
+      t,
+    ])),
+  ];
+  return sections.join('\n\n');
+}
+
+function textTable(heading: string, rows: Array<[string, UsageTotals]>): string[] {
+  const width = Math.max(heading.length, ...rows.map(([name]) => name.length));
+  return [
+    `${heading.padEnd(width)}  ${'Cost'.padStart(10)}  ${'Tokens'.padStart(14)}`,
+    ...rows.map(([name, t]) =>
+      `${name.padEnd(width)}  ${formatCost(t.costUSD).padStart(10)}  ${formatNumber(t.tokens).padStart(14)}`
+    ),
+  ];
+}
+
+/**
+ * Plain-text report for the terminal
+ */
+export function formatUsageText(summary: UsageSummary, limit = 20): string {
+  const sections = [
+    [`Total: ${formatCost(summary.total.costUSD)}, ${formatNumber(summary.total.tokens)} tokens`],
+    textTable('User', sortedRows(summary.byUser, limit)),
+    textTable('Model', sortedRows(summary.byModel, limit)),
+    textTable('Repository', sortedRows(summary.byRepository, limit)),
+    textTable('Session', sortedRows(summary.bySession, limit).map(([threadId, t]) => [
+      `${threadId.substring(0, 8)}${t.title ? `  ${truncate(t.title, 40)}` : ''}`,
+      t,
+    ])),
+  ];
+  return sections.map(lines => lines.join('\n')).join('\n\n');
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'bun:test';
+import { createPlatformClient } from './client-factory.js';
+import { MattermostClient } from './mattermost/client.js';
+import { SlackClient } from './slack/client.js';
+import { DiscordClient } from './discord/client.js';
+import type { PlatformInstanceConfig } from '../config/migration.js';
+
+const base = {
+  displayName: 'Test',
+  channelId: 'C1',
+  botName: 'claude',
+  allowedUsers: [],
+  skipPermissions: false,
+};
+
+describe('createPlatformClient', () => {
+  it('creates a client matching the platform type', () => {
+    const mattermost = createPlatformClient({ ...base, id: 'mm', type: 'mattermost', url: 'https://chat.example.com', token: 't' });
+    const slack = createPlatformClient({ ...base, id: 'sl', type: 'slack', botToken: 'xoxb', appToken: 'xapp' });
+    const discord = createPlatformClient({ ...base, id: 'dc', type: 'discord', token: 't' });
+
+    expect(mattermost).toBeInstanceOf(MattermostClient);
+    expect(slack).toBeInstanceOf(SlackClient);
+    expect(discord).toBeInstanceOf(DiscordClient);
+    expect([mattermost.platformId, slack.platformId, discord.platformId]).toEqual(['mm', 'sl', 'dc']);
+  });
+
+  it('throws for unknown platform types', () => {
+    const config = { ...base, id: 'x', type: 'irc' } as unknown as PlatformInstanceConfig;
+    expect(() => createPlatformClient(config)).toThrow('Unsupported platform type: irc');
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Platform Client Factory
+ *
+ * Creates platform-specific client implementations from a platform config entry.
+ * This isolates platform selection logic to the platform layer.
+ */
+
+import type { PlatformClient } from './client.js';
+import type {
+  PlatformInstanceConfig,
+  MattermostPlatformConfig,
+  SlackPlatformConfig,
+  DiscordPlatformConfig,
+} from '../config/migration.js';
+import { MattermostClient } from './mattermost/client.js';
+import { SlackClient } from './slack/client.js';
+import { DiscordClient } from './discord/client.js';
+
+/**
+ * Create a platform client for a configured platform instance
+ */
+export function createPlatformClient(config: PlatformInstanceConfig): PlatformClient {
+  switch (config.type) {
+    case 'mattermost':
+      return new MattermostClient(config as MattermostPlatformConfig);
+    case 'slack':
+      return new SlackClient(config as SlackPlatformConfig);
+    case 'discord':
+      return new DiscordClient(config as DiscordPlatformConfig);
+    default:
+      throw new Error(`Unsupported platform type: ${(config as { type: string }).type}`);
+  }
+}
@@ -22,12 +22,16 @@ export interface PlatformClientEvents {
   reaction_removed: (reaction: PlatformReaction, user: PlatformUser | null) => void;
   /** Emitted when someone posts at channel level (not in a thread) */
   channel_post: (post: PlatformPost, user: PlatformUser | null) => void;
+  /** Emitted when a user edits a post; the post carries the new message */
+  post_edited: (post: PlatformPost, user: PlatformUser | null) => void;
+  /** Emitted when a user's post is deleted (message and author may be empty) */
+  post_deleted: (post: PlatformPost) => void;
 }
 
 /**
  * Platform-agnostic client interface
  *
- * All platform implementations (Mattermost, Slack) must implement this interface.
+ * All platform implementations (Mattermost, Slack, Discord) must implement this interface.
  * This allows SessionManager and other code to work with any platform without
  * knowing the specific implementation details.
  */
@@ -102,7 +106,13 @@ export interface PlatformClient extends EventEmitter {
   /**
    * Get platform config for MCP permission server
    */
-  getMcpConfig(): { type: string; url: string; token: string; channelId: string; allowedUsers: string[] };
+  getMcpConfig(): { type: string; url: string; token: string; channelId: string; allowedUsers: string[]; platformId?: string };
+
+  /**
+   * Get a link to a thread (its root post) for use in posts, e.g. to link
+   * a forked session to its parent
+   */
+  getThreadLink(threadId: string): string;
 
   /**
    * Get the platform-specific markdown formatter
@@ -230,6 +240,17 @@ export interface PlatformClient extends EventEmitter {
    */
   sendTyping(threadId?: string): void;
 
+  // ============================================================================
+  // Limits (Optional)
+  // ============================================================================
+
+  /**
+   * Get the message length limits for this platform.
+   * Streaming splits posts before `hardThreshold` and never exceeds `maxLength`.
+   * Defaults to ~16K characters when not implemented.
+   */
+  getMessageLimits?(): { maxLength: number; hardThreshold: number };
+
   // ============================================================================
   // Files (Optional - may not be supported by all platforms)
   // ============================================================================
@@ -248,6 +269,17 @@ export interface PlatformClient extends EventEmitter {
    */
   getFileInfo?(fileId: string): Promise<PlatformFile>;
 
+  /**
+   * Upload a file as an attachment in a thread
+   * @param threadId - Thread to post the file in
+   * @param name - File name shown to users
+   * @param data - File contents
+   * @param mimeType - MIME type (e.g., 'text/markdown')
+   * @param message - Optional text posted with the file
+   * @returns The post carrying the attachment
+   */
+  uploadFile?(threadId: string, name: string, data: Buffer, mimeType: string, message?: string): Promise<PlatformPost>;
+
   // ============================================================================
   // Event Emitter Methods (inherited from EventEmitter)
   // ============================================================================
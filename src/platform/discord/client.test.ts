@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import type { Server, ServerWebSocket } from 'bun';
+import { DiscordClient } from './client.js';
+import { DiscordChannelType } from './types.js';
+import type { DiscordPlatformConfig } from '../../config/migration.js';
+import type { PlatformPost, PlatformReaction, PlatformUser } from '../index.js';
+
+/**
+ * Minimal fake of the Discord REST API + Gateway, served locally.
+ */
+interface FakeDiscord {
+  server: Server<unknown>;
+  calls: Array<{ method: string; path: string; body: unknown }>;
+  gatewayOps: number[];
+  dispatch: (t: string, d: unknown) => void;
+}
+
+const BOT = { id: '100', username: 'claude', discriminator: '0', bot: true };
+const ALICE = { id: '200', username: 'alice', discriminator: '0', global_name: 'Alice' };
+const BOB = { id: '300', username: 'bob', discriminator: '0' };
+
+function apiMessage(overrides: Record<string, unknown>) {
+  return {
+    id: '1000',
+    channel_id: 'C1',
+    author: ALICE,
+    content: '',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    tts: false,
+    mention_everyone: false,
+    mentions: [],
+    attachments: [],
+    embeds: [],
+    ...overrides,
+  };
+}
+
+function startFakeDiscord(channelType = DiscordChannelType.GuildText): FakeDiscord {
+  const calls: FakeDiscord['calls'] = [];
+  const gatewayOps: number[] = [];
+  let socket: ServerWebSocket<unknown> | null = null;
+  let idCounter = 5000;
+  const threads = new Map<string, string>(); // thread id → parent
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req, srv) {
+      const url = new URL(req.url);
+      if (url.pathname === '/gateway/') {
+        return srv.upgrade(req) ? undefined : new Response('upgrade failed', { status: 400 });
+      }
+
+      const path = url.pathname.replace(/^\/api/, '') + url.search;
+      const body = req.method === 'GET' || req.method === 'DELETE' || req.method === 'PUT'
+        ? undefined
+        : await req.json().catch(() => undefined);
+      calls.push({ method: req.method, path, body });
+
+      let match: RegExpMatchArray | null;
+      if (path === '/users/@me') return Response.json(BOT);
+      if (path === '/gateway/bot') return Response.json({ url: `ws://localhost:${srv.port}/gateway` });
+      if (path === '/channels/C1') {
+        return Response.json({ id: 'C1', type: channelType, guild_id: 'G1' });
+      }
+      if ((match = path.match(/^\/channels\/C1\/messages\/(\d+)\/threads$/))) {
+        threads.set(match[1], 'C1');
+        return Response.json({ id: match[1], type: DiscordChannelType.PublicThread, parent_id: 'C1', guild_id: 'G1' });
+      }
+      if (path === '/channels/C1/threads' && req.method === 'POST') {
+        const id = String(idCounter++);
+        threads.set(id, 'C1');
+        const content = (body as { message: { content: string } }).message.content;
+        return Response.json({
+          id,
+          type: DiscordChannelType.PublicThread,
+          parent_id: 'C1',
+          message: apiMessage({ id, channel_id: id, author: BOT, content }),
+        });
+      }
+      if ((match = path.match(/^\/channels\/(\d+)$/))) {
+        const parent = threads.get(match[1]);
+        return parent
+          ? Response.json({ id: match[1], type: DiscordChannelType.PublicThread, parent_id: parent })
+          : Response.json({ message: 'Unknown Channel', code: 10003 }, { status: 404 });
+      }
+      if ((match = path.match(/^\/channels\/(\w+)\/messages$/)) && req.method === 'POST') {
+        return Response.json(apiMessage({
+          id: String(idCounter++),
+          channel_id: match[1],
+          author: BOT,
+          content: (body as { content: string }).content,
+        }));
+      }
+      if (path.startsWith('/guilds/G1/members/search')) {
+        return Response.json([{ user: BOB }]);
+      }
+      if (path.includes('/reactions/') || path.includes('/pins/') || path.endsWith('/typing')) {
+        return new Response(null, { status: 204 });
+      }
+      return Response.json({ message: 'Not Found', code: 0 }, { status: 404 });
+    },
+    websocket: {
+      open(ws) {
+        socket = ws;
+        ws.send(JSON.stringify({ op: 10, d: { heartbeat_interval: 45000 } }));
+      },
+      message(ws, message) {
+        const payload = JSON.parse(String(message));
+        gatewayOps.push(payload.op);
+        if (payload.op === 2) {
+          ws.send(JSON.stringify({
+            op: 0,
+            s: 1,
+            t: 'READY',
+            d: { session_id: 'sess', resume_gateway_url: `ws://localhost:${server.port}/gateway`, user: BOT },
+          }));
+        }
+      },
+    },
+  });
+
+  let seq = 2;
+  return {
+    server,
+    calls,
+    gatewayOps,
+    dispatch: (t, d) => socket?.send(JSON.stringify({ op: 0, s: seq++, t, d })),
+  };
+}
+
+function createConfig(port: number): DiscordPlatformConfig {
+  return {
+    id: 'discord-test',
+    type: 'discord',
+    displayName: 'Test Discord',
+    token: 'bot-token',
+    apiUrl: `http://localhost:${port}/api`,
+    channelId: 'C1',
+    botName: 'claude',
+    allowedUsers: ['alice'],
+    skipPermissions: false,
+  };
+}
+
+function waitFor<T>(client: DiscordClient, event: string): Promise<T[]> {
+  return new Promise((resolve) => {
+    client.once(event, (...args: unknown[]) => resolve(args as T[]));
+  });
+}
+
+describe('DiscordClient', () => {
+  let fake: FakeDiscord;
+  let client: DiscordClient;
+
+  beforeEach(async () => {
+    fake = startFakeDiscord();
+    client = new DiscordClient(createConfig(fake.server.port as number));
+    await client.connect();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    fake.server.stop(true);
+  });
+
+  it('identifies on the gateway with the bot token', () => {
+    expect(fake.gatewayOps).toContain(2);
+  });
+
+  it('links threads through the guild of the channel', () => {
+    expect(client.getThreadLink('T9')).toBe('https://discord.com/channels/G1/T9');
+  });
+
+  it('treats channel messages as thread roots and normalizes mentions', async () => {
+    const received = waitFor<PlatformPost | PlatformUser>(client, 'message');
+
+    fake.dispatch('MESSAGE_CREATE', apiMessage({
+      id: '1001',
+      content: '<@100> invite <@!300> please',
+      mentions: [BOT, BOB],
+      attachments: [{ id: 'A1', filename: 'log.txt', size: 12, url: 'https://cdn/log.txt', proxy_url: 'https://p/log.txt', content_type: 'text/plain' }],
+    }));
+
+    const [post, user] = await received as [PlatformPost, PlatformUser];
+    expect(post.id).toBe('1001');
+    expect(post.rootId).toBeUndefined();
+    expect(post.message).toBe('@claude invite @bob please');
+    expect(post.metadata?.files?.[0]).toEqual({
+      id: 'A1',
+      name: 'log.txt',
+      size: 12,
+      mimeType: 'text/plain',
+      extension: 'txt',
+    });
+    expect(user.username).toBe('alice');
+    expect(client.isBotMentioned(post.message)).toBe(true);
+  });
+
+  it('starts a thread from the root message on first reply', async () => {
+    const received = waitFor<PlatformPost>(client, 'message');
+    fake.dispatch('MESSAGE_CREATE', apiMessage({ id: '1002', content: '@claude fix the flaky test' }));
+    await received;
+
+    const reply = await client.createPost('On it', '1002');
+
+    const threadCall = fake.calls.find((c) => c.path === '/channels/C1/messages/1002/threads');
+    expect(threadCall?.body).toEqual({ name: '@claude fix the flaky test', auto_archive_duration: 1440 });
+    expect(fake.calls.at(-1)?.path).toBe('/channels/1002/messages');
+    expect(reply.rootId).toBe('1002');
+  });
+
+  it('maps replies inside threads to the thread root', async () => {
+    await client.createPost('Session started', '1003');
+
+    const received = waitFor<PlatformPost>(client, 'message');
+    fake.dispatch('MESSAGE_CREATE', apiMessage({ id: '1004', channel_id: '1003', content: 'follow up' }));
+
+    const [post] = await received;
+    expect(post.rootId).toBe('1003');
+  });
+
+  it('ignores messages in unrelated channels and from bots', async () => {
+    let count = 0;
+    client.on('message', () => count++);
+
+    fake.dispatch('MESSAGE_CREATE', apiMessage({ id: '1005', channel_id: '999', content: 'elsewhere' }));
+    fake.dispatch('MESSAGE_CREATE', apiMessage({ id: '1006', author: BOT, content: 'echo' }));
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(count).toBe(0);
+  });
+
+  it('translates unicode reactions to emoji names', async () => {
+    const received = waitFor<PlatformReaction>(client, 'reaction');
+
+    fake.dispatch('MESSAGE_REACTION_ADD', {
+      user_id: '200',
+      channel_id: 'C1',
+      message_id: '1001',
+      emoji: { id: null, name: '👍' },
+    });
+
+    const [reaction] = await received;
+    expect(reaction).toEqual({ userId: '200', postId: '1001', emojiName: '+1' });
+  });
+
+  it('emits edited messages in threads', async () => {
+    await client.createPost('Session started', '1003');
+
+    const received = waitFor<PlatformPost | PlatformUser>(client, 'post_edited');
+    fake.dispatch('MESSAGE_UPDATE', apiMessage({ id: '1010', channel_id: '1003', content: 'edited <@100>', mentions: [BOT] }));
+
+    const [post, user] = await received as [PlatformPost, PlatformUser];
+    expect(post.id).toBe('1010');
+    expect(post.rootId).toBe('1003');
+    expect(post.message).toBe('edited @claude');
+    expect(user.username).toBe('alice');
+  });
+
+  it('ignores message updates without content (embeds)', async () => {
+    let count = 0;
+    client.on('post_edited', () => count++);
+
+    fake.dispatch('MESSAGE_UPDATE', { id: '1011', channel_id: 'C1', embeds: [] });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(count).toBe(0);
+  });
+
+  it('emits deleted messages with their thread', async () => {
+    await client.createPost('Session started', '1003');
+
+    const received = waitFor<PlatformPost>(client, 'post_deleted');
+    fake.dispatch('MESSAGE_DELETE', { id: '1012', channel_id: '1003' });
+
+    const [post] = await received;
+    expect(post.id).toBe('1012');
+    expect(post.rootId).toBe('1003');
+  });
+
+  it('adds reactions using unicode on the message channel', async () => {
+    const post = await client.createPost('Approve?', '1007');
+    await client.addReaction(post.id, 'white_check_mark');
+
+    const call = fake.calls.at(-1);
+    expect(call?.method).toBe('PUT');
+    expect(call?.path).toBe(`/channels/1007/messages/${post.id}/reactions/${encodeURIComponent('✅')}/@me`);
+  });
+
+  it('looks up users by username via guild member search', async () => {
+    const user = await client.getUserByUsername('bob');
+    expect(user?.id).toBe('300');
+  });
+
+  it('reports Discord message limits', () => {
+    expect(client.getMessageLimits().maxLength).toBe(2000);
+  });
+});
+
+describe('DiscordClient in a forum channel', () => {
+  it('creates a forum post for top-level messages', async () => {
+    const fake = startFakeDiscord(DiscordChannelType.GuildForum);
+    const client = new DiscordClient(createConfig(fake.server.port as number));
+    try {
+      await client.connect();
+      const post = await client.createPost('**Sticky** status\nmore');
+
+      const call = fake.calls.find((c) => c.path === '/channels/C1/threads');
+      expect(call?.body).toEqual({ name: 'Sticky status', message: { content: '**Sticky** status\nmore' } });
+      expect(post.rootId).toBeUndefined();
+    } finally {
+      client.disconnect();
+      fake.server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,985 @@
+// Native WebSocket - no import needed in Bun
+import { EventEmitter } from 'events';
+import type { DiscordPlatformConfig } from '../../config/migration.js';
+import { wsLogger, createLogger } from '../../utils/logger.js';
+
+const log = createLogger('discord');
+import {
+  DiscordChannelType,
+  type DiscordMessage,
+  type DiscordUser,
+  type DiscordAttachment,
+  type DiscordReactionEvent,
+  type DiscordThread,
+  type DiscordApiMessage,
+  type DiscordApiUser,
+  type DiscordApiChannel,
+  type DiscordApiReactionEvent,
+  type DiscordApiMessageDeleteEvent,
+  type DiscordApiGuildMember,
+  type DiscordGatewayPayload,
+  type DiscordReadyEvent,
+  type CreateMessageRequest,
+  type EditMessageRequest,
+} from './types.js';
+import type {
+  PlatformClient,
+  PlatformUser,
+  PlatformPost,
+  PlatformReaction,
+  PlatformFile,
+  ThreadMessage,
+} from '../index.js';
+import type { PlatformFormatter } from '../formatter.js';
+import { DiscordFormatter } from './formatter.js';
+import { emojiNameToDiscord, discordEmojiToName } from './emoji.js';
+
+export const DEFAULT_DISCORD_API_URL = 'https://discord.com/api/v10';
+
+// Discord rejects messages longer than 2000 characters
+const DISCORD_MAX_MESSAGE_LENGTH = 2000;
+
+// Gateway opcodes we handle
+// See: https://discord.com/developers/docs/topics/opcodes-and-status-codes
+const GatewayOp = {
+  Dispatch: 0,
+  Heartbeat: 1,
+  Identify: 2,
+  Resume: 6,
+  Reconnect: 7,
+  InvalidSession: 9,
+  Hello: 10,
+  HeartbeatAck: 11,
+} as const;
+
+// GUILDS | GUILD_MESSAGES | GUILD_MESSAGE_REACTIONS | MESSAGE_CONTENT (privileged)
+const GATEWAY_INTENTS = (1 << 0) | (1 << 9) | (1 << 10) | (1 << 15);
+
+// Close codes after which reconnecting is pointless (bad token, missing intents, ...)
+const FATAL_CLOSE_CODES = new Set([4004, 4010, 4011, 4012, 4013, 4014]);
+
+// Thread channel types
+const THREAD_TYPES = new Set([
+  DiscordChannelType.AnnouncementThread,
+  DiscordChannelType.PublicThread,
+  DiscordChannelType.PrivateThread,
+]);
+
+// Escape special regex characters to prevent regex injection
+function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Discord error codes surfaced in REST error bodies
+const THREAD_ALREADY_CREATED = 160004;
+
+/**
+ * Error from the Discord REST API, keeping the JSON error code for callers
+ */
+class DiscordApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number | undefined,
+    body: string
+  ) {
+    super(`Discord API error ${status}: ${body}`);
+  }
+}
+
+export class DiscordClient extends EventEmitter implements PlatformClient {
+  // Platform identity (required by PlatformClient)
+  readonly platformId: string;
+  readonly platformType = 'discord' as const;
+  readonly displayName: string;
+
+  private ws: WebSocket | null = null;
+  private apiUrl: string;
+  private token: string;
+  private channelId: string;
+  private guildId: string | null;
+  private channelType: DiscordChannelType = DiscordChannelType.GuildText;
+  private botName: string;
+  private allowedUsers: string[];
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 10;
+  private reconnectDelay = 1000;
+  private userCache: Map<string, DiscordUser> = new Map();
+  private botUserId: string | null = null;
+  private readonly formatter = new DiscordFormatter();
+
+  // Discord addresses messages by channel + message ID; the platform API only
+  // passes message IDs around, so remember which channel each message lives in.
+  private messageChannels: Map<string, string> = new Map();
+  // Thread channel ID → parent channel ID (null when not one of ours)
+  private threadParents: Map<string, string | null> = new Map();
+  // Root message ID → text used to name the thread when we create it
+  private pendingThreadNames: Map<string, string> = new Map();
+  // Attachment ID → attachment (downloads go straight to the CDN URL)
+  private attachments: Map<string, DiscordAttachment> = new Map();
+
+  // Gateway session state (for resuming after disconnects)
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private heartbeatAcked = true;
+  private sequence: number | null = null;
+  private sessionId: string | null = null;
+  private resumeGatewayUrl: string | null = null;
+  private isIntentionalDisconnect = false;
+
+  constructor(platformConfig: DiscordPlatformConfig) {
+    super();
+    this.platformId = platformConfig.id;
+    this.displayName = platformConfig.displayName;
+    this.apiUrl = (platformConfig.apiUrl || DEFAULT_DISCORD_API_URL).replace(/\/+$/, '');
+    this.token = platformConfig.token;
+    this.channelId = platformConfig.channelId;
+    this.guildId = platformConfig.guildId || null;
+    this.botName = platformConfig.botName;
+    this.allowedUsers = platformConfig.allowedUsers;
+  }
+
+  // ============================================================================
+  // Type Conversion (API payload → Discord types → Platform)
+  // ============================================================================
+
+  private toDiscordUser(user: DiscordApiUser): DiscordUser {
+    return {
+      id: user.id,
+      username: user.username,
+      discriminator: user.discriminator,
+      globalName: user.global_name,
+      bot: user.bot,
+      avatar: user.avatar,
+    };
+  }
+
+  private toDiscordMessage(message: DiscordApiMessage): DiscordMessage {
+    return {
+      id: message.id,
+      channelId: message.channel_id,
+      guildId: message.guild_id,
+      author: this.toDiscordUser(message.author),
+      content: message.content,
+      timestamp: message.timestamp,
+      editedTimestamp: message.edited_timestamp,
+      tts: message.tts,
+      mentionEveryone: message.mention_everyone,
+      mentions: (message.mentions || []).map((u) => this.toDiscordUser(u)),
+      attachments: (message.attachments || []).map((a) => ({
+        id: a.id,
+        filename: a.filename,
+        size: a.size,
+        url: a.url,
+        proxyUrl: a.proxy_url,
+        contentType: a.content_type,
+        width: a.width ?? undefined,
+        height: a.height ?? undefined,
+      })),
+      embeds: message.embeds || [],
+      reactions: message.reactions,
+      reference: message.message_reference
+        ? {
+            messageId: message.message_reference.message_id,
+            channelId: message.message_reference.channel_id,
+            guildId: message.message_reference.guild_id,
+          }
+        : undefined,
+    };
+  }
+
+  private toDiscordThread(channel: DiscordApiChannel): DiscordThread {
+    return {
+      id: channel.id,
+      type: channel.type,
+      guildId: channel.guild_id,
+      parentId: channel.parent_id ?? undefined,
+      name: channel.name,
+      ownerId: channel.owner_id,
+      messageCount: channel.message_count,
+      memberCount: channel.member_count,
+    };
+  }
+
+  private normalizePlatformUser(user: DiscordUser): PlatformUser {
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.globalName || user.username,
+    };
+  }
+
+  private normalizePlatformPost(message: DiscordMessage, text = message.content): PlatformPost {
+    const files = message.attachments.map((a) => this.normalizePlatformFile(a));
+
+    return {
+      id: message.id,
+      platformId: this.platformId,
+      channelId: message.channelId,
+      userId: message.author.id,
+      message: text,
+      rootId: this.getRootId(message),
+      createAt: Date.parse(message.timestamp),
+      metadata: files.length > 0 ? { files } : undefined,
+    };
+  }
+
+  private normalizePlatformReaction(event: DiscordReactionEvent): PlatformReaction {
+    return {
+      userId: event.userId,
+      postId: event.messageId,
+      emojiName: discordEmojiToName(event.emoji),
+    };
+  }
+
+  private normalizePlatformFile(attachment: DiscordAttachment): PlatformFile {
+    // Remember the CDN URL so downloadFile() can fetch it later
+    this.attachments.set(attachment.id, attachment);
+    const dot = attachment.filename.lastIndexOf('.');
+    return {
+      id: attachment.id,
+      name: attachment.filename,
+      size: attachment.size,
+      mimeType: attachment.contentType || 'application/octet-stream',
+      extension: dot >= 0 ? attachment.filename.slice(dot + 1) : undefined,
+    };
+  }
+
+  /**
+   * Map a Discord message onto the platform's root/reply model.
+   *
+   * - Message in the configured text channel → thread root (its ID becomes the thread ID
+   *   once we start a thread from it, which is how Discord assigns thread IDs)
+   * - Forum post starter message (ID === thread channel ID) → thread root
+   * - Any other message in a thread → reply, rooted at the thread channel
+   */
+  private getRootId(message: Pick<DiscordMessage, 'id' | 'channelId'>): string | undefined {
+    if (message.channelId === this.channelId) return undefined;
+    if (message.id === message.channelId) return undefined;
+    return message.channelId;
+  }
+
+  /**
+   * Replace <@id> mentions with @username so commands like !invite work unchanged.
+   */
+  private normalizeMessageText(message: DiscordMessage): string {
+    let text = message.content;
+    for (const user of message.mentions) {
+      const name = user.id === this.botUserId ? this.botName : user.username;
+      text = text.replace(new RegExp(`<@!?${user.id}>`, 'g'), `@${name}`);
+    }
+    return text;
+  }
+
+  // REST API helper
+  private async api<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const url = `${this.apiUrl}${path}`;
+
+    // Retry a couple of times when rate limited
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bot ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (response.status === 429 && attempt < 3) {
+        const data = (await response.json().catch(() => ({}))) as { retry_after?: number };
+        const retryAfter = data.retry_after ?? 1;
+        log.debug(`Rate limited on ${method} ${path}, retrying in ${retryAfter}s`);
+        await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+        continue;
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+        let code: number | undefined;
+        try {
+          code = (JSON.parse(text) as { code?: number }).code;
+        } catch {
+          // Not JSON
+        }
+        throw new DiscordApiError(response.status, code, text);
+      }
+
+      // 204 No Content (reactions, pins, typing)
+      if (response.status === 204) {
+        return undefined as T;
+      }
+      return response.json() as Promise<T>;
+    }
+  }
+
+  private channelFor(messageId: string): string {
+    return this.messageChannels.get(messageId) ?? this.channelId;
+  }
+
+  /**
+   * Work out whether a channel is our channel, one of its threads, or unrelated.
+   */
+  private async resolveChannelScope(channelId: string): Promise<'channel' | 'thread' | null> {
+    if (channelId === this.channelId) return 'channel';
+
+    if (!this.threadParents.has(channelId)) {
+      try {
+        const channel = await this.api<DiscordApiChannel>('GET', `/channels/${channelId}`);
+        this.rememberThread(channel);
+      } catch {
+        this.threadParents.set(channelId, null);
+      }
+    }
+
+    return this.threadParents.get(channelId) === this.channelId ? 'thread' : null;
+  }
+
+  private rememberThread(channel: DiscordApiChannel): void {
+    const thread = this.toDiscordThread(channel);
+    const isThread = THREAD_TYPES.has(thread.type);
+    this.threadParents.set(thread.id, isThread ? thread.parentId ?? null : null);
+  }
+
+  /**
+   * Make sure a thread exists for a root message before posting into it.
+   * Forum posts are threads already; text channel messages get a thread on first reply.
+   */
+  private async ensureThread(threadId: string): Promise<void> {
+    if (this.threadParents.get(threadId) === this.channelId) return;
+
+    if (await this.resolveChannelScope(threadId) === 'thread') return;
+
+    const name = (this.pendingThreadNames.get(threadId) || 'Claude session')
+      .replace(/<@!?\d+>/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 100) || 'Claude session';
+
+    try {
+      const channel = await this.api<DiscordApiChannel>(
+        'POST',
+        `/channels/${this.channelId}/messages/${threadId}/threads`,
+        { name, auto_archive_duration: 1440 }
+      );
+      this.rememberThread(channel);
+    } catch (err) {
+      if (!(err instanceof DiscordApiError && err.code === THREAD_ALREADY_CREATED)) throw err;
+      this.threadParents.set(threadId, this.channelId);
+    }
+    this.pendingThreadNames.delete(threadId);
+  }
+
+  // Get current bot user info
+  async getBotUser(): Promise<PlatformUser> {
+    const user = this.toDiscordUser(await this.api<DiscordApiUser>('GET', '/users/@me'));
+    this.botUserId = user.id;
+    this.userCache.set(user.id, user);
+    return this.normalizePlatformUser(user);
+  }
+
+  // Get user by ID (cached)
+  async getUser(userId: string): Promise<PlatformUser | null> {
+    const cached = this.userCache.get(userId);
+    if (cached) {
+      return this.normalizePlatformUser(cached);
+    }
+    try {
+      const user = this.toDiscordUser(await this.api<DiscordApiUser>('GET', `/users/${userId}`));
+      this.userCache.set(userId, user);
+      return this.normalizePlatformUser(user);
+    } catch {
+      return null;
+    }
+  }
+
+  // Get user by username (searches guild members - there is no global lookup)
+  async getUserByUsername(username: string): Promise<PlatformUser | null> {
+    for (const user of this.userCache.values()) {
+      if (user.username === username) return this.normalizePlatformUser(user);
+    }
+
+    if (!this.guildId) return null;
+
+    try {
+      const members = await this.api<DiscordApiGuildMember[]>(
+        'GET',
+        `/guilds/${this.guildId}/members/search?query=${encodeURIComponent(username)}&limit=10`
+      );
+      const match = members.find((m) => m.user.username === username);
+      if (!match) return null;
+      const user = this.toDiscordUser(match.user);
+      this.userCache.set(user.id, user);
+      return this.normalizePlatformUser(user);
+    } catch {
+      return null;
+    }
+  }
+
+  // Post a message
+  async createPost(
+    message: string,
+    threadId?: string
+  ): Promise<PlatformPost> {
+    const content = message.slice(0, DISCORD_MAX_MESSAGE_LENGTH);
+
+    // Forum channels have no top-level messages - each post is a new thread
+    if (!threadId && this.channelType === DiscordChannelType.GuildForum) {
+      const firstLine = message.split('\n')[0].replace(/[*_`#]/g, '').trim().slice(0, 100);
+      const thread = await this.api<DiscordApiChannel & { message: DiscordApiMessage }>(
+        'POST',
+        `/channels/${this.channelId}/threads`,
+        { name: firstLine || 'Claude', message: { content } }
+      );
+      this.rememberThread(thread);
+      this.messageChannels.set(thread.message.id, thread.id);
+      return this.normalizePlatformPost(this.toDiscordMessage(thread.message), message);
+    }
+
+    let channelId = this.channelId;
+    if (threadId) {
+      await this.ensureThread(threadId);
+      channelId = threadId;
+    }
+
+    const request: CreateMessageRequest = {
+      content,
+      allowed_mentions: { parse: ['users'] },
+    };
+    const created = await this.api<DiscordApiMessage>('POST', `/channels/${channelId}/messages`, request);
+    this.messageChannels.set(created.id, channelId);
+    return this.normalizePlatformPost(this.toDiscordMessage(created), message);
+  }
+
+  // Update a message (for streaming updates)
+  async updatePost(postId: string, message: string): Promise<PlatformPost> {
+    const request: EditMessageRequest = {
+      content: message.slice(0, DISCORD_MAX_MESSAGE_LENGTH),
+    };
+    const updated = await this.api<DiscordApiMessage>(
+      'PATCH',
+      `/channels/${this.channelFor(postId)}/messages/${postId}`,
+      request
+    );
+    return this.normalizePlatformPost(this.toDiscordMessage(updated), message);
+  }
+
+  // Add a reaction to a post
+  async addReaction(postId: string, emojiName: string): Promise<void> {
+    const emoji = encodeURIComponent(emojiNameToDiscord(emojiName));
+    await this.api('PUT', `/channels/${this.channelFor(postId)}/messages/${postId}/reactions/${emoji}/@me`);
+  }
+
+  // Remove a reaction from a post
+  async removeReaction(postId: string, emojiName: string): Promise<void> {
+    const emoji = encodeURIComponent(emojiNameToDiscord(emojiName));
+    await this.api('DELETE', `/channels/${this.channelFor(postId)}/messages/${postId}/reactions/${emoji}/@me`);
+  }
+
+  /**
+   * Create a post with reaction options for user interaction
+   *
+   * @param message - Post message content
+   * @param reactions - Array of emoji names to add as reaction options
+   * @param threadId - Optional thread root ID
+   * @returns The created post
+   */
+  async createInteractivePost(
+    message: string,
+    reactions: string[],
+    threadId?: string
+  ): Promise<PlatformPost> {
+    const post = await this.createPost(message, threadId);
+
+    // Add each reaction option, continuing even if some fail
+    for (const emoji of reactions) {
+      try {
+        await this.addReaction(post.id, emoji);
+      } catch (err) {
+        log.warn(`Failed to add reaction ${emoji}: ${err}`);
+      }
+    }
+
+    return post;
+  }
+
+  // Download a file attachment (CDN URLs are pre-signed, no auth header needed)
+  async downloadFile(fileId: string): Promise<Buffer> {
+    const attachment = this.attachments.get(fileId);
+    if (!attachment) {
+      throw new Error(`Unknown attachment ${fileId}`);
+    }
+
+    const response = await fetch(attachment.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download file ${fileId}: ${response.status}`);
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  }
+
+  // Get file info (metadata) - only known for attachments we've seen
+  async getFileInfo(fileId: string): Promise<PlatformFile> {
+    const attachment = this.attachments.get(fileId);
+    if (!attachment) {
+      throw new Error(`Unknown attachment ${fileId}`);
+    }
+    return this.normalizePlatformFile(attachment);
+  }
+
+  // Get a post by ID (used to verify thread still exists on resume)
+  async getPost(postId: string): Promise<PlatformPost | null> {
+    // Try the known channel first, then the post as a forum starter (ID === thread ID)
+    const candidates = [...new Set([this.channelFor(postId), postId])];
+    for (const channelId of candidates) {
+      try {
+        const message = await this.api<DiscordApiMessage>('GET', `/channels/${channelId}/messages/${postId}`);
+        this.messageChannels.set(postId, channelId);
+        return this.normalizePlatformPost(this.toDiscordMessage(message));
+      } catch {
+        // Try next candidate
+      }
+    }
+    return null; // Message doesn't exist or was deleted
+  }
+
+  // Delete a post
+  async deletePost(postId: string): Promise<void> {
+    await this.api('DELETE', `/channels/${this.channelFor(postId)}/messages/${postId}`);
+    this.messageChannels.delete(postId);
+  }
+
+  // Pin a post to its channel
+  async pinPost(postId: string): Promise<void> {
+    await this.api('PUT', `/channels/${this.channelFor(postId)}/pins/${postId}`);
+  }
+
+  // Unpin a post from its channel
+  async unpinPost(postId: string): Promise<void> {
+    await this.api('DELETE', `/channels/${this.channelFor(postId)}/pins/${postId}`);
+  }
+
+  // Get all pinned posts in the channel
+  async getPinnedPosts(): Promise<string[]> {
+    try {
+      const messages = await this.api<DiscordApiMessage[]>('GET', `/channels/${this.channelId}/pins`);
+      for (const message of messages) {
+        this.messageChannels.set(message.id, this.channelId);
+      }
+      return messages.map((m) => m.id);
+    } catch (err) {
+      // Forum channels have no pins
+      log.debug(`Failed to get pinned posts: ${err}`);
+      return [];
+    }
+  }
+
+  // Get thread history for context retrieval
+  async getThreadHistory(
+    threadId: string,
+    options?: { limit?: number; excludeBotMessages?: boolean }
+  ): Promise<ThreadMessage[]> {
+    try {
+      const raw: DiscordApiMessage[] = [];
+
+      // For text channel threads the root message lives in the parent channel
+      if (this.channelFor(threadId) === this.channelId && this.channelType !== DiscordChannelType.GuildForum) {
+        try {
+          raw.push(await this.api<DiscordApiMessage>('GET', `/channels/${this.channelId}/messages/${threadId}`));
+        } catch {
+          // Root may have been deleted
+        }
+      }
+
+      if (await this.resolveChannelScope(threadId) === 'thread') {
+        raw.push(...await this.api<DiscordApiMessage[]>('GET', `/channels/${threadId}/messages?limit=100`));
+      }
+
+      const messages: ThreadMessage[] = [];
+      const seen = new Set<string>();
+      for (const apiMessage of raw) {
+        if (seen.has(apiMessage.id)) continue;
+        seen.add(apiMessage.id);
+
+        const message = this.toDiscordMessage(apiMessage);
+
+        // Skip bot messages if requested
+        if (options?.excludeBotMessages && (message.author.id === this.botUserId || message.author.bot)) {
+          continue;
+        }
+
+        messages.push({
+          id: message.id,
+          userId: message.author.id,
+          username: message.author.username,
+          message: this.normalizeMessageText(message),
+          createAt: Date.parse(message.timestamp),
+        });
+      }
+
+      // Sort by createAt (oldest first)
+      messages.sort((a, b) => a.createAt - b.createAt);
+
+      // Apply limit if specified (return most recent N messages)
+      if (options?.limit && messages.length > options.limit) {
+        return messages.slice(-options.limit);
+      }
+
+      return messages;
+    } catch (err) {
+      log.warn(`Failed to get thread history for ${threadId}: ${err}`);
+      return [];
+    }
+  }
+
+  // Connect to the Gateway
+  async connect(): Promise<void> {
+    // Get bot user first
+    await this.getBotUser();
+    wsLogger.debug(`Bot user ID: ${this.botUserId}`);
+
+    // Learn whether we're listening in a text or forum channel (and the guild)
+    const channel = await this.api<DiscordApiChannel>('GET', `/channels/${this.channelId}`);
+    this.channelType = channel.type;
+    this.guildId = this.guildId || channel.guild_id || null;
+
+    const baseUrl = this.resumeGatewayUrl
+      ?? (await this.api<{ url: string }>('GET', '/gateway/bot')).url;
+    const wsUrl = `${baseUrl.replace(/\/+$/, '')}/?v=10&encoding=json`;
+
+    return new Promise((resolve, reject) => {
+      this.isIntentionalDisconnect = false;
+      this.ws = new WebSocket(wsUrl);
+
+      this.ws.onopen = () => {
+        wsLogger.debug('Gateway connected, waiting for hello');
+      };
+
+      this.ws.onmessage = (event) => {
+        try {
+          const data = typeof event.data === 'string' ? event.data : event.data.toString();
+          const payload = JSON.parse(data) as DiscordGatewayPayload;
+          if (payload.s !== null && payload.s !== undefined) this.sequence = payload.s;
+
+          switch (payload.op) {
+            case GatewayOp.Hello:
+              this.startHeartbeat((payload.d as { heartbeat_interval: number }).heartbeat_interval);
+              this.identifyOrResume();
+              break;
+
+            case GatewayOp.HeartbeatAck:
+              this.heartbeatAcked = true;
+              break;
+
+            case GatewayOp.Heartbeat:
+              this.sendHeartbeat();
+              break;
+
+            case GatewayOp.Reconnect:
+              wsLogger.debug('Gateway requested reconnect');
+              this.ws?.close(4000);
+              break;
+
+            case GatewayOp.InvalidSession:
+              // d === true means the session can still be resumed
+              if (!payload.d) {
+                this.sessionId = null;
+                this.sequence = null;
+                this.resumeGatewayUrl = null;
+              }
+              this.ws?.close(4000);
+              break;
+
+            case GatewayOp.Dispatch:
+              if (payload.t === 'READY') {
+                const ready = payload.d as DiscordReadyEvent;
+                this.sessionId = ready.session_id;
+                this.resumeGatewayUrl = ready.resume_gateway_url;
+              }
+              if (payload.t === 'READY' || payload.t === 'RESUMED') {
+                this.reconnectAttempts = 0;
+                this.emit('connected');
+                resolve();
+                return;
+              }
+              this.handleDispatch(payload.t ?? '', payload.d);
+              break;
+          }
+        } catch (err) {
+          wsLogger.debug(`Failed to parse message: ${err}`);
+        }
+      };
+
+      this.ws.onclose = (event) => {
+        wsLogger.debug(`Gateway disconnected (code ${event.code})`);
+        this.stopHeartbeat();
+        this.emit('disconnected');
+
+        if (FATAL_CLOSE_CODES.has(event.code)) {
+          log.error(`Discord closed the connection (code ${event.code}): check the bot token and privileged intents`);
+          reject(new Error(`Discord gateway closed with code ${event.code}`));
+          return;
+        }
+
+        // Only reconnect if this wasn't an intentional disconnect
+        if (!this.isIntentionalDisconnect) {
+          this.scheduleReconnect();
+        }
+      };
+
+      this.ws.onerror = (event) => {
+        wsLogger.debug(`WebSocket error: ${event}`);
+        this.emit('error', event);
+        reject(event);
+      };
+    });
+  }
+
+  private identifyOrResume(): void {
+    if (!this.ws) return;
+
+    // Resuming replays any events we missed while disconnected
+    if (this.sessionId && this.sequence !== null) {
+      this.ws.send(JSON.stringify({
+        op: GatewayOp.Resume,
+        d: { token: this.token, session_id: this.sessionId, seq: this.sequence },
+      }));
+      return;
+    }
+
+    this.ws.send(JSON.stringify({
+      op: GatewayOp.Identify,
+      d: {
+        token: this.token,
+        intents: GATEWAY_INTENTS,
+        properties: { os: process.platform, browser: 'claude-threads', device: 'claude-threads' },
+      },
+    }));
+  }
+
+  private handleDispatch(type: string, data: unknown): void {
+    if (type === 'THREAD_CREATE' || type === 'THREAD_UPDATE') {
+      this.rememberThread(data as DiscordApiChannel);
+      return;
+    }
+
+    if (type === 'MESSAGE_CREATE') {
+      const message = this.toDiscordMessage(data as DiscordApiMessage);
+
+      // Ignore messages from ourselves and other bots
+      if (message.author.id === this.botUserId || message.author.bot) return;
+
+      this.handleMessage(message).catch((err) => {
+        wsLogger.debug(`Failed to handle message: ${err}`);
+      });
+      return;
+    }
+
+    if (type === 'MESSAGE_UPDATE') {
+      // Updates without content or author are embed/unfurl updates, not edits
+      const raw = data as Partial<DiscordApiMessage>;
+      if (raw.content === undefined || !raw.author || !raw.timestamp) return;
+      const message = this.toDiscordMessage(raw as DiscordApiMessage);
+      if (message.author.id === this.botUserId || message.author.bot) return;
+
+      this.resolveChannelScope(message.channelId).then((scope) => {
+        if (!scope) return;
+        const post = this.normalizePlatformPost(message, this.normalizeMessageText(message));
+        this.emit('post_edited', post, this.normalizePlatformUser(message.author));
+      }).catch((err) => {
+        wsLogger.debug(`Failed to handle message update: ${err}`);
+      });
+      return;
+    }
+
+    if (type === 'MESSAGE_DELETE') {
+      const raw = data as DiscordApiMessageDeleteEvent;
+      this.resolveChannelScope(raw.channel_id).then((scope) => {
+        if (!scope) return;
+        // Deletions only carry IDs
+        this.emit('post_deleted', {
+          id: raw.id,
+          platformId: this.platformId,
+          channelId: raw.channel_id,
+          userId: '',
+          message: '',
+          rootId: this.getRootId({ id: raw.id, channelId: raw.channel_id }),
+        });
+      }).catch((err) => {
+        wsLogger.debug(`Failed to handle message deletion: ${err}`);
+      });
+      return;
+    }
+
+    if (type === 'MESSAGE_REACTION_ADD' || type === 'MESSAGE_REACTION_REMOVE') {
+      const raw = data as DiscordApiReactionEvent;
+      const reaction: DiscordReactionEvent = {
+        userId: raw.user_id,
+        channelId: raw.channel_id,
+        messageId: raw.message_id,
+        guildId: raw.guild_id,
+        emoji: raw.emoji,
+      };
+
+      // Ignore reactions from ourselves
+      if (reaction.userId === this.botUserId) return;
+
+      this.resolveChannelScope(reaction.channelId).then(async (scope) => {
+        if (!scope) return;
+        this.messageChannels.set(reaction.messageId, reaction.channelId);
+        const user = await this.getUser(reaction.userId);
+        const eventName = type === 'MESSAGE_REACTION_ADD' ? 'reaction' : 'reaction_removed';
+        this.emit(eventName, this.normalizePlatformReaction(reaction), user);
+      }).catch((err) => {
+        wsLogger.debug(`Failed to handle reaction: ${err}`);
+      });
+    }
+  }
+
+  private async handleMessage(message: DiscordMessage): Promise<void> {
+    // Only handle messages in our channel or its threads
+    const scope = await this.resolveChannelScope(message.channelId);
+    if (!scope) return;
+
+    this.messageChannels.set(message.id, message.channelId);
+    this.userCache.set(message.author.id, message.author);
+
+    const normalizedPost = this.normalizePlatformPost(message, this.normalizeMessageText(message));
+    if (!normalizedPost.rootId && scope === 'channel') {
+      // A reply will start a thread from this message; remember what to call it
+      this.pendingThreadNames.set(message.id, normalizedPost.message);
+    }
+
+    const user = this.normalizePlatformUser(message.author);
+    this.emit('message', normalizedPost, user);
+
+    // Also emit channel_post for top-level posts (not thread replies)
+    if (!normalizedPost.rootId) {
+      this.emit('channel_post', normalizedPost, user);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      log.error('Max reconnection attempts reached');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    log.info(`Reconnecting... (attempt ${this.reconnectAttempts})`);
+
+    setTimeout(() => {
+      this.connect().catch((err) => {
+        log.error(`Reconnection failed: ${err}`);
+      });
+    }, delay);
+  }
+
+  private startHeartbeat(intervalMs: number): void {
+    this.stopHeartbeat(); // Clear any existing
+    this.heartbeatAcked = true;
+
+    this.heartbeatInterval = setInterval(() => {
+      // No ACK since the last heartbeat means the connection is dead ("zombied")
+      if (!this.heartbeatAcked) {
+        log.warn('Heartbeat not acknowledged, reconnecting...');
+        this.stopHeartbeat();
+        this.ws?.close(4000); // Triggers reconnect via 'close' event
+        return;
+      }
+      this.sendHeartbeat();
+    }, intervalMs);
+  }
+
+  private sendHeartbeat(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.heartbeatAcked = false;
+    this.ws.send(JSON.stringify({ op: GatewayOp.Heartbeat, d: this.sequence }));
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  // Check if user is allowed to use the bot
+  isUserAllowed(username: string): boolean {
+    if (this.allowedUsers.length === 0) {
+      // If no allowlist configured, allow all
+      return true;
+    }
+    return this.allowedUsers.includes(username);
+  }
+
+  // Check if message mentions the bot (mentions are normalized to @botName)
+  isBotMentioned(message: string): boolean {
+    const botName = escapeRegExp(this.botName);
+    const mentionPattern = new RegExp(`(^|\\s)@${botName}\\b`, 'i');
+    return mentionPattern.test(message);
+  }
+
+  // Extract prompt from message (remove bot mention)
+  extractPrompt(message: string): string {
+    const botName = escapeRegExp(this.botName);
+    return message
+      .replace(new RegExp(`(^|\\s)@${botName}\\b`, 'gi'), ' ')
+      .trim();
+  }
+
+  // Get the bot name
+  getBotName(): string {
+    return this.botName;
+  }
+
+  // Get MCP config for permission server
+  getMcpConfig(): { type: string; url: string; token: string; channelId: string; allowedUsers: string[]; platformId?: string } {
+    return {
+      type: 'discord',
+      url: this.apiUrl,
+      token: this.token,
+      channelId: this.channelId,
+      allowedUsers: this.allowedUsers,
+      platformId: this.platformId,
+    };
+  }
+
+  // Threads and forum posts are channels: link to the channel
+  getThreadLink(threadId: string): string {
+    return `https://discord.com/channels/${this.guildId ?? '@me'}/${threadId}`;
+  }
+
+  // Get platform-specific markdown formatter
+  getFormatter(): PlatformFormatter {
+    return this.formatter;
+  }
+
+  // Discord caps messages at 2000 characters
+  getMessageLimits(): { maxLength: number; hardThreshold: number } {
+    return { maxLength: DISCORD_MAX_MESSAGE_LENGTH, hardThreshold: 1900 };
+  }
+
+  // Send typing indicator (lasts ~10s or until the next message)
+  sendTyping(parentId?: string): void {
+    const channelId = parentId && this.threadParents.get(parentId) === this.channelId
+      ? parentId
+      : this.channelId;
+    this.api('POST', `/channels/${channelId}/typing`).catch((err) => {
+      log.debug(`Failed to send typing indicator: ${err}`);
+    });
+  }
+
+  disconnect(): void {
+    this.isIntentionalDisconnect = true;
+    this.stopHeartbeat();
+    if (this.ws) {
+      this.ws.close(1000);
+      this.ws = null;
+    }
+  }
+}
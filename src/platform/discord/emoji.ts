@@ -0,0 +1,75 @@
+/**
+ * Emoji name ↔ unicode mapping for Discord
+ *
+ * The rest of the bot uses Mattermost/Slack-style shortcodes ('+1', 'white_check_mark').
+ * Discord's API only speaks unicode for built-in emoji, so we translate at the edge.
+ */
+
+const NAME_TO_UNICODE: Record<string, string> = {
+  '+1': '👍',
+  thumbsup: '👍',
+  '-1': '👎',
+  thumbsdown: '👎',
+  white_check_mark: '✅',
+  heavy_check_mark: '✔️',
+  x: '❌',
+  octagonal_sign: '🛑',
+  stop_sign: '🛑',
+  double_vertical_bar: '⏸️',
+  pause_button: '⏸️',
+  arrows_counterclockwise: '🔄',
+  arrow_forward: '▶️',
+  repeat: '🔁',
+  arrow_down_small: '🔽',
+  small_red_triangle_down: '🔻',
+  one: '1️⃣',
+  two: '2️⃣',
+  three: '3️⃣',
+  four: '4️⃣',
+  five: '5️⃣',
+  six: '6️⃣',
+  seven: '7️⃣',
+  eight: '8️⃣',
+  nine: '9️⃣',
+  keycap_ten: '🔟',
+  hourglass_flowing_sand: '⏳',
+  unlock: '🔓',
+  warning: '⚠️',
+  speech_balloon: '💬',
+  memo: '📝',
+  pencil2: '✏️',
+  eyes: '👀',
+};
+
+// Discord sometimes sends emoji without the variation selector (U+FE0F)
+function stripVariationSelector(emoji: string): string {
+  return emoji.replace(/\uFE0F/g, '');
+}
+
+// Reverse map keyed without variation selectors; first name listed wins,
+// so '👍' → '+1' (the canonical name)
+const UNICODE_TO_NAME: Record<string, string> = {};
+for (const [name, unicode] of Object.entries(NAME_TO_UNICODE)) {
+  const key = stripVariationSelector(unicode);
+  if (!(key in UNICODE_TO_NAME)) {
+    UNICODE_TO_NAME[key] = name;
+  }
+}
+
+/**
+ * Convert an emoji shortcode to what Discord's reaction endpoints expect.
+ * Unknown names are assumed to be custom emoji in `name:id` form or raw unicode.
+ */
+export function emojiNameToDiscord(name: string): string {
+  return NAME_TO_UNICODE[name] ?? name;
+}
+
+/**
+ * Convert a Discord emoji (unicode or custom) back to a shortcode.
+ */
+export function discordEmojiToName(emoji: { id: string | null; name: string | null }): string {
+  if (!emoji.name) return '';
+  // Custom emoji keep their own name
+  if (emoji.id) return emoji.name;
+  return UNICODE_TO_NAME[stripVariationSelector(emoji.name)] ?? emoji.name;
+}
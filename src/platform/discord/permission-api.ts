@@ -0,0 +1,174 @@
+/**
+ * Discord implementation of Permission API
+ *
+ * Handles permission requests via the Discord REST API.
+ *
+ * Reactions are detected by polling the prompt message rather than opening a
+ * second Gateway session, which would count against the bot's identify limit.
+ */
+
+import type { PermissionApi, PermissionApiConfig, ReactionEvent, PostedMessage } from '../permission-api.js';
+import type { PlatformFormatter } from '../formatter.js';
+import { DiscordFormatter } from './formatter.js';
+import { emojiNameToDiscord, discordEmojiToName } from './emoji.js';
+import type { DiscordApiMessage, DiscordApiUser } from './types.js';
+import { mcpLogger } from '../../utils/logger.js';
+
+// How often to check the permission post for new reactions
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Discord Permission API implementation
+ */
+class DiscordPermissionApi implements PermissionApi {
+  private readonly config: PermissionApiConfig;
+  private readonly formatter = new DiscordFormatter();
+  private botUserIdCache: string | null = null;
+  // Permission posts live in the session's thread channel
+  private readonly postChannels = new Map<string, string>();
+
+  constructor(config: PermissionApiConfig) {
+    this.config = config;
+  }
+
+  // REST API helper
+  private async api<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.config.url.replace(/\/+$/, '')}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bot ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Discord API error ${response.status}: ${text}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json() as Promise<T>;
+  }
+
+  getFormatter(): PlatformFormatter {
+    return this.formatter;
+  }
+
+  async getBotUserId(): Promise<string> {
+    if (this.botUserIdCache) return this.botUserIdCache;
+    const me = await this.api<DiscordApiUser>('GET', '/users/@me');
+    this.botUserIdCache = me.id;
+    return me.id;
+  }
+
+  async getUsername(userId: string): Promise<string | null> {
+    try {
+      const user = await this.api<DiscordApiUser>('GET', `/users/${userId}`);
+      return user?.username ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  isUserAllowed(username: string): boolean {
+    if (this.config.allowedUsers.length === 0) return true;
+    return this.config.allowedUsers.includes(username);
+  }
+
+  async createInteractivePost(
+    message: string,
+    reactions: string[],
+    threadId?: string
+  ): Promise<PostedMessage> {
+    // Threads are channels in Discord, so post straight into the thread
+    const channelId = threadId || this.config.channelId;
+    const post = await this.api<DiscordApiMessage>('POST', `/channels/${channelId}/messages`, {
+      content: message.slice(0, 2000),
+    });
+    this.postChannels.set(post.id, channelId);
+
+    // Add each reaction option, continuing even if some fail
+    for (const emoji of reactions) {
+      try {
+        const encoded = encodeURIComponent(emojiNameToDiscord(emoji));
+        await this.api('PUT', `/channels/${channelId}/messages/${post.id}/reactions/${encoded}/@me`);
+      } catch (err) {
+        mcpLogger.error(`Failed to add reaction ${emoji}: ${err}`);
+      }
+    }
+
+    return { id: post.id };
+  }
+
+  async updatePost(postId: string, message: string): Promise<void> {
+    const channelId = this.postChannels.get(postId) || this.config.threadId || this.config.channelId;
+    await this.api('PATCH', `/channels/${channelId}/messages/${postId}`, {
+      content: message.slice(0, 2000),
+    });
+  }
+
+  async removeReaction(postId: string, userId: string, emojiName: string): Promise<void> {
+    const channelId = this.postChannels.get(postId) || this.config.threadId || this.config.channelId;
+    const encoded = encodeURIComponent(emojiNameToDiscord(emojiName));
+    await this.api('DELETE', `/channels/${channelId}/messages/${postId}/reactions/${encoded}/${userId}`);
+  }
+
+  async waitForReaction(
+    postId: string,
+    botUserId: string,
+    timeoutMs: number,
+    accept?: (reaction: ReactionEvent) => Promise<boolean>
+  ): Promise<ReactionEvent | null> {
+    const channelId = this.postChannels.get(postId) || this.config.threadId || this.config.channelId;
+    const deadline = Date.now() + timeoutMs;
+    // Reactions the caller rejected, so each is only checked once
+    const rejected = new Set<string>();
+
+    while (Date.now() < deadline) {
+      try {
+        const message = await this.api<DiscordApiMessage>('GET', `/channels/${channelId}/messages/${postId}`);
+
+        for (const reaction of message.reactions || []) {
+          // Reactions only added by the bot (the options) have count 1 and me=true
+          if (reaction.count <= (reaction.me ? 1 : 0)) continue;
+
+          const emoji = reaction.emoji.id
+            ? `${reaction.emoji.name}:${reaction.emoji.id}`
+            : reaction.emoji.name ?? '';
+          const users = await this.api<DiscordApiUser[]>(
+            'GET',
+            `/channels/${channelId}/messages/${postId}/reactions/${encodeURIComponent(emoji)}?limit=100`
+          );
+          const emojiName = discordEmojiToName(reaction.emoji);
+          for (const user of users) {
+            const key = `${emojiName}:${user.id}`;
+            if (user.id === botUserId || rejected.has(key)) continue;
+
+            mcpLogger.debug(`Reaction received: ${emojiName} from user: ${user.id}`);
+            const event = { postId, userId: user.id, emojiName };
+            if (!accept || await accept(event)) return event;
+            rejected.add(key);
+          }
+        }
+      } catch (err) {
+        mcpLogger.debug(`Error polling reactions: ${err}`);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, remaining)));
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Create a Discord permission API instance
+ */
+export function createDiscordPermissionApi(config: PermissionApiConfig): PermissionApi {
+  return new DiscordPermissionApi(config);
+}
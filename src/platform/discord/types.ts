@@ -188,3 +188,96 @@ export interface EditMessageRequest {
     replied_user?: boolean;
   };
 }
+
+// =============================================================================
+// Raw API payloads (snake_case, as sent by the REST API and Gateway)
+// These are converted to the camelCase types above before use.
+// =============================================================================
+
+export interface DiscordApiUser {
+  id: string;
+  username: string;
+  discriminator: string;
+  global_name?: string | null;
+  bot?: boolean;
+  avatar?: string | null;
+}
+
+export interface DiscordApiAttachment {
+  id: string;
+  filename: string;
+  size: number;
+  url: string;
+  proxy_url: string;
+  content_type?: string;
+  width?: number | null;
+  height?: number | null;
+}
+
+export interface DiscordApiMessage {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+  author: DiscordApiUser;
+  content: string;
+  timestamp: string;
+  edited_timestamp?: string | null;
+  tts: boolean;
+  mention_everyone: boolean;
+  mentions: DiscordApiUser[];
+  attachments: DiscordApiAttachment[];
+  embeds: DiscordEmbed[];
+  reactions?: DiscordReactionInfo[];
+  message_reference?: {
+    message_id?: string;
+    channel_id?: string;
+    guild_id?: string;
+  };
+}
+
+export interface DiscordApiChannel {
+  id: string;
+  type: DiscordChannelType;
+  guild_id?: string;
+  parent_id?: string | null;
+  name?: string;
+  owner_id?: string;
+  message_count?: number;
+  member_count?: number;
+}
+
+export interface DiscordApiReactionEvent {
+  user_id: string;
+  channel_id: string;
+  message_id: string;
+  guild_id?: string;
+  emoji: DiscordEmoji;
+}
+
+export interface DiscordApiMessageDeleteEvent {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+}
+
+export interface DiscordApiGuildMember {
+  user: DiscordApiUser;
+  nick?: string | null;
+}
+
+/**
+ * Gateway payload (every message on the Gateway WebSocket)
+ * See: https://discord.com/developers/docs/topics/gateway-events#payload-structure
+ */
+export interface DiscordGatewayPayload {
+  op: number;
+  d: unknown;
+  s?: number | null;
+  t?: DiscordGatewayEvent | string | null;
+}
+
+export interface DiscordReadyEvent {
+  session_id: string;
+  resume_gateway_url: string;
+  user: DiscordApiUser;
+}
@@ -10,6 +10,8 @@ import type {
   MattermostUser,
   MattermostReaction,
   PostedEventData,
+  PostEditedEventData,
+  PostDeletedEventData,
   ReactionAddedEventData,
   CreatePostRequest,
   UpdatePostRequest,
@@ -273,6 +275,41 @@ export class MattermostClient extends EventEmitter implements PlatformClient {
     return Buffer.from(arrayBuffer);
   }
 
+  // Upload a file and post it in a thread
+  async uploadFile(
+    threadId: string,
+    name: string,
+    data: Buffer,
+    mimeType: string,
+    message = ''
+  ): Promise<PlatformPost> {
+    const form = new FormData();
+    form.append('channel_id', this.channelId);
+    form.append('files', new Blob([new Uint8Array(data)], { type: mimeType }), name);
+
+    const response = await fetch(`${this.url}/api/v4/files`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+      },
+      body: form,
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Failed to upload file ${name}: ${response.status} ${text}`);
+    }
+    const { file_infos: fileInfos } = await response.json() as { file_infos: MattermostFile[] };
+
+    const request: CreatePostRequest = {
+      channel_id: this.channelId,
+      message,
+      root_id: threadId,
+      file_ids: fileInfos.map(f => f.id),
+    };
+    const post = await this.api<MattermostPost>('POST', '/posts', request);
+    return this.normalizePlatformPost(post);
+  }
+
   // Get file info (metadata)
   async getFileInfo(fileId: string): Promise<PlatformFile> {
     const file = await this.api<MattermostFile>('GET', `/files/${fileId}/info`);
@@ -507,6 +544,32 @@ export class MattermostClient extends EventEmitter implements PlatformClient {
       return;
     }
 
+    // Handle post_edited and post_deleted events (user messages only)
+    if (event.event === 'post_edited' || event.event === 'post_deleted') {
+      const data = event.data as unknown as PostEditedEventData | PostDeletedEventData;
+      if (!data.post) return;
+
+      try {
+        const post = JSON.parse(data.post) as MattermostPost;
+
+        // Ignore our own posts and other channels
+        if (post.user_id === this.botUserId) return;
+        if (post.channel_id !== this.channelId) return;
+
+        const normalizedPost = this.normalizePlatformPost(post);
+        if (event.event === 'post_deleted') {
+          this.emit('post_deleted', normalizedPost);
+        } else {
+          this.getUser(post.user_id).then((user) => {
+            this.emit('post_edited', normalizedPost, user);
+          });
+        }
+      } catch (err) {
+        wsLogger.debug(`Failed to parse post: ${err}`);
+      }
+      return;
+    }
+
     // Handle reaction_added events
     if (event.event === 'reaction_added') {
       const data = event.data as unknown as ReactionAddedEventData;
@@ -663,16 +726,22 @@ export class MattermostClient extends EventEmitter implements PlatformClient {
   }
 
   // Get MCP config for permission server
-  getMcpConfig(): { type: string; url: string; token: string; channelId: string; allowedUsers: string[] } {
+  getMcpConfig(): { type: string; url: string; token: string; channelId: string; allowedUsers: string[]; platformId?: string } {
     return {
       type: 'mattermost',
       url: this.url,
       token: this.token,
       channelId: this.channelId,
       allowedUsers: this.allowedUsers,
+      platformId: this.platformId,
     };
   }
 
+  // Permalink to the thread's root post
+  getThreadLink(threadId: string): string {
+    return `${this.url}/_redirect/pl/${threadId}`;
+  }
+
   // Get platform-specific markdown formatter
   getFormatter(): PlatformFormatter {
     return this.formatter;
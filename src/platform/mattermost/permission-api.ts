@@ -13,6 +13,7 @@ import {
   getUser,
   createInteractivePost,
   updatePost,
+  removeReaction,
   isUserAllowed,
   MattermostApiConfig,
 } from '../../mattermost/api.js';
@@ -80,10 +81,15 @@ class MattermostPermissionApi implements PermissionApi {
     await updatePost(this.apiConfig, postId, message);
   }
 
+  async removeReaction(postId: string, userId: string, emojiName: string): Promise<void> {
+    await removeReaction(this.apiConfig, postId, userId, emojiName);
+  }
+
   async waitForReaction(
     postId: string,
     botUserId: string,
-    timeoutMs: number
+    timeoutMs: number,
+    accept?: (reaction: ReactionEvent) => Promise<boolean>
   ): Promise<ReactionEvent | null> {
     return new Promise((resolve) => {
       // Parse WebSocket URL from HTTP URL
@@ -118,7 +124,7 @@ class MattermostPermissionApi implements PermissionApi {
         );
       };
 
-      ws.onmessage = (event) => {
+      ws.onmessage = async (event) => {
         if (resolved) return;
 
         try {
@@ -140,16 +146,20 @@ class MattermostPermissionApi implements PermissionApi {
 
             mcpLogger.debug(`Reaction received: ${reaction.emoji_name} from user: ${reaction.user_id}`);
 
+            const reactionEvent: ReactionEvent = {
+              postId: reaction.post_id,
+              userId: reaction.user_id,
+              emojiName: reaction.emoji_name,
+            };
+            if (accept && !await accept(reactionEvent)) return;
+            if (resolved) return;
+
             // Got a valid reaction
             resolved = true;
             clearTimeout(timeout);
             cleanup();
 
-            resolve({
-              postId: reaction.post_id,
-              userId: reaction.user_id,
-              emojiName: reaction.emoji_name,
-            });
+            resolve(reactionEvent);
           }
         } catch (err) {
           mcpLogger.debug(`Error parsing WebSocket message: ${err}`);
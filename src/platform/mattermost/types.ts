@@ -55,6 +55,15 @@ export interface PostedEventData {
   team_id: string;
 }
 
+export interface PostEditedEventData {
+  post: string; // JSON string of MattermostPost (with the new message)
+}
+
+export interface PostDeletedEventData {
+  post: string; // JSON string of MattermostPost
+  delete_by?: string; // User ID of whoever deleted the post
+}
+
 export interface ReactionAddedEventData {
   reaction: string; // JSON string of reaction object
 }
@@ -72,6 +81,7 @@ export interface CreatePostRequest {
   message: string;
   root_id?: string; // For threading
   props?: Record<string, unknown>;
+  file_ids?: string[]; // Uploaded attachments
 }
 
 export interface UpdatePostRequest {
@@ -7,6 +7,8 @@
 
 import type { PermissionApi, PermissionApiConfig } from './permission-api.js';
 import { createMattermostPermissionApi } from './mattermost/permission-api.js';
+import { createSlackPermissionApi } from './slack/permission-api.js';
+import { createDiscordPermissionApi } from './discord/permission-api.js';
 
 /**
  * Create a permission API instance for the specified platform type
@@ -18,9 +20,10 @@ export function createPermissionApi(
   switch (platformType) {
     case 'mattermost':
       return createMattermostPermissionApi(config);
-    // TODO: Add Slack support
-    // case 'slack':
-    //   return createSlackPermissionApi(config);
+    case 'slack':
+      return createSlackPermissionApi(config);
+    case 'discord':
+      return createDiscordPermissionApi(config);
     default:
       throw new Error(`Unsupported platform type: ${platformType}`);
   }
@@ -64,13 +64,21 @@ export interface PermissionApi {
 
   /**
    * Wait for a reaction on a post
-   * Returns the reaction event or null on timeout
+   * Reactions rejected by `accept` are ignored and waiting continues.
+   * Returns the accepted reaction event or null on timeout
    */
   waitForReaction(
     postId: string,
     botUserId: string,
-    timeoutMs: number
+    timeoutMs: number,
+    accept?: (reaction: ReactionEvent) => Promise<boolean>
   ): Promise<ReactionEvent | null>;
+
+  /**
+   * Remove another user's reaction from a post (optional - needs moderator
+   * rights on most platforms)
+   */
+  removeReaction?(postId: string, userId: string, emojiName: string): Promise<void>;
 }
 
 /**
@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import type { Server, ServerWebSocket } from 'bun';
+import { SlackClient } from './client.js';
+import type { SlackPlatformConfig } from '../../config/migration.js';
+import type { PlatformPost, PlatformReaction, PlatformUser } from '../index.js';
+
+/**
+ * Minimal fake of the Slack Web API + Socket Mode, served locally.
+ */
+interface FakeSlack {
+  server: Server<unknown>;
+  calls: Array<{ method: string; params: Record<string, unknown>; token: string }>;
+  acks: string[];
+  socket: () => ServerWebSocket<unknown> | null;
+  sendEnvelope: (envelope: Record<string, unknown>) => void;
+}
+
+const USERS: Record<string, { id: string; name: string; real_name: string }> = {
+  UBOT: { id: 'UBOT', name: 'claude', real_name: 'Claude' },
+  UALICE: { id: 'UALICE', name: 'alice', real_name: 'Alice Smith' },
+  UBOB: { id: 'UBOB', name: 'bob', real_name: 'Bob' },
+};
+
+function startFakeSlack(): FakeSlack {
+  const calls: FakeSlack['calls'] = [];
+  const acks: string[] = [];
+  let socket: ServerWebSocket<unknown> | null = null;
+  let tsCounter = 1000;
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req, srv) {
+      const url = new URL(req.url);
+      if (url.pathname === '/socket') {
+        return srv.upgrade(req) ? undefined : new Response('upgrade failed', { status: 400 });
+      }
+
+      const method = url.pathname.replace(/^\/api\//, '');
+      const params: Record<string, unknown> = req.method === 'GET'
+        ? Object.fromEntries(url.searchParams)
+        : await req.json();
+      const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+      calls.push({ method, params, token });
+
+      switch (method) {
+        case 'auth.test':
+          return Response.json({ ok: true, user_id: 'UBOT', user: 'claude', team_id: 'T1', url: 'https://acme.slack.com/' });
+        case 'users.info': {
+          const user = USERS[params.user as string];
+          return Response.json(user ? { ok: true, user } : { ok: false, error: 'user_not_found' });
+        }
+        case 'users.list':
+          return Response.json({ ok: true, members: Object.values(USERS) });
+        case 'apps.connections.open':
+          return Response.json({ ok: true, url: `ws://localhost:${srv.port}/socket` });
+        case 'chat.postMessage': {
+          const ts = `1700000000.00${tsCounter++}`;
+          return Response.json({
+            ok: true,
+            channel: params.channel,
+            ts,
+            message: { type: 'message', ts, text: params.text, user: 'UBOT', thread_ts: params.thread_ts },
+          });
+        }
+        case 'reactions.add':
+          return Response.json({ ok: false, error: 'already_reacted' });
+        case 'pins.list':
+          return Response.json({
+            ok: true,
+            items: [{ type: 'message', message: { type: 'message', ts: '1700000000.000001', text: 'pinned' } }],
+          });
+        default:
+          return Response.json({ ok: true });
+      }
+    },
+    websocket: {
+      open(ws) {
+        socket = ws;
+        ws.send(JSON.stringify({ type: 'hello' }));
+      },
+      message(_ws, message) {
+        const data = JSON.parse(String(message));
+        if (data.envelope_id) acks.push(data.envelope_id);
+      },
+    },
+  });
+
+  return {
+    server,
+    calls,
+    acks,
+    socket: () => socket,
+    sendEnvelope: (envelope) => socket?.send(JSON.stringify(envelope)),
+  };
+}
+
+function createConfig(port: number): SlackPlatformConfig {
+  return {
+    id: 'slack-test',
+    type: 'slack',
+    displayName: 'Test Slack',
+    botToken: 'xoxb-test',
+    appToken: 'xapp-test',
+    apiUrl: `http://localhost:${port}/api`,
+    channelId: 'C123',
+    botName: 'claude',
+    allowedUsers: ['alice'],
+    skipPermissions: false,
+  };
+}
+
+function waitFor<T>(client: SlackClient, event: string): Promise<T[]> {
+  return new Promise((resolve) => {
+    client.once(event, (...args: unknown[]) => resolve(args as T[]));
+  });
+}
+
+describe('SlackClient', () => {
+  let fake: FakeSlack;
+  let client: SlackClient;
+
+  beforeEach(async () => {
+    fake = startFakeSlack();
+    client = new SlackClient(createConfig(fake.server.port as number));
+    await client.connect();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    fake.server.stop(true);
+  });
+
+  it('opens Socket Mode with the app token', () => {
+    const open = fake.calls.find((c) => c.method === 'apps.connections.open');
+    expect(open?.token).toBe('xapp-test');
+    expect(fake.calls.find((c) => c.method === 'auth.test')?.token).toBe('xoxb-test');
+  });
+
+  it('links threads with workspace permalinks', () => {
+    expect(client.getThreadLink('1700000000.000100')).toBe('https://acme.slack.com/archives/C123/p1700000000000100');
+  });
+
+  it('acks envelopes and emits normalized thread messages', async () => {
+    const received = waitFor<PlatformPost | PlatformUser>(client, 'message');
+
+    fake.sendEnvelope({
+      type: 'events_api',
+      envelope_id: 'env-1',
+      payload: {
+        type: 'event_callback',
+        event: {
+          type: 'message',
+          channel: 'C123',
+          user: 'UALICE',
+          text: '<@UBOT> please invite <@UBOB> &amp; check &lt;stuff&gt;',
+          ts: '1700000001.000200',
+          thread_ts: '1700000000.000100',
+        },
+      },
+    });
+
+    const [post, user] = await received as [PlatformPost, PlatformUser];
+    expect(post.id).toBe('1700000001.000200');
+    expect(post.rootId).toBe('1700000000.000100');
+    expect(post.message).toBe('@claude please invite @bob & check <stuff>');
+    expect(post.platformId).toBe('slack-test');
+    expect(user.username).toBe('alice');
+    expect(client.isBotMentioned(post.message)).toBe(true);
+    expect(client.extractPrompt(post.message)).toBe('please invite @bob & check <stuff>');
+    expect(fake.acks).toContain('env-1');
+  });
+
+  it('emits channel_post for top-level messages', async () => {
+    const received = waitFor<PlatformPost>(client, 'channel_post');
+
+    fake.sendEnvelope({
+      type: 'events_api',
+      envelope_id: 'env-2',
+      payload: {
+        type: 'event_callback',
+        event: { type: 'message', channel: 'C123', user: 'UALICE', text: 'hi', ts: '1700000002.000100' },
+      },
+    });
+
+    const [post] = await received;
+    expect(post.rootId).toBeUndefined();
+  });
+
+  it('ignores messages from other channels and the bot itself', async () => {
+    let count = 0;
+    client.on('message', () => count++);
+
+    for (const event of [
+      { type: 'message', channel: 'COTHER', user: 'UALICE', text: 'elsewhere', ts: '1.1' },
+      { type: 'message', channel: 'C123', user: 'UBOT', text: 'echo', ts: '1.2' },
+      { type: 'message', channel: 'C123', subtype: 'channel_join', user: 'UALICE', text: 'joined', ts: '1.3' },
+    ]) {
+      fake.sendEnvelope({ type: 'events_api', envelope_id: `e-${event.ts}`, payload: { type: 'event_callback', event } });
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(count).toBe(0);
+  });
+
+  it('emits reactions on messages in the channel', async () => {
+    const received = waitFor<PlatformReaction>(client, 'reaction');
+
+    fake.sendEnvelope({
+      type: 'events_api',
+      envelope_id: 'env-3',
+      payload: {
+        type: 'event_callback',
+        event: {
+          type: 'reaction_added',
+          user: 'UALICE',
+          reaction: '+1',
+          item: { type: 'message', channel: 'C123', ts: '1700000000.000100' },
+          event_ts: '1700000003.000000',
+        },
+      },
+    });
+
+    const [reaction] = await received;
+    expect(reaction).toEqual({
+      userId: 'UALICE',
+      postId: '1700000000.000100',
+      emojiName: '+1',
+      createAt: 1700000003000,
+    });
+  });
+
+  it('emits edited messages with the new text', async () => {
+    const received = waitFor<PlatformPost | PlatformUser>(client, 'post_edited');
+
+    fake.sendEnvelope({
+      type: 'events_api',
+      envelope_id: 'env-4',
+      payload: {
+        type: 'event_callback',
+        event: {
+          type: 'message',
+          subtype: 'message_changed',
+          channel: 'C123',
+          ts: '1700000005.000000',
+          message: { type: 'message', user: 'UALICE', text: 'use <@UBOB> instead', ts: '1700000004.000100', thread_ts: '1700000000.000100' },
+          previous_message: { type: 'message', user: 'UALICE', text: 'use me', ts: '1700000004.000100', thread_ts: '1700000000.000100' },
+        },
+      },
+    });
+
+    const [post, user] = await received as [PlatformPost, PlatformUser];
+    expect(post.id).toBe('1700000004.000100');
+    expect(post.rootId).toBe('1700000000.000100');
+    expect(post.message).toBe('use @bob instead');
+    expect(user.username).toBe('alice');
+  });
+
+  it('emits deleted messages', async () => {
+    const received = waitFor<PlatformPost>(client, 'post_deleted');
+
+    fake.sendEnvelope({
+      type: 'events_api',
+      envelope_id: 'env-5',
+      payload: {
+        type: 'event_callback',
+        event: {
+          type: 'message',
+          subtype: 'message_deleted',
+          channel: 'C123',
+          ts: '1700000006.000000',
+          deleted_ts: '1700000004.000100',
+          previous_message: { type: 'message', user: 'UALICE', text: 'oops', ts: '1700000004.000100', thread_ts: '1700000000.000100' },
+        },
+      },
+    });
+
+    const [post] = await received;
+    expect(post.id).toBe('1700000004.000100');
+    expect(post.rootId).toBe('1700000000.000100');
+  });
+
+  it('posts into threads and converts markdown to mrkdwn', async () => {
+    const post = await client.createPost('**Done** see [PR](https://example.com)', '1700000000.000100');
+
+    const call = fake.calls.find((c) => c.method === 'chat.postMessage');
+    expect(call?.params.thread_ts).toBe('1700000000.000100');
+    expect(call?.params.text).toBe('*Done* see <https://example.com|PR>');
+    expect(post.rootId).toBe('1700000000.000100');
+    expect(post.message).toBe('**Done** see [PR](https://example.com)');
+  });
+
+  it('tolerates already_reacted when adding reaction options', async () => {
+    const post = await client.createInteractivePost('Approve?', ['+1', '-1']);
+    expect(post.id).toBeTruthy();
+    expect(fake.calls.filter((c) => c.method === 'reactions.add')).toHaveLength(2);
+  });
+
+  it('lists pinned messages by ts', async () => {
+    expect(await client.getPinnedPosts()).toEqual(['1700000000.000001']);
+  });
+
+  it('looks up users by username', async () => {
+    const user = await client.getUserByUsername('bob');
+    expect(user?.id).toBe('UBOB');
+    expect(await client.getUserByUsername('nobody')).toBeNull();
+  });
+
+  it('reconnects when Slack requests a refresh', async () => {
+    const opensBefore = fake.calls.filter((c) => c.method === 'apps.connections.open').length;
+    const reconnected = waitFor(client, 'connected');
+
+    fake.sendEnvelope({ type: 'disconnect', reason: 'refresh_requested' });
+
+    await reconnected;
+    const opensAfter = fake.calls.filter((c) => c.method === 'apps.connections.open').length;
+    expect(opensAfter).toBe(opensBefore + 1);
+  });
+});
@@ -0,0 +1,776 @@
+// Native WebSocket - no import needed in Bun
+import { EventEmitter } from 'events';
+import type { SlackPlatformConfig } from '../../config/migration.js';
+import { wsLogger, createLogger } from '../../utils/logger.js';
+
+const log = createLogger('slack');
+import type {
+  SlackApiResponse,
+  SlackSocketEnvelope,
+  SlackMessage,
+  SlackUser,
+  SlackFile,
+  SlackReactionEvent,
+  AuthTestResponse,
+  ConnectionsOpenResponse,
+  PostMessageResponse,
+  UsersInfoResponse,
+  UsersListResponse,
+  ConversationsRepliesResponse,
+  ConversationsHistoryResponse,
+  PinsListResponse,
+  FilesInfoResponse,
+} from './types.js';
+import type {
+  PlatformClient,
+  PlatformUser,
+  PlatformPost,
+  PlatformReaction,
+  PlatformFile,
+  ThreadMessage,
+} from '../index.js';
+import type { PlatformFormatter } from '../formatter.js';
+import { SlackFormatter, markdownToMrkdwn } from './formatter.js';
+
+export const DEFAULT_SLACK_API_URL = 'https://slack.com/api';
+
+// Slack message subtypes that carry real user input
+const USER_MESSAGE_SUBTYPES = new Set(['file_share', 'thread_broadcast']);
+
+// Escape special regex characters to prevent regex injection
+function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Undo Slack's HTML entity escaping of &, < and >
+function decodeSlackEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Slack timestamps ("1712345678.123456") are seconds since epoch
+function slackTsToMs(ts: string): number {
+  return Math.round(parseFloat(ts) * 1000);
+}
+
+export class SlackClient extends EventEmitter implements PlatformClient {
+  // Platform identity (required by PlatformClient)
+  readonly platformId: string;
+  readonly platformType = 'slack' as const;
+  readonly displayName: string;
+
+  private ws: WebSocket | null = null;
+  private apiUrl: string;
+  private botToken: string;
+  private appToken: string;
+  private channelId: string;
+  private botName: string;
+  private allowedUsers: string[];
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 10;
+  private reconnectDelay = 1000;
+  private userCache: Map<string, SlackUser> = new Map();
+  private fileCache: Map<string, SlackFile> = new Map();
+  private botUserId: string | null = null;
+  private workspaceUrl: string | null = null;
+  private readonly formatter = new SlackFormatter();
+
+  // Track last processed message for recovery after disconnection
+  private lastProcessedTs: string | null = null;
+  private isReconnecting = false;
+  private isIntentionalDisconnect = false;
+
+  constructor(platformConfig: SlackPlatformConfig) {
+    super();
+    this.platformId = platformConfig.id;
+    this.displayName = platformConfig.displayName;
+    this.apiUrl = (platformConfig.apiUrl || DEFAULT_SLACK_API_URL).replace(/\/+$/, '');
+    this.botToken = platformConfig.botToken;
+    this.appToken = platformConfig.appToken;
+    this.channelId = platformConfig.channelId;
+    this.botName = platformConfig.botName;
+    this.allowedUsers = platformConfig.allowedUsers;
+  }
+
+  // ============================================================================
+  // Type Normalization (Slack → Platform)
+  // ============================================================================
+
+  private normalizePlatformUser(slackUser: SlackUser): PlatformUser {
+    // Prefer the display name users set themselves, then their real name
+    const displayName = slackUser.profile?.display_name
+      || slackUser.real_name
+      || slackUser.profile?.real_name
+      || slackUser.name;
+
+    return {
+      id: slackUser.id,
+      username: slackUser.name,
+      displayName,
+      email: slackUser.profile?.email,
+    };
+  }
+
+  private normalizePlatformPost(message: SlackMessage, text = message.text): PlatformPost {
+    const files = message.files?.map((f) => this.normalizePlatformFile(f));
+
+    return {
+      id: message.ts,
+      platformId: this.platformId,
+      channelId: message.channel || this.channelId,
+      userId: message.user || message.bot_id || '',
+      message: text,
+      // Slack marks thread roots with thread_ts === ts; only replies have a root
+      rootId: message.thread_ts && message.thread_ts !== message.ts ? message.thread_ts : undefined,
+      createAt: slackTsToMs(message.ts),
+      metadata: files ? { files } : undefined,
+    };
+  }
+
+  private normalizePlatformReaction(event: SlackReactionEvent): PlatformReaction {
+    return {
+      userId: event.user,
+      postId: event.item.ts,
+      emojiName: event.reaction,
+      createAt: slackTsToMs(event.event_ts),
+    };
+  }
+
+  private normalizePlatformFile(slackFile: SlackFile): PlatformFile {
+    // Remember download URLs so downloadFile() doesn't need files.info
+    this.fileCache.set(slackFile.id, slackFile);
+    return {
+      id: slackFile.id,
+      name: slackFile.name,
+      size: slackFile.size,
+      mimeType: slackFile.mimetype,
+      extension: slackFile.filetype,
+    };
+  }
+
+  /**
+   * Convert Slack's wire format into the plain text the rest of the bot expects.
+   * User mentions (<@U123>) become @username so commands like !invite work unchanged.
+   */
+  private async normalizeMessageText(text: string): Promise<string> {
+    let result = text;
+    const mentionIds = new Set([...text.matchAll(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g)].map((m) => m[1]));
+    for (const userId of mentionIds) {
+      const username = userId === this.botUserId
+        ? this.botName
+        : (await this.getUser(userId))?.username;
+      if (!username) continue;
+      result = result.replace(new RegExp(`<@${userId}(?:\\|[^>]*)?>`, 'g'), `@${username}`);
+    }
+    return decodeSlackEntities(result);
+  }
+
+  // Web API helper (POST with JSON body, or GET with query string for read methods)
+  private async api<T extends SlackApiResponse>(
+    method: string,
+    params: Record<string, unknown> = {},
+    options: { httpMethod?: 'GET' | 'POST'; token?: string } = {}
+  ): Promise<T> {
+    const httpMethod = options.httpMethod ?? 'POST';
+    let url = `${this.apiUrl}/${method}`;
+    const init: RequestInit = {
+      method: httpMethod,
+      headers: {
+        Authorization: `Bearer ${options.token ?? this.botToken}`,
+        'Content-Type': httpMethod === 'POST'
+          ? 'application/json; charset=utf-8'
+          : 'application/x-www-form-urlencoded',
+      },
+    };
+
+    if (httpMethod === 'GET') {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) query.set(key, String(value));
+      }
+      const qs = query.toString();
+      if (qs) url += `?${qs}`;
+    } else {
+      init.body = JSON.stringify(params);
+    }
+
+    // Retry a couple of times when rate limited (chat.update is Tier 3)
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, init);
+
+      if (response.status === 429 && attempt < 3) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') || '1', 10);
+        log.debug(`Rate limited on ${method}, retrying in ${retryAfter}s`);
+        await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+        continue;
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Slack API error ${response.status}: ${text}`);
+      }
+
+      const data = (await response.json()) as T;
+      if (!data.ok) {
+        throw new Error(`Slack API error in ${method}: ${data.error ?? 'unknown_error'}`);
+      }
+      return data;
+    }
+  }
+
+  // Get current bot user info
+  async getBotUser(): Promise<PlatformUser> {
+    const auth = await this.api<AuthTestResponse>('auth.test');
+    this.botUserId = auth.user_id;
+    this.workspaceUrl = auth.url ?? null;
+    const user = await this.getUser(auth.user_id);
+    return user ?? { id: auth.user_id, username: auth.user };
+  }
+
+  // Get user by ID (cached)
+  async getUser(userId: string): Promise<PlatformUser | null> {
+    const cached = this.userCache.get(userId);
+    if (cached) {
+      return this.normalizePlatformUser(cached);
+    }
+    try {
+      const response = await this.api<UsersInfoResponse>('users.info', { user: userId }, { httpMethod: 'GET' });
+      this.userCache.set(userId, response.user);
+      return this.normalizePlatformUser(response.user);
+    } catch {
+      return null;
+    }
+  }
+
+  // Get user by username (Slack has no direct lookup, so page through users.list)
+  async getUserByUsername(username: string): Promise<PlatformUser | null> {
+    for (const user of this.userCache.values()) {
+      if (user.name === username) return this.normalizePlatformUser(user);
+    }
+
+    try {
+      let cursor: string | undefined;
+      do {
+        const response = await this.api<UsersListResponse>(
+          'users.list',
+          { limit: 200, cursor },
+          { httpMethod: 'GET' }
+        );
+        for (const user of response.members) {
+          this.userCache.set(user.id, user);
+        }
+        const match = response.members.find((u) => u.name === username && !u.deleted);
+        if (match) return this.normalizePlatformUser(match);
+        cursor = response.response_metadata?.next_cursor || undefined;
+      } while (cursor);
+    } catch (err) {
+      log.warn(`Failed to look up user ${username}: ${err}`);
+    }
+    return null;
+  }
+
+  // Post a message
+  async createPost(
+    message: string,
+    threadId?: string
+  ): Promise<PlatformPost> {
+    const response = await this.api<PostMessageResponse>('chat.postMessage', {
+      channel: this.channelId,
+      text: markdownToMrkdwn(message),
+      thread_ts: threadId,
+      unfurl_links: false,
+      unfurl_media: false,
+    });
+    return this.normalizePlatformPost({ ...response.message, channel: response.channel, ts: response.ts }, message);
+  }
+
+  // Update a message (for streaming updates)
+  async updatePost(postId: string, message: string): Promise<PlatformPost> {
+    await this.api<SlackApiResponse>('chat.update', {
+      channel: this.channelId,
+      ts: postId,
+      text: markdownToMrkdwn(message),
+    });
+    return {
+      id: postId,
+      platformId: this.platformId,
+      channelId: this.channelId,
+      userId: this.botUserId || '',
+      message,
+    };
+  }
+
+  // Add a reaction to a post
+  async addReaction(postId: string, emojiName: string): Promise<void> {
+    try {
+      await this.api('reactions.add', {
+        channel: this.channelId,
+        timestamp: postId,
+        name: emojiName,
+      });
+    } catch (err) {
+      // Adding the same reaction twice is harmless
+      if (!String(err).includes('already_reacted')) throw err;
+    }
+  }
+
+  // Remove a reaction from a post
+  async removeReaction(postId: string, emojiName: string): Promise<void> {
+    try {
+      await this.api('reactions.remove', {
+        channel: this.channelId,
+        timestamp: postId,
+        name: emojiName,
+      });
+    } catch (err) {
+      if (!String(err).includes('no_reaction')) throw err;
+    }
+  }
+
+  /**
+   * Create a post with reaction options for user interaction
+   *
+   * @param message - Post message content
+   * @param reactions - Array of emoji names to add as reaction options
+   * @param threadId - Optional thread root ID
+   * @returns The created post
+   */
+  async createInteractivePost(
+    message: string,
+    reactions: string[],
+    threadId?: string
+  ): Promise<PlatformPost> {
+    const post = await this.createPost(message, threadId);
+
+    // Add each reaction option, continuing even if some fail
+    for (const emoji of reactions) {
+      try {
+        await this.addReaction(post.id, emoji);
+      } catch (err) {
+        log.warn(`Failed to add reaction ${emoji}: ${err}`);
+      }
+    }
+
+    return post;
+  }
+
+  // Download a file attachment (url_private requires the bot token)
+  async downloadFile(fileId: string): Promise<Buffer> {
+    const file = this.fileCache.get(fileId)
+      ?? (await this.api<FilesInfoResponse>('files.info', { file: fileId }, { httpMethod: 'GET' })).file;
+    const url = file.url_private_download || file.url_private;
+    if (!url) {
+      throw new Error(`File ${fileId} has no download URL`);
+    }
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.botToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download file ${fileId}: ${response.status}`);
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  }
+
+  // Get file info (metadata)
+  async getFileInfo(fileId: string): Promise<PlatformFile> {
+    const response = await this.api<FilesInfoResponse>('files.info', { file: fileId }, { httpMethod: 'GET' });
+    return this.normalizePlatformFile(response.file);
+  }
+
+  // Get a post by ID (used to verify thread still exists on resume)
+  async getPost(postId: string): Promise<PlatformPost | null> {
+    try {
+      // conversations.replies accepts the ts of a root or of any reply
+      const response = await this.api<ConversationsRepliesResponse>(
+        'conversations.replies',
+        { channel: this.channelId, ts: postId, limit: 1, inclusive: true },
+        { httpMethod: 'GET' }
+      );
+      const message = response.messages.find((m) => m.ts === postId);
+      return message ? this.normalizePlatformPost(message) : null;
+    } catch {
+      return null; // Message doesn't exist or was deleted
+    }
+  }
+
+  // Delete a post
+  async deletePost(postId: string): Promise<void> {
+    await this.api('chat.delete', { channel: this.channelId, ts: postId });
+  }
+
+  // Pin a post to the channel
+  async pinPost(postId: string): Promise<void> {
+    await this.api('pins.add', { channel: this.channelId, timestamp: postId });
+  }
+
+  // Unpin a post from the channel
+  async unpinPost(postId: string): Promise<void> {
+    await this.api('pins.remove', { channel: this.channelId, timestamp: postId });
+  }
+
+  // Get all pinned posts in the channel
+  async getPinnedPosts(): Promise<string[]> {
+    const response = await this.api<PinsListResponse>(
+      'pins.list',
+      { channel: this.channelId },
+      { httpMethod: 'GET' }
+    );
+    return (response.items || [])
+      .map((item) => item.message?.ts)
+      .filter((ts): ts is string => !!ts);
+  }
+
+  // Get thread history for context retrieval
+  async getThreadHistory(
+    threadId: string,
+    options?: { limit?: number; excludeBotMessages?: boolean }
+  ): Promise<ThreadMessage[]> {
+    try {
+      const messages: ThreadMessage[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await this.api<ConversationsRepliesResponse>(
+          'conversations.replies',
+          { channel: this.channelId, ts: threadId, limit: 200, cursor },
+          { httpMethod: 'GET' }
+        );
+
+        for (const message of response.messages) {
+          const userId = message.user || message.bot_id || '';
+
+          // Skip bot messages if requested
+          if (options?.excludeBotMessages && (userId === this.botUserId || message.bot_id)) {
+            continue;
+          }
+
+          const user = message.user ? await this.getUser(message.user) : null;
+          messages.push({
+            id: message.ts,
+            userId,
+            username: user?.username || 'unknown',
+            message: await this.normalizeMessageText(message.text || ''),
+            createAt: slackTsToMs(message.ts),
+          });
+        }
+        cursor = response.response_metadata?.next_cursor || undefined;
+      } while (cursor);
+
+      // Sort by createAt (oldest first)
+      messages.sort((a, b) => a.createAt - b.createAt);
+
+      // Apply limit if specified (return most recent N messages)
+      if (options?.limit && messages.length > options.limit) {
+        return messages.slice(-options.limit);
+      }
+
+      return messages;
+    } catch (err) {
+      log.warn(`Failed to get thread history for ${threadId}: ${err}`);
+      return [];
+    }
+  }
+
+  // Connect via Socket Mode
+  async connect(): Promise<void> {
+    // Get bot user first
+    await this.getBotUser();
+    wsLogger.debug(`Bot user ID: ${this.botUserId}`);
+
+    // Socket Mode URLs are single-use, so ask for a fresh one on every connect
+    const { url: wsUrl } = await this.api<ConnectionsOpenResponse>(
+      'apps.connections.open',
+      {},
+      { token: this.appToken }
+    );
+
+    return new Promise((resolve, reject) => {
+      this.ws = new WebSocket(wsUrl);
+
+      this.ws.onopen = () => {
+        wsLogger.debug('Socket Mode connected, waiting for hello');
+      };
+
+      this.ws.onmessage = (event) => {
+        try {
+          const data = typeof event.data === 'string' ? event.data : event.data.toString();
+          const envelope = JSON.parse(data) as SlackSocketEnvelope;
+
+          // Every envelope with an ID must be acknowledged within 3 seconds
+          if (envelope.envelope_id && this.ws) {
+            this.ws.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+          }
+
+          if (envelope.type === 'hello') {
+            this.reconnectAttempts = 0;
+            this.emit('connected');
+
+            // Recover missed messages after reconnection
+            if (this.isReconnecting && this.lastProcessedTs) {
+              this.recoverMissedMessages().catch((err) => {
+                log.warn(`Failed to recover missed messages: ${err}`);
+              });
+            }
+            this.isReconnecting = false;
+
+            resolve();
+            return;
+          }
+
+          if (envelope.type === 'disconnect') {
+            // Slack asks clients to reconnect periodically (e.g. refresh_requested)
+            wsLogger.debug(`Socket Mode disconnect requested: ${envelope.reason}`);
+            this.reconnectNow();
+            return;
+          }
+
+          if (envelope.type === 'events_api' && envelope.payload?.event) {
+            this.handleEvent(envelope.payload.event);
+          }
+        } catch (err) {
+          wsLogger.debug(`Failed to parse message: ${err}`);
+        }
+      };
+
+      this.ws.onclose = () => {
+        wsLogger.debug('Socket Mode disconnected');
+        this.emit('disconnected');
+        // Only reconnect if this wasn't an intentional disconnect
+        if (!this.isIntentionalDisconnect) {
+          this.scheduleReconnect();
+        }
+      };
+
+      this.ws.onerror = (event) => {
+        wsLogger.debug(`WebSocket error: ${event}`);
+        this.emit('error', event);
+        reject(event);
+      };
+    });
+  }
+
+  private handleEvent(event: { type: string }): void {
+    if (event.type === 'message') {
+      const message = event as SlackMessage;
+
+      if (message.subtype === 'message_changed' || message.subtype === 'message_deleted') {
+        this.handleMessageChange(message).catch((err) => {
+          wsLogger.debug(`Failed to handle message change: ${err}`);
+        });
+        return;
+      }
+
+      // Joins, topic changes etc. arrive as subtypes - only handle real input
+      if (message.subtype && !USER_MESSAGE_SUBTYPES.has(message.subtype)) return;
+
+      // Ignore messages from ourselves and other bots
+      if (!message.user || message.user === this.botUserId || message.bot_id) return;
+
+      // Only handle messages in our channel
+      if (message.channel !== this.channelId) return;
+
+      // Track last processed message for recovery after disconnection
+      this.lastProcessedTs = message.ts;
+
+      this.emitMessage(message).catch((err) => {
+        wsLogger.debug(`Failed to handle message: ${err}`);
+      });
+      return;
+    }
+
+    if (event.type === 'reaction_added' || event.type === 'reaction_removed') {
+      const reaction = event as SlackReactionEvent;
+
+      // Only message reactions in our channel
+      if (reaction.item.type !== 'message' || reaction.item.channel !== this.channelId) return;
+
+      // Ignore reactions from ourselves
+      if (reaction.user === this.botUserId) return;
+
+      // Get user info and emit (with normalized types)
+      this.getUser(reaction.user).then((user) => {
+        const eventName = reaction.type === 'reaction_added' ? 'reaction' : 'reaction_removed';
+        this.emit(eventName, this.normalizePlatformReaction(reaction), user);
+      });
+    }
+  }
+
+  /**
+   * Emit post_edited / post_deleted for user messages in our channel
+   */
+  private async handleMessageChange(event: SlackMessage): Promise<void> {
+    if (event.channel !== this.channelId) return;
+
+    const message = event.subtype === 'message_changed' ? event.message : event.previous_message;
+    if (!message?.user || message.user === this.botUserId || message.bot_id) return;
+    const withChannel: SlackMessage = { ...message, channel: event.channel };
+
+    if (event.subtype === 'message_deleted') {
+      this.emit('post_deleted', this.normalizePlatformPost(withChannel));
+      return;
+    }
+
+    // Slack also reports unfurls and thread reply counts as message_changed
+    if (message.text === event.previous_message?.text) return;
+
+    const user = await this.getUser(message.user);
+    const text = await this.normalizeMessageText(message.text || '');
+    this.emit('post_edited', this.normalizePlatformPost(withChannel, text), user);
+  }
+
+  private async emitMessage(message: SlackMessage): Promise<void> {
+    const user = message.user ? await this.getUser(message.user) : null;
+    const text = await this.normalizeMessageText(message.text || '');
+    const normalizedPost = this.normalizePlatformPost(message, text);
+    this.emit('message', normalizedPost, user);
+
+    // Also emit channel_post for top-level posts (not thread replies)
+    if (!normalizedPost.rootId) {
+      this.emit('channel_post', normalizedPost, user);
+    }
+  }
+
+  // Reconnect immediately without backoff (server-requested refresh)
+  private reconnectNow(): void {
+    this.isReconnecting = true;
+    const oldWs = this.ws;
+    this.ws = null;
+    if (oldWs) {
+      oldWs.onclose = null;
+      oldWs.close();
+    }
+    this.connect().catch((err) => {
+      log.error(`Reconnection failed: ${err}`);
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      log.error('Max reconnection attempts reached');
+      return;
+    }
+
+    // Mark that we're reconnecting (to trigger message recovery)
+    this.isReconnecting = true;
+
+    this.reconnectAttempts++;
+    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    log.info(`Reconnecting... (attempt ${this.reconnectAttempts})`);
+
+    setTimeout(() => {
+      this.connect().catch((err) => {
+        log.error(`Reconnection failed: ${err}`);
+      });
+    }, delay);
+  }
+
+  /**
+   * Recover top-level messages that were posted while disconnected.
+   * Thread replies are not part of conversations.history, so only new
+   * sessions started while we were away are recovered.
+   */
+  private async recoverMissedMessages(): Promise<void> {
+    if (!this.lastProcessedTs) {
+      return;
+    }
+
+    log.info(`Recovering missed messages after ${this.lastProcessedTs}...`);
+
+    const response = await this.api<ConversationsHistoryResponse>(
+      'conversations.history',
+      { channel: this.channelId, oldest: this.lastProcessedTs, limit: 100 },
+      { httpMethod: 'GET' }
+    );
+
+    const missed = response.messages
+      .filter((m) => m.user && m.user !== this.botUserId && !m.bot_id)
+      .filter((m) => !m.subtype || USER_MESSAGE_SUBTYPES.has(m.subtype))
+      .sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+
+    if (missed.length === 0) {
+      log.info('No missed messages to recover');
+      return;
+    }
+
+    log.info(`Recovered ${missed.length} missed message(s)`);
+
+    for (const message of missed) {
+      this.lastProcessedTs = message.ts;
+      await this.emitMessage({ ...message, channel: this.channelId });
+    }
+  }
+
+  // Check if user is allowed to use the bot
+  isUserAllowed(username: string): boolean {
+    if (this.allowedUsers.length === 0) {
+      // If no allowlist configured, allow all
+      return true;
+    }
+    return this.allowedUsers.includes(username);
+  }
+
+  // Check if message mentions the bot (mentions are normalized to @botName)
+  isBotMentioned(message: string): boolean {
+    const botName = escapeRegExp(this.botName);
+    const mentionPattern = new RegExp(`(^|\\s)@${botName}\\b`, 'i');
+    return mentionPattern.test(message);
+  }
+
+  // Extract prompt from message (remove bot mention)
+  extractPrompt(message: string): string {
+    const botName = escapeRegExp(this.botName);
+    return message
+      .replace(new RegExp(`(^|\\s)@${botName}\\b`, 'gi'), ' ')
+      .trim();
+  }
+
+  // Get the bot name
+  getBotName(): string {
+    return this.botName;
+  }
+
+  // Get MCP config for permission server
+  getMcpConfig(): { type: string; url: string; token: string; channelId: string; allowedUsers: string[]; platformId?: string } {
+    return {
+      type: 'slack',
+      url: this.apiUrl,
+      token: this.botToken,
+      channelId: this.channelId,
+      allowedUsers: this.allowedUsers,
+      platformId: this.platformId,
+    };
+  }
+
+  // Message permalink: /archives/<channel>/p<ts without the dot>
+  // (slack.com redirects to the workspace until auth.test reported its URL)
+  getThreadLink(threadId: string): string {
+    const base = (this.workspaceUrl ?? 'https://slack.com').replace(/\/+$/, '');
+    return `${base}/archives/${this.channelId}/p${threadId.replace('.', '')}`;
+  }
+
+  // Get platform-specific markdown formatter
+  getFormatter(): PlatformFormatter {
+    return this.formatter;
+  }
+
+  // Slack has no typing indicator for bots in Socket Mode
+  sendTyping(_parentId?: string): void {
+    // No-op
+  }
+
+  disconnect(): void {
+    this.isIntentionalDisconnect = true;
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'bun:test';
+import { SlackFormatter, markdownToMrkdwn } from './formatter.js';
+
+describe('SlackFormatter', () => {
+  const formatter = new SlackFormatter();
+
+  it('uses single asterisks for bold', () => {
+    expect(formatter.formatBold('hello')).toBe('*hello*');
+  });
+
+  it('formats links as <url|text>', () => {
+    expect(formatter.formatLink('PR', 'https://example.com')).toBe('<https://example.com|PR>');
+  });
+
+  it('mentions by user ID when available', () => {
+    expect(formatter.formatUserMention('alice', 'U123')).toBe('<@U123>');
+    expect(formatter.formatUserMention('alice')).toBe('@alice');
+  });
+
+  it('renders headings as bold', () => {
+    expect(formatter.formatHeading('Summary', 2)).toBe('*Summary*');
+  });
+
+  it('escapes only &, < and >', () => {
+    expect(formatter.escapeText('a & <b> *c*')).toBe('a &amp; &lt;b&gt; *c*');
+  });
+});
+
+describe('markdownToMrkdwn', () => {
+  it('converts bold, strikethrough and links', () => {
+    expect(markdownToMrkdwn('**Bold** ~~gone~~ [link](https://x.y)')).toBe('*Bold* ~gone~ <https://x.y|link>');
+  });
+
+  it('converts headings to bold lines', () => {
+    expect(markdownToMrkdwn('## Plan\ntext')).toBe('*Plan*\ntext');
+  });
+
+  it('leaves code untouched', () => {
+    const input = 'Run `**not bold**`\n```\n**raw** [a](b)\n```';
+    expect(markdownToMrkdwn(input)).toBe(input);
+  });
+});
@@ -0,0 +1,98 @@
+import type { PlatformFormatter } from '../formatter.js';
+
+/**
+ * Slack mrkdwn formatter
+ *
+ * Slack uses its own markdown dialect (mrkdwn): single asterisks for bold,
+ * <url|text> for links and <@U123> for user mentions. It has no headings
+ * or horizontal rules, so those are approximated.
+ */
+export class SlackFormatter implements PlatformFormatter {
+  formatBold(text: string): string {
+    return `*${text}*`;
+  }
+
+  formatItalic(text: string): string {
+    return `_${text}_`;
+  }
+
+  formatCode(text: string): string {
+    return `\`${text}\``;
+  }
+
+  formatCodeBlock(code: string, _language?: string): string {
+    // Slack ignores language hints on code blocks
+    return `\`\`\`\n${code}\n\`\`\``;
+  }
+
+  formatUserMention(username: string, userId?: string): string {
+    // Slack only turns <@U123> into a real mention; fall back to plain @username
+    if (userId) {
+      return `<@${userId}>`;
+    }
+    return `@${username}`;
+  }
+
+  formatLink(text: string, url: string): string {
+    return `<${url}|${text}>`;
+  }
+
+  formatListItem(text: string): string {
+    return `• ${text}`;
+  }
+
+  formatNumberedListItem(number: number, text: string): string {
+    return `${number}. ${text}`;
+  }
+
+  formatBlockquote(text: string): string {
+    return `> ${text}`;
+  }
+
+  formatHorizontalRule(): string {
+    return '───────────────────';
+  }
+
+  formatHeading(text: string, _level: number): string {
+    // No heading syntax in mrkdwn - bold is the closest equivalent
+    return `*${text}*`;
+  }
+
+  escapeText(text: string): string {
+    // Slack only requires &, < and > to be escaped
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+/**
+ * Convert the standard markdown used throughout the bot into Slack mrkdwn.
+ *
+ * Session code builds messages with **bold**, [text](url) and # headings;
+ * Slack would show those literally. Code spans and blocks are left untouched.
+ */
+export function markdownToMrkdwn(markdown: string): string {
+  // Split on code blocks and inline code so their contents aren't rewritten
+  const parts = markdown.split(/(```[\s\S]*?```|`[^`\n]*`)/g);
+
+  return parts
+    .map((part, i) => {
+      // Odd indices are the captured code segments
+      if (i % 2 === 1) return part;
+      return part
+        // Headings → bold line
+        .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+        // Bold (**text** or __text__) → *text*
+        .replace(/\*\*(.+?)\*\*/g, '*$1*')
+        .replace(/__(.+?)__/g, '*$1*')
+        // Strikethrough
+        .replace(/~~(.+?)~~/g, '~$1~')
+        // Links [text](url) → <url|text>
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>')
+        // Horizontal rules
+        .replace(/^---+$/gm, '───────────────────');
+    })
+    .join('');
+}
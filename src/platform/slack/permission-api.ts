@@ -0,0 +1,186 @@
+/**
+ * Slack implementation of Permission API
+ *
+ * Handles permission requests via the Slack Web API.
+ *
+ * Unlike Mattermost, reactions are detected by polling reactions.get:
+ * Socket Mode load-balances events across all open connections of an app,
+ * so a second connection from the MCP server would steal events from the bot.
+ */
+
+import type { PermissionApi, PermissionApiConfig, ReactionEvent, PostedMessage } from '../permission-api.js';
+import type { PlatformFormatter } from '../formatter.js';
+import { SlackFormatter, markdownToMrkdwn } from './formatter.js';
+import type {
+  SlackApiResponse,
+  AuthTestResponse,
+  UsersInfoResponse,
+  PostMessageResponse,
+  ReactionsGetResponse,
+} from './types.js';
+import { mcpLogger } from '../../utils/logger.js';
+
+// How often to check the permission post for new reactions
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Slack Permission API implementation
+ */
+class SlackPermissionApi implements PermissionApi {
+  private readonly config: PermissionApiConfig;
+  private readonly formatter = new SlackFormatter();
+  private botUserIdCache: string | null = null;
+
+  constructor(config: PermissionApiConfig) {
+    this.config = config;
+  }
+
+  // Web API helper - same conventions as SlackClient.api()
+  private async api<T extends SlackApiResponse>(
+    method: string,
+    params: Record<string, unknown> = {},
+    httpMethod: 'GET' | 'POST' = 'POST'
+  ): Promise<T> {
+    let url = `${this.config.url.replace(/\/+$/, '')}/${method}`;
+    const init: RequestInit = {
+      method: httpMethod,
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+        'Content-Type': httpMethod === 'POST'
+          ? 'application/json; charset=utf-8'
+          : 'application/x-www-form-urlencoded',
+      },
+    };
+
+    if (httpMethod === 'GET') {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) query.set(key, String(value));
+      }
+      url += `?${query.toString()}`;
+    } else {
+      init.body = JSON.stringify(params);
+    }
+
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Slack API error ${response.status}: ${text}`);
+    }
+
+    const data = (await response.json()) as T;
+    if (!data.ok) {
+      throw new Error(`Slack API error in ${method}: ${data.error ?? 'unknown_error'}`);
+    }
+    return data;
+  }
+
+  getFormatter(): PlatformFormatter {
+    return this.formatter;
+  }
+
+  async getBotUserId(): Promise<string> {
+    if (this.botUserIdCache) return this.botUserIdCache;
+    const auth = await this.api<AuthTestResponse>('auth.test');
+    this.botUserIdCache = auth.user_id;
+    return auth.user_id;
+  }
+
+  async getUsername(userId: string): Promise<string | null> {
+    try {
+      const response = await this.api<UsersInfoResponse>('users.info', { user: userId }, 'GET');
+      return response.user?.name ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  isUserAllowed(username: string): boolean {
+    if (this.config.allowedUsers.length === 0) return true;
+    return this.config.allowedUsers.includes(username);
+  }
+
+  async createInteractivePost(
+    message: string,
+    reactions: string[],
+    threadId?: string
+  ): Promise<PostedMessage> {
+    const response = await this.api<PostMessageResponse>('chat.postMessage', {
+      channel: this.config.channelId,
+      text: markdownToMrkdwn(message),
+      thread_ts: threadId,
+    });
+
+    // Add each reaction option, continuing even if some fail
+    for (const emoji of reactions) {
+      try {
+        await this.api('reactions.add', {
+          channel: this.config.channelId,
+          timestamp: response.ts,
+          name: emoji,
+        });
+      } catch (err) {
+        mcpLogger.error(`Failed to add reaction ${emoji}: ${err}`);
+      }
+    }
+
+    return { id: response.ts };
+  }
+
+  async updatePost(postId: string, message: string): Promise<void> {
+    await this.api('chat.update', {
+      channel: this.config.channelId,
+      ts: postId,
+      text: markdownToMrkdwn(message),
+    });
+  }
+
+  async waitForReaction(
+    postId: string,
+    botUserId: string,
+    timeoutMs: number,
+    accept?: (reaction: ReactionEvent) => Promise<boolean>
+  ): Promise<ReactionEvent | null> {
+    const deadline = Date.now() + timeoutMs;
+    // Reactions the caller rejected, so each is only checked once
+    const rejected = new Set<string>();
+
+    while (Date.now() < deadline) {
+      try {
+        const response = await this.api<ReactionsGetResponse>(
+          'reactions.get',
+          { channel: this.config.channelId, timestamp: postId, full: true },
+          'GET'
+        );
+
+        for (const reaction of response.message.reactions || []) {
+          for (const userId of reaction.users) {
+            // The bot's own reactions are the options, not answers
+            const key = `${reaction.name}:${userId}`;
+            if (userId === botUserId || rejected.has(key)) continue;
+
+            mcpLogger.debug(`Reaction received: ${reaction.name} from user: ${userId}`);
+            const event = { postId, userId, emojiName: reaction.name };
+            if (!accept || await accept(event)) return event;
+            rejected.add(key);
+          }
+        }
+      } catch (err) {
+        mcpLogger.debug(`Error polling reactions: ${err}`);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, remaining)));
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Create a Slack permission API instance
+ */
+export function createSlackPermissionApi(config: PermissionApiConfig): PermissionApi {
+  return new SlackPermissionApi(config);
+}
@@ -0,0 +1,160 @@
+// Slack-specific types for the platform abstraction layer
+// These mirror the subset of the Slack Web API and Socket Mode payloads we use
+
+/**
+ * Base shape of every Slack Web API response
+ */
+export interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  warning?: string;
+  response_metadata?: {
+    next_cursor?: string;
+  };
+}
+
+/**
+ * Slack file object (attached to messages)
+ */
+export interface SlackFile {
+  id: string;
+  name: string;
+  title?: string;
+  mimetype: string;
+  filetype: string;
+  size: number;
+  url_private?: string;
+  url_private_download?: string;
+}
+
+/**
+ * Slack message object (from events and conversations.* methods)
+ */
+export interface SlackMessage {
+  type: 'message';
+  subtype?: string;
+  ts: string;
+  thread_ts?: string;
+  channel?: string;
+  user?: string;
+  bot_id?: string;
+  text: string;
+  files?: SlackFile[];
+  reactions?: SlackReactionSummary[];
+  edited?: {
+    user: string;
+    ts: string;
+  };
+  /** The edited message (subtype message_changed) */
+  message?: SlackMessage;
+  /** The message before the edit or deletion (message_changed, message_deleted) */
+  previous_message?: SlackMessage;
+}
+
+/**
+ * Aggregated reactions on a message (reactions.get, conversations.history)
+ */
+export interface SlackReactionSummary {
+  name: string;
+  count: number;
+  users: string[];
+}
+
+/**
+ * Slack user object (users.info, users.list)
+ */
+export interface SlackUser {
+  id: string;
+  name: string;
+  real_name?: string;
+  deleted?: boolean;
+  is_bot?: boolean;
+  profile?: {
+    display_name?: string;
+    real_name?: string;
+    email?: string;
+  };
+}
+
+/**
+ * reaction_added / reaction_removed event payload
+ */
+export interface SlackReactionEvent {
+  type: 'reaction_added' | 'reaction_removed';
+  user: string;
+  reaction: string;
+  item: {
+    type: 'message' | 'file' | 'file_comment';
+    channel: string;
+    ts: string;
+  };
+  item_user?: string;
+  event_ts: string;
+}
+
+/**
+ * Socket Mode envelope sent over the WebSocket
+ * See: https://api.slack.com/apis/connections/socket-implement
+ */
+export interface SlackSocketEnvelope {
+  type: 'hello' | 'disconnect' | 'events_api' | 'slash_commands' | 'interactive';
+  envelope_id?: string;
+  reason?: string;
+  payload?: {
+    type: string;
+    event?: SlackMessage | SlackReactionEvent | { type: string };
+    [key: string]: unknown;
+  };
+  accepts_response_payload?: boolean;
+  retry_attempt?: number;
+}
+
+// Web API responses
+
+export interface AuthTestResponse extends SlackApiResponse {
+  user_id: string;
+  user: string;
+  team_id: string;
+  url?: string;  // Workspace URL, e.g. https://acme.slack.com/
+  bot_id?: string;
+}
+
+export interface ConnectionsOpenResponse extends SlackApiResponse {
+  url: string;
+}
+
+export interface PostMessageResponse extends SlackApiResponse {
+  channel: string;
+  ts: string;
+  message: SlackMessage;
+}
+
+export interface UsersInfoResponse extends SlackApiResponse {
+  user: SlackUser;
+}
+
+export interface UsersListResponse extends SlackApiResponse {
+  members: SlackUser[];
+}
+
+export interface ConversationsRepliesResponse extends SlackApiResponse {
+  messages: SlackMessage[];
+  has_more?: boolean;
+}
+
+export interface ConversationsHistoryResponse extends SlackApiResponse {
+  messages: SlackMessage[];
+  has_more?: boolean;
+}
+
+export interface PinsListResponse extends SlackApiResponse {
+  items: Array<{ type: string; message?: SlackMessage }>;
+}
+
+export interface FilesInfoResponse extends SlackApiResponse {
+  file: SlackFile;
+}
+
+export interface ReactionsGetResponse extends SlackApiResponse {
+  message: SlackMessage;
+}
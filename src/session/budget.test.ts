@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  checkBudgetBeforeMessage,
+  formatBudgetTable,
+  getBlockingBudget,
+  getBudgetStatuses,
+  loadBudgetSettings,
+  recordSessionCost,
+  type BudgetSettings,
+} from './budget.js';
+import { getDailySpend, recordSpend } from '../persistence/spend-ledger.js';
+import type { SessionContext } from './context.js';
+import type { Session } from './types.js';
+import type { NewConfig } from '../config/migration.js';
+
+function createSession(busy = true): Session {
+  return {
+    threadId: 'thread-1',
+    startedBy: 'alice',
+    claude: { isRunning: mock(() => true), isBusy: mock(() => busy), interrupt: mock(() => true) },
+    platform: { createPost: mock(() => Promise.resolve({ id: 'post', message: '', userId: 'bot' })) },
+  } as unknown as Session;
+}
+
+function createContext(budgets?: BudgetSettings): SessionContext {
+  return {
+    config: { workingDir: '/test', skipPermissions: true, chromeEnabled: false, debug: false, maxSessions: 5, budgets },
+    state: {} as any,
+    ops: { persistSession: mock(() => {}) } as any,
+  };
+}
+
+function postedMessages(session: Session): string[] {
+  return (session.platform.createPost as ReturnType<typeof mock>).mock.calls.map(c => c[0] as string);
+}
+
+describe('loadBudgetSettings', () => {
+  const config = (budgets: unknown) => ({ budgets } as unknown as NewConfig);
+
+  it('returns undefined without budgets', () => {
+    expect(loadBudgetSettings(config(undefined))).toBeUndefined();
+    expect(loadBudgetSettings(config({ warnAt: [90] }))).toBeUndefined();
+  });
+
+  it('reads the limits and warning thresholds', () => {
+    expect(loadBudgetSettings(config({ session: 5, userDaily: 20, warnAt: [90, 75] }))).toEqual({
+      sessionUSD: 5,
+      userDailyUSD: 20,
+      globalDailyUSD: undefined,
+      warnAt: [75, 90],
+    });
+  });
+
+  it('ignores invalid values', () => {
+    expect(loadBudgetSettings(config({ session: -1, globalDaily: 'lots', userDaily: 10 }))).toEqual({
+      sessionUSD: undefined,
+      userDailyUSD: 10,
+      globalDailyUSD: undefined,
+      warnAt: [50, 80],
+    });
+  });
+});
+
+describe('recordSessionCost', () => {
+  let dir: string;
+  let ledger: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-budget-'));
+    ledger = join(dir, 'spend.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('does nothing without budgets', async () => {
+    const session = createSession();
+    await recordSessionCost(session, 1, false, createContext(), ledger);
+    expect(session.spentUSD).toBeUndefined();
+    expect(getDailySpend(new Date(), ledger).totalUSD).toBe(0);
+  });
+
+  it('records the cost added since the last report', async () => {
+    const session = createSession();
+    const ctx = createContext({ userDailyUSD: 100, warnAt: [50] });
+
+    await recordSessionCost(session, 1, false, ctx, ledger);
+    await recordSessionCost(session, 1.5, false, ctx, ledger);
+    // A lower total from the same process is ignored
+    await recordSessionCost(session, 1.4, false, ctx, ledger);
+
+    expect(session.spentUSD).toBe(1.5);
+    expect(getDailySpend(new Date(), ledger).users.alice).toBe(1.5);
+    expect(ctx.ops.persistSession).toHaveBeenCalled();
+  });
+
+  it('starts counting again for a new Claude process', async () => {
+    const session = createSession();
+    const ctx = createContext({ sessionUSD: 100, warnAt: [] });
+
+    await recordSessionCost(session, 2, false, ctx, ledger);
+    session.claude = { ...session.claude } as Session['claude'];
+    await recordSessionCost(session, 0.5, false, ctx, ledger);
+
+    expect(session.spentUSD).toBe(2.5);
+  });
+
+  it('warns once per threshold', async () => {
+    const session = createSession();
+    const ctx = createContext({ sessionUSD: 10, warnAt: [50, 80] });
+
+    await recordSessionCost(session, 5, false, ctx, ledger);
+    await recordSessionCost(session, 6, false, ctx, ledger);
+    await recordSessionCost(session, 8.5, false, ctx, ledger);
+
+    expect(postedMessages(session)).toEqual([
+      '⚠️ **Budget** - 50% of the session budget used ($5.00 of $10.00)',
+      '⚠️ **Budget** - 80% of the session budget used ($8.50 of $10.00)',
+    ]);
+  });
+
+  it('interrupts Claude when a budget is exceeded mid-task', async () => {
+    const session = createSession();
+    const ctx = createContext({ globalDailyUSD: 3, warnAt: [] });
+    recordSpend('bob', 2, new Date(), ledger);
+
+    await recordSessionCost(session, 1.25, true, ctx, ledger);
+    await recordSessionCost(session, 1.5, true, ctx, ledger);
+
+    expect(session.claude.interrupt).toHaveBeenCalledTimes(1);
+    expect(session.wasInterrupted).toBe(true);
+    expect(postedMessages(session)).toEqual([
+      "🛑 **Budget exceeded** - the daily budget for all sessions is used up ($3.25 of $3.00) - it resets at midnight. Claude was interrupted. New messages won't be sent to Claude until the budget allows it.",
+    ]);
+  });
+
+  it('does not interrupt Claude between turns', async () => {
+    const session = createSession(false);
+    const ctx = createContext({ globalDailyUSD: 3, warnAt: [] });
+    recordSpend('bob', 2, new Date(), ledger);
+
+    await recordSessionCost(session, 1.25, true, ctx, ledger);
+
+    expect(session.claude.interrupt).not.toHaveBeenCalled();
+    expect(session.wasInterrupted).toBeUndefined();
+    expect(postedMessages(session)).toEqual([
+      "🛑 **Budget exceeded** - the daily budget for all sessions is used up ($3.25 of $3.00) - it resets at midnight. New messages won't be sent to Claude until the budget allows it.",
+    ]);
+  });
+});
+
+describe('budget checks', () => {
+  let dir: string;
+  let ledger: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-budget-'));
+    ledger = join(dir, 'spend.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('blocks messages once a budget is used up', async () => {
+    const session = createSession();
+    const ctx = createContext({ userDailyUSD: 5, warnAt: [] });
+
+    expect(await checkBudgetBeforeMessage(session, ctx, ledger)).toBe(true);
+
+    recordSpend('alice', 5, new Date(), ledger);
+    expect(await checkBudgetBeforeMessage(session, ctx, ledger)).toBe(false);
+    expect(postedMessages(session)[0]).toContain('Not sent to Claude');
+
+    // Other users still have budget
+    expect(getBlockingBudget(ctx.config.budgets, 'bob', undefined, ledger)).toBeUndefined();
+  });
+
+  it('formats a table of spent and remaining amounts', () => {
+    const session = { ...createSession(), spentUSD: 1.5 } as Session;
+    const statuses = getBudgetStatuses(
+      { sessionUSD: 5, userDailyUSD: 20, warnAt: [] },
+      'alice',
+      { totalUSD: 8, users: { alice: 6 }, warned: [] },
+      session
+    );
+    expect(formatBudgetTable(statuses)).toBe([
+      '| Budget | Spent | Limit | Remaining |',
+      '|:--|--:|--:|--:|',
+      '| Session budget | $1.50 (30%) | $5.00 | $3.50 |',
+      '| Daily budget for @alice | $6.00 (30%) | $20.00 | $14.00 |',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Cost budgets
+ *
+ * Optional spending limits from `budgets` in config.yaml: per session, per
+ * session owner per day, and for all sessions per day. Cost reported by
+ * Claude (result events and the status line) is recorded in the spend ledger.
+ * Crossing a warning threshold posts a notice in the thread; exceeding a
+ * budget interrupts the running task, and new messages are not sent to
+ * Claude until the budget allows it again (the daily budgets reset at
+ * midnight).
+ */
+
+import type { Session } from './types.js';
+import type { SessionContext } from './context.js';
+import type { NewConfig } from '../config/migration.js';
+import { loadConfigWithMigration } from '../config/migration.js';
+import {
+  getDailySpend,
+  markBudgetWarning,
+  recordSpend,
+  SPEND_LEDGER_PATH,
+  type DailySpend,
+} from '../persistence/spend-ledger.js';
+import { postInfo, postWarning } from './post-helpers.js';
+import { withErrorHandling } from './error-handler.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('budget');
+
+export const DEFAULT_WARN_AT = [50, 80];
+
+export interface BudgetSettings {
+  sessionUSD?: number;
+  userDailyUSD?: number;
+  globalDailyUSD?: number;
+  /** Percentages of a budget that post a warning */
+  warnAt: number[];
+}
+
+export type BudgetKind = 'session' | 'user' | 'global';
+
+export interface BudgetStatus {
+  kind: BudgetKind;
+  /** e.g. "daily budget for @alice" */
+  label: string;
+  spentUSD: number;
+  limitUSD: number;
+}
+
+function toBudget(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    log.warn(`Ignoring budgets.${name} "${value}" - expected a positive amount in USD`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Load budgets from the config. Returns undefined when no budget is set.
+ */
+export function loadBudgetSettings(
+  config: NewConfig | null = loadConfigWithMigration()
+): BudgetSettings | undefined {
+  const budgets = config?.budgets;
+  if (!budgets) return undefined;
+
+  const settings: BudgetSettings = {
+    sessionUSD: toBudget(budgets.session, 'session'),
+    userDailyUSD: toBudget(budgets.userDaily, 'userDaily'),
+    globalDailyUSD: toBudget(budgets.globalDaily, 'globalDaily'),
+    warnAt: DEFAULT_WARN_AT,
+  };
+  if (budgets.warnAt !== undefined) {
+    const warnAt = Array.isArray(budgets.warnAt)
+      ? budgets.warnAt.filter(p => typeof p === 'number' && p > 0 && p < 100)
+      : [];
+    if (!Array.isArray(budgets.warnAt) || warnAt.length !== budgets.warnAt.length) {
+      log.warn('Ignoring invalid budgets.warnAt entries - expected percentages between 0 and 100');
+    }
+    settings.warnAt = [...warnAt].sort((a, b) => a - b);
+  }
+
+  if (!settings.sessionUSD && !settings.userDailyUSD && !settings.globalDailyUSD) return undefined;
+  return settings;
+}
+
+export function formatUSD(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Budgets that apply to a session owner: their daily budget and the global one,
+ * plus the session budget when a session is given.
+ */
+export function getBudgetStatuses(
+  settings: BudgetSettings,
+  username: string,
+  spend: DailySpend,
+  session?: Session
+): BudgetStatus[] {
+  const statuses: BudgetStatus[] = [];
+  if (settings.sessionUSD && session) {
+    statuses.push({ kind: 'session', label: 'session budget', spentUSD: session.spentUSD ?? 0, limitUSD: settings.sessionUSD });
+  }
+  if (settings.userDailyUSD) {
+    statuses.push({ kind: 'user', label: `daily budget for @${username}`, spentUSD: spend.users[username] ?? 0, limitUSD: settings.userDailyUSD });
+  }
+  if (settings.globalDailyUSD) {
+    statuses.push({ kind: 'global', label: 'daily budget for all sessions', spentUSD: spend.totalUSD, limitUSD: settings.globalDailyUSD });
+  }
+  return statuses;
+}
+
+export function findExceededBudget(statuses: BudgetStatus[]): BudgetStatus | undefined {
+  return statuses.find(s => s.spentUSD >= s.limitUSD);
+}
+
+function formatExceeded(status: BudgetStatus): string {
+  const spent = `${formatUSD(status.spentUSD)} of ${formatUSD(status.limitUSD)}`;
+  return status.kind === 'session'
+    ? `the ${status.label} is used up (${spent})`
+    : `the ${status.label} is used up (${spent}) - it resets at midnight`;
+}
+
+/**
+ * Record the cost reported by Claude and enforce the budgets.
+ *
+ * @param totalCostUSD - Cost total of the current Claude process
+ * @param interrupt - Interrupt the running task when a budget is exceeded
+ *   (false for result events: the task has already finished)
+ */
+export async function recordSessionCost(
+  session: Session,
+  totalCostUSD: number,
+  interrupt: boolean,
+  ctx: SessionContext,
+  ledgerPath: string = SPEND_LEDGER_PATH
+): Promise<void> {
+  const settings = ctx.config.budgets;
+  if (!settings) return;
+
+  // The total starts from zero in each Claude process (e.g. after !cd or a resume)
+  const last = session.recordedCost?.claude === session.claude ? session.recordedCost.totalUSD : 0;
+  if (totalCostUSD <= last) return;
+  const delta = totalCostUSD - last;
+  session.recordedCost = { claude: session.claude, totalUSD: totalCostUSD };
+
+  const previous = getBudgetStatuses(settings, session.startedBy, getDailySpend(new Date(), ledgerPath), session);
+  session.spentUSD = (session.spentUSD ?? 0) + delta;
+  const spend = recordSpend(session.startedBy, delta, new Date(), ledgerPath);
+  const statuses = getBudgetStatuses(settings, session.startedBy, spend, session);
+  ctx.ops.persistSession(session);
+
+  const exceeded = findExceededBudget(statuses);
+  if (exceeded) {
+    // Only announce when this cost pushed the budget over the limit
+    if (!findExceededBudget(previous.filter(s => s.kind === exceeded.kind))) {
+      log.info(`🛑 Budget exceeded in ${session.threadId.substring(0, 8)}: ${exceeded.label}`);
+      // Only interrupt a turn in progress: interrupting an idle CLI ends it
+      const interrupted = interrupt && session.claude.isBusy();
+      if (interrupted) {
+        session.wasInterrupted = true;
+        session.claude.interrupt();
+      }
+      await withErrorHandling(
+        () => postInfo(session, `🛑 **Budget exceeded** - ${formatExceeded(exceeded)}. ` +
+          `${interrupted ? 'Claude was interrupted. ' : ''}New messages won't be sent to Claude until the budget allows it.`),
+        { action: 'Post budget exceeded', session }
+      );
+    }
+    return;
+  }
+
+  for (const status of statuses) {
+    const pct = (status.spentUSD / status.limitUSD) * 100;
+    const threshold = [...settings.warnAt].reverse().find(t => pct >= t);
+    if (threshold === undefined) continue;
+
+    let isNew: boolean;
+    if (status.kind === 'session') {
+      const key = `${threshold}`;
+      isNew = !session.budgetWarnings?.includes(key);
+      if (isNew) session.budgetWarnings = [...(session.budgetWarnings ?? []), key];
+    } else {
+      const key = status.kind === 'user' ? `user:${session.startedBy}:${threshold}` : `global:${threshold}`;
+      isNew = markBudgetWarning(key, new Date(), ledgerPath);
+    }
+    if (isNew) {
+      await withErrorHandling(
+        () => postWarning(session, `**Budget** - ${threshold}% of the ${status.label} used ` +
+          `(${formatUSD(status.spentUSD)} of ${formatUSD(status.limitUSD)})`),
+        { action: 'Post budget warning', session }
+      );
+    }
+  }
+}
+
+/**
+ * The budget that keeps a message from being sent, if any
+ */
+export function getBlockingBudget(
+  settings: BudgetSettings | undefined,
+  username: string,
+  session?: Session,
+  ledgerPath: string = SPEND_LEDGER_PATH
+): BudgetStatus | undefined {
+  if (!settings) return undefined;
+  return findExceededBudget(getBudgetStatuses(settings, username, getDailySpend(new Date(), ledgerPath), session));
+}
+
+/**
+ * Check the budgets before sending a message to Claude.
+ * Posts a notice and returns false when a budget is used up.
+ */
+export async function checkBudgetBeforeMessage(
+  session: Session,
+  ctx: SessionContext,
+  ledgerPath: string = SPEND_LEDGER_PATH
+): Promise<boolean> {
+  const blocking = getBlockingBudget(ctx.config.budgets, session.startedBy, session, ledgerPath);
+  if (!blocking) return true;
+  await postInfo(session, `🛑 **Not sent to Claude** - ${formatExceeded(blocking)}`);
+  return false;
+}
+
+/**
+ * Message explaining that a new session can't start because of a budget
+ */
+export function formatSessionStartBlocked(status: BudgetStatus): string {
+  return `🛑 **Can't start a session** - ${formatExceeded(status)}`;
+}
+
+/**
+ * Table of budgets with spent and remaining amounts
+ */
+export function formatBudgetTable(statuses: BudgetStatus[]): string {
+  const rows = statuses.map(s => {
+    const remaining = Math.max(0, s.limitUSD - s.spentUSD);
+    const pct = Math.round((s.spentUSD / s.limitUSD) * 100);
+    const label = s.label.charAt(0).toUpperCase() + s.label.slice(1);
+    return `| ${label} | ${formatUSD(s.spentUSD)} (${pct}%) | ${formatUSD(s.limitUSD)} | ${formatUSD(remaining)} |`;
+  });
+  return ['| Budget | Spent | Limit | Remaining |', '|:--|--:|--:|--:|', ...rows].join('\n');
+}
+
+/**
+ * Show the session's budgets (!budget)
+ */
+export async function showBudget(
+  session: Session,
+  ctx: SessionContext,
+  ledgerPath: string = SPEND_LEDGER_PATH
+): Promise<void> {
+  const settings = ctx.config.budgets;
+  if (!settings) {
+    await postInfo(session, `No budgets are configured. Set \`budgets\` in config.yaml to limit spending.`);
+    return;
+  }
+  const statuses = getBudgetStatuses(settings, session.startedBy, getDailySpend(new Date(), ledgerPath), session);
+  await postInfo(session, `💰 **Budgets**\n\n${formatBudgetTable(statuses)}`);
+}
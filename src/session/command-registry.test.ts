@@ -0,0 +1,188 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { CommandRegistry, formatUsage, type CommandContext, type CommandDefinition } from './command-registry.js';
+import { registerSessionCommands } from './commands.js';
+import type { PlatformClient, PlatformPost } from '../platform/index.js';
+import type { SessionManager } from './manager.js';
+
+function createMockClient(allowed: string[] = []): PlatformClient {
+  return {
+    createPost: mock(() => Promise.resolve({ id: 'post-1', message: '', userId: 'bot' })),
+    isUserAllowed: mock((username: string) => allowed.includes(username)),
+  } as unknown as PlatformClient;
+}
+
+function createMockManager(overrides?: Partial<SessionManager>): SessionManager {
+  return {
+    isUserAllowedInSession: mock(() => true),
+    isSessionOwner: mock(() => true),
+    ...overrides,
+  } as unknown as SessionManager;
+}
+
+function createContext(overrides?: Partial<CommandContext>): CommandContext {
+  return {
+    client: createMockClient(),
+    sessionManager: createMockManager(),
+    threadId: 'thread-1',
+    username: 'alice',
+    post: { id: 'p1', platformId: 'test', channelId: 'c1', userId: 'u1', message: '' } as PlatformPost,
+    inSession: true,
+    ...overrides,
+  };
+}
+
+function command(overrides: Partial<CommandDefinition>): CommandDefinition {
+  return {
+    name: 'test',
+    permission: 'anyone',
+    description: 'Test command',
+    handler: mock(() => Promise.resolve()),
+    ...overrides,
+  };
+}
+
+describe('CommandRegistry.match', () => {
+  const registry = new CommandRegistry();
+  registry.register(command({ name: 'stop', aliases: ['cancel'], bare: true }));
+  registry.register(command({ name: 'worktree', args: [{ name: 'branch', required: true }] }));
+  registry.register(command({ name: 'worktree list' }));
+  registry.register(command({ name: 'cd', args: [{ name: 'path', required: true, rest: true }] }));
+  registry.register(command({ name: 'invite', args: [{ name: 'user', required: true, user: true }] }));
+  registry.register(command({ name: 'permissions', args: [{ name: 'mode', required: true, choices: ['interactive', 'auto'] }] }));
+
+  it('matches names and aliases case-insensitively', () => {
+    expect(registry.match('!STOP')?.command.name).toBe('stop');
+    expect(registry.match('!cancel')?.command.name).toBe('stop');
+  });
+
+  it('matches bare words only when they are the whole message', () => {
+    expect(registry.match('stop')?.command.name).toBe('stop');
+    expect(registry.match('stop the build')).toBeNull();
+    expect(registry.match('cd /tmp')).toBeNull();
+  });
+
+  it('prefers the longest matching subcommand', () => {
+    expect(registry.match('!worktree list')?.command.name).toBe('worktree list');
+    expect(registry.match('!worktree feature/foo')?.args).toEqual({ branch: 'feature/foo' });
+  });
+
+  it('keeps spacing in rest arguments', () => {
+    expect(registry.match('!cd  ~/my  project ')?.args).toEqual({ path: '~/my  project' });
+  });
+
+  it('strips @ from user arguments and validates choices', () => {
+    expect(registry.match('!invite @bob')?.args).toEqual({ user: 'bob' });
+    expect(registry.match('!permissions Interactive')?.args).toEqual({ mode: 'interactive' });
+    expect(registry.match('!permissions skip')?.error).toBe('Usage: `!permissions <interactive|auto>`');
+  });
+
+  it('reports usage when required arguments are missing', () => {
+    expect(registry.match('!worktree')?.error).toBe('Usage: `!worktree <branch>`');
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => registry.register(command({ name: 'halt', aliases: ['stop'] }))).toThrow('already registered');
+  });
+});
+
+describe('CommandRegistry.execute', () => {
+  it('runs the handler with parsed arguments', async () => {
+    const registry = new CommandRegistry();
+    const handler = mock(() => Promise.resolve());
+    registry.register(command({ name: 'kick', args: [{ name: 'user', required: true, user: true }], handler }));
+
+    expect(await registry.execute('!kick @bob', createContext())).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+    const calls = handler.mock.calls as unknown as Array<[{ args: Record<string, string> }]>;
+    expect(calls[0][0].args).toEqual({ user: 'bob' });
+  });
+
+  it('ignores thread commands outside sessions', async () => {
+    const registry = new CommandRegistry();
+    const handler = mock(() => Promise.resolve());
+    registry.register(command({ name: 'stop', handler }));
+    registry.register(command({ name: 'kill', scope: 'anywhere', handler }));
+
+    const ctx = createContext({ inSession: false });
+    expect(await registry.execute('!stop', ctx)).toBe(false);
+    expect(await registry.execute('!kill', ctx)).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('enforces permission levels', async () => {
+    const registry = new CommandRegistry();
+    const handler = mock(() => Promise.resolve());
+    registry.register(command({ name: 'cd', permission: 'owner', handler }));
+    registry.register(command({ name: 'kill', permission: 'admin', handler }));
+
+    const client = createMockClient(['admin']);
+    const sessionManager = createMockManager({ isSessionOwner: mock(() => false) });
+    const ctx = createContext({ client, sessionManager });
+
+    expect(await registry.execute('!cd /tmp', ctx)).toBe(true);
+    expect(await registry.execute('!kill', ctx)).toBe(true);
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.createPost).toHaveBeenCalledWith('⛔ @alice is not allowed to use `!kill`', 'thread-1');
+
+    expect(await registry.execute('!kill', { ...ctx, username: 'admin' })).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('posts usage errors instead of running the handler', async () => {
+    const registry = new CommandRegistry();
+    const handler = mock(() => Promise.resolve());
+    registry.register(command({ name: 'cd', args: [{ name: 'path', required: true }], handler }));
+
+    const ctx = createContext();
+    expect(await registry.execute('!cd', ctx)).toBe(true);
+    expect(handler).not.toHaveBeenCalled();
+    expect(ctx.client.createPost).toHaveBeenCalledWith('❌ Usage: `!cd <path>`', 'thread-1');
+  });
+
+  it('returns false for regular messages', async () => {
+    const registry = new CommandRegistry();
+    registry.register(command({ name: 'help', bare: true }));
+    expect(await registry.execute('can you help me?', createContext())).toBe(false);
+  });
+});
+
+describe('session commands', () => {
+  const registry = new CommandRegistry();
+  registerSessionCommands(registry);
+
+  it('generates the help table from the registry', () => {
+    const help = registry.formatHelp();
+    expect(help).toContain('| `!help` | Show this help message |');
+    expect(help).toContain('| `!worktree switch <branch>` | Switch to an existing worktree |');
+    expect(help).toContain('| `!stop`, `!cancel` | Stop this session |');
+  });
+
+  it('translates Claude slash commands', async () => {
+    const sendFollowUp = mock(() => Promise.resolve());
+    const ctx = createContext({ sessionManager: createMockManager({ sendFollowUp }) });
+
+    await registry.execute('!context', ctx);
+    expect(sendFollowUp).toHaveBeenCalledWith('thread-1', '/context');
+  });
+
+  it('only lets the session owner attach files', async () => {
+    const attachFile = mock(() => Promise.resolve());
+    const client = createMockClient();
+    const participant = createContext({ client, sessionManager: createMockManager({ attachFile, isSessionOwner: mock(() => false) }) });
+
+    expect(await registry.execute('!attach .env', participant)).toBe(true);
+    expect(attachFile).not.toHaveBeenCalled();
+    expect(client.createPost).toHaveBeenCalledWith('⛔ @alice is not allowed to use `!attach`', 'thread-1');
+
+    const owner = createContext({ sessionManager: createMockManager({ attachFile }) });
+    await registry.execute('!attach report.md', owner);
+    expect(attachFile).toHaveBeenCalledWith('thread-1', 'report.md');
+  });
+
+  it('formats usage with user and choice arguments', () => {
+    const invite = registry.list().find(c => c.name === 'invite');
+    const permissions = registry.list().find(c => c.name === 'permissions');
+    expect(invite && formatUsage(invite)).toBe('!invite <@user>');
+    expect(permissions && formatUsage(permissions)).toBe('!permissions <interactive|auto>');
+  });
+});
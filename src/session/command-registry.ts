@@ -0,0 +1,278 @@
+/**
+ * Command registry
+ *
+ * Declarative definitions for the `!commands` users can send in a thread.
+ * Each command declares its name, aliases, arguments, permission level and
+ * help text; the registry parses messages, enforces permissions and generates
+ * `!help` so every platform behaves identically.
+ */
+
+import type { PlatformClient, PlatformPost } from '../platform/index.js';
+import type { SessionManager } from './manager.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Who may run a command:
+ * - `anyone`: any user in the thread
+ * - `session`: session participants (invited users and globally allowed users)
+ * - `owner`: the session owner or globally allowed users
+ * - `admin`: globally allowed users only
+ */
+export type CommandPermission = 'anyone' | 'session' | 'owner' | 'admin';
+
+/**
+ * Where a command can be used:
+ * - `thread`: only inside an active session thread (default)
+ * - `anywhere`: also outside sessions, e.g. as the first message
+ */
+export type CommandScope = 'thread' | 'anywhere';
+
+export interface CommandArg {
+  /** Name shown in usage, e.g. `branch` → `<branch>` */
+  name: string;
+  required?: boolean;
+  /** Consume the rest of the message (only valid for the last argument) */
+  rest?: boolean;
+  /** Username argument: a leading `@` is stripped */
+  user?: boolean;
+  /** Allowed values (matched case-insensitively, normalized to lowercase) */
+  choices?: string[];
+}
+
+export interface CommandInvocation {
+  client: PlatformClient;
+  sessionManager: SessionManager;
+  threadId: string;
+  username: string;
+  post: PlatformPost;
+  /** Parsed arguments keyed by CommandArg.name (optional arguments may be absent) */
+  args: Record<string, string>;
+  /** The command that matched */
+  command: CommandDefinition;
+  /** The registry that dispatched this command (used by !help) */
+  registry: CommandRegistry;
+}
+
+export interface CommandDefinition {
+  /** Primary name without `!`; may contain a subcommand, e.g. `worktree list` */
+  name: string;
+  aliases?: string[];
+  args?: CommandArg[];
+  permission: CommandPermission;
+  scope?: CommandScope;
+  /** Also match the bare word without `!` (e.g. `stop`, `help`) */
+  bare?: boolean;
+  /** One-line help text */
+  description: string;
+  /** Leave out of `!help` and the system prompt */
+  hidden?: boolean;
+  handler: (invocation: CommandInvocation) => Promise<void>;
+}
+
+export interface CommandMatch {
+  command: CommandDefinition;
+  args: Record<string, string>;
+  /** Set when the command matched but its arguments are invalid */
+  error?: string;
+}
+
+export interface CommandContext {
+  client: PlatformClient;
+  sessionManager: SessionManager;
+  threadId: string;
+  username: string;
+  post: PlatformPost;
+  /** Whether the message was posted in an active session thread */
+  inSession: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export class CommandRegistry {
+  private commands: CommandDefinition[] = [];
+
+  register(command: CommandDefinition): void {
+    const names = [command.name, ...(command.aliases ?? [])].map(n => n.toLowerCase());
+    for (const existing of this.commands) {
+      const taken = [existing.name, ...(existing.aliases ?? [])].map(n => n.toLowerCase());
+      const clash = names.find(n => taken.includes(n));
+      if (clash) {
+        throw new Error(`Command "${clash}" is already registered`);
+      }
+    }
+    this.commands.push(command);
+  }
+
+  list(): CommandDefinition[] {
+    return [...this.commands];
+  }
+
+  /**
+   * Match a message against registered commands.
+   * The longest matching name wins, so `!worktree list` beats `!worktree <branch>`.
+   */
+  match(content: string): CommandMatch | null {
+    const trimmed = content.trim();
+    const hasPrefix = trimmed.startsWith('!');
+    const body = hasPrefix ? trimmed.substring(1) : trimmed;
+    const words = body.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+
+    let best: { command: CommandDefinition; nameWords: number } | null = null;
+    for (const command of this.commands) {
+      for (const name of [command.name, ...(command.aliases ?? [])]) {
+        const nameWords = name.toLowerCase().split(' ');
+        if (nameWords.length > words.length) continue;
+        if (!nameWords.every((w, i) => w === words[i].toLowerCase())) continue;
+        // Bare words only match on their own, so "stop the build" stays a prompt
+        if (!hasPrefix && (!command.bare || nameWords.length !== words.length)) continue;
+        if (!best || nameWords.length > best.nameWords) {
+          best = { command, nameWords: nameWords.length };
+        }
+      }
+    }
+    if (!best) return null;
+
+    // Re-split the original text so rest arguments keep their spacing
+    let remainder = body;
+    for (let i = 0; i < best.nameWords; i++) {
+      remainder = remainder.trimStart().replace(/^\S+/, '');
+    }
+    return parseArgs(best.command, remainder.trim());
+  }
+
+  /**
+   * Parse and run a command. Returns true if the message was a command
+   * (including usage and permission errors), false if it should be handled
+   * as a regular message.
+   */
+  async execute(content: string, ctx: CommandContext): Promise<boolean> {
+    const match = this.match(content);
+    if (!match) return false;
+
+    const { command } = match;
+    if ((command.scope ?? 'thread') === 'thread' && !ctx.inSession) return false;
+
+    if (!isPermitted(command.permission, ctx)) {
+      await ctx.client.createPost(
+        `⛔ @${ctx.username} is not allowed to use \`!${command.name}\``,
+        ctx.threadId
+      );
+      return true;
+    }
+
+    if (match.error) {
+      await ctx.client.createPost(`❌ ${match.error}`, ctx.threadId);
+      return true;
+    }
+
+    await command.handler({
+      client: ctx.client,
+      sessionManager: ctx.sessionManager,
+      threadId: ctx.threadId,
+      username: ctx.username,
+      post: ctx.post,
+      args: match.args,
+      command,
+      registry: this,
+    });
+    return true;
+  }
+
+  /**
+   * Markdown table of visible commands for `!help`
+   */
+  formatHelp(): string {
+    const rows = this.visible().map(c => `| ${formatAliases(c)} | ${c.description} |`);
+    return [
+      `| Command | Description |`,
+      `|:--------|:------------|`,
+      ...rows,
+    ].join('\n');
+  }
+
+  /**
+   * Bullet list of visible commands for the system prompt
+   */
+  formatList(): string {
+    return this.visible().map(c => `- ${formatAliases(c)}: ${c.description}`).join('\n');
+  }
+
+  private visible(): CommandDefinition[] {
+    return this.commands.filter(c => !c.hidden);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Usage string for a command, e.g. `!worktree switch <branch>`
+ */
+export function formatUsage(command: CommandDefinition): string {
+  const args = (command.args ?? []).map(arg => {
+    const label = arg.choices ? arg.choices.join('|') : arg.user ? `@${arg.name}` : arg.name;
+    return arg.required ? `<${label}>` : `[${label}]`;
+  });
+  return ['!' + command.name, ...args].join(' ');
+}
+
+function formatAliases(command: CommandDefinition): string {
+  const aliases = (command.aliases ?? []).map(a => `\`!${a}\``);
+  return [`\`${formatUsage(command)}\``, ...aliases].join(', ');
+}
+
+function parseArgs(command: CommandDefinition, text: string): CommandMatch {
+  const specs = command.args ?? [];
+  const args: Record<string, string> = {};
+  const usageError = `Usage: \`${formatUsage(command)}\``;
+  let remaining = text;
+
+  for (const spec of specs) {
+    let value: string | undefined;
+    if (spec.rest) {
+      value = remaining || undefined;
+      remaining = '';
+    } else {
+      const m = remaining.match(/^(\S+)\s*(.*)$/s);
+      value = m?.[1];
+      remaining = m?.[2] ?? '';
+    }
+
+    if (value === undefined) {
+      if (spec.required) return { command, args, error: usageError };
+      continue;
+    }
+
+    if (spec.user) {
+      value = value.replace(/^@/, '');
+      if (!/^[\w.-]+$/.test(value)) return { command, args, error: usageError };
+    }
+    if (spec.choices) {
+      value = value.toLowerCase();
+      if (!spec.choices.includes(value)) return { command, args, error: usageError };
+    }
+    args[spec.name] = value;
+  }
+
+  return { command, args };
+}
+
+function isPermitted(permission: CommandPermission, ctx: CommandContext): boolean {
+  switch (permission) {
+    case 'anyone':
+      return true;
+    case 'session':
+      return ctx.sessionManager.isUserAllowedInSession(ctx.threadId, ctx.username);
+    case 'owner':
+      return ctx.sessionManager.isSessionOwner(ctx.threadId, ctx.username);
+    case 'admin':
+      return ctx.client.isUserAllowed(ctx.username);
+  }
+}
@@ -61,6 +61,7 @@ function createMockSession(overrides?: Partial<Session>): Session {
       sendMessage: mock(() => {}),
       on: mock(() => {}),
       interrupt: mock(() => true),
+      getPermissionState: mock(() => null),
     } as any,
     claudeSessionId: 'claude-session-1',
     startedBy: 'testuser',
@@ -118,6 +119,7 @@ function createMockSessionContext(sessions: Map<string, Session> = new Map()): S
         load: mock(() => new Map()),
         findByPostId: mock(() => undefined),
       } as any,
+      sessionQueue: [],
       isShuttingDown: false,
     },
     ops: {
@@ -134,12 +136,14 @@ function createMockSessionContext(sessions: Map<string, Session> = new Map()): S
       updateSessionHeader: mock(() => Promise.resolve()),
       persistSession: mock(() => {}),
       unpersistSession: mock(() => {}),
+      recordUsage: mock(() => {}),
       shouldPromptForWorktree: mock(() => Promise.resolve(null)),
       postWorktreePrompt: mock(() => Promise.resolve()),
       buildMessageContent: mock((prompt) => Promise.resolve(prompt)),
       offerContextPrompt: mock(() => Promise.resolve(false)),
       bumpTasksToBottom: mock(() => Promise.resolve()),
       killSession: mock(() => Promise.resolve()),
+      startQueuedSessions: mock(() => Promise.resolve()),
     },
   };
 }
@@ -289,6 +293,112 @@ describe('kickUser', () => {
   });
 });
 
+describe('handoffSession', () => {
+  it('transfers ownership and notifies both users', async () => {
+    const mockPlatform = createMockPlatform({
+      getUserByUsername: mock(() => Promise.resolve({ id: 'user-2', username: 'bob', displayName: 'Bob' })),
+    });
+    const session = createMockSession({ platform: mockPlatform });
+    const sessions = new Map([['test-platform:thread-123', session]]);
+    const ctx = createMockSessionContext(sessions);
+
+    await commands.handoffSession(session, 'bob', 'testuser', ctx);
+
+    expect(session.startedBy).toBe('bob');
+    expect(session.startedByDisplayName).toBe('Bob');
+    expect(session.sessionAllowedUsers.has('bob')).toBe(true);
+    expect(session.sessionAllowedUsers.has('testuser')).toBe(true);
+    expect(mockPlatform.createPost).toHaveBeenCalledWith(
+      expect.stringContaining('@bob now owns this session, handed off from @testuser'),
+      session.threadId
+    );
+    expect(ctx.ops.persistSession).toHaveBeenCalledWith(session);
+    expect(ctx.ops.updateStickyMessage).toHaveBeenCalled();
+  });
+
+  it('rejects handoff from non-owner', async () => {
+    const mockPlatform = createMockPlatform({
+      getUserByUsername: mock(() => Promise.resolve({ id: 'user-2', username: 'bob' })),
+      isUserAllowed: mock(() => false),
+    });
+    const session = createMockSession({ platform: mockPlatform });
+    const sessions = new Map([['test-platform:thread-123', session]]);
+    const ctx = createMockSessionContext(sessions);
+
+    await commands.handoffSession(session, 'bob', 'otheruser', ctx);
+
+    expect(session.startedBy).toBe('testuser');
+    expect(ctx.ops.persistSession).not.toHaveBeenCalled();
+  });
+
+  it('shows warning when user does not exist', async () => {
+    const mockPlatform = createMockPlatform({
+      getUserByUsername: mock(() => Promise.resolve(null)),
+    });
+    const session = createMockSession({ platform: mockPlatform });
+    const sessions = new Map([['test-platform:thread-123', session]]);
+    const ctx = createMockSessionContext(sessions);
+
+    await commands.handoffSession(session, 'nobody', 'testuser', ctx);
+
+    expect(session.startedBy).toBe('testuser');
+    expect(mockPlatform.createPost).toHaveBeenCalledWith(
+      expect.stringContaining('does not exist'),
+      session.threadId
+    );
+  });
+});
+
+describe('changeModel', () => {
+  it('shows the current model without an argument', async () => {
+    const session = createMockSession({ model: 'sonnet' });
+    const ctx = createMockSessionContext(new Map([['test-platform:thread-123', session]]));
+
+    await commands.changeModel(session, undefined, 'otheruser', ctx);
+
+    expect(session.platform.createPost).toHaveBeenCalledWith(
+      expect.stringContaining('This session uses **Sonnet**'),
+      session.threadId
+    );
+  });
+
+  it('rejects a model switch from non-owner', async () => {
+    const session = createMockSession({ model: 'sonnet' });
+    const ctx = createMockSessionContext(new Map([['test-platform:thread-123', session]]));
+
+    await commands.changeModel(session, 'opus', 'otheruser', ctx);
+
+    expect(session.model).toBe('sonnet');
+    expect(ctx.ops.persistSession).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid model names', async () => {
+    const session = createMockSession();
+    const ctx = createMockSessionContext(new Map([['test-platform:thread-123', session]]));
+
+    await commands.changeModel(session, 'opus;rm', 'testuser', ctx);
+
+    expect(session.model).toBeUndefined();
+    expect(session.platform.createPost).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid model'),
+      session.threadId
+    );
+  });
+
+  it('does not restart when the model is already in use', async () => {
+    const session = createMockSession({ model: 'opus' });
+    const ctx = createMockSessionContext(new Map([['test-platform:thread-123', session]]));
+
+    await commands.changeModel(session, 'Opus', 'testuser', ctx);
+
+    expect(session.claude.kill).not.toHaveBeenCalled();
+    expect(session.platform.createPost).toHaveBeenCalledWith(
+      expect.stringContaining('already uses `opus`'),
+      session.threadId
+    );
+  });
+});
+
 describe('cancelSession', () => {
   it('kills the session and posts cancellation message', async () => {
     const mockPlatform = createMockPlatform();
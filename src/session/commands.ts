@@ -1,18 +1,27 @@
 /**
  * User commands module
  *
- * Handles user commands like !cd, !invite, !kick, !permissions, !escape, !stop.
+ * Handles user commands like !cd, !invite, !kick, !permissions, !escape, !stop,
+ * and registers them with the command registry.
  */
 
 import type { Session } from './types.js';
 import type { SessionContext } from './context.js';
+import type { CommandDefinition, CommandRegistry } from './command-registry.js';
 import type { ClaudeCliOptions, ClaudeEvent } from '../claude/cli.js';
 import { ClaudeCli } from '../claude/cli.js';
+import {
+  getModelDisplayName,
+  isValidModel,
+  MODEL_ALIASES,
+  normalizeModel,
+  resolveSessionModel,
+} from '../claude/model.js';
 import { randomUUID } from 'crypto';
 import { resolve } from 'path';
 import { existsSync, statSync } from 'fs';
 import { getUpdateInfo } from '../update-notifier.js';
-import { getReleaseNotes, getWhatsNewSummary } from '../changelog.js';
+import { getReleaseNotes, getWhatsNewSummary, formatReleaseNotes } from '../changelog.js';
 import { getLogo } from '../logo.js';
 import { VERSION } from '../version.js';
 import {
@@ -29,9 +38,23 @@ import { createLogger } from '../utils/logger.js';
 import { formatPullRequestLink } from '../utils/pr-detector.js';
 import { getCurrentBranch, isGitRepository } from '../git/worktree.js';
 import { getClaudeCliVersion } from '../claude/version-check.js';
+import { formatScope } from '../mcp/session-permissions.js';
+import { formatAuditTable, parseAuditQuery, queryAuditLog, readAuditLog } from '../persistence/audit-log.js';
+import {
+  formatUsageReport,
+  getPeriodStart,
+  parseUsageQuery,
+  queryUsageLog,
+  readUsageLog,
+  summarizeUsage,
+} from '../persistence/usage-log.js';
+import { EXPORT_FORMATS, type ExportFormat } from './export.js';
 
 const log = createLogger('commands');
 
+/** Rows shown by !audit; the CLI subcommand prints the full log */
+const AUDIT_ROWS = 20;
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -225,6 +248,7 @@ export async function changeDirectory(
     resume: false, // Fresh start - can't resume across directories
     chrome: ctx.config.chromeEnabled,
     platformConfig: session.platform.getMcpConfig(),
+    model: resolveSessionModel(session.model, absoluteDir, session.platformId),
   };
 
   // Restart Claude with new options
@@ -323,6 +347,46 @@ export async function kickUser(
   }
 }
 
+/**
+ * Hand session ownership to another user (e.g. when the owner goes offline).
+ * The previous owner stays in the session as a participant.
+ */
+export async function handoffSession(
+  session: Session,
+  newOwner: string,
+  handedOffBy: string,
+  ctx: SessionContext
+): Promise<void> {
+  // Only session owner or globally allowed users can hand off
+  if (!await requireSessionOwner(session, handedOffBy, 'hand off this session')) {
+    return;
+  }
+
+  // Validate that the user exists on the platform
+  const user = await session.platform.getUserByUsername(newOwner);
+  if (!user) {
+    await postWarning(session, `User @${newOwner} does not exist on this platform`);
+    return;
+  }
+
+  if (newOwner === session.startedBy) {
+    await postWarning(session, `@${newOwner} already owns this session`);
+    return;
+  }
+
+  const previousOwner = session.startedBy;
+  session.startedBy = newOwner;
+  session.startedByDisplayName = user.displayName;
+  session.sessionAllowedUsers.add(newOwner);
+
+  const by = handedOffBy === previousOwner ? '' : ` by @${handedOffBy}`;
+  await postUser(session, `@${newOwner} now owns this session, handed off from @${previousOwner}${by}`);
+  log.info(`🤝 Session (${session.threadId.substring(0, 8)}…) handed off from @${previousOwner} to @${newOwner} by @${handedOffBy}`);
+  await updateSessionHeader(session, ctx);
+  ctx.ops.persistSession(session);
+  await ctx.ops.updateStickyMessage();
+}
+
 // ---------------------------------------------------------------------------
 // Permission management
 // ---------------------------------------------------------------------------
@@ -367,6 +431,7 @@ export async function enableInteractivePermissions(
     resume: true, // Resume to keep conversation context
     chrome: ctx.config.chromeEnabled,
     platformConfig: session.platform.getMcpConfig(),
+    model: resolveSessionModel(session.model, session.workingDir, session.platformId),
   };
 
   // Restart Claude with new options
@@ -386,33 +451,107 @@ export async function enableInteractivePermissions(
 }
 
 // ---------------------------------------------------------------------------
-// Message approval
+// Model selection
 // ---------------------------------------------------------------------------
 
 /**
- * Request approval for a message from an unauthorized user.
+ * Show the session's model, or switch to another one (!model).
+ * Claude is restarted with the new model and resumes the conversation.
  */
-export async function requestMessageApproval(
+export async function changeModel(
   session: Session,
+  model: string | undefined,
   username: string,
-  message: string,
   ctx: SessionContext
 ): Promise<void> {
-  // If there's already a pending message approval, ignore
-  if (session.pendingMessageApproval) {
+  const current = resolveSessionModel(session.model, session.workingDir, session.platformId);
+  if (!model) {
+    const active = session.usageStats?.modelDisplayName ?? (current ? getModelDisplayName(current) : 'the Claude CLI default');
+    await postInfo(session, `🤖 This session uses **${active}**. Switch with \`!model <${MODEL_ALIASES.join('|')}|id>\``);
+    return;
+  }
+
+  // Only session owner or globally allowed users can change the model
+  if (!await requireSessionOwner(session, username, 'change the model')) {
+    return;
+  }
+
+  const requested = normalizeModel(model);
+  if (!isValidModel(requested)) {
+    await postError(session, `Invalid model \`${model}\` - use ${MODEL_ALIASES.join(', ')} or a model ID`);
+    return;
+  }
+  if (requested === current) {
+    await postInfo(session, `🤖 This session already uses \`${requested}\``);
     return;
   }
 
+  session.model = requested;
+
+  const shortId = session.threadId.substring(0, 8);
+  log.info(`🤖 Session (${shortId}…) switching model to ${requested}`);
+
+  const cliOptions: ClaudeCliOptions = {
+    workingDir: session.workingDir,
+    threadId: session.threadId,
+    skipPermissions: ctx.config.skipPermissions && !session.forceInteractivePermissions,
+    sessionId: session.claudeSessionId,
+    resume: session.hasClaudeResponded, // Nothing to resume before Claude's first response
+    chrome: ctx.config.chromeEnabled,
+    platformConfig: session.platform.getMcpConfig(),
+    model: requested,
+  };
+
+  const success = await restartClaudeSession(session, cliOptions, ctx, 'Switch model');
+  if (!success) return;
+
+  // Show the new model right away; the next result reports its full ID
+  if (session.usageStats) {
+    session.usageStats.primaryModel = requested;
+    session.usageStats.modelDisplayName = getModelDisplayName(requested);
+  }
+  await updateSessionHeader(session, ctx);
+  await ctx.ops.updateStickyMessage();
+
+  await postCommand(session, `**Model changed** to \`${requested}\` by @${username}\n*Claude Code restarted, conversation resumed*`);
+
+  resetSessionActivity(session);
+  ctx.ops.persistSession(session);
+}
+
+// ---------------------------------------------------------------------------
+// Message approval
+// ---------------------------------------------------------------------------
+
+/**
+ * Text of the approval post for a message from an unauthorized user
+ */
+export function formatMessageApproval(username: string, message: string): string {
   // Truncate long messages for display
   const displayMessage = message.length > 200 ? message.substring(0, 200) + '...' : message;
 
-  const approvalMessage =
-    `🔒 **Message from @${username}** needs approval:\n\n` +
+  return `🔒 **Message from @${username}** needs approval:\n\n` +
     `> ${displayMessage}\n\n` +
     `React: 👍 Allow once | ✅ Invite to session | 👎 Deny`;
+}
+
+/**
+ * Request approval for a message from an unauthorized user.
+ */
+export async function requestMessageApproval(
+  session: Session,
+  username: string,
+  message: string,
+  ctx: SessionContext,
+  sourcePostId?: string
+): Promise<void> {
+  // If there's already a pending message approval, ignore
+  if (session.pendingMessageApproval) {
+    return;
+  }
 
   const post = await session.platform.createInteractivePost(
-    approvalMessage,
+    formatMessageApproval(username, message),
     [APPROVAL_EMOJIS[0], ALLOW_ALL_EMOJIS[0], DENIAL_EMOJIS[0]],
     session.threadId
   );
@@ -421,6 +560,7 @@ export async function requestMessageApproval(
     postId: post.id,
     originalMessage: message,
     fromUser: username,
+    sourcePostId,
   };
 
   // Register post for reaction routing
@@ -431,6 +571,14 @@ export async function requestMessageApproval(
 // Session header
 // ---------------------------------------------------------------------------
 
+/**
+ * Link to another session's thread, titled with its topic when it is active.
+ */
+function formatThreadLink(session: Session, threadId: string, ctx: SessionContext): string {
+  const title = ctx.ops.findSessionByThreadId(threadId)?.sessionTitle || `thread ${threadId.substring(0, 8)}`;
+  return `[${title}](${session.platform.getThreadLink(threadId)})`;
+}
+
 /**
  * Update the session header post with current participants and status.
  */
@@ -494,7 +642,7 @@ export async function updateSessionHeader(
   }
 
   rows.push(`| 📂 **Directory** | \`${shortDir}\` |`);
-  rows.push(`| 👤 **Started by** | @${session.startedBy} |`);
+  rows.push(`| 👤 **Owner** | @${session.startedBy} |`);
 
   // Show worktree info if active, otherwise show git branch if in a git repo
   if (session.worktreeInfo) {
@@ -518,10 +666,32 @@ export async function updateSessionHeader(
     rows.push(`| 🔗 **Pull Request** | ${formatPullRequestLink(session.pullRequestUrl)} |`);
   }
 
+  // Cross-link forked sessions (!fork)
+  if (session.forkedFromThreadId) {
+    rows.push(`| 🔀 **Forked from** | ${formatThreadLink(session, session.forkedFromThreadId, ctx)} |`);
+  }
+  if (session.forkThreadIds?.length) {
+    rows.push(`| 🔀 **Forks** | ${session.forkThreadIds.map(id => formatThreadLink(session, id, ctx)).join(', ')} |`);
+  }
+
   if (otherParticipants) {
     rows.push(`| 👥 **Participants** | ${otherParticipants} |`);
   }
 
+  // Follow-ups waiting for Claude to finish its turn
+  const queuedCount = session.messageQueue?.length ?? 0;
+  if (queuedCount > 0) {
+    rows.push(`| ⏳ **Queued** | ${queuedCount} message${queuedCount === 1 ? '' : 's'} (sent when Claude finishes; ❌ to withdraw) |`);
+  }
+
+  // Show tools pre-approved via ✅ / 🔓 on permission prompts
+  const permissionState = session.claude.getPermissionState();
+  if (permissionState?.allowAll) {
+    rows.push(`| 🔓 **Pre-approved** | All tools |`);
+  } else if (permissionState?.scopes.length) {
+    rows.push(`| 🔓 **Pre-approved** | ${permissionState.scopes.map(formatScope).join(', ')} |`);
+  }
+
   // Show Claude CLI version
   const claudeVersion = getClaudeCliVersion();
   if (claudeVersion) {
@@ -558,3 +728,296 @@ export async function updateSessionHeader(
     { action: 'Update session header', session }
   );
 }
+
+// ---------------------------------------------------------------------------
+// Command registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Send a Claude Code slash command (translates `!context` → `/context`).
+ */
+function claudeSlashCommand(name: string, description: string): CommandDefinition {
+  return {
+    name,
+    permission: 'session',
+    description,
+    handler: async ({ sessionManager, threadId }) => {
+      await sessionManager.sendFollowUp(threadId, `/${name}`);
+    },
+  };
+}
+
+/**
+ * Register the in-thread session commands.
+ * Registration order is the order shown in `!help`.
+ */
+export function registerSessionCommands(registry: CommandRegistry): void {
+  registry.register({
+    name: 'help',
+    bare: true,
+    permission: 'anyone',
+    description: 'Show this help message',
+    handler: async ({ client, threadId, registry: commands }) => {
+      await client.createPost(
+        `**Available commands:**\n\n` +
+        `${commands.formatHelp()}\n\n` +
+        `**Reactions:**\n` +
+        `- 👍 Approve action · 🔓 Approve tool for session · ✅ Approve all · 👎 Deny\n` +
+        `- ⏸️ Interrupt current task (session stays active)\n` +
+        `- ❌ or 🛑 Stop session`,
+        threadId
+      );
+    },
+  });
+
+  registry.register({
+    name: 'release-notes',
+    aliases: ['changelog'],
+    permission: 'anyone',
+    description: 'Show release notes for current version',
+    handler: async ({ client, threadId }) => {
+      const notes = getReleaseNotes(VERSION);
+      if (notes) {
+        await client.createPost(formatReleaseNotes(notes), threadId);
+      } else {
+        await client.createPost(
+          `📋 **claude-threads v${VERSION}**\n\nRelease notes not available. See [GitHub releases](https://github.com/anneschuth/claude-threads/releases).`,
+          threadId
+        );
+      }
+    },
+  });
+
+  registry.register(claudeSlashCommand('context', 'Show context usage (tokens used/remaining)'));
+  registry.register(claudeSlashCommand('cost', 'Show token usage and cost for this session'));
+  registry.register(claudeSlashCommand('compact', 'Compress context to free up space'));
+
+  registry.register({
+    name: 'cd',
+    args: [{ name: 'path', required: true, rest: true }],
+    permission: 'owner',
+    description: 'Change working directory (restarts Claude)',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.changeDirectory(threadId, args.path, username);
+    },
+  });
+
+  registry.register({
+    name: 'fork',
+    args: [{ name: 'branch' }],
+    permission: 'owner',
+    description: 'Continue this conversation in a new thread (optionally in a new worktree)',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.forkSession(threadId, username, args.branch);
+    },
+  });
+
+  registry.register({
+    name: 'worktree',
+    args: [{ name: 'branch', required: true }],
+    permission: 'owner',
+    description: 'Create and switch to a git worktree',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.createAndSwitchToWorktree(threadId, args.branch, username);
+    },
+  });
+
+  registry.register({
+    name: 'worktree list',
+    permission: 'session',
+    description: 'List all worktrees for the repo',
+    handler: async ({ sessionManager, threadId, username }) => {
+      await sessionManager.listWorktreesCommand(threadId, username);
+    },
+  });
+
+  registry.register({
+    name: 'worktree switch',
+    args: [{ name: 'branch', required: true, rest: true }],
+    permission: 'owner',
+    description: 'Switch to an existing worktree',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.switchToWorktree(threadId, args.branch, username);
+    },
+  });
+
+  registry.register({
+    name: 'worktree remove',
+    args: [{ name: 'branch', required: true, rest: true }],
+    permission: 'owner',
+    description: 'Remove a worktree',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.removeWorktreeCommand(threadId, args.branch, username);
+    },
+  });
+
+  registry.register({
+    name: 'worktree off',
+    permission: 'owner',
+    description: 'Disable worktree prompts for this session',
+    handler: async ({ sessionManager, threadId, username }) => {
+      await sessionManager.disableWorktreePrompt(threadId, username);
+    },
+  });
+
+  registry.register({
+    name: 'invite',
+    args: [{ name: 'user', required: true, user: true }],
+    permission: 'owner',
+    description: 'Invite a user to this session',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.inviteUser(threadId, args.user, username);
+    },
+  });
+
+  registry.register({
+    name: 'kick',
+    args: [{ name: 'user', required: true, user: true }],
+    permission: 'owner',
+    description: 'Remove an invited user',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.kickUser(threadId, args.user, username);
+    },
+  });
+
+  registry.register({
+    name: 'handoff',
+    args: [{ name: 'user', required: true, user: true }],
+    permission: 'owner',
+    description: 'Transfer session ownership to another user',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.handoffSession(threadId, args.user, username);
+    },
+  });
+
+  registry.register({
+    name: 'permissions',
+    aliases: ['permission'],
+    args: [{ name: 'mode', required: true, choices: ['interactive', 'auto'] }],
+    permission: 'owner',
+    description: 'Enable interactive permissions',
+    handler: async ({ client, sessionManager, threadId, username, args }) => {
+      if (args.mode === 'interactive') {
+        await sessionManager.enableInteractivePermissions(threadId, username);
+      } else {
+        // Can't upgrade to auto - that would be less secure
+        await client.createPost(
+          `⚠️ Cannot upgrade to auto permissions - can only downgrade to interactive`,
+          threadId
+        );
+      }
+    },
+  });
+
+  registry.register({
+    name: 'model',
+    args: [{ name: 'model' }],
+    permission: 'session',
+    description: 'Show or switch the Claude model (`opus`, `sonnet`, `haiku` or a model ID)',
+    handler: async ({ sessionManager, threadId, username, args }) => {
+      await sessionManager.changeModel(threadId, args.model, username);
+    },
+  });
+
+  registry.register({
+    name: 'audit',
+    args: [{ name: 'filter', rest: true }],
+    permission: 'session',
+    description: 'Show permission decisions in this thread (filter: `@user`, tool, `24h`/`7d` or a date)',
+    handler: async ({ client, threadId, args }) => {
+      const filter = { ...parseAuditQuery(args.filter ?? ''), session: threadId };
+      const entries = queryAuditLog(readAuditLog(), filter);
+      if (entries.length === 0) {
+        await client.createPost('📋 No permission decisions recorded for this thread', threadId);
+        return;
+      }
+      const shown = entries.slice(-AUDIT_ROWS);
+      const more = entries.length > shown.length
+        ? `\n\n_Showing the last ${shown.length} of ${entries.length}. Use \`claude-threads audit\` for the full log._`
+        : '';
+      await client.createPost(`📋 **Permission audit**\n\n${formatAuditTable(shown)}${more}`, threadId);
+    },
+  });
+
+  registry.register({
+    name: 'usage',
+    args: [{ name: 'filter', rest: true }],
+    scope: 'anywhere',
+    permission: 'admin',
+    description: 'Report cost and token usage (`today`, `week`, `month` or `all`, optionally `@user`)',
+    handler: async ({ client, threadId, args }) => {
+      const query = parseUsageQuery(args.filter ?? '');
+      if (!query) {
+        await client.createPost('⚠️ Usage: `!usage [today|week|month|all] [@user]`', threadId);
+        return;
+      }
+      const entries = queryUsageLog(readUsageLog(), { user: query.user, since: getPeriodStart(query.period) });
+      const scope = `${query.period === 'all' ? 'all time' : query.period}${query.user ? ` for @${query.user}` : ''}`;
+      if (entries.length === 0) {
+        await client.createPost(`📊 No usage recorded (${scope})`, threadId);
+        return;
+      }
+      await client.createPost(`📊 **Usage** (${scope})\n\n${formatUsageReport(summarizeUsage(entries))}`, threadId);
+    },
+  });
+
+  registry.register({
+    name: 'budget',
+    permission: 'session',
+    description: 'Show cost budgets and what remains of them',
+    handler: async ({ sessionManager, threadId }) => {
+      await sessionManager.showBudget(threadId);
+    },
+  });
+
+  registry.register({
+    name: 'export',
+    args: [{ name: 'format', choices: [...EXPORT_FORMATS] }],
+    permission: 'session',
+    description: 'Export the session transcript as a file (default: md)',
+    handler: async ({ sessionManager, threadId, args }) => {
+      await sessionManager.exportSession(threadId, (args.format ?? 'md') as ExportFormat);
+    },
+  });
+
+  registry.register({
+    name: 'summary',
+    permission: 'session',
+    description: 'Post a recap of the session so far',
+    handler: async ({ sessionManager, threadId }) => {
+      await sessionManager.summarizeSession(threadId);
+    },
+  });
+
+  registry.register({
+    name: 'attach',
+    args: [{ name: 'path', required: true, rest: true }],
+    // Owner only: the working directory may hold secrets (.env, credentials)
+    permission: 'owner',
+    description: 'Upload a file from the working directory to the thread',
+    handler: async ({ sessionManager, threadId, args }) => {
+      await sessionManager.attachFile(threadId, args.path);
+    },
+  });
+
+  registry.register({
+    name: 'escape',
+    aliases: ['interrupt'],
+    permission: 'session',
+    description: 'Interrupt current task (session stays active)',
+    handler: async ({ sessionManager, threadId, username }) => {
+      await sessionManager.interruptSession(threadId, username);
+    },
+  });
+
+  registry.register({
+    name: 'stop',
+    aliases: ['cancel'],
+    bare: true,
+    permission: 'session',
+    description: 'Stop this session',
+    handler: async ({ sessionManager, threadId, username }) => {
+      await sessionManager.cancelSession(threadId, username);
+    },
+  });
+}
@@ -15,6 +15,9 @@ import type { Session } from './types.js';
 import type { ClaudeEvent, ContentBlock } from '../claude/cli.js';
 import type { PlatformClient, PlatformFile } from '../platform/index.js';
 import type { SessionStore } from '../persistence/session-store.js';
+import type { QueuedSession } from './queue.js';
+import type { BudgetSettings } from './budget.js';
+import type { UsageEntry } from '../persistence/usage-log.js';
 
 // =============================================================================
 // Configuration (read-only state)
@@ -34,6 +37,8 @@ export interface SessionConfig {
   debug: boolean;
   /** Maximum concurrent sessions allowed */
   maxSessions: number;
+  /** Cost budgets (undefined when none are configured) */
+  budgets?: BudgetSettings;
 }
 
 // =============================================================================
@@ -52,6 +57,8 @@ export interface SessionState {
   readonly platforms: ReadonlyMap<string, PlatformClient>;
   /** Session persistence store */
   readonly sessionStore: SessionStore;
+  /** Session requests waiting for a free slot, oldest first (read-only) */
+  readonly sessionQueue: readonly QueuedSession[];
   /** Whether the manager is shutting down */
   readonly isShuttingDown: boolean;
 }
@@ -107,11 +114,12 @@ export interface SessionOperations {
   /** Stop typing indicator for session */
   stopTyping(session: Session): void;
 
-  /** Build message content with optional file attachments */
+  /** Build message content with optional file attachments (confirmed in threadId) */
   buildMessageContent(
     text: string,
     platform: PlatformClient,
-    files?: PlatformFile[]
+    files?: PlatformFile[],
+    threadId?: string
   ): Promise<string | ContentBlock[]>;
 
   /** Move task list to bottom of thread */
@@ -127,6 +135,9 @@ export interface SessionOperations {
   /** Remove session from persistence */
   unpersistSession(sessionId: string): void;
 
+  /** Append turn usage to the usage log */
+  recordUsage(entries: UsageEntry[]): void;
+
   // ---------------------------------------------------------------------------
   // UI Updates
   // ---------------------------------------------------------------------------
@@ -154,6 +165,9 @@ export interface SessionOperations {
   /** Kill a session (terminate Claude CLI process) */
   killSession(threadId: string): Promise<void>;
 
+  /** Start queued sessions while session slots are free */
+  startQueuedSessions(): Promise<void>;
+
   // ---------------------------------------------------------------------------
   // Worktree
   // ---------------------------------------------------------------------------
@@ -7,6 +7,7 @@ import { handleEvent } from './events.js';
 import type { SessionContext } from './context.js';
 import type { Session } from './types.js';
 import type { PlatformClient, PlatformPost, PlatformFormatter } from '../platform/index.js';
+import type { UsageEntry } from '../persistence/usage-log.js';
 
 // Mock platform client
 function createMockPlatform() {
@@ -113,6 +114,7 @@ function createTestSession(platform: PlatformClient): Session {
     isResumed: false,
     resumeFailCount: 0,
     wasInterrupted: false,
+    hasClaudeResponded: false,
     inProgressTaskStart: null,
     activeToolStarts: new Map(),
     messageCount: 0,
@@ -134,6 +136,7 @@ function createSessionContext(): SessionContext {
       postIndex: new Map(),
       platforms: new Map(),
       sessionStore: { save: () => {}, remove: () => {}, load: () => new Map(), findByPostId: () => undefined, cleanStale: () => [] } as any,
+      sessionQueue: [],
       isShuttingDown: false,
     },
     ops: {
@@ -149,10 +152,12 @@ function createSessionContext(): SessionContext {
       persistSession: mock((_session: Session) => {}),
       updateSessionHeader: mock(async (_session: Session) => {}),
       unpersistSession: mock((_sessionId: string) => {}),
+      recordUsage: mock((_entries: UsageEntry[]) => {}),
       buildMessageContent: mock(async (text: string) => text),
       handleEvent: mock((_sessionId: string, _event: any) => {}),
       handleExit: mock(async (_sessionId: string, _code: number) => {}),
       killSession: mock(async (_threadId: string) => {}),
+      startQueuedSessions: mock(async () => {}),
       shouldPromptForWorktree: mock(async (_session: Session) => null),
       postWorktreePrompt: mock(async (_session: Session, _reason: string) => {}),
       offerContextPrompt: mock(async (_session: Session, _queuedPrompt: string) => false),
@@ -529,6 +534,59 @@ describe('handleEvent with result event (usage stats)', () => {
       }
     }
   });
+  test('records the usage added by each turn in the usage log', () => {
+    const result = (inputTokens: number, costUSD: number) => ({
+      type: 'result' as const,
+      total_cost_usd: costUSD,
+      modelUsage: {
+        'claude-opus-4-5-20251101': {
+          inputTokens,
+          outputTokens: 10,
+          cacheReadInputTokens: 0,
+          cacheCreationInputTokens: 0,
+          contextWindow: 200000,
+          costUSD,
+        },
+      },
+    });
+    session.sessionTitle = 'Fix login';
+    session.worktreeInfo = { repoRoot: '/repos/app', worktreePath: '/repos/app-worktrees/fix', branch: 'fix' };
+
+    handleEvent(session, result(100, 0.5), ctx);
+    handleEvent(session, result(300, 0.75), ctx);
+    // Unchanged totals (e.g. a command that didn't call the API) record nothing
+    handleEvent(session, result(300, 0.75), ctx);
+
+    const recorded = (ctx.ops.recordUsage as ReturnType<typeof mock>).mock.calls.map(c => c[0] as UsageEntry[]);
+    expect(recorded).toHaveLength(2);
+    expect(recorded[1]).toEqual([{
+      timestamp: expect.any(String),
+      platform: 'test',
+      threadId: 'thread1',
+      sessionId: 'uuid-123',
+      sessionTitle: 'Fix login',
+      user: 'testuser',
+      model: 'claude-opus-4-5-20251101',
+      repository: '/repos/app',
+      inputTokens: 200,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+      costUSD: 0.25,
+    }]);
+
+    // A new Claude process starts counting from zero
+    session.claude = {} as Session['claude'];
+    handleEvent(session, result(50, 0.1), ctx);
+    const last = (ctx.ops.recordUsage as ReturnType<typeof mock>).mock.calls[2][0] as UsageEntry[];
+    expect(last[0].inputTokens).toBe(50);
+    expect(last[0].costUSD).toBe(0.1);
+
+    if (session.statusBarTimer) {
+      clearInterval(session.statusBarTimer);
+      session.statusBarTimer = null;
+    }
+  });
 });
 
 describe('handleEvent with compaction events', () => {
@@ -690,3 +748,87 @@ describe('handleEvent with compaction events', () => {
     expect(appendedContent[0]).toContain('Something went wrong');
   });
 });
+
+describe('handleEvent with Chrome screenshots', () => {
+  let platform: PlatformClient & { posts: Map<string, string> };
+  let session: Session;
+  let ctx: SessionContext;
+
+  beforeEach(() => {
+    platform = createMockPlatform();
+    (platform as any).uploadFile = mock(async (): Promise<PlatformPost> => ({
+      id: 'upload_post', platformId: 'test', channelId: 'channel1', userId: 'bot', message: '',
+    }));
+    session = createTestSession(platform);
+    ctx = createSessionContext();
+  });
+
+  function toolCall(id: string, name: string) {
+    return {
+      type: 'assistant' as const,
+      message: { content: [{ type: 'tool_use', id, name, input: { action: 'screenshot' } }] },
+    };
+  }
+
+  function toolResult(id: string) {
+    return {
+      type: 'user' as const,
+      message: {
+        content: [{
+          type: 'tool_result',
+          tool_use_id: id,
+          content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }],
+        }],
+      },
+    };
+  }
+
+  test('uploads images returned by Chrome tools to the thread', async () => {
+    handleEvent(session, toolCall('chrome_1', 'mcp__claude-in-chrome__computer'), ctx);
+    handleEvent(session, toolResult('chrome_1'), ctx);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const calls = (platform.uploadFile as ReturnType<typeof mock>).mock.calls;
+    expect(calls).toHaveLength(1);
+    expect(calls[0][0]).toBe('thread1');
+    expect(calls[0][1]).toMatch(/^screenshot-\d{8}-\d{6}\.png$/);
+    expect(calls[0][3]).toBe('image/png');
+    expect(session.chromeToolUseIds?.size).toBe(0);
+  });
+
+  test('does not upload images read by other tools', async () => {
+    handleEvent(session, toolCall('read_1', 'Read'), ctx);
+    handleEvent(session, toolResult('read_1'), ctx);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(platform.uploadFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleEvent with Edit diffs', () => {
+  const oldString = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n');
+  const event = {
+    type: 'assistant' as const,
+    message: {
+      content: [{ type: 'tool_use', id: 'edit_1', name: 'Edit', input: { file_path: '/test/a.ts', old_string: oldString, new_string: 'replaced' } }],
+    },
+  };
+
+  function appendedFor(platform: PlatformClient): string {
+    const ctx = createSessionContext();
+    handleEvent(createTestSession(platform), event, ctx);
+    return (ctx.ops.appendContent as ReturnType<typeof mock>).mock.calls[0][1] as string;
+  }
+
+  test('truncates long diffs on platforms without uploads', () => {
+    expect(appendedFor(createMockPlatform())).toContain('more lines');
+  });
+
+  test('shows the full diff when the platform can upload it as a file', () => {
+    const platform = createMockPlatform();
+    (platform as any).uploadFile = mock(async () => ({}));
+    const content = appendedFor(platform);
+    expect(content).toContain('- line 30');
+    expect(content).not.toContain('more lines');
+  });
+});
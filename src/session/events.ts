@@ -5,11 +5,14 @@
  * tool results, tasks, questions, and plan approvals.
  */
 
-import type { Session, SessionUsageStats, ModelTokenUsage } from './types.js';
+import type { Session, SessionUsageStats, ModelTokenUsage, PendingQuestionSet } from './types.js';
 import type { ClaudeEvent } from '../claude/cli.js';
-import { formatToolUse as sharedFormatToolUse } from '../utils/tool-formatter.js';
+import { formatToolUse as sharedFormatToolUse, type FormatOptions } from '../utils/tool-formatter.js';
 import {
   NUMBER_EMOJIS,
+  NUMBER_EMOJI_CHARACTERS,
+  OTHER_ANSWER_EMOJIS,
+  ALLOW_ALL_EMOJIS,
   APPROVAL_EMOJIS,
   DENIAL_EMOJIS,
   TASK_TOGGLE_EMOJIS,
@@ -20,12 +23,20 @@ import {
 } from './streaming.js';
 import { withErrorHandling } from './error-handler.js';
 import { resetSessionActivity } from './post-helpers.js';
+import { uploadToolResultImages } from './uploads.js';
+import { recordSessionCost } from './budget.js';
+import { addPlanVersion, formatPlanVersion } from './plan.js';
+import { getModelDisplayName } from '../claude/model.js';
 import type { SessionContext } from './context.js';
+import type { UsageEntry } from '../persistence/usage-log.js';
 import { createLogger } from '../utils/logger.js';
 import { extractPullRequestUrl } from '../utils/pr-detector.js';
 
 const log = createLogger('events');
 
+/** Tools of the Chrome integration (claude-in-chrome MCP server) */
+const CHROME_TOOL_PREFIX = 'mcp__claude-in-chrome__';
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -160,10 +171,12 @@ export function handleEvent(
     for (const block of msg?.content || []) {
       if (block.type === 'tool_use') {
         if (block.name === 'ExitPlanMode') {
-          handleExitPlanMode(session, block.id as string, ctx);
+          handleExitPlanMode(session, block.id as string, block.input, ctx);
           hasSpecialTool = true;
         } else if (block.name === 'TodoWrite') {
           handleTodoWrite(session, block.input as Record<string, unknown>, ctx);
+        } else if (block.name?.startsWith(CHROME_TOOL_PREFIX) && block.id) {
+          (session.chromeToolUseIds ??= new Set()).add(block.id);
         } else if (block.name === 'Task') {
           handleTaskStart(session, block.id as string, block.input as Record<string, unknown>, ctx);
         } else if (block.name === 'AskUserQuestion') {
@@ -175,10 +188,10 @@ export function handleEvent(
     if (hasSpecialTool) return;
   }
 
-  // Check for tool_result to update subagent status
+  // Check for tool_result to update subagent status and upload Chrome screenshots
   if (event.type === 'user') {
     const msg = event.message as {
-      content?: Array<{ type: string; tool_use_id?: string; content?: string }>;
+      content?: Array<{ type: string; tool_use_id?: string; content?: unknown }>;
     };
     for (const block of msg?.content || []) {
       if (block.type === 'tool_result' && block.tool_use_id) {
@@ -186,6 +199,9 @@ export function handleEvent(
         if (postId) {
           handleTaskComplete(session, block.tool_use_id, postId);
         }
+        if (session.chromeToolUseIds?.delete(block.tool_use_id)) {
+          uploadToolResultImages(session, block.content).catch(() => {});
+        }
       }
     }
   }
@@ -227,6 +243,16 @@ export function handleEvent(
 // Event formatters
 // ---------------------------------------------------------------------------
 
+/**
+ * Tool display options. Where the platform supports uploads, diffs are not
+ * truncated: streaming uploads long ones as a file with a short preview.
+ */
+function toolFormatOptions(session: Session): FormatOptions {
+  return session.platform.uploadFile
+    ? { detailed: true, maxPreviewLines: Infinity }
+    : { detailed: true };
+}
+
 /**
  * Format a Claude event for display in chat platforms.
  */
@@ -263,7 +289,7 @@ function formatEvent(
 
           if (text) parts.push(text);
         } else if (block.type === 'tool_use' && block.name) {
-          const formatted = sharedFormatToolUse(block.name, block.input || {}, session.platform.getFormatter(), { detailed: true });
+          const formatted = sharedFormatToolUse(block.name, block.input || {}, session.platform.getFormatter(), toolFormatOptions(session));
           if (formatted) parts.push(formatted);
         } else if (block.type === 'thinking' && block.thinking) {
           // Extended thinking - show abbreviated version in blockquote
@@ -293,7 +319,7 @@ function formatEvent(
       if (tool.id) {
         session.activeToolStarts.set(tool.id, Date.now());
       }
-      return sharedFormatToolUse(tool.name, tool.input || {}, session.platform.getFormatter(), { detailed: true }) || null;
+      return sharedFormatToolUse(tool.name, tool.input || {}, session.platform.getFormatter(), toolFormatOptions(session)) || null;
     }
     case 'tool_result': {
       const result = e.tool_result as { tool_use_id?: string; is_error?: boolean };
@@ -354,11 +380,14 @@ function formatEvent(
 // ---------------------------------------------------------------------------
 
 /**
- * Handle ExitPlanMode tool use - post approval prompt.
+ * Handle ExitPlanMode tool use - post the plan as a new version and an
+ * approval prompt. Besides reacting, the user can reply with the changes
+ * they want (see handlePlanFeedback).
  */
 async function handleExitPlanMode(
   session: Session,
   toolUseId: string,
+  input: Record<string, unknown> | undefined,
   ctx: SessionContext
 ): Promise<void> {
   // If already approved in this session, do nothing
@@ -380,12 +409,23 @@ async function handleExitPlanMode(
   session.currentPostId = null;
   session.pendingContent = '';
 
+  // Post the plan, with the changes since the previous version
+  const plan = typeof input?.plan === 'string' ? input.plan : '';
+  if (plan.trim()) {
+    const version = addPlanVersion(session, plan);
+    ctx.ops.appendContent(session, formatPlanVersion(session.planVersions ?? [], version));
+    await ctx.ops.flush(session);
+    session.currentPostId = null;
+    session.pendingContent = '';
+  }
+
   // Post approval message with reactions
   const message =
     `✅ **Plan ready for approval**\n\n` +
     `👍 Approve and start building\n` +
-    `👎 Request changes\n\n` +
-    `*React to respond*`;
+    `👎 Request changes\n` +
+    `💬 Or reply with the changes you want\n\n` +
+    `*React or reply to respond*`;
 
   const post = await session.platform.createInteractivePost(
     message,
@@ -689,7 +729,9 @@ async function handleAskUserQuestion(
     questions: questions.map((q) => ({
       header: q.header,
       question: q.question,
-      options: q.options,
+      options: q.options ?? [],
+      multiSelect: q.multiSelect === true,
+      selected: [],
       answer: null,
     })),
   };
@@ -701,6 +743,40 @@ async function handleAskUserQuestion(
   ctx.ops.stopTyping(session);
 }
 
+/**
+ * Format the current question of a question set, with the options picked so
+ * far on multi-select questions.
+ */
+export function formatQuestion(questionSet: PendingQuestionSet): string {
+  const { currentIndex, questions } = questionSet;
+  const q = questions[currentIndex];
+
+  let message = `❓ **Question** *(${currentIndex + 1}/${questions.length})*\n`;
+  message += `**${q.header}:** ${q.question}\n\n`;
+  q.options.forEach((option, i) => {
+    // Options past the number emojis can still be picked by replying with their number
+    const number = NUMBER_EMOJI_CHARACTERS[i] ?? `**${i + 1}.**`;
+    message += `${number} **${option.label}**`;
+    if (option.description) {
+      message += ` - ${option.description}`;
+    }
+    message += '\n';
+  });
+
+  if (questionSet.awaitingReply) {
+    message += `\n✏️ _Reply in the thread with your answer_`;
+  } else if (q.multiSelect) {
+    const selected = (q.selected ?? []).map(i => q.options[i].label);
+    if (selected.length > 0) {
+      message += `\n**Selected:** ${selected.join(', ')}\n`;
+    }
+    message += `\n_Pick one or more, then ✅ to confirm · 💬 to answer in a reply_`;
+  } else {
+    message += `\n_React with a number · 💬 to answer in a reply_`;
+  }
+  return message;
+}
+
 /**
  * Post the current question in the question set.
  */
@@ -714,24 +790,15 @@ export async function postCurrentQuestion(
   if (currentIndex >= questions.length) return;
 
   const q = questions[currentIndex];
-  const total = questions.length;
-
-  // Format the question message
-  let message = `❓ **Question** *(${currentIndex + 1}/${total})*\n`;
-  message += `**${q.header}:** ${q.question}\n\n`;
-  for (let i = 0; i < q.options.length && i < 4; i++) {
-    const emoji = ['1️⃣', '2️⃣', '3️⃣', '4️⃣'][i];
-    message += `${emoji} **${q.options[i].label}**`;
-    if (q.options[i].description) {
-      message += ` - ${q.options[i].description}`;
-    }
-    message += '\n';
-  }
 
   // Post the question with reaction options
-  const reactionOptions = NUMBER_EMOJIS.slice(0, q.options.length);
+  const reactionOptions: string[] = [
+    ...NUMBER_EMOJIS.slice(0, q.options.length),
+    ...(q.multiSelect ? [ALLOW_ALL_EMOJIS[0]] : []),
+    OTHER_ANSWER_EMOJIS[0],
+  ];
   const post = await session.platform.createInteractivePost(
-    message,
+    formatQuestion(session.pendingQuestionSet),
     reactionOptions,
     session.threadId
   );
@@ -770,25 +837,6 @@ interface ResultEvent {
   }>;
 }
 
-/**
- * Convert model ID to display name
- * e.g., "claude-opus-4-5-20251101" -> "Opus 4.5"
- */
-function getModelDisplayName(modelId: string): string {
-  // Common model name patterns
-  if (modelId.includes('opus-4-5') || modelId.includes('opus-4.5')) return 'Opus 4.5';
-  if (modelId.includes('opus-4')) return 'Opus 4';
-  if (modelId.includes('opus')) return 'Opus';
-  if (modelId.includes('sonnet-4')) return 'Sonnet 4';
-  if (modelId.includes('sonnet-3-5') || modelId.includes('sonnet-3.5')) return 'Sonnet 3.5';
-  if (modelId.includes('sonnet')) return 'Sonnet';
-  if (modelId.includes('haiku-4-5') || modelId.includes('haiku-4.5')) return 'Haiku 4.5';
-  if (modelId.includes('haiku')) return 'Haiku';
-  // Fallback: extract the model family name
-  const match = modelId.match(/claude-(\w+)/);
-  return match ? match[1].charAt(0).toUpperCase() + match[1].slice(1) : modelId;
-}
-
 /**
  * Extract usage stats from a result event and update session
  */
@@ -858,6 +906,9 @@ function updateUsageStats(
   };
 
   session.usageStats = usageStats;
+  recordTurnUsage(session, modelUsage, ctx);
+  recordSessionCost(session, usageStats.totalCostUSD, false, ctx)
+    .catch(err => log.warn(`Failed to record session cost: ${err}`));
 
   const contextPct = contextWindowSize > 0
     ? Math.round((contextTokens / contextWindowSize) * 100)
@@ -875,7 +926,7 @@ function updateUsageStats(
       // Only update if session is still active
       if (session.claude.isRunning()) {
         // Try to get more accurate context data from status line
-        updateUsageFromStatusLine(session);
+        updateUsageFromStatusLine(session, ctx);
         ctx.ops.updateSessionHeader(session).catch(() => {});
       }
     }, STATUS_BAR_UPDATE_INTERVAL);
@@ -885,11 +936,53 @@ function updateUsageStats(
   ctx.ops.updateSessionHeader(session).catch(() => {});
 }
 
+/**
+ * Append the usage of the finished turn to the usage log. The CLI reports
+ * usage per model as totals of the current Claude process, so only the
+ * increase since the previous result is recorded.
+ */
+function recordTurnUsage(
+  session: Session,
+  modelUsage: Record<string, ModelTokenUsage>,
+  ctx: SessionContext
+): void {
+  const previous = session.recordedUsage?.claude === session.claude ? session.recordedUsage.modelUsage : {};
+  session.recordedUsage = { claude: session.claude, modelUsage };
+
+  const timestamp = new Date().toISOString();
+  const entries: UsageEntry[] = [];
+  for (const [model, usage] of Object.entries(modelUsage)) {
+    const last = previous[model];
+    const delta = (key: keyof ModelTokenUsage) => Math.max(0, usage[key] - (last?.[key] ?? 0));
+    const entry: UsageEntry = {
+      timestamp,
+      platform: session.platformId,
+      threadId: session.threadId,
+      sessionId: session.claudeSessionId,
+      sessionTitle: session.sessionTitle,
+      user: session.startedBy,
+      model,
+      repository: session.worktreeInfo?.repoRoot ?? session.workingDir,
+      inputTokens: delta('inputTokens'),
+      outputTokens: delta('outputTokens'),
+      cacheReadTokens: delta('cacheReadInputTokens'),
+      cacheCreationTokens: delta('cacheCreationInputTokens'),
+      costUSD: delta('costUSD'),
+    };
+    if (entry.costUSD > 0 || entry.inputTokens > 0 || entry.outputTokens > 0) {
+      entries.push(entry);
+    }
+  }
+  if (entries.length > 0) {
+    ctx.ops.recordUsage(entries);
+  }
+}
+
 /**
  * Update usage stats from the status line file if available.
  * This provides more accurate context window usage than result events.
  */
-function updateUsageFromStatusLine(session: Session): void {
+function updateUsageFromStatusLine(session: Session, ctx: SessionContext): void {
   const statusData = session.claude.getStatusData();
   if (!statusData) return;
 
@@ -912,9 +1005,11 @@ function updateUsageFromStatusLine(session: Session): void {
       session.usageStats.modelDisplayName = statusData.model.display_name;
     }
 
-    // Update cost if available
+    // Update cost if available - mid-task, so an exceeded budget interrupts Claude
     if (statusData.cost) {
       session.usageStats.totalCostUSD = statusData.cost.total_cost_usd;
+      recordSessionCost(session, statusData.cost.total_cost_usd, true, ctx)
+        .catch(err => log.warn(`Failed to record session cost: ${err}`));
     }
 
     const contextPct = session.usageStats.contextWindowSize > 0
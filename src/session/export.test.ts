@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test';
+import { buildSessionExport, formatExport, formatExportHtml, formatExportMarkdown } from './export.js';
+import type { Session } from './types.js';
+import type { TranscriptItem } from '../claude/session-files.js';
+import type { AuditEntry } from '../persistence/audit-log.js';
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    platformId: 'test',
+    threadId: 'thread-123456',
+    claudeSessionId: 'claude-1',
+    startedBy: 'alice',
+    startedAt: new Date('2026-01-01T09:00:00Z'),
+    sessionAllowedUsers: new Set(['alice', 'bob']),
+    workingDir: '/repo',
+    sessionTitle: 'Fix the build',
+    firstPrompt: 'fix the build please',
+    ...overrides,
+  } as Session;
+}
+
+const items: TranscriptItem[] = [
+  { kind: 'user', timestamp: '2026-01-01T10:00:00Z', text: 'Fix the build' },
+  { kind: 'assistant', timestamp: '2026-01-01T10:00:05Z', text: 'Running `<tests>`' },
+  { kind: 'tool', id: 't1', name: 'Bash', input: { command: 'npm test' }, result: '```\n1 failing', isError: true },
+  { kind: 'tool', id: 't2', name: 'TodoWrite', input: { todos: [
+    { content: 'Fix test', status: 'completed', activeForm: 'Fixing test' },
+    { content: 'Push', status: 'pending', activeForm: 'Pushing' },
+  ] } },
+];
+
+const permissions: AuditEntry[] = [{
+  timestamp: '2026-01-01T10:00:04Z',
+  platform: 'test',
+  threadId: 'thread-123456',
+  sessionId: 'claude-1',
+  tool: 'Bash',
+  input: 'npm test',
+  decision: 'allow',
+  source: 'user',
+  users: ['bob'],
+  latencyMs: 1200,
+}];
+
+describe('buildSessionExport', () => {
+  it('collects metadata, the last task list and usage', () => {
+    const session = createSession({
+      usageStats: {
+        primaryModel: 'claude-x',
+        modelDisplayName: 'Opus',
+        contextWindowSize: 200000,
+        contextTokens: 50000,
+        totalTokensUsed: 12345,
+        totalCostUSD: 0.5,
+        modelUsage: {},
+        lastUpdated: new Date(),
+      },
+    });
+    const data = buildSessionExport(session, items, permissions, new Date('2026-01-02T00:00:00Z'));
+
+    expect(data.title).toBe('Fix the build');
+    expect(data.owner).toBe('alice');
+    expect(data.participants).toEqual(['bob']);
+    expect(data.tasks).toEqual([
+      { content: 'Fix test', status: 'completed' },
+      { content: 'Push', status: 'pending' },
+    ]);
+    expect(data.usage).toEqual({ model: 'Opus', totalTokens: 12345, costUSD: 0.5, contextTokens: 50000, contextWindowSize: 200000 });
+    expect(data.exportedAt).toBe('2026-01-02T00:00:00.000Z');
+  });
+
+  it('falls back to the first prompt for the title', () => {
+    const data = buildSessionExport(createSession({ sessionTitle: undefined }), [], []);
+    expect(data.title).toBe('fix the build please');
+  });
+});
+
+describe('formatExportMarkdown', () => {
+  it('renders the conversation, tool calls, tasks and permissions', () => {
+    const md = formatExportMarkdown(buildSessionExport(createSession(), items, permissions));
+
+    expect(md).toStartWith('# Fix the build\n');
+    expect(md).toContain('| **Owner** | @alice |');
+    expect(md).toContain('### 👤 User · 2026-01-01 10:00:00\n\nFix the build');
+    expect(md).toContain('#### 🔧 Bash\n\n```bash\nnpm test\n```');
+    // Results containing fences get a longer fence
+    expect(md).toContain('**Error:**\n\n````\n```\n1 failing\n````');
+    expect(md).toContain('- ✅ Fix test');
+    expect(md).toContain('## Permission decisions');
+    expect(md).toContain('@bob');
+  });
+});
+
+describe('formatExportHtml', () => {
+  it('escapes user content', () => {
+    const html = formatExportHtml(buildSessionExport(createSession(), items, permissions));
+    expect(html).toContain('<title>Fix the build</title>');
+    expect(html).toContain('Running `&lt;tests&gt;`');
+    expect(html).not.toContain('<tests>');
+    expect(html).toContain('<details class="error"><summary>Error</summary>');
+  });
+});
+
+describe('formatExport', () => {
+  it('produces parseable JSON', () => {
+    const json = formatExport(buildSessionExport(createSession(), items, permissions), 'json');
+    const parsed = JSON.parse(json);
+    expect(parsed.items).toHaveLength(4);
+    expect(parsed.permissions[0].users).toEqual(['bob']);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Session export (!export)
+ *
+ * Assembles a record of a session - user prompts, Claude's replies, tool calls
+ * with their results, permission decisions, tasks and usage - as Markdown,
+ * HTML or JSON. The conversation comes from the Claude CLI transcript and the
+ * permission decisions from the audit log. The file is saved under
+ * ~/.config/claude-threads/exports and uploaded to the thread when the
+ * platform supports uploads.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { Session } from './types.js';
+import { readTranscript, type TranscriptItem } from '../claude/session-files.js';
+import { formatAuditTable, queryAuditLog, readAuditLog, type AuditEntry } from '../persistence/audit-log.js';
+import { truncate, pluralize } from '../utils/format.js';
+import { shortenPath } from '../utils/tool-formatter.js';
+import { postInfo, postWarning } from './post-helpers.js';
+import { fileTimestamp, uploadToThread } from './uploads.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('export');
+
+export const EXPORTS_DIR = join(homedir(), '.config', 'claude-threads', 'exports');
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['md', 'html', 'json'];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+/** Tool inputs and results longer than this are truncated in Markdown and HTML */
+const MAX_TOOL_TEXT = 2000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExportTask {
+  content: string;
+  status: string;
+}
+
+export interface SessionExport {
+  title: string;
+  platformId: string;
+  threadId: string;
+  claudeSessionId: string;
+  owner: string;
+  participants: string[];
+  workingDir: string;
+  branch?: string;
+  startedAt: string;
+  exportedAt: string;
+  items: TranscriptItem[];
+  permissions: AuditEntry[];
+  tasks: ExportTask[];
+  usage?: {
+    model: string;
+    totalTokens: number;
+    costUSD: number;
+    contextTokens: number;
+    contextWindowSize: number;
+  };
+}
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Current task list: the input of the last TodoWrite call
+ */
+function getTasks(items: TranscriptItem[]): ExportTask[] {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    if (item.kind !== 'tool' || item.name !== 'TodoWrite') continue;
+    const todos = item.input.todos;
+    if (!Array.isArray(todos)) return [];
+    return todos
+      .filter((t): t is ExportTask => typeof t?.content === 'string' && typeof t?.status === 'string')
+      .map(t => ({ content: t.content, status: t.status }));
+  }
+  return [];
+}
+
+export function buildSessionExport(
+  session: Session,
+  items: TranscriptItem[],
+  permissions: AuditEntry[],
+  now: Date = new Date()
+): SessionExport {
+  const stats = session.usageStats;
+  return {
+    title: session.sessionTitle || truncate(session.firstPrompt?.replace(/\s+/g, ' ') ?? '', 60) || 'Claude session',
+    platformId: session.platformId,
+    threadId: session.threadId,
+    claudeSessionId: session.claudeSessionId,
+    owner: session.startedBy,
+    participants: [...session.sessionAllowedUsers].filter(u => u !== session.startedBy),
+    workingDir: session.workingDir,
+    branch: session.worktreeInfo?.branch,
+    startedAt: session.startedAt.toISOString(),
+    exportedAt: now.toISOString(),
+    items,
+    permissions,
+    tasks: getTasks(items),
+    usage: stats
+      ? {
+        model: stats.modelDisplayName,
+        totalTokens: stats.totalTokensUsed,
+        costUSD: stats.totalCostUSD,
+        contextTokens: stats.contextTokens,
+        contextWindowSize: stats.contextWindowSize,
+      }
+      : undefined,
+  };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const TASK_ICONS: Record<string, string> = {
+  completed: '✅',
+  in_progress: '🔄',
+  pending: '⬜',
+};
+
+function formatTime(timestamp: string | undefined): string {
+  return timestamp ? timestamp.replace('T', ' ').substring(0, 19) : '';
+}
+
+function formatToolInput(item: Extract<TranscriptItem, { kind: 'tool' }>): { lang: string; text: string } {
+  if (item.name === 'Bash' && typeof item.input.command === 'string') {
+    return { lang: 'bash', text: item.input.command };
+  }
+  return { lang: 'json', text: JSON.stringify(item.input, null, 2) };
+}
+
+/**
+ * Fenced code block that survives backticks inside the text
+ */
+function fence(text: string, lang = ''): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${lang}\n${text}\n${marker}`;
+}
+
+function formatMetadataRows(data: SessionExport): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ['Owner', `@${data.owner}`],
+  ];
+  if (data.participants.length > 0) {
+    rows.push(['Participants', data.participants.map(u => `@${u}`).join(', ')]);
+  }
+  rows.push(['Directory', data.workingDir]);
+  if (data.branch) rows.push(['Worktree', data.branch]);
+  rows.push(['Started', formatTime(data.startedAt)]);
+  rows.push(['Exported', formatTime(data.exportedAt)]);
+  rows.push(['Claude session', data.claudeSessionId]);
+  if (data.usage) {
+    const contextPercent = Math.round((data.usage.contextTokens / data.usage.contextWindowSize) * 100);
+    rows.push(['Model', data.usage.model]);
+    rows.push(['Usage', `${data.usage.totalTokens.toLocaleString('en-US')} tokens · $${data.usage.costUSD.toFixed(2)} · context ${contextPercent}%`]);
+  }
+  return rows;
+}
+
+export function formatExportMarkdown(data: SessionExport): string {
+  const lines: string[] = [
+    `# ${data.title}`,
+    '',
+    '| | |',
+    '|:--|:--|',
+    ...formatMetadataRows(data).map(([key, value]) => `| **${key}** | ${value.replace(/\|/g, '\\|')} |`),
+  ];
+
+  if (data.tasks.length > 0) {
+    lines.push('', '## Tasks', '');
+    for (const task of data.tasks) {
+      lines.push(`- ${TASK_ICONS[task.status] ?? '⬜'} ${task.content}`);
+    }
+  }
+
+  lines.push('', '## Conversation');
+  for (const item of data.items) {
+    const time = formatTime(item.timestamp);
+    const suffix = time ? ` · ${time}` : '';
+    if (item.kind === 'user') {
+      lines.push('', `### 👤 User${suffix}`, '', item.text);
+    } else if (item.kind === 'assistant') {
+      lines.push('', `### 🤖 Claude${suffix}`, '', item.text);
+    } else {
+      const input = formatToolInput(item);
+      lines.push('', `#### 🔧 ${item.name}`, '', fence(truncate(input.text, MAX_TOOL_TEXT), input.lang));
+      if (item.result !== undefined) {
+        lines.push('', item.isError ? '**Error:**' : '**Result:**', '', fence(truncate(item.result, MAX_TOOL_TEXT)));
+      }
+    }
+  }
+
+  if (data.permissions.length > 0) {
+    lines.push('', '## Permission decisions', '', formatAuditTable(data.permissions));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, system-ui, sans-serif; max-width: 900px; margin: 2em auto; padding: 0 1em; color: #222; }
+table { border-collapse: collapse; margin: 1em 0; }
+td, th { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+.msg { margin: 1em 0; padding: 0.5em 1em; border-radius: 6px; white-space: pre-wrap; }
+.user { background: #eef4ff; }
+.assistant { background: #f6f6f6; }
+.meta { color: #777; font-size: 0.85em; }
+pre { background: #272822; color: #f8f8f2; padding: 0.75em; overflow-x: auto; border-radius: 4px; }
+details { margin: 0.5em 0 1em; }
+.error summary { color: #c00; }
+`.trim();
+
+export function formatExportHtml(data: SessionExport): string {
+  const parts: string[] = [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(data.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head><body>',
+    `<h1>${escapeHtml(data.title)}</h1>`,
+    '<table>',
+    ...formatMetadataRows(data).map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`),
+    '</table>',
+  ];
+
+  if (data.tasks.length > 0) {
+    parts.push('<h2>Tasks</h2>', '<ul>');
+    for (const task of data.tasks) {
+      parts.push(`<li>${TASK_ICONS[task.status] ?? '⬜'} ${escapeHtml(task.content)}</li>`);
+    }
+    parts.push('</ul>');
+  }
+
+  parts.push('<h2>Conversation</h2>');
+  for (const item of data.items) {
+    const time = `<div class="meta">${escapeHtml(formatTime(item.timestamp))}</div>`;
+    if (item.kind === 'user') {
+      parts.push(`<div class="msg user"><strong>👤 User</strong>${time}${escapeHtml(item.text)}</div>`);
+    } else if (item.kind === 'assistant') {
+      parts.push(`<div class="msg assistant"><strong>🤖 Claude</strong>${time}${escapeHtml(item.text)}</div>`);
+    } else {
+      const input = formatToolInput(item);
+      parts.push(`<h4>🔧 ${escapeHtml(item.name)}</h4>`, `<pre>${escapeHtml(truncate(input.text, MAX_TOOL_TEXT))}</pre>`);
+      if (item.result !== undefined) {
+        const cls = item.isError ? ' class="error"' : '';
+        parts.push(
+          `<details${cls}><summary>${item.isError ? 'Error' : 'Result'}</summary>`,
+          `<pre>${escapeHtml(truncate(item.result, MAX_TOOL_TEXT))}</pre></details>`
+        );
+      }
+    }
+  }
+
+  if (data.permissions.length > 0) {
+    parts.push('<h2>Permission decisions</h2>', '<table>', '<tr><th>Time (UTC)</th><th>Tool</th><th>Input</th><th>Decision</th><th>By</th></tr>');
+    for (const entry of data.permissions) {
+      const by = entry.users.length > 0 ? entry.users.map(u => `@${u}`).join(', ') : entry.source;
+      parts.push(
+        `<tr><td>${escapeHtml(formatTime(entry.timestamp))}</td><td>${escapeHtml(entry.tool)}</td>` +
+        `<td><code>${escapeHtml(truncate(entry.input, 120))}</code></td><td>${entry.decision}</td><td>${escapeHtml(by)}</td></tr>`
+      );
+    }
+    parts.push('</table>');
+  }
+
+  parts.push('</body></html>');
+  return parts.join('\n') + '\n';
+}
+
+export function formatExport(data: SessionExport, format: ExportFormat): string {
+  switch (format) {
+    case 'html':
+      return formatExportHtml(data);
+    case 'json':
+      return JSON.stringify(data, null, 2) + '\n';
+    default:
+      return formatExportMarkdown(data);
+  }
+}
+
+// =============================================================================
+// Command
+// =============================================================================
+
+/**
+ * Export a session: save the file to disk and upload it to the thread.
+ */
+export async function exportSession(session: Session, format: ExportFormat): Promise<void> {
+  const items = readTranscript(session.claudeSessionId, session.workingDir);
+  if (!items) {
+    await postWarning(session, `Nothing to export yet - no conversation has been saved for this session`);
+    return;
+  }
+
+  const permissions = queryAuditLog(readAuditLog(), { session: session.threadId });
+  const data = buildSessionExport(session, items, permissions);
+  const content = formatExport(data, format);
+
+  const stamp = fileTimestamp(new Date(data.exportedAt));
+  const name = `claude-threads-${session.threadId.substring(0, 8)}-${stamp}.${format}`;
+  if (!existsSync(EXPORTS_DIR)) {
+    mkdirSync(EXPORTS_DIR, { recursive: true });
+  }
+  const path = join(EXPORTS_DIR, name);
+  writeFileSync(path, content, 'utf-8');
+  log.info(`📦 Exported session (${session.threadId.substring(0, 8)}…) to ${path}`);
+
+  const messages = items.filter(i => i.kind !== 'tool').length;
+  const tools = items.length - messages;
+  const summary = `📦 **Session exported** - ${pluralize(messages, 'message')}, ${pluralize(tools, 'tool call')}, ` +
+    `${pluralize(permissions.length, 'permission decision')}\nSaved to \`${shortenPath(path)}\``;
+
+  if (await uploadToThread(session, name, Buffer.from(content, 'utf-8'), MIME_TYPES[format], summary)) return;
+  await postInfo(session, `${summary}\n_The file could not be attached to this thread._`);
+}
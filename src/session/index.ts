@@ -5,6 +5,7 @@
  */
 
 export { SessionManager } from './manager.js';
+export { loadBudgetSettings } from './budget.js';
 export type {
   Session,
   PendingApproval,
@@ -1,5 +1,10 @@
 import { describe, it, expect, mock } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
 import * as lifecycle from './lifecycle.js';
+import { getTranscriptPath } from '../claude/session-files.js';
 import type { SessionContext } from './context.js';
 import type { Session } from './types.js';
 import type { PlatformClient } from '../platform/index.js';
@@ -48,6 +53,7 @@ function createMockSession(overrides?: Partial<Session>): Session {
     platform: createMockPlatform(),
     claude: {
       isRunning: mock(() => true),
+      isBusy: mock(() => false),
       kill: mock(() => Promise.resolve()),
       start: mock(() => {}),
       sendMessage: mock(() => {}),
@@ -106,6 +112,7 @@ function createMockSessionContext(sessions: Map<string, Session> = new Map()): S
         load: mock(() => new Map()),
         findByPostId: mock(() => undefined),
       } as any,
+      sessionQueue: [],
       isShuttingDown: false,
     },
     ops: {
@@ -122,12 +129,14 @@ function createMockSessionContext(sessions: Map<string, Session> = new Map()): S
       updateSessionHeader: mock(() => Promise.resolve()),
       persistSession: mock(() => {}),
       unpersistSession: mock(() => {}),
+      recordUsage: mock(() => {}),
       shouldPromptForWorktree: mock(() => Promise.resolve(null)),
       postWorktreePrompt: mock(() => Promise.resolve()),
       buildMessageContent: mock((prompt) => Promise.resolve(prompt)),
       offerContextPrompt: mock(() => Promise.resolve(false)),
       bumpTasksToBottom: mock(() => Promise.resolve()),
       killSession: mock(() => Promise.resolve()),
+      startQueuedSessions: mock(() => Promise.resolve()),
     },
   };
 }
@@ -190,6 +199,33 @@ describe('Lifecycle Module', () => {
     });
   });
 
+  describe('handleExit', () => {
+    it('pauses a session that exited after an interrupt', async () => {
+      const session = createMockSession({ wasInterrupted: true, hasClaudeResponded: true });
+      const sessions = new Map([['test-platform:thread-123', session]]);
+      const ctx = createMockSessionContext(sessions);
+
+      await lifecycle.handleExit('test-platform:thread-123', 130, ctx);
+
+      expect(sessions.size).toBe(0);
+      expect(ctx.ops.persistSession).toHaveBeenCalledWith(session);
+      expect(session.platform.createPost).toHaveBeenCalledWith(expect.stringContaining('Session paused'), 'thread-123');
+    });
+
+    it('resumes with the edited message instead of pausing for a re-run', async () => {
+      const session = createMockSession({ wasInterrupted: true, hasClaudeResponded: true, rerunMessage: 'edited' });
+      const sessions = new Map([['test-platform:thread-123', session]]);
+      const ctx = createMockSessionContext(sessions);
+
+      await lifecycle.handleExit('test-platform:thread-123', 130, ctx);
+
+      expect(session.rerunMessage).toBeUndefined();
+      expect(ctx.ops.persistSession).toHaveBeenCalledWith(session);
+      expect(ctx.state.sessionStore.load).toHaveBeenCalled();
+      expect(session.platform.createPost).not.toHaveBeenCalledWith(expect.stringContaining('Session paused'), 'thread-123');
+    });
+  });
+
   describe('killAllSessions', () => {
     it('kills all active sessions', async () => {
       const session1 = createMockSession({ sessionId: 'p:t1', threadId: 't1' });
@@ -256,6 +292,184 @@ describe('Lifecycle Module', () => {
       expect(sessions.has('test-platform:thread-123')).toBe(true);
     });
   });
+
+  describe('forkSession', () => {
+    it('refuses to fork before Claude has responded', async () => {
+      const parent = createMockSession({ hasClaudeResponded: false });
+      const ctx = createMockSessionContext(new Map([['test-platform:thread-123', parent]]));
+
+      await lifecycle.forkSession(parent, 'testuser', undefined, ctx);
+
+      expect(parent.platform.createPost).toHaveBeenCalledWith(expect.stringContaining('Nothing to fork yet'), 'thread-123');
+      expect(ctx.state.sessions.size).toBe(1);
+    });
+
+    it('refuses to fork when all session slots are busy', async () => {
+      const sessions = new Map<string, Session>();
+      for (let i = 0; i < 5; i++) {
+        sessions.set(`test-platform:thread-${i}`, createMockSession({ threadId: `thread-${i}`, hasClaudeResponded: true }));
+      }
+      const parent = sessions.get('test-platform:thread-0') as Session;
+      const ctx = createMockSessionContext(sessions);
+
+      await lifecycle.forkSession(parent, 'testuser', undefined, ctx);
+
+      expect(parent.platform.createPost).toHaveBeenCalledWith(expect.stringContaining('all 5 session slots are busy'), 'thread-0');
+      expect(sessions.size).toBe(5);
+      expect(parent.forkThreadIds).toBeUndefined();
+    });
+
+    it('does not create a worktree when the transcript is missing', async () => {
+      const repoDir = mkdtempSync(join(tmpdir(), 'fork-repo-'));
+      const configDir = mkdtempSync(join(tmpdir(), 'fork-config-'));
+      const originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+      process.env.CLAUDE_CONFIG_DIR = configDir;
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' });
+      try {
+        git('init', '-q');
+        git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', 'init');
+
+        const parent = createMockSession({ hasClaudeResponded: true, workingDir: repoDir });
+        const ctx = createMockSessionContext(new Map([['test-platform:thread-123', parent]]));
+
+        await lifecycle.forkSession(parent, 'testuser', 'fork-branch', ctx);
+
+        expect(parent.platform.createPost).toHaveBeenCalledWith(expect.stringContaining('transcript for this session was not found'), 'thread-123');
+        expect(git('branch', '--list', 'fork-branch').trim()).toBe('');
+        expect(git('worktree', 'list').trim().split('\n')).toHaveLength(1);
+        expect(ctx.state.sessions.size).toBe(1);
+      } finally {
+        if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+        else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+        rmSync(repoDir, { recursive: true, force: true });
+        rmSync(configDir, { recursive: true, force: true });
+      }
+    });
+
+    it('removes the fork worktree when the fork thread cannot be created', async () => {
+      const repoDir = mkdtempSync(join(tmpdir(), 'fork-repo-'));
+      const configDir = mkdtempSync(join(tmpdir(), 'fork-config-'));
+      const originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+      process.env.CLAUDE_CONFIG_DIR = configDir;
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' });
+      try {
+        git('init', '-q');
+        git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', 'init');
+        const transcriptPath = getTranscriptPath('claude-session-1', repoDir);
+        mkdirSync(dirname(transcriptPath), { recursive: true });
+        writeFileSync(transcriptPath, '{}\n');
+
+        // Replies in the parent thread work, but the fork's new thread cannot be started
+        const platform = createMockPlatform({
+          createPost: mock((_message: string, threadId?: string) => threadId
+            ? Promise.resolve({ id: 'post-1', message: '', userId: 'bot' })
+            : Promise.reject(new Error('channel is read-only'))) as any,
+        });
+        const parent = createMockSession({ hasClaudeResponded: true, workingDir: repoDir, platform });
+        const ctx = createMockSessionContext(new Map([['test-platform:thread-123', parent]]));
+
+        await lifecycle.forkSession(parent, 'testuser', 'fork-branch', ctx);
+
+        expect(git('branch', '--list', 'fork-branch').trim()).toBe('');
+        expect(git('worktree', 'list').trim().split('\n')).toHaveLength(1);
+        expect(ctx.state.sessions.size).toBe(1);
+      } finally {
+        if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+        else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+        rmSync(repoDir, { recursive: true, force: true });
+        rmSync(`${repoDir}-worktrees`, { recursive: true, force: true });
+        rmSync(configDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('startSession', () => {
+    it('queues the request when all session slots are busy', async () => {
+      const sessions = new Map<string, Session>();
+      for (let i = 0; i < 5; i++) {
+        sessions.set(`test-platform:thread-${i}`, createMockSession({ threadId: `thread-${i}` }));
+      }
+      const ctx = createMockSessionContext(sessions);
+      const platform = ctx.state.platforms.get('test-platform') as PlatformClient;
+
+      await lifecycle.startSession({ prompt: 'hello' }, 'alice', 'Alice', 'new-thread', 'test-platform', ctx);
+
+      expect(sessions.size).toBe(5);
+      expect(ctx.state.sessionQueue).toHaveLength(1);
+      expect(ctx.state.sessionQueue[0]).toMatchObject({ threadId: 'new-thread', username: 'alice', prompt: 'hello' });
+      expect(platform.createInteractivePost).toHaveBeenCalledWith(
+        expect.stringContaining('**Queued**'),
+        ['x'],
+        'new-thread'
+      );
+      expect(platform.createPost).not.toHaveBeenCalled();
+      expect(ctx.ops.startQueuedSessions).toHaveBeenCalled();
+    });
+  });
+
+  describe('sendFollowUp', () => {
+    it('sends the message right away when Claude is idle', async () => {
+      const session = createMockSession();
+      const ctx = createMockSessionContext();
+
+      await lifecycle.sendFollowUp(session, 'hello', undefined, ctx, { postId: 'user-post', username: 'testuser' });
+
+      expect(session.claude.sendMessage).toHaveBeenCalledWith('hello');
+      expect(session.messageQueue ?? []).toHaveLength(0);
+      expect(session.lastSentMessage).toEqual({ postId: 'user-post', username: 'testuser', message: 'hello' });
+    });
+
+    it('queues messages while Claude is busy', async () => {
+      const session = createMockSession();
+      (session.claude.isBusy as ReturnType<typeof mock>).mockReturnValue(true);
+      const ctx = createMockSessionContext();
+
+      await lifecycle.sendFollowUp(session, 'also check the tests', undefined, ctx, { postId: 'user-post', username: 'testuser' });
+
+      expect(session.claude.sendMessage).not.toHaveBeenCalled();
+      expect(session.messageQueue).toHaveLength(1);
+      expect(session.messageQueue?.[0]).toMatchObject({ postId: 'user-post', username: 'testuser', message: 'also check the tests' });
+      expect(session.platform.addReaction).toHaveBeenCalledWith('user-post', 'hourglass_flowing_sand');
+      expect(ctx.ops.registerPost).toHaveBeenCalledWith('user-post', 'thread-123');
+      expect(ctx.ops.updateSessionHeader).toHaveBeenCalled();
+    });
+
+    it('delivers queued messages as one message when the turn ends', async () => {
+      const session = createMockSession();
+      const isBusy = session.claude.isBusy as ReturnType<typeof mock>;
+      const ctx = createMockSessionContext();
+
+      isBusy.mockReturnValue(true);
+      await lifecycle.sendFollowUp(session, 'first', undefined, ctx, { postId: 'post-a', username: 'testuser' });
+      await lifecycle.sendFollowUp(session, 'second', undefined, ctx, { postId: 'post-b', username: 'testuser' });
+      expect(session.messageQueue).toHaveLength(2);
+
+      // Still busy: nothing is delivered
+      await lifecycle.deliverQueuedMessages(session, ctx);
+      expect(session.claude.sendMessage).not.toHaveBeenCalled();
+
+      isBusy.mockReturnValue(false);
+      await lifecycle.deliverQueuedMessages(session, ctx);
+
+      expect(session.claude.sendMessage).toHaveBeenCalledTimes(1);
+      expect(session.claude.sendMessage).toHaveBeenCalledWith('first\n\nsecond');
+      expect(session.messageQueue).toHaveLength(0);
+      expect(session.platform.removeReaction).toHaveBeenCalledWith('post-a', 'hourglass_flowing_sand');
+      expect(session.platform.removeReaction).toHaveBeenCalledWith('post-b', 'hourglass_flowing_sand');
+    });
+
+    it('sends queued messages along with the next message', async () => {
+      const session = createMockSession({
+        messageQueue: [{ postId: 'post-a', username: 'testuser', message: 'queued', queuedAt: new Date() }],
+      });
+      const ctx = createMockSessionContext();
+
+      await lifecycle.sendFollowUp(session, 'new', undefined, ctx, { postId: 'post-b', username: 'testuser' });
+
+      expect(session.claude.sendMessage).toHaveBeenCalledWith('queued\n\nnew');
+      expect(session.messageQueue).toHaveLength(0);
+    });
+  });
 });
 
 describe('Session State Management', () => {
@@ -4,11 +4,12 @@
  * Handles session start, resume, exit, cleanup, and shutdown.
  */
 
-import type { Session } from './types.js';
+import type { SentMessage, Session } from './types.js';
 import type { PlatformClient, PlatformFile } from '../platform/index.js';
 import type { ClaudeCliOptions, ClaudeEvent } from '../claude/cli.js';
 import { ClaudeCli } from '../claude/cli.js';
-import type { PersistedSession } from '../persistence/session-store.js';
+import { resolveSessionModel } from '../claude/model.js';
+import type { PersistedSession, WorktreeInfo } from '../persistence/session-store.js';
 import { getLogo } from '../logo.js';
 import { VERSION } from '../version.js';
 import { randomUUID } from 'crypto';
@@ -16,8 +17,25 @@ import { existsSync } from 'fs';
 import { keepAlive } from '../utils/keep-alive.js';
 import { logAndNotify, withErrorHandling } from './error-handler.js';
 import { createLogger } from '../utils/logger.js';
-import { postError, postInfo, postResume, postWarning, postTimeout } from './post-helpers.js';
+import { postError, postInfo, postResume, postSuccess, postWarning, postTimeout } from './post-helpers.js';
 import type { SessionContext } from './context.js';
+import { CommandRegistry } from './command-registry.js';
+import { registerSessionCommands } from './commands.js';
+import { enqueueSession } from './queue.js';
+import { batchMessages, queueMessage, releaseQueuedMessages } from './message-queue.js';
+import { checkBudgetBeforeMessage, formatSessionStartBlocked, getBlockingBudget } from './budget.js';
+import {
+  isGitRepository,
+  getRepositoryRoot,
+  findWorktreeByBranch,
+  branchExists,
+  createWorktree,
+  removeWorktree,
+  deleteBranch,
+  getWorktreeDir,
+  isValidBranchName,
+} from '../git/worktree.js';
+import { copyTranscript, getTranscriptPath } from '../claude/session-files.js';
 
 const log = createLogger('lifecycle');
 
@@ -89,6 +107,10 @@ function findPersistedByThreadId(
 // System prompt for chat platform context
 // ---------------------------------------------------------------------------
 
+// Registry used to describe the user commands in the system prompt
+const sessionCommands = new CommandRegistry();
+registerSessionCommands(sessionCommands);
+
 /**
  * System prompt that gives Claude context about running in a chat platform.
  * This is appended to Claude's system prompt via --append-system-prompt.
@@ -110,13 +132,8 @@ You are running inside a chat platform (like Mattermost or Slack). Users interac
 - Plan approvals and questions also use emoji reactions (👍/👎 for plans, number emoji for choices)
 
 ## User Commands
-Users can control sessions with these commands:
-- \`!stop\` or ❌ reaction: End the current operation
-- \`!escape\` or ⏸️ reaction: Interrupt without ending the session
-- \`!invite @user\`: Allow another user to send messages in this session
-- \`!kick @user\`: Remove a user from the session
-- \`!cd /path\`: Change working directory (restarts the session)
-- \`!permissions interactive|skip\`: Toggle permission prompts
+Users can control sessions with these commands (a ❌ reaction also stops the session, ⏸️ interrupts it):
+${sessionCommands.formatList()}
 
 SESSION METADATA: At the START of your first response, include metadata about this session:
 
@@ -179,7 +196,9 @@ export function maybeInjectMetadataReminder(
 // ---------------------------------------------------------------------------
 
 /**
- * Create a new session for a thread.
+ * Create a new session for a thread, or queue it when all slots are busy.
+ *
+ * @param fromQueue - The request was just taken from the session queue
  */
 export async function startSession(
   options: { prompt: string; files?: PlatformFile[] },
@@ -187,7 +206,8 @@ export async function startSession(
   displayName: string | undefined,
   replyToPostId: string | undefined,
   platformId: string,
-  ctx: SessionContext
+  ctx: SessionContext,
+  fromQueue = false
 ): Promise<void> {
   const threadId = replyToPostId || '';
 
@@ -206,15 +226,24 @@ export async function startSession(
     throw new Error(`Platform '${platformId}' not found. Call addPlatform() first.`);
   }
 
-  // Check max sessions limit
-  if (ctx.state.sessions.size >= ctx.config.maxSessions) {
-    await platform.createPost(
-      `⚠️ **Too busy** - ${ctx.state.sessions.size} sessions active. Please try again later.`,
-      replyToPostId
+  // Refuse when the requester's daily budget or the global one is used up
+  const blocking = getBlockingBudget(ctx.config.budgets, username);
+  if (blocking) {
+    await withErrorHandling(
+      () => platform.createPost(formatSessionStartBlocked(blocking), replyToPostId),
+      { action: 'Post budget notice' }
     );
     return;
   }
 
+  // Queue the request when all slots are busy or others are already waiting (FIFO)
+  if (!fromQueue && (ctx.state.sessions.size >= ctx.config.maxSessions || ctx.state.sessionQueue.length > 0)) {
+    await enqueueSession(options, username, displayName, threadId, platform, ctx);
+    // A slot may have freed up while the queue post was being created
+    await ctx.ops.startQueuedSessions();
+    return;
+  }
+
   // Post initial session message
   const post = await withErrorHandling(
     () => platform.createPost(
@@ -242,6 +271,7 @@ export async function startSession(
     chrome: ctx.config.chromeEnabled,
     platformConfig: platformMcpConfig,
     appendSystemPrompt: CHAT_PLATFORM_PROMPT,
+    model: resolveSessionModel(undefined, ctx.config.workingDir, platformId),
   };
   const claude = new ClaudeCli(cliOptions);
 
@@ -331,7 +361,7 @@ export async function startSession(
   }
 
   // Build message content
-  const content = await ctx.ops.buildMessageContent(options.prompt, session.platform, options.files);
+  const content = await ctx.ops.buildMessageContent(options.prompt, session.platform, options.files, session.threadId);
   const messageText = typeof content === 'string' ? content : options.prompt;
 
   // Check if this is a mid-thread start (replyToPostId means we're replying in an existing thread)
@@ -435,6 +465,7 @@ export async function resumeSession(
     chrome: ctx.config.chromeEnabled,
     platformConfig: platformMcpConfig,
     appendSystemPrompt: needsTitlePrompt ? CHAT_PLATFORM_PROMPT : undefined,
+    model: resolveSessionModel(state.model, state.workingDir, platformId),
   };
   const claude = new ClaudeCli(cliOptions);
 
@@ -486,6 +517,10 @@ export async function resumeSession(
     sessionTitle: state.sessionTitle,
     sessionDescription: state.sessionDescription,
     pullRequestUrl: state.pullRequestUrl,
+    forkedFromThreadId: state.forkedFromThreadId,
+    forkThreadIds: state.forkThreadIds,
+    spentUSD: state.spentUSD,
+    model: state.model,
     messageCount: state.messageCount ?? 0,
     lifecyclePostId: state.lifecyclePostId,  // Pass through for resume message handling
     statusBarTimer: null,  // Will be started after first result event
@@ -554,25 +589,264 @@ export async function resumeSession(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Session forking
+// ---------------------------------------------------------------------------
+
+/** A worktree created for a fork, with whether the fork also created its branch */
+interface ForkWorktree {
+  info: WorktreeInfo;
+  isNewBranch: boolean;
+}
+
+/**
+ * Remove a fork's worktree after the fork failed, and its branch if the fork
+ * created it. Cleanup errors are only logged.
+ */
+async function discardForkWorktree({ info, isNewBranch }: ForkWorktree): Promise<void> {
+  await removeWorktree(info.repoRoot, info.worktreePath)
+    .catch(err => log.warn(`Failed to remove fork worktree ${info.worktreePath}: ${err}`));
+  if (isNewBranch) {
+    await deleteBranch(info.repoRoot, info.branch)
+      .catch(err => log.warn(`Failed to delete fork branch ${info.branch}: ${err}`));
+  }
+}
+
+/**
+ * Prepare a fresh worktree for a fork and copy the conversation transcript
+ * into it (the CLI only resumes sessions of the current directory).
+ * Returns the new worktree, or null after posting why it failed.
+ */
+async function prepareForkWorktree(
+  parent: Session,
+  branch: string
+): Promise<ForkWorktree | null> {
+  if (!isValidBranchName(branch)) {
+    await postError(parent, `Invalid branch name: \`${branch}\``);
+    return null;
+  }
+  if (!await isGitRepository(parent.workingDir)) {
+    await postError(parent, `Cannot fork into a worktree - current directory is not a git repository`);
+    return null;
+  }
+  const repoRoot = await getRepositoryRoot(parent.workingDir);
+  if (await findWorktreeByBranch(repoRoot, branch)) {
+    await postWarning(parent, `A worktree for \`${branch}\` already exists - pick a new branch for the fork`);
+    return null;
+  }
+
+  // Check for the transcript first so a failed fork leaves no worktree behind
+  if (!existsSync(getTranscriptPath(parent.claudeSessionId, parent.workingDir))) {
+    await postError(parent, `Cannot fork - the conversation transcript for this session was not found`);
+    return null;
+  }
+
+  const worktreePath = getWorktreeDir(repoRoot, branch);
+  const isNewBranch = !await branchExists(repoRoot, branch);
+  await createWorktree(repoRoot, branch, worktreePath);
+  const fork: ForkWorktree = { info: { repoRoot, worktreePath, branch }, isNewBranch };
+  try {
+    if (!copyTranscript(parent.claudeSessionId, parent.workingDir, worktreePath)) {
+      throw new Error('the conversation transcript for this session was not found');
+    }
+  } catch (err) {
+    await discardForkWorktree(fork);
+    throw err;
+  }
+  return fork;
+}
+
+/**
+ * Fork a session into a new thread. The new Claude session starts from the
+ * parent's conversation history (`--resume --fork-session`) and continues
+ * independently, optionally in a fresh worktree. Both session headers link
+ * to each other.
+ */
+export async function forkSession(
+  parent: Session,
+  username: string,
+  branch: string | undefined,
+  ctx: SessionContext
+): Promise<void> {
+  if (!parent.hasClaudeResponded) {
+    await postWarning(parent, `Nothing to fork yet - wait for Claude's first response`);
+    return;
+  }
+  if (ctx.state.sessions.size >= ctx.config.maxSessions) {
+    await postWarning(parent, `Cannot fork - all ${ctx.config.maxSessions} session slots are busy`);
+    return;
+  }
+
+  let worktreeInfo = parent.worktreeInfo;
+  let workingDir = parent.workingDir;
+  let forkWorktree: ForkWorktree | null = null;
+  if (branch) {
+    forkWorktree = await withErrorHandling(
+      () => prepareForkWorktree(parent, branch),
+      { action: 'Create fork worktree', session: parent }
+    ) ?? null;
+    if (!forkWorktree) return;
+    worktreeInfo = forkWorktree.info;
+    workingDir = forkWorktree.info.worktreePath;
+  }
+
+  const platform = parent.platform;
+
+  // The session header is a channel post, so it starts the new thread
+  const post = await withErrorHandling(
+    () => platform.createPost(`${getLogo(VERSION)}\n\n*Forking session...*`),
+    { action: 'Create fork session post', session: parent }
+  );
+  if (!post) {
+    if (forkWorktree) await discardForkWorktree(forkWorktree);
+    return;
+  }
+  const threadId = post.id;
+  const sessionId = ctx.ops.getSessionId(parent.platformId, threadId);
+  const claudeSessionId = randomUUID();
+
+  const skipPerms = ctx.config.skipPermissions && !parent.forceInteractivePermissions;
+  const cliOptions: ClaudeCliOptions = {
+    workingDir,
+    threadId,
+    skipPermissions: skipPerms,
+    sessionId: claudeSessionId,
+    forkFrom: parent.claudeSessionId,
+    chrome: ctx.config.chromeEnabled,
+    platformConfig: platform.getMcpConfig(),
+    appendSystemPrompt: parent.sessionTitle ? undefined : CHAT_PLATFORM_PROMPT,
+    model: resolveSessionModel(parent.model, workingDir, parent.platformId),
+  };
+  const claude = new ClaudeCli(cliOptions);
+
+  const session: Session = {
+    platformId: parent.platformId,
+    threadId,
+    sessionId,
+    platform,
+    claudeSessionId,
+    startedBy: username,
+    startedByDisplayName: username === parent.startedBy ? parent.startedByDisplayName : undefined,
+    startedAt: new Date(),
+    lastActivityAt: new Date(),
+    sessionNumber: ctx.state.sessions.size + 1,
+    workingDir,
+    claude,
+    currentPostId: null,
+    pendingContent: '',
+    pendingApproval: null,
+    pendingQuestionSet: null,
+    pendingMessageApproval: null,
+    planApproved: parent.planApproved,
+    sessionAllowedUsers: new Set([...parent.sessionAllowedUsers, username]),
+    forceInteractivePermissions: parent.forceInteractivePermissions,
+    sessionStartPostId: post.id,
+    tasksPostId: null,
+    lastTasksContent: null,
+    tasksCompleted: false,
+    tasksMinimized: false,
+    activeSubagents: new Map(),
+    updateTimer: null,
+    typingTimer: null,
+    timeoutWarningPosted: false,
+    isRestarting: false,
+    isResumed: false,
+    resumeFailCount: 0,
+    wasInterrupted: false,
+    hasClaudeResponded: false,  // Persisted once the fork's first response is saved
+    inProgressTaskStart: null,
+    activeToolStarts: new Map(),
+    worktreeInfo,
+    firstPrompt: parent.firstPrompt,
+    sessionTitle: parent.sessionTitle,
+    sessionDescription: parent.sessionDescription,
+    forkedFromThreadId: parent.threadId,
+    model: parent.model,
+    messageCount: parent.messageCount,
+    statusBarTimer: null,
+  };
+
+  mutableSessions(ctx).set(sessionId, session);
+  ctx.ops.registerPost(post.id, threadId);
+  log.info(`🔀 Session (${parent.threadId.substring(0, 8)}…) forked to ${threadId.substring(0, 8)}… by @${username}`);
+
+  keepAlive.sessionStarted();
+
+  claude.on('event', (e: ClaudeEvent) => ctx.ops.handleEvent(sessionId, e));
+  claude.on('exit', (code: number) => ctx.ops.handleExit(sessionId, code));
+
+  try {
+    claude.start();
+  } catch (err) {
+    await logAndNotify(err, { action: 'Start forked Claude', session: parent });
+    mutableSessions(ctx).delete(sessionId);
+    keepAlive.sessionEnded();
+    if (forkWorktree) await discardForkWorktree(forkWorktree);
+    await ctx.ops.updateStickyMessage();
+    return;
+  }
+
+  parent.forkThreadIds = [...(parent.forkThreadIds ?? []), threadId];
+  ctx.ops.persistSession(parent);
+
+  const where = branch ? ` in worktree \`${branch}\`` : '';
+  await withErrorHandling(
+    () => postSuccess(session, `**Forked** from [the original thread](${platform.getThreadLink(parent.threadId)}) by @${username}${where}\n*Claude remembers the conversation so far. Send a message to continue on this branch of it.*`),
+    { action: 'Post fork notice', session }
+  );
+  await withErrorHandling(
+    () => postInfo(parent, `🔀 **Forked** to [a new thread](${platform.getThreadLink(threadId)}) by @${username}${where}`),
+    { action: 'Post fork notice', session: parent }
+  );
+
+  await ctx.ops.updateSessionHeader(session);
+  await ctx.ops.updateSessionHeader(parent);
+  await ctx.ops.updateStickyMessage();
+}
+
 // ---------------------------------------------------------------------------
 // Session messaging
 // ---------------------------------------------------------------------------
 
 /**
  * Send a follow-up message to an existing session.
+ *
+ * A message from a user's post (`from`) is queued while Claude is busy and
+ * sent at the end of the turn; messages already queued are sent along with
+ * the next one.
  */
 export async function sendFollowUp(
   session: Session,
   message: string,
   files: PlatformFile[] | undefined,
-  ctx: SessionContext
+  ctx: SessionContext,
+  from?: { postId: string; username: string }
 ): Promise<void> {
   if (!session.claude.isRunning()) return;
 
+  if (from && session.claude.isBusy()) {
+    await queueMessage(session, { ...from, message, files, queuedAt: new Date() }, ctx);
+    return;
+  }
+
+  if (!await checkBudgetBeforeMessage(session, ctx)) return;
+
+  // The last user post in this message (editing it offers a re-run)
+  const queued = await releaseQueuedMessages(session, ctx);
+  const lastQueued = queued[queued.length - 1];
+  const lastPost: SentMessage | undefined = from
+    ? { ...from, message }
+    : lastQueued && { postId: lastQueued.postId, username: lastQueued.username, message: lastQueued.message };
+  if (queued.length > 0) {
+    message = batchMessages([...queued.map(q => q.message), message]);
+    files = [...queued.flatMap(q => q.files ?? []), ...(files ?? [])];
+    if (files.length === 0) files = undefined;
+  }
+
   // Bump task list below the user's message
   await ctx.ops.bumpTasksToBottom(session);
 
-  const content = await ctx.ops.buildMessageContent(message, session.platform, files);
+  const content = await ctx.ops.buildMessageContent(message, session.platform, files, session.threadId);
   const messageText = typeof content === 'string' ? content : message;
 
   // Check if we need to offer context prompt (e.g., after !cd)
@@ -596,10 +870,25 @@ export async function sendFollowUp(
     : content;
 
   session.claude.sendMessage(messageToSend);
+  if (lastPost) session.lastSentMessage = lastPost;
   session.lastActivityAt = new Date();
   ctx.ops.startTyping(session);
 }
 
+/**
+ * Send the messages queued during a turn, once Claude is no longer busy,
+ * along with a re-run waiting for an interrupt (see post-edits.ts).
+ */
+export async function deliverQueuedMessages(
+  session: Session,
+  ctx: SessionContext
+): Promise<void> {
+  const rerun = session.rerunMessage;
+  if ((!session.messageQueue?.length && !rerun) || session.claude.isBusy()) return;
+  session.rerunMessage = undefined;
+  await sendFollowUp(session, rerun ?? '', undefined, ctx);
+}
+
 /**
  * Resume a paused session and send a message to it.
  */
@@ -626,10 +915,12 @@ export async function resumePausedSession(
   // Wait a moment for the session to be ready, then send the message
   const session = ctx.ops.findSessionByThreadId(threadId);
   if (session && session.claude.isRunning()) {
+    if (!await checkBudgetBeforeMessage(session, ctx)) return;
+
     // Increment message counter
     session.messageCount++;
 
-    const content = await ctx.ops.buildMessageContent(message, session.platform, files);
+    const content = await ctx.ops.buildMessageContent(message, session.platform, files, session.threadId);
 
     // Inject metadata reminder periodically
     const messageToSend = typeof content === 'string'
@@ -697,6 +988,16 @@ export async function handleExit(
     cleanupPostIndex(ctx, session.threadId);
     // Notify keep-alive that a session ended
     keepAlive.sessionEnded();
+    // Interrupted for a re-run with an edited message: resume and send it
+    const rerun = session.rerunMessage;
+    if (rerun && session.hasClaudeResponded) {
+      session.rerunMessage = undefined;
+      log.info(`🔄 Resuming session (${shortId}…) to re-run with the edited message`);
+      await resumePausedSession(session.threadId, rerun, undefined, ctx);
+      const resumed = ctx.ops.findSessionByThreadId(session.threadId);
+      if (resumed && session.lastSentMessage) resumed.lastSentMessage = session.lastSentMessage;
+      return;
+    }
     // Notify user
     const message = session.hasClaudeResponded
       ? `ℹ️ Session paused. Send a new message to continue.`
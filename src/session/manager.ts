@@ -13,6 +13,7 @@
 import { ClaudeEvent, ContentBlock } from '../claude/cli.js';
 import type { PlatformClient, PlatformUser, PlatformPost, PlatformFile } from '../platform/index.js';
 import { SessionStore, PersistedSession, PersistedContextPrompt } from '../persistence/session-store.js';
+import { appendUsageEntries, type UsageEntry } from '../persistence/usage-log.js';
 import { WorktreeMode } from '../config.js';
 import {
   isCancelEmoji,
@@ -31,9 +32,18 @@ import { CHAT_PLATFORM_PROMPT } from './lifecycle.js';
 import * as worktreeModule from './worktree.js';
 import * as contextPrompt from './context-prompt.js';
 import * as stickyMessage from './sticky-message.js';
+import * as queue from './queue.js';
+import * as messageQueue from './message-queue.js';
+import * as postEdits from './post-edits.js';
+import * as exportModule from './export.js';
+import * as summary from './summary.js';
+import * as uploads from './uploads.js';
+import * as budget from './budget.js';
+import type { BudgetSettings } from './budget.js';
 import type { Session } from './types.js';
 import { postInfo } from './post-helpers.js';
 import { createLogger } from '../utils/logger.js';
+import { getSessionUsersPath, writeSessionUsers } from '../mcp/session-permissions.js';
 
 const log = createLogger('manager');
 
@@ -59,12 +69,17 @@ export class SessionManager {
   private skipPermissions: boolean;
   private chromeEnabled: boolean;
   private worktreeMode: WorktreeMode;
+  private budgets: BudgetSettings | undefined;
   private debug = process.env.DEBUG === '1' || process.argv.includes('--debug');
 
   // Session state
   private sessions: Map<string, Session> = new Map();
   private postIndex: Map<string, string> = new Map();
 
+  // Session requests waiting for a free slot (FIFO)
+  private sessionQueue: queue.QueuedSession[] = [];
+  private isStartingQueuedSessions = false;
+
   // Persistence
   private sessionStore: SessionStore = new SessionStore();
 
@@ -78,16 +93,19 @@ export class SessionManager {
     workingDir: string,
     skipPermissions = false,
     chromeEnabled = false,
-    worktreeMode: WorktreeMode = 'prompt'
+    worktreeMode: WorktreeMode = 'prompt',
+    budgets?: BudgetSettings
   ) {
     this.workingDir = workingDir;
     this.skipPermissions = skipPermissions;
     this.chromeEnabled = chromeEnabled;
     this.worktreeMode = worktreeMode;
+    this.budgets = budgets;
 
     // Start periodic cleanup and sticky refresh
     this.cleanupTimer = setInterval(() => {
       lifecycle.cleanupIdleSessions(SESSION_TIMEOUT_MS, SESSION_WARNING_MS, this.getContext())
+        .then(() => this.startQueuedSessions())
         .catch(err => log.error(`Error during idle session cleanup: ${err}`));
       // Refresh sticky message to keep relative times current (only if there are active sessions)
       if (this.sessions.size > 0) {
@@ -114,6 +132,16 @@ export class SessionManager {
         this.handleReaction(platformId, reaction.postId, reaction.emojiName, user.username, 'removed');
       }
     });
+    client.on('post_edited', (post, user) => {
+      if (user) {
+        this.handlePostEdited(platformId, post, user.username)
+          .catch(err => log.error(`Error handling edited post: ${err}`));
+      }
+    });
+    client.on('post_deleted', (post) => {
+      this.handlePostDeleted(platformId, post)
+        .catch(err => log.error(`Error handling deleted post: ${err}`));
+    });
     // Bump sticky message to bottom when someone posts in the channel
     client.on('channel_post', () => {
       stickyMessage.markNeedsBump(platformId);
@@ -141,6 +169,7 @@ export class SessionManager {
       chromeEnabled: this.chromeEnabled,
       debug: this.debug,
       maxSessions: MAX_SESSIONS,
+      budgets: this.budgets,
     };
 
     const state: SessionState = {
@@ -148,6 +177,7 @@ export class SessionManager {
       postIndex: this.postIndex,
       platforms: this.platforms,
       sessionStore: this.sessionStore,
+      sessionQueue: this.sessionQueue,
       isShuttingDown: this.isShuttingDown,
     };
 
@@ -164,12 +194,13 @@ export class SessionManager {
       appendContent: (s, t) => this.appendContent(s, t),
       startTyping: (s) => this.startTyping(s),
       stopTyping: (s) => this.stopTyping(s),
-      buildMessageContent: (t, p, f) => this.buildMessageContent(t, p, f),
+      buildMessageContent: (t, p, f, tid) => this.buildMessageContent(t, p, f, tid),
       bumpTasksToBottom: (s) => this.bumpTasksToBottom(s),
 
       // Persistence
       persistSession: (s) => this.persistSession(s),
       unpersistSession: (sid) => this.unpersistSession(sid),
+      recordUsage: (entries) => this.recordUsage(entries),
 
       // UI updates
       updateSessionHeader: (s) => this.updateSessionHeader(s),
@@ -181,6 +212,7 @@ export class SessionManager {
 
       // Session lifecycle
       killSession: (tid) => this.killSession(tid),
+      startQueuedSessions: () => this.startQueuedSessions(),
 
       // Worktree
       shouldPromptForWorktree: (s) => this.shouldPromptForWorktree(s),
@@ -237,6 +269,12 @@ export class SessionManager {
       if (resumed) return;
     }
 
+    // ❌ on a queue post cancels the queued request
+    if (action === 'added' && isCancelEmoji(emojiName)) {
+      const cancelled = await queue.cancelQueuedSession(postId, username, this.getContext());
+      if (cancelled) return;
+    }
+
     const session = this.getSessionByPost(postId);
     if (!session) return;
 
@@ -353,9 +391,21 @@ export class SessionManager {
       }
     }
 
-    // Handle question reactions (only on add)
-    if (action === 'added' && session.pendingQuestionSet?.currentPostId === postId) {
-      await reactions.handleQuestionReaction(session, postId, emojiName, username, this.getContext());
+    // ❌ on a queued follow-up withdraws it (only on add)
+    if (action === 'added' && isCancelEmoji(emojiName) && session.messageQueue?.some(m => m.postId === postId)) {
+      await messageQueue.withdrawQueuedMessage(session, postId, username, this.getContext());
+      return;
+    }
+
+    // 🔄 on a re-run offer re-runs the turn with the edited message (only on add)
+    if (action === 'added' && session.pendingRerun?.postId === postId && isResumeEmoji(emojiName)) {
+      await postEdits.handleRerunReaction(session, username, this.getContext());
+      return;
+    }
+
+    // Handle question reactions (removals unselect multi-select options)
+    if (session.pendingQuestionSet?.currentPostId === postId) {
+      await reactions.handleQuestionReaction(session, postId, emojiName, username, action, this.getContext());
       return;
     }
 
@@ -414,6 +464,26 @@ export class SessionManager {
     return session?.pendingContextPrompt !== undefined;
   }
 
+  // ---------------------------------------------------------------------------
+  // Edited and Deleted Posts (delegates to post-edits module)
+  // ---------------------------------------------------------------------------
+
+  private async handlePostEdited(platformId: string, post: PlatformPost, username: string): Promise<void> {
+    const session = this.findSessionByThreadId(post.rootId || post.id);
+    if (!session || session.platformId !== platformId) return;
+
+    const message = session.platform.isBotMentioned(post.message)
+      ? session.platform.extractPrompt(post.message)
+      : post.message.trim();
+    await postEdits.handlePostEdited(session, post.id, message, username, this.getContext());
+  }
+
+  private async handlePostDeleted(platformId: string, post: PlatformPost): Promise<void> {
+    const session = this.findSessionByThreadId(post.rootId || post.id);
+    if (!session || session.platformId !== platformId) return;
+    await postEdits.handlePostDeleted(session, post.id, this.getContext());
+  }
+
   // ---------------------------------------------------------------------------
   // Event Handling (delegates to events module)
   // ---------------------------------------------------------------------------
@@ -422,6 +492,13 @@ export class SessionManager {
     const session = this.sessions.get(sessionId);
     if (!session) return;
     events.handleEvent(session, event, this.getContext());
+
+    // The turn is over: send the follow-ups that came in meanwhile (and a pending re-run)
+    if (event.type === 'result' && (session.messageQueue?.length || session.rerunMessage)) {
+      lifecycle.deliverQueuedMessages(session, this.getContext()).catch(err => {
+        log.warn(`Failed to deliver queued messages: ${err}`);
+      });
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -430,6 +507,7 @@ export class SessionManager {
 
   private async handleExit(sessionId: string, code: number): Promise<void> {
     await lifecycle.handleExit(sessionId, code, this.getContext());
+    await this.startQueuedSessions();
   }
 
   // ---------------------------------------------------------------------------
@@ -457,9 +535,10 @@ export class SessionManager {
   private async buildMessageContent(
     text: string,
     platform: PlatformClient,
-    files?: PlatformFile[]
+    files?: PlatformFile[],
+    threadId?: string
   ): Promise<string | ContentBlock[]> {
-    return streaming.buildMessageContent(text, platform, files, this.debug);
+    return streaming.buildMessageContent(text, platform, files, this.debug, threadId);
   }
 
   private async bumpTasksToBottom(session: Session): Promise<void> {
@@ -539,10 +618,26 @@ export class SessionManager {
       sessionTitle: session.sessionTitle,
       sessionDescription: session.sessionDescription,
       pullRequestUrl: session.pullRequestUrl,
+      forkedFromThreadId: session.forkedFromThreadId,
+      forkThreadIds: session.forkThreadIds,
+      spentUSD: session.spentUSD,
+      model: session.model,
       messageCount: session.messageCount,
       resumeFailCount: session.resumeFailCount,
     };
     this.sessionStore.save(session.sessionId, state);
+
+    // Let the permission server accept reactions from invited users
+    if (!this.skipPermissions || session.forceInteractivePermissions) {
+      try {
+        writeSessionUsers(getSessionUsersPath(session.claudeSessionId), {
+          owner: session.startedBy,
+          allowedUsers: state.sessionAllowedUsers,
+        });
+      } catch (err) {
+        log.warn(`Failed to write session users: ${err}`);
+      }
+    }
   }
 
   private unpersistSession(sessionId: string): void {
@@ -550,6 +645,14 @@ export class SessionManager {
     this.sessionStore.softDelete(sessionId);
   }
 
+  private recordUsage(entries: UsageEntry[]): void {
+    try {
+      appendUsageEntries(entries);
+    } catch (err) {
+      log.warn(`Failed to write usage log: ${err}`);
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Session Header
   // ---------------------------------------------------------------------------
@@ -570,7 +673,70 @@ export class SessionManager {
       worktreeMode: this.worktreeMode,
       workingDir: this.workingDir,
       debug: this.debug,
-    });
+    }, this.sessionQueue);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Session Queue
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Start queued sessions, oldest first, while session slots are free.
+   * Runs one drain at a time; a drain in progress re-checks free slots after
+   * every start, so concurrent callers can simply return.
+   */
+  private async startQueuedSessions(): Promise<void> {
+    if (this.isShuttingDown || this.isStartingQueuedSessions) return;
+    this.isStartingQueuedSessions = true;
+    let started = false;
+    try {
+      let entry = queue.takeNextQueuedSession(this.getContext());
+      while (entry && !this.isShuttingDown) {
+        started = true;
+        const platform = this.platforms.get(entry.platformId);
+        if (platform) {
+          log.info(`▶️ Starting queued session for @${entry.username} (${entry.threadId.substring(0, 8)}…)`);
+          try {
+            await platform.updatePost(entry.queuePostId, `▶️ **Starting session** - a slot is free`);
+          } catch (err) {
+            log.debug(`Failed to update queue post: ${err}`);
+          }
+          await queue.updateQueuePositions(this.getContext());
+          // The entry is already off the queue: report a failed start on its
+          // queue post and carry on with the next one
+          try {
+            await lifecycle.startSession(
+              { prompt: entry.prompt, files: entry.files },
+              entry.username,
+              entry.displayName,
+              entry.threadId,
+              entry.platformId,
+              this.getContext(),
+              true
+            );
+            if (entry.branch && this.findSessionByThreadId(entry.threadId)) {
+              await this.createAndSwitchToWorktree(entry.threadId, entry.branch, entry.username);
+            }
+          } catch (err) {
+            log.error(`Failed to start queued session for @${entry.username} (${entry.threadId.substring(0, 8)}…): ${err}`);
+            const message = err instanceof Error ? err.message : String(err);
+            try {
+              await platform.updatePost(entry.queuePostId, `❌ **Could not start session** - ${message}`);
+            } catch (updateErr) {
+              log.debug(`Failed to update queue post: ${updateErr}`);
+            }
+          }
+        }
+        entry = queue.takeNextQueuedSession(this.getContext());
+      }
+    } catch (err) {
+      log.error(`Error starting queued sessions: ${err}`);
+    } finally {
+      this.isStartingQueuedSessions = false;
+    }
+    if (started) {
+      await this.updateStickyMessage();
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -649,10 +815,19 @@ export class SessionManager {
     return undefined;
   }
 
-  async sendFollowUp(threadId: string, message: string, files?: PlatformFile[]): Promise<void> {
+  /**
+   * Send a follow-up to the thread's session. Pass the user's post (`from`)
+   * to queue the message while Claude is busy.
+   */
+  async sendFollowUp(
+    threadId: string,
+    message: string,
+    files?: PlatformFile[],
+    from?: { postId: string; username: string }
+  ): Promise<void> {
     const session = this.findSessionByThreadId(threadId);
     if (!session || !session.claude.isRunning()) return;
-    await lifecycle.sendFollowUp(session, message, files, this.getContext());
+    await lifecycle.sendFollowUp(session, message, files, this.getContext(), from);
   }
 
   isSessionActive(): boolean {
@@ -681,6 +856,7 @@ export class SessionManager {
     const session = this.findSessionByThreadId(threadId);
     if (!session) return;
     await lifecycle.killSession(session, unpersist, this.getContext());
+    await this.startQueuedSessions();
   }
 
   async killAllSessions(): Promise<void> {
@@ -694,6 +870,36 @@ export class SessionManager {
     await commands.cancelSession(session, username, this.getContext());
   }
 
+  async forkSession(threadId: string, username: string, branch?: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await lifecycle.forkSession(session, username, branch, this.getContext());
+  }
+
+  async exportSession(threadId: string, format: exportModule.ExportFormat): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await exportModule.exportSession(session, format);
+  }
+
+  async summarizeSession(threadId: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await summary.summarizeSession(session);
+  }
+
+  async showBudget(threadId: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await budget.showBudget(session, this.getContext());
+  }
+
+  async attachFile(threadId: string, path: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await uploads.attachFile(session, path);
+  }
+
   async interruptSession(threadId: string, username: string): Promise<void> {
     const session = this.findSessionByThreadId(threadId);
     if (!session) return;
@@ -718,12 +924,24 @@ export class SessionManager {
     await commands.kickUser(session, kickedUser, kickedBy, this.getContext());
   }
 
+  async handoffSession(threadId: string, newOwner: string, handedOffBy: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await commands.handoffSession(session, newOwner, handedOffBy, this.getContext());
+  }
+
   async enableInteractivePermissions(threadId: string, username: string): Promise<void> {
     const session = this.findSessionByThreadId(threadId);
     if (!session) return;
     await commands.enableInteractivePermissions(session, username, this.getContext());
   }
 
+  async changeModel(threadId: string, model: string | undefined, username: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await commands.changeModel(session, model, username, this.getContext());
+  }
+
   isSessionInteractive(threadId: string): boolean {
     const session = this.findSessionByThreadId(threadId);
     if (!session) return !this.skipPermissions;
@@ -731,10 +949,10 @@ export class SessionManager {
     return session.forceInteractivePermissions;
   }
 
-  async requestMessageApproval(threadId: string, username: string, message: string): Promise<void> {
+  async requestMessageApproval(threadId: string, username: string, message: string, postId?: string): Promise<void> {
     const session = this.findSessionByThreadId(threadId);
     if (!session) return;
-    await commands.requestMessageApproval(session, username, message, this.getContext());
+    await commands.requestMessageApproval(session, username, message, this.getContext(), postId);
   }
 
   // Worktree commands
@@ -810,6 +1028,34 @@ export class SessionManager {
     await worktreeModule.disableWorktreePrompt(session, username, (s) => this.persistSession(s));
   }
 
+  /**
+   * Whether the thread's next reply answers a question (💬 was picked)
+   */
+  isAwaitingQuestionReply(threadId: string): boolean {
+    const session = this.findSessionByThreadId(threadId);
+    return session?.pendingQuestionSet?.awaitingReply === true;
+  }
+
+  async answerQuestionWithReply(threadId: string, text: string, username: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await reactions.handleQuestionReply(session, text, username, this.getContext());
+  }
+
+  /**
+   * Whether a plan is waiting for approval (replies request changes to it)
+   */
+  isAwaitingPlanFeedback(threadId: string): boolean {
+    const session = this.findSessionByThreadId(threadId);
+    return session?.pendingApproval?.type === 'plan';
+  }
+
+  async sendPlanFeedback(threadId: string, text: string, username: string): Promise<void> {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return;
+    await reactions.handlePlanFeedback(session, text, username, this.getContext());
+  }
+
   hasPendingWorktreePrompt(threadId: string): boolean {
     const session = this.findSessionByThreadId(threadId);
     return session?.pendingWorktreePrompt === true;
@@ -821,6 +1067,19 @@ export class SessionManager {
     return [...this.sessions.values()].map(s => s.threadId);
   }
 
+  /**
+   * Post a message to every active session thread, each on its own platform.
+   */
+  async postToAllSessions(message: string): Promise<void> {
+    for (const session of this.sessions.values()) {
+      try {
+        await session.platform.createPost(message, session.threadId);
+      } catch {
+        // Ignore errors, best-effort notification
+      }
+    }
+  }
+
   /**
    * Post shutdown messages to all active sessions and persist the post IDs.
    * This allows the resume to update the same post instead of creating a new one.
@@ -844,6 +1103,18 @@ export class SessionManager {
         // Ignore errors, we're shutting down
       }
     }
+
+    // Queued requests are not persisted
+    for (const entry of this.sessionQueue) {
+      try {
+        await this.platforms.get(entry.platformId)?.updatePost(
+          entry.queuePostId,
+          `⏸️ **Bot shutting down** - queued request dropped, please mention me again after the restart`
+        );
+      } catch {
+        // Ignore errors, we're shutting down
+      }
+    }
   }
 
   killAllSessionsAndUnpersist(): void {
@@ -871,6 +1142,15 @@ export class SessionManager {
     return session.sessionAllowedUsers.has(username) || session.platform.isUserAllowed(username);
   }
 
+  /**
+   * Check if a user owns the active session in a thread (or is globally allowed).
+   */
+  isSessionOwner(threadId: string, username: string): boolean {
+    const session = this.findSessionByThreadId(threadId);
+    if (!session) return false;
+    return session.startedBy === username || session.platform.isUserAllowed(username);
+  }
+
   async startSessionWithWorktree(
     options: { prompt: string; files?: PlatformFile[] },
     branch: string,
@@ -887,6 +1167,13 @@ export class SessionManager {
     const session = this.sessions.get(this.getSessionId(platformId, threadId));
     if (session) {
       await this.createAndSwitchToWorktree(session.threadId, branch, username);
+      return;
+    }
+
+    // Queued: switch to the worktree once the session starts
+    const queued = queue.findQueuedSession(this.sessionQueue, platformId, threadId);
+    if (queued) {
+      queued.branch = branch;
     }
   }
 
@@ -922,5 +1209,6 @@ export class SessionManager {
     }
     this.sessions.clear();
     this.postIndex.clear();
+    this.sessionQueue.length = 0;
   }
 }
@@ -0,0 +1,61 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { batchMessages, withdrawQueuedMessage } from './message-queue.js';
+import type { SessionContext } from './context.js';
+import type { Session } from './types.js';
+
+function createSession(): Session {
+  return {
+    threadId: 'thread-1',
+    startedBy: 'alice',
+    messageQueue: [
+      { postId: 'post-a', username: 'bob', message: 'first', queuedAt: new Date() },
+      { postId: 'post-b', username: 'carol', message: 'second', queuedAt: new Date() },
+    ],
+    platform: {
+      removeReaction: mock(() => Promise.resolve()),
+    },
+  } as unknown as Session;
+}
+
+function createContext(): SessionContext {
+  return {
+    config: {} as SessionContext['config'],
+    state: {} as SessionContext['state'],
+    ops: { updateSessionHeader: mock(() => Promise.resolve()) } as unknown as SessionContext['ops'],
+  };
+}
+
+describe('withdrawQueuedMessage', () => {
+  it('lets the author withdraw their message', async () => {
+    const session = createSession();
+    const ctx = createContext();
+
+    expect(await withdrawQueuedMessage(session, 'post-a', 'bob', ctx)).toBe(true);
+
+    expect(session.messageQueue?.map(m => m.postId)).toEqual(['post-b']);
+    expect(session.platform.removeReaction).toHaveBeenCalledWith('post-a', 'hourglass_flowing_sand');
+    expect(ctx.ops.updateSessionHeader).toHaveBeenCalled();
+  });
+
+  it('lets the session owner withdraw any message', async () => {
+    const session = createSession();
+    await withdrawQueuedMessage(session, 'post-b', 'alice', createContext());
+    expect(session.messageQueue?.map(m => m.postId)).toEqual(['post-a']);
+  });
+
+  it('ignores other users', async () => {
+    const session = createSession();
+    expect(await withdrawQueuedMessage(session, 'post-a', 'carol', createContext())).toBe(true);
+    expect(session.messageQueue).toHaveLength(2);
+  });
+
+  it('returns false for posts that are not queued', async () => {
+    expect(await withdrawQueuedMessage(createSession(), 'other-post', 'alice', createContext())).toBe(false);
+  });
+});
+
+describe('batchMessages', () => {
+  it('joins messages with blank lines and skips empty ones', () => {
+    expect(batchMessages(['  first ', '', 'second'])).toBe('first\n\nsecond');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Follow-up message queue
+ *
+ * Follow-ups sent while Claude is working on a turn are not written to its
+ * stdin right away. They wait in the session's queue, marked with a ⏳
+ * reaction, and are sent to Claude together as one message when the turn
+ * ends. Until then the author (or the session owner) can withdraw a message
+ * by reacting ❌ on it, and editing or deleting the post updates or drops the
+ * message. The session header shows how many messages wait.
+ *
+ * The queue is in-memory only: queued messages are dropped when the session
+ * ends.
+ */
+
+import type { QueuedMessage, Session } from './types.js';
+import type { SessionContext } from './context.js';
+import { QUEUED_EMOJIS } from '../utils/emoji.js';
+import { withErrorHandling } from './error-handler.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('msg-queue');
+
+/**
+ * Add a follow-up to the session's queue
+ */
+export async function queueMessage(
+  session: Session,
+  message: QueuedMessage,
+  ctx: SessionContext
+): Promise<void> {
+  session.messageQueue = [...(session.messageQueue ?? []), message];
+  log.debug(`⏳ Queued message from @${message.username} (${session.messageQueue.length} waiting)`);
+
+  // Route reactions on the user's post (❌ withdraws it)
+  ctx.ops.registerPost(message.postId, session.threadId);
+  await withErrorHandling(
+    () => session.platform.addReaction(message.postId, QUEUED_EMOJIS[0]),
+    { action: 'Add queued reaction', session }
+  );
+  await ctx.ops.updateSessionHeader(session);
+}
+
+/**
+ * Withdraw a queued message. Only its author and the session owner can.
+ * Returns true if the post was a queued message.
+ */
+export async function withdrawQueuedMessage(
+  session: Session,
+  postId: string,
+  username: string,
+  ctx: SessionContext
+): Promise<boolean> {
+  const message = session.messageQueue?.find(m => m.postId === postId);
+  if (!message) return false;
+  if (message.username !== username && session.startedBy !== username) return true;
+
+  session.messageQueue = session.messageQueue?.filter(m => m !== message);
+  log.info(`↩️ Queued message from @${message.username} withdrawn by @${username}`);
+
+  await withErrorHandling(
+    () => session.platform.removeReaction(postId, QUEUED_EMOJIS[0]),
+    { action: 'Remove queued reaction', session }
+  );
+  await ctx.ops.updateSessionHeader(session);
+  return true;
+}
+
+/**
+ * Replace the text of a queued message after its post was edited.
+ * Returns true if the post was a queued message.
+ */
+export function updateQueuedMessage(session: Session, postId: string, text: string): boolean {
+  const message = session.messageQueue?.find(m => m.postId === postId);
+  if (!message) return false;
+  message.message = text;
+  log.debug(`✏️ Queued message from @${message.username} edited`);
+  return true;
+}
+
+/**
+ * Drop a queued message whose post was deleted.
+ * Returns true if the post was a queued message.
+ */
+export async function removeQueuedMessage(
+  session: Session,
+  postId: string,
+  ctx: SessionContext
+): Promise<boolean> {
+  const message = session.messageQueue?.find(m => m.postId === postId);
+  if (!message) return false;
+
+  session.messageQueue = session.messageQueue?.filter(m => m !== message);
+  log.info(`🗑️ Queued message from @${message.username} deleted`);
+  await ctx.ops.updateSessionHeader(session);
+  return true;
+}
+
+/**
+ * Take all queued messages out of the queue, for sending to Claude
+ */
+export async function releaseQueuedMessages(
+  session: Session,
+  ctx: SessionContext
+): Promise<QueuedMessage[]> {
+  const messages = session.messageQueue ?? [];
+  if (messages.length === 0) return [];
+  session.messageQueue = [];
+
+  for (const message of messages) {
+    await withErrorHandling(
+      () => session.platform.removeReaction(message.postId, QUEUED_EMOJIS[0]),
+      { action: 'Remove queued reaction', session }
+    );
+  }
+  await ctx.ops.updateSessionHeader(session);
+  return messages;
+}
+
+/**
+ * Combine queued messages (and a new message, if any) into one message
+ */
+export function batchMessages(messages: string[]): string {
+  return messages.map(m => m.trim()).filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { addPlanVersion, formatPlanDiff, formatPlanVersion } from './plan.js';
+import type { Session } from './types.js';
+
+const V1 = '# Plan\n\n1. Add the table\n2. Write the migration\n3. Update the API\n4. Add tests\n5. Update the docs';
+const V2 = '# Plan\n\n1. Add the table\n2. Write the migration\n3. Update the API and the client\n4. Add tests\n5. Update the docs';
+
+describe('addPlanVersion', () => {
+  it('numbers plan versions from 1', () => {
+    const session = {} as Session;
+    expect(addPlanVersion(session, V1)).toBe(1);
+    expect(addPlanVersion(session, V2)).toBe(2);
+    expect(session.planVersions).toEqual([V1, V2]);
+  });
+});
+
+describe('formatPlanDiff', () => {
+  it('shows changed lines with context', () => {
+    expect(formatPlanDiff(V1, V2)).toBe([
+      '@@ -3,5 +3,5 @@',
+      ' 1. Add the table',
+      ' 2. Write the migration',
+      '-3. Update the API',
+      '+3. Update the API and the client',
+      ' 4. Add tests',
+      ' 5. Update the docs',
+    ].join('\n'));
+  });
+
+  it('is empty for identical plans', () => {
+    expect(formatPlanDiff(V1, `${V1}\n`)).toBe('');
+  });
+});
+
+describe('formatPlanVersion', () => {
+  it('shows the first version without a diff', () => {
+    const message = formatPlanVersion([V1], 1);
+    expect(message).toStartWith('📋 **Plan v1**\n\n# Plan');
+    expect(message).not.toContain('Changes since');
+  });
+
+  it('adds the diff against the previous version', () => {
+    const message = formatPlanVersion([V1, V2], 2);
+    expect(message).toStartWith('📋 **Plan v2**');
+    expect(message).toContain('**Changes since v1**\n```diff\n@@ -3,5 +3,5 @@');
+    expect(message).toContain('+3. Update the API and the client');
+  });
+
+  it('says when a revision is unchanged', () => {
+    expect(formatPlanVersion([V1, V1], 2)).toContain('*No changes since v1*');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Plan revisions
+ *
+ * Every plan Claude presents with ExitPlanMode is posted in the thread as a
+ * numbered version (v1, v2...). From the second version on, the changes since
+ * the previous version are posted with it as a diff, so reviewers don't have
+ * to compare the plans by eye.
+ */
+
+import * as Diff from 'diff';
+import type { Session } from './types.js';
+
+/** Context lines around each change in a plan diff */
+const DIFF_CONTEXT_LINES = 2;
+
+/**
+ * Record a new plan version. Returns its number (1 for the first plan).
+ */
+export function addPlanVersion(session: Session, plan: string): number {
+  session.planVersions = [...(session.planVersions ?? []), plan];
+  return session.planVersions.length;
+}
+
+/**
+ * Unified diff of two plan versions (hunks only, without file headers).
+ * Returns an empty string when the plans are the same.
+ */
+export function formatPlanDiff(oldPlan: string, newPlan: string): string {
+  const patch = Diff.structuredPatch('plan', 'plan', oldPlan.trimEnd() + '\n', newPlan.trimEnd() + '\n', '', '', {
+    context: DIFF_CONTEXT_LINES,
+  });
+  return patch.hunks
+    .map(hunk => [
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      ...hunk.lines.filter(line => !line.startsWith('\\')),
+    ].join('\n'))
+    .join('\n');
+}
+
+/**
+ * Message for a plan version, with the diff against the previous version
+ */
+export function formatPlanVersion(plans: string[], version: number): string {
+  const plan = plans[version - 1];
+  let message = `📋 **Plan v${version}**\n\n${plan.trim()}`;
+  if (version > 1) {
+    const diff = formatPlanDiff(plans[version - 2], plan);
+    message += diff
+      ? `\n\n**Changes since v${version - 1}**\n\`\`\`diff\n${diff}\n\`\`\``
+      : `\n\n*No changes since v${version - 1}*`;
+  }
+  return message;
+}
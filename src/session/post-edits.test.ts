@@ -0,0 +1,164 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { handlePostDeleted, handlePostEdited, handleRerunReaction } from './post-edits.js';
+import { deliverQueuedMessages } from './lifecycle.js';
+import type { SessionContext } from './context.js';
+import type { Session } from './types.js';
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    threadId: 'thread-1',
+    startedBy: 'alice',
+    messageCount: 0,
+    messageQueue: [],
+    pendingMessageApproval: null,
+    platform: {
+      createInteractivePost: mock(() => Promise.resolve({ id: 'offer-post', message: '', userId: 'bot' })),
+      updatePost: mock(() => Promise.resolve({ id: 'post', message: '', userId: 'bot' })),
+      removeReaction: mock(() => Promise.resolve()),
+    },
+    claude: {
+      isRunning: mock(() => true),
+      isBusy: mock(() => false),
+      interrupt: mock(() => true),
+      sendMessage: mock(() => {}),
+    },
+    ...overrides,
+  } as unknown as Session;
+}
+
+function createContext(): SessionContext {
+  return {
+    config: {} as SessionContext['config'],
+    state: {} as SessionContext['state'],
+    ops: {
+      registerPost: mock(() => {}),
+      updateSessionHeader: mock(() => Promise.resolve()),
+      bumpTasksToBottom: mock(() => Promise.resolve()),
+      buildMessageContent: mock((text: string) => Promise.resolve(text)),
+      startTyping: mock(() => {}),
+    } as unknown as SessionContext['ops'],
+  };
+}
+
+describe('handlePostEdited', () => {
+  it('updates a queued message', async () => {
+    const session = createSession({
+      messageQueue: [{ postId: 'user-post', username: 'bob', message: 'old', queuedAt: new Date() }],
+    });
+    await handlePostEdited(session, 'user-post', 'new', 'bob', createContext());
+
+    expect(session.messageQueue?.[0].message).toBe('new');
+    expect(session.platform.createInteractivePost).not.toHaveBeenCalled();
+  });
+
+  it('updates a message awaiting approval', async () => {
+    const session = createSession({
+      pendingMessageApproval: { postId: 'approval-post', originalMessage: 'old', fromUser: 'eve', sourcePostId: 'user-post' },
+    });
+    await handlePostEdited(session, 'user-post', 'new', 'eve', createContext());
+
+    expect(session.pendingMessageApproval?.originalMessage).toBe('new');
+    expect(session.platform.updatePost).toHaveBeenCalledWith('approval-post', expect.stringContaining('> new'));
+  });
+
+  it('offers a re-run when the last message sent to Claude is edited', async () => {
+    const session = createSession({ lastSentMessage: { postId: 'user-post', username: 'bob', message: 'old' } });
+    const ctx = createContext();
+    await handlePostEdited(session, 'user-post', 'new', 'bob', ctx);
+
+    expect(session.platform.createInteractivePost).toHaveBeenCalledWith(
+      expect.stringContaining('edited a message'),
+      ['arrows_counterclockwise'],
+      'thread-1'
+    );
+    expect(ctx.ops.registerPost).toHaveBeenCalledWith('offer-post', 'thread-1');
+    expect(session.pendingRerun).toEqual({ postId: 'offer-post', sourcePostId: 'user-post', username: 'bob', message: 'new' });
+  });
+
+  it('ignores edits that keep the text (pins, link previews) and older posts', async () => {
+    const session = createSession({ lastSentMessage: { postId: 'user-post', username: 'bob', message: 'same' } });
+    await handlePostEdited(session, 'user-post', 'same', 'bob', createContext());
+    await handlePostEdited(session, 'older-post', 'changed', 'bob', createContext());
+
+    expect(session.platform.createInteractivePost).not.toHaveBeenCalled();
+    expect(session.pendingRerun).toBeUndefined();
+  });
+});
+
+describe('handlePostDeleted', () => {
+  it('drops a queued message', async () => {
+    const session = createSession({
+      messageQueue: [{ postId: 'user-post', username: 'bob', message: 'hi', queuedAt: new Date() }],
+    });
+    await handlePostDeleted(session, 'user-post', createContext());
+    expect(session.messageQueue).toHaveLength(0);
+  });
+
+  it('withdraws a message awaiting approval', async () => {
+    const session = createSession({
+      pendingMessageApproval: { postId: 'approval-post', originalMessage: 'hi', fromUser: 'eve', sourcePostId: 'user-post' },
+    });
+    await handlePostDeleted(session, 'user-post', createContext());
+
+    expect(session.pendingMessageApproval).toBeNull();
+    expect(session.platform.updatePost).toHaveBeenCalledWith('approval-post', '🗑️ Message from @eve was deleted');
+  });
+});
+
+describe('handleRerunReaction', () => {
+  it('sends the edited message to Claude', async () => {
+    const session = createSession({
+      lastSentMessage: { postId: 'user-post', username: 'bob', message: 'old' },
+      pendingRerun: { postId: 'offer-post', sourcePostId: 'user-post', username: 'bob', message: 'new' },
+    });
+    await handleRerunReaction(session, 'bob', createContext());
+
+    expect(session.pendingRerun).toBeUndefined();
+    expect(session.claude.sendMessage).toHaveBeenCalledWith(expect.stringContaining('respond to the edited message instead:\n\nnew'));
+    expect(session.lastSentMessage).toEqual({ postId: 'user-post', username: 'bob', message: 'new' });
+  });
+
+  it('interrupts Claude when it is still answering', async () => {
+    const session = createSession({
+      lastSentMessage: { postId: 'user-post', username: 'bob', message: 'old' },
+      pendingRerun: { postId: 'offer-post', sourcePostId: 'user-post', username: 'bob', message: 'new' },
+    });
+    (session.claude.isBusy as ReturnType<typeof mock>).mockReturnValue(true);
+    const ctx = createContext();
+    await handleRerunReaction(session, 'alice', ctx);
+
+    expect(session.claude.interrupt).toHaveBeenCalled();
+    expect(session.wasInterrupted).toBe(true);
+    // Nothing is sent into the turn being interrupted
+    expect(session.claude.sendMessage).not.toHaveBeenCalled();
+
+    // The interrupted turn ends: the edited message goes out
+    (session.claude.isBusy as ReturnType<typeof mock>).mockReturnValue(false);
+    await deliverQueuedMessages(session, ctx);
+
+    expect(session.claude.sendMessage).toHaveBeenCalledWith(expect.stringContaining('respond to the edited message instead:\n\nnew'));
+    expect(session.rerunMessage).toBeUndefined();
+  });
+
+  it('ignores other users', async () => {
+    const session = createSession({
+      lastSentMessage: { postId: 'user-post', username: 'bob', message: 'old' },
+      pendingRerun: { postId: 'offer-post', sourcePostId: 'user-post', username: 'bob', message: 'new' },
+    });
+    await handleRerunReaction(session, 'carol', createContext());
+
+    expect(session.pendingRerun).toBeDefined();
+    expect(session.claude.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('expires once newer messages were sent', async () => {
+    const session = createSession({
+      lastSentMessage: { postId: 'newer-post', username: 'bob', message: 'next' },
+      pendingRerun: { postId: 'offer-post', sourcePostId: 'user-post', username: 'bob', message: 'new' },
+    });
+    await handleRerunReaction(session, 'bob', createContext());
+
+    expect(session.claude.sendMessage).not.toHaveBeenCalled();
+    expect(session.platform.updatePost).toHaveBeenCalledWith('offer-post', expect.stringContaining('no longer available'));
+  });
+});
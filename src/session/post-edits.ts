@@ -0,0 +1,151 @@
+/**
+ * Edited and deleted user posts
+ *
+ * Platforms report when a user edits or deletes a post in a session thread.
+ * Input that hasn't reached Claude yet follows the change: a queued follow-up
+ * (see message-queue.ts) or a message awaiting approval gets the new text, or
+ * is dropped when its post is deleted. Editing the last message Claude
+ * already received offers to re-run the turn with the edited message (🔄).
+ */
+
+import type { Session } from './types.js';
+import type { SessionContext } from './context.js';
+import { RESUME_EMOJIS } from '../utils/emoji.js';
+import { removeQueuedMessage, updateQueuedMessage } from './message-queue.js';
+import { formatMessageApproval } from './commands.js';
+import { sendFollowUp } from './lifecycle.js';
+import { withErrorHandling } from './error-handler.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('post-edits');
+
+/**
+ * Follow an edited post: update queued or pending input, or offer a re-run
+ * when Claude already answered the post.
+ *
+ * @param message - The new message (without the bot mention)
+ */
+export async function handlePostEdited(
+  session: Session,
+  postId: string,
+  message: string,
+  username: string,
+  ctx: SessionContext
+): Promise<void> {
+  if (!message) return;
+
+  if (updateQueuedMessage(session, postId, message)) return;
+
+  const approval = session.pendingMessageApproval;
+  if (approval?.sourcePostId === postId) {
+    if (approval.originalMessage === message) return;
+    approval.originalMessage = message;
+    await withErrorHandling(
+      () => session.platform.updatePost(approval.postId, formatMessageApproval(approval.fromUser, message)),
+      { action: 'Update message approval', session }
+    );
+    return;
+  }
+
+  // Only the last message Claude received can be re-run; platforms also
+  // report pins and link previews as edits, so ignore unchanged text
+  const sent = session.lastSentMessage;
+  if (sent?.postId !== postId || sent.message === message) return;
+
+  if (session.pendingRerun?.sourcePostId === postId) {
+    session.pendingRerun.message = message;
+    return;
+  }
+
+  const post = await withErrorHandling(
+    () => session.platform.createInteractivePost(
+      `✏️ @${username} edited a message Claude already answered\n\n` +
+      `🔄 React to re-run the turn with the edited message`,
+      [RESUME_EMOJIS[0]],
+      session.threadId
+    ),
+    { action: 'Post re-run offer', session }
+  );
+  if (!post) return;
+
+  ctx.ops.registerPost(post.id, session.threadId);
+  session.pendingRerun = { postId: post.id, sourcePostId: postId, username, message };
+}
+
+/**
+ * Follow a deleted post: drop queued or pending input from it
+ */
+export async function handlePostDeleted(
+  session: Session,
+  postId: string,
+  ctx: SessionContext
+): Promise<void> {
+  if (await removeQueuedMessage(session, postId, ctx)) return;
+
+  const approval = session.pendingMessageApproval;
+  if (approval?.sourcePostId === postId) {
+    session.pendingMessageApproval = null;
+    log.info(`🗑️ Message from @${approval.fromUser} awaiting approval was deleted`);
+    await withErrorHandling(
+      () => session.platform.updatePost(approval.postId, `🗑️ Message from @${approval.fromUser} was deleted`),
+      { action: 'Update message approval', session }
+    );
+    return;
+  }
+
+  const rerun = session.pendingRerun;
+  if (rerun?.sourcePostId === postId) {
+    session.pendingRerun = undefined;
+    await withErrorHandling(
+      () => session.platform.updatePost(rerun.postId, `🗑️ The edited message was deleted`),
+      { action: 'Update re-run offer', session }
+    );
+  }
+}
+
+/**
+ * Re-run the last turn with the edited message (🔄 on the offer).
+ * Only the author of the message and the session owner can.
+ */
+export async function handleRerunReaction(
+  session: Session,
+  username: string,
+  ctx: SessionContext
+): Promise<void> {
+  const rerun = session.pendingRerun;
+  if (!rerun) return;
+  if (username !== rerun.username && username !== session.startedBy) return;
+
+  session.pendingRerun = undefined;
+
+  // Another message was sent since the edit: re-running would undo it
+  if (session.lastSentMessage?.postId !== rerun.sourcePostId) {
+    await withErrorHandling(
+      () => session.platform.updatePost(rerun.postId, `✏️ Re-run no longer available - newer messages were sent since the edit`),
+      { action: 'Update re-run offer', session }
+    );
+    return;
+  }
+
+  log.info(`🔄 Re-running turn (${session.threadId.substring(0, 8)}…) with edited message by @${username}`);
+  await withErrorHandling(
+    () => session.platform.updatePost(rerun.postId, `🔄 **Re-running** with the edited message (by @${username})`),
+    { action: 'Update re-run offer', session }
+  );
+
+  // The edited text is what Claude answers now (queued messages sent along take over)
+  session.lastSentMessage = { postId: rerun.sourcePostId, username: rerun.username, message: rerun.message };
+  const message = `I edited my last message. Please disregard your previous response to it and respond to the edited message instead:\n\n${rerun.message}`;
+
+  if (session.claude.isBusy()) {
+    // Wait for the interrupt to stop the turn: the message goes out with the
+    // turn's result, or when the session resumes if Claude exits (see handleExit)
+    session.rerunMessage = message;
+    // Set flag BEFORE interrupt - if Claude exits due to SIGINT, we won't unpersist
+    session.wasInterrupted = true;
+    session.claude.interrupt();
+    return;
+  }
+
+  await sendFollowUp(session, message, undefined, ctx);
+}
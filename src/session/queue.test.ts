@@ -0,0 +1,145 @@
+import { describe, it, expect, mock } from 'bun:test';
+import {
+  enqueueSession,
+  cancelQueuedSession,
+  takeNextQueuedSession,
+  findQueuedSession,
+  formatQueuePost,
+  type QueuedSession,
+} from './queue.js';
+import type { SessionContext } from './context.js';
+import type { Session } from './types.js';
+import type { PlatformClient } from '../platform/index.js';
+
+function createMockPlatform(overrides?: Partial<PlatformClient>): PlatformClient {
+  let postCounter = 0;
+  return {
+    platformId: 'test-platform',
+    createInteractivePost: mock(() => Promise.resolve({ id: `queue-post-${++postCounter}`, message: '', userId: 'bot' })),
+    updatePost: mock(() => Promise.resolve({ id: 'post', message: '', userId: 'bot' })),
+    isUserAllowed: mock(() => false),
+    ...overrides,
+  } as unknown as PlatformClient;
+}
+
+function createContext(
+  platform: PlatformClient,
+  queue: QueuedSession[] = [],
+  activeSessions = 2
+): SessionContext {
+  const sessions = new Map<string, Session>();
+  for (let i = 0; i < activeSessions; i++) {
+    sessions.set(`test-platform:active-${i}`, {} as Session);
+  }
+  return {
+    config: { workingDir: '/test', skipPermissions: true, chromeEnabled: false, debug: false, maxSessions: 2 },
+    state: {
+      sessions,
+      postIndex: new Map(),
+      platforms: new Map([['test-platform', platform]]),
+      sessionStore: {} as any,
+      sessionQueue: queue,
+      isShuttingDown: false,
+    },
+    ops: {
+      updateStickyMessage: mock(() => Promise.resolve()),
+    } as any,
+  };
+}
+
+describe('formatQueuePost', () => {
+  it('shows the position and how to cancel', () => {
+    const text = formatQueuePost(2, 3, 5);
+    expect(text).toContain('all 5 session slots are busy');
+    expect(text).toContain('Position **#2** of 3');
+    expect(text).toContain('React ❌ to cancel');
+  });
+});
+
+describe('enqueueSession', () => {
+  it('posts the position with a cancel reaction and updates the sticky message', async () => {
+    const platform = createMockPlatform();
+    const queue: QueuedSession[] = [];
+    const ctx = createContext(platform, queue);
+
+    await enqueueSession({ prompt: 'first' }, 'alice', 'Alice', 'thread-1', platform, ctx);
+    await enqueueSession({ prompt: 'second' }, 'bob', undefined, 'thread-2', platform, ctx);
+
+    expect(queue.map(e => e.threadId)).toEqual(['thread-1', 'thread-2']);
+    expect(platform.createInteractivePost).toHaveBeenCalledWith(
+      expect.stringContaining('Position **#2** of 2'),
+      ['x'],
+      'thread-2'
+    );
+    // The first post is refreshed with the new total
+    expect(platform.updatePost).toHaveBeenCalledWith('queue-post-1', expect.stringContaining('Position **#1** of 2'));
+    expect(ctx.ops.updateStickyMessage).toHaveBeenCalled();
+  });
+
+  it('appends to the prompt when the thread is already queued', async () => {
+    const platform = createMockPlatform();
+    const queue: QueuedSession[] = [];
+    const ctx = createContext(platform, queue);
+
+    await enqueueSession({ prompt: 'first' }, 'alice', undefined, 'thread-1', platform, ctx);
+    await enqueueSession({ prompt: 'also this' }, 'alice', undefined, 'thread-1', platform, ctx);
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].prompt).toBe('first\n\nalso this');
+    expect(platform.createInteractivePost).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('cancelQueuedSession', () => {
+  async function setup() {
+    const platform = createMockPlatform();
+    const queue: QueuedSession[] = [];
+    const ctx = createContext(platform, queue);
+    await enqueueSession({ prompt: 'first' }, 'alice', undefined, 'thread-1', platform, ctx);
+    await enqueueSession({ prompt: 'second' }, 'bob', undefined, 'thread-2', platform, ctx);
+    return { platform, queue, ctx };
+  }
+
+  it('lets the requester cancel and renumbers the rest', async () => {
+    const { platform, queue, ctx } = await setup();
+
+    expect(await cancelQueuedSession('queue-post-1', 'alice', ctx)).toBe(true);
+
+    expect(queue.map(e => e.threadId)).toEqual(['thread-2']);
+    expect(platform.updatePost).toHaveBeenCalledWith('queue-post-1', '❌ **Removed from queue** by @alice');
+    expect(platform.updatePost).toHaveBeenCalledWith('queue-post-2', expect.stringContaining('Position **#1** of 1'));
+  });
+
+  it('ignores other users unless they are globally allowed', async () => {
+    const { platform, queue, ctx } = await setup();
+
+    expect(await cancelQueuedSession('queue-post-1', 'mallory', ctx)).toBe(true);
+    expect(queue).toHaveLength(2);
+
+    (platform.isUserAllowed as ReturnType<typeof mock>).mockImplementation(() => true);
+    await cancelQueuedSession('queue-post-1', 'admin', ctx);
+    expect(queue).toHaveLength(1);
+  });
+
+  it('returns false for posts that are not queue posts', async () => {
+    const { ctx } = await setup();
+    expect(await cancelQueuedSession('other-post', 'alice', ctx)).toBe(false);
+  });
+});
+
+describe('takeNextQueuedSession', () => {
+  it('takes the oldest request only when a slot is free', async () => {
+    const platform = createMockPlatform();
+    const queue: QueuedSession[] = [];
+    const busy = createContext(platform, queue, 2);
+    await enqueueSession({ prompt: 'first' }, 'alice', undefined, 'thread-1', platform, busy);
+    await enqueueSession({ prompt: 'second' }, 'bob', undefined, 'thread-2', platform, busy);
+
+    expect(takeNextQueuedSession(busy)).toBeUndefined();
+
+    const free = createContext(platform, queue, 1);
+    expect(takeNextQueuedSession(free)?.threadId).toBe('thread-1');
+    expect(findQueuedSession(queue, 'test-platform', 'thread-1')).toBeUndefined();
+    expect(findQueuedSession(queue, 'test-platform', 'thread-2')).toBeDefined();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Session queue module
+ *
+ * When all MAX_SESSIONS slots are busy, new session requests wait in a FIFO
+ * queue instead of being refused. Each queued thread gets a post showing its
+ * position, kept up to date as the queue moves; reacting ❌ on it cancels the
+ * request. The SessionManager starts the next queued session when a slot frees.
+ *
+ * The queue is in-memory only: queued requests are dropped on shutdown.
+ */
+
+import type { PlatformClient, PlatformFile } from '../platform/index.js';
+import type { SessionContext } from './context.js';
+import { CANCEL_EMOJIS } from '../utils/emoji.js';
+import { withErrorHandling } from './error-handler.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('queue');
+
+/**
+ * A session request waiting for a free slot
+ */
+export interface QueuedSession {
+  platformId: string;
+  threadId: string;
+  username: string;
+  displayName?: string;
+  prompt: string;
+  files?: PlatformFile[];
+  /** Worktree branch requested with "on branch X" */
+  branch?: string;
+  /** Post in the thread showing the queue position */
+  queuePostId: string;
+  queuedAt: Date;
+}
+
+/**
+ * Get the queue with the mutable type (state exposes it read-only).
+ */
+function mutableQueue(ctx: SessionContext): QueuedSession[] {
+  return ctx.state.sessionQueue as QueuedSession[];
+}
+
+/**
+ * Find the queued request for a thread
+ */
+export function findQueuedSession(
+  queue: readonly QueuedSession[],
+  platformId: string,
+  threadId: string
+): QueuedSession | undefined {
+  return queue.find(e => e.platformId === platformId && e.threadId === threadId);
+}
+
+/**
+ * Text of the queue position post
+ */
+export function formatQueuePost(position: number, total: number, maxSessions: number): string {
+  return `⏳ **Queued** - all ${maxSessions} session slots are busy\n` +
+    `Position **#${position}** of ${total} · the session starts automatically when a slot frees up\n` +
+    `_React ❌ to cancel_`;
+}
+
+/**
+ * Queue a session request for a thread. If the thread is already queued, the
+ * new prompt is appended to the queued one instead.
+ */
+export async function enqueueSession(
+  options: { prompt: string; files?: PlatformFile[] },
+  username: string,
+  displayName: string | undefined,
+  threadId: string,
+  platform: PlatformClient,
+  ctx: SessionContext
+): Promise<void> {
+  const queue = mutableQueue(ctx);
+
+  const existing = findQueuedSession(queue, platform.platformId, threadId);
+  if (existing) {
+    existing.prompt = existing.prompt ? `${existing.prompt}\n\n${options.prompt}` : options.prompt;
+    if (options.files?.length) {
+      existing.files = [...(existing.files ?? []), ...options.files];
+    }
+    log.debug(`Appended to queued request for ${threadId.substring(0, 8)}`);
+    return;
+  }
+
+  const post = await withErrorHandling(
+    () => platform.createInteractivePost(
+      formatQueuePost(queue.length + 1, queue.length + 1, ctx.config.maxSessions),
+      [CANCEL_EMOJIS[0]],
+      threadId
+    ),
+    { action: 'Create queue post' }
+  );
+  if (!post) return;
+
+  queue.push({
+    platformId: platform.platformId,
+    threadId,
+    username,
+    displayName,
+    prompt: options.prompt,
+    files: options.files,
+    queuePostId: post.id,
+    queuedAt: new Date(),
+  });
+  log.info(`⏳ Queued session for @${username} (${threadId.substring(0, 8)}…), position #${queue.length}`);
+
+  // Earlier entries show the old total
+  await updateQueuePositions(ctx);
+  await ctx.ops.updateStickyMessage();
+}
+
+/**
+ * Refresh the position shown in every queue post
+ */
+export async function updateQueuePositions(ctx: SessionContext): Promise<void> {
+  const queue = ctx.state.sessionQueue;
+  await Promise.all(queue.map(async (entry, index) => {
+    const platform = ctx.state.platforms.get(entry.platformId);
+    if (!platform) return;
+    try {
+      await platform.updatePost(entry.queuePostId, formatQueuePost(index + 1, queue.length, ctx.config.maxSessions));
+    } catch (err) {
+      log.debug(`Failed to update queue post ${entry.queuePostId.substring(0, 8)}: ${err}`);
+    }
+  }));
+}
+
+/**
+ * Remove a queued request via ❌ on its queue post. Only the requester or a
+ * globally allowed user may cancel. Returns true if the post belongs to the queue.
+ */
+export async function cancelQueuedSession(
+  postId: string,
+  username: string,
+  ctx: SessionContext
+): Promise<boolean> {
+  const queue = mutableQueue(ctx);
+  const index = queue.findIndex(e => e.queuePostId === postId);
+  if (index === -1) return false;
+
+  const entry = queue[index];
+  const platform = ctx.state.platforms.get(entry.platformId);
+  if (!platform) return true;
+  if (entry.username !== username && !platform.isUserAllowed(username)) return true;
+
+  queue.splice(index, 1);
+  log.info(`❌ Queued session (${entry.threadId.substring(0, 8)}…) cancelled by @${username}`);
+
+  await withErrorHandling(
+    () => platform.updatePost(postId, `❌ **Removed from queue** by @${username}`),
+    { action: 'Update queue post' }
+  );
+  await updateQueuePositions(ctx);
+  await ctx.ops.updateStickyMessage();
+  return true;
+}
+
+/**
+ * Take the next queued request if a session slot is free
+ */
+export function takeNextQueuedSession(ctx: SessionContext): QueuedSession | undefined {
+  if (ctx.state.sessions.size >= ctx.config.maxSessions) return undefined;
+  return mutableQueue(ctx).shift();
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { handlePlanFeedback, handleQuestionReaction, handleQuestionReply } from './reactions.js';
+import { formatQuestion } from './events.js';
+import type { SessionContext } from './context.js';
+import type { PendingQuestionSet, Session } from './types.js';
+
+function createQuestionSet(overrides: Partial<PendingQuestionSet['questions'][number]> = {}): PendingQuestionSet {
+  return {
+    toolUseId: 'tool-1',
+    currentIndex: 0,
+    currentPostId: 'question-post',
+    questions: [{
+      header: 'Database',
+      question: 'Which database should we use?',
+      options: [
+        { label: 'Postgres', description: 'Relational' },
+        { label: 'SQLite', description: '' },
+        { label: 'Redis', description: 'In memory' },
+      ],
+      answer: null,
+      ...overrides,
+    }],
+  };
+}
+
+function createSession(questionSet: PendingQuestionSet): Session {
+  return {
+    threadId: 'thread-1',
+    pendingQuestionSet: questionSet,
+    platform: {
+      updatePost: mock(() => Promise.resolve({ id: 'question-post', message: '', userId: 'bot' })),
+      createInteractivePost: mock(() => Promise.resolve({ id: 'next-post', message: '', userId: 'bot' })),
+    },
+    claude: { isRunning: mock(() => true), sendMessage: mock(() => {}) },
+  } as unknown as Session;
+}
+
+function createContext(): SessionContext {
+  return {
+    config: { debug: false } as SessionContext['config'],
+    state: {} as SessionContext['state'],
+    ops: { registerPost: mock(() => {}), startTyping: mock(() => {}) } as unknown as SessionContext['ops'],
+  };
+}
+
+function sentAnswers(session: Session): string | undefined {
+  const calls = (session.claude.sendMessage as ReturnType<typeof mock>).mock.calls;
+  return calls[0]?.[0] as string | undefined;
+}
+
+describe('question reactions', () => {
+  it('answers single-choice questions with a number reaction', async () => {
+    const session = createSession(createQuestionSet());
+    await handleQuestionReaction(session, 'question-post', 'two', 'alice', 'added', createContext());
+
+    expect(session.pendingQuestionSet).toBeNull();
+    expect(sentAnswers(session)).toBe('Here are my answers:\n- **Database**: SQLite\n');
+  });
+
+  it('collects multi-select answers until ✅', async () => {
+    const session = createSession(createQuestionSet({ multiSelect: true }));
+    const ctx = createContext();
+
+    await handleQuestionReaction(session, 'question-post', 'three', 'alice', 'added', ctx);
+    await handleQuestionReaction(session, 'question-post', 'one', 'alice', 'added', ctx);
+    await handleQuestionReaction(session, 'question-post', 'two', 'alice', 'added', ctx);
+    await handleQuestionReaction(session, 'question-post', 'two', 'alice', 'removed', ctx);
+    expect(sentAnswers(session)).toBeUndefined();
+    expect(session.platform.updatePost).toHaveBeenLastCalledWith(
+      'question-post',
+      expect.stringContaining('**Selected:** Postgres, Redis')
+    );
+
+    await handleQuestionReaction(session, 'question-post', 'white_check_mark', 'alice', 'added', ctx);
+    expect(sentAnswers(session)).toBe('Here are my answers:\n- **Database**: Postgres, Redis\n');
+  });
+
+  it('ignores ✅ before anything is selected', async () => {
+    const session = createSession(createQuestionSet({ multiSelect: true }));
+    await handleQuestionReaction(session, 'question-post', 'white_check_mark', 'alice', 'added', createContext());
+    expect(session.pendingQuestionSet?.questions[0].answer).toBeNull();
+  });
+
+  it('posts the next question after an answer', async () => {
+    const questionSet = createQuestionSet();
+    questionSet.questions.push({ ...questionSet.questions[0], header: 'Cache', answer: null });
+    const session = createSession(questionSet);
+
+    await handleQuestionReaction(session, 'question-post', 'one', 'alice', 'added', createContext());
+
+    expect(session.pendingQuestionSet?.currentIndex).toBe(1);
+    expect(session.pendingQuestionSet?.currentPostId).toBe('next-post');
+    expect(sentAnswers(session)).toBeUndefined();
+  });
+});
+
+describe('question replies', () => {
+  it('uses the reply after 💬 as a free-text answer', async () => {
+    const session = createSession(createQuestionSet());
+    const ctx = createContext();
+
+    await handleQuestionReaction(session, 'question-post', 'speech_balloon', 'alice', 'added', ctx);
+    expect(session.pendingQuestionSet?.awaitingReply).toBe(true);
+    expect(session.platform.updatePost).toHaveBeenCalledWith('question-post', expect.stringContaining('Reply in the thread'));
+
+    await handleQuestionReply(session, 'MySQL, because ops knows it', 'alice', ctx);
+    expect(sentAnswers(session)).toBe('Here are my answers:\n- **Database**: MySQL, because ops knows it\n');
+  });
+
+  it('picks options by number in a reply', async () => {
+    const session = createSession(createQuestionSet({ multiSelect: true }));
+    session.pendingQuestionSet = { ...session.pendingQuestionSet, awaitingReply: true } as PendingQuestionSet;
+
+    await handleQuestionReply(session, '1, 3', 'alice', createContext());
+    expect(sentAnswers(session)).toBe('Here are my answers:\n- **Database**: Postgres, Redis\n');
+  });
+
+  it('adds free text to options picked by reaction', async () => {
+    const session = createSession(createQuestionSet({ multiSelect: true, selected: [1] }));
+
+    await handleQuestionReply(session, 'DuckDB', 'alice', createContext());
+    expect(sentAnswers(session)).toBe('Here are my answers:\n- **Database**: SQLite, DuckDB\n');
+  });
+});
+
+describe('formatQuestion', () => {
+  it('lists options past nine with plain numbers', () => {
+    const options = Array.from({ length: 11 }, (_, i) => ({ label: `Option ${i + 1}`, description: '' }));
+    const message = formatQuestion(createQuestionSet({ options }));
+    expect(message).toContain('9️⃣ **Option 9**');
+    expect(message).toContain('**11.** **Option 11**');
+    expect(message).toContain('React with a number · 💬 to answer in a reply');
+  });
+});
+
+describe('plan feedback', () => {
+  it('sends the reply to Claude as the changes to make', async () => {
+    const session = createSession(createQuestionSet());
+    session.pendingQuestionSet = null;
+    session.pendingApproval = { postId: 'plan-post', type: 'plan', toolUseId: 'tool-2' };
+    await handlePlanFeedback(session, '  Use SQLite instead  ', 'alice', createContext());
+
+    expect(session.pendingApproval).toBeNull();
+    expect(session.planApproved).toBeFalsy();
+    expect(session.platform.updatePost).toHaveBeenCalledWith('plan-post', '✏️ **Changes requested** by @alice');
+    expect(sentAnswers(session)).toBe('Please revise the plan. I would like these changes:\n\nUse SQLite instead');
+  });
+
+  it('ignores replies when no plan is pending', async () => {
+    const session = createSession(createQuestionSet());
+    session.pendingApproval = null;
+    await handlePlanFeedback(session, 'Use SQLite instead', 'alice', createContext());
+
+    expect(session.claude.sendMessage).not.toHaveBeenCalled();
+  });
+});
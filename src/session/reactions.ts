@@ -1,8 +1,9 @@
 /**
  * User reaction handling module
  *
- * Handles emoji reactions on posts: plan approval, question answers,
- * message approval, cancel/escape actions.
+ * Handles emoji reactions on posts: plan approval (and plan change requests
+ * given as replies), question answers (including replies after 💬), message
+ * approval, cancel/escape actions.
  */
 
 import type { Session } from './types.js';
@@ -11,10 +12,11 @@ import {
   isApprovalEmoji,
   isDenialEmoji,
   isAllowAllEmoji,
+  isOtherAnswerEmoji,
   getNumberEmojiIndex,
   TASK_TOGGLE_EMOJIS,
 } from '../utils/emoji.js';
-import { postCurrentQuestion } from './events.js';
+import { formatQuestion, postCurrentQuestion } from './events.js';
 import { withErrorHandling } from './error-handler.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -25,38 +27,130 @@ const log = createLogger('reactions');
 // ---------------------------------------------------------------------------
 
 /**
- * Handle a reaction on a question post (number emoji to select an option).
+ * Handle a reaction on a question post.
+ *
+ * A number emoji picks an option; on multi-select questions number emojis
+ * toggle options (added and removed) and ✅ confirms the selection. 💬 asks
+ * for the answer as a thread reply instead (see handleQuestionReply).
  */
 export async function handleQuestionReaction(
   session: Session,
   postId: string,
   emojiName: string,
   username: string,
+  action: 'added' | 'removed',
   ctx: SessionContext
 ): Promise<void> {
-  if (!session.pendingQuestionSet) return;
+  const questionSet = session.pendingQuestionSet;
+  if (!questionSet) return;
 
-  const { currentIndex, questions } = session.pendingQuestionSet;
-  const question = questions[currentIndex];
+  const question = questionSet.questions[questionSet.currentIndex];
   if (!question) return;
 
   const optionIndex = getNumberEmojiIndex(emojiName);
-  if (optionIndex < 0 || optionIndex >= question.options.length) return;
+  if (optionIndex >= 0 && optionIndex < question.options.length) {
+    if (!question.multiSelect) {
+      if (action === 'added') {
+        await answerCurrentQuestion(session, question.options[optionIndex].label, username, ctx);
+      }
+      return;
+    }
 
-  const selectedOption = question.options[optionIndex];
-  question.answer = selectedOption.label;
-  if (ctx.config.debug) log.debug(`💬 @${username} answered "${question.header}": ${selectedOption.label}`);
+    const selected = new Set(question.selected ?? []);
+    if (action === 'added') selected.add(optionIndex);
+    else selected.delete(optionIndex);
+    question.selected = [...selected].sort((a, b) => a - b);
+    await withErrorHandling(
+      () => session.platform.updatePost(postId, formatQuestion(questionSet)),
+      { action: 'Update question selection', session }
+    );
+    return;
+  }
+
+  if (action !== 'added') return;
+
+  if (question.multiSelect && isAllowAllEmoji(emojiName)) {
+    const labels = (question.selected ?? []).map(i => question.options[i].label);
+    if (labels.length === 0) return;
+    await answerCurrentQuestion(session, labels.join(', '), username, ctx);
+    return;
+  }
+
+  if (isOtherAnswerEmoji(emojiName) && !questionSet.awaitingReply) {
+    questionSet.awaitingReply = true;
+    await withErrorHandling(
+      () => session.platform.updatePost(postId, formatQuestion(questionSet)),
+      { action: 'Update question for reply', session }
+    );
+  }
+}
+
+/**
+ * Answer the current question with a thread reply (after 💬). A reply made of
+ * option numbers picks those options; anything else is a free-text answer.
+ */
+export async function handleQuestionReply(
+  session: Session,
+  text: string,
+  username: string,
+  ctx: SessionContext
+): Promise<void> {
+  const questionSet = session.pendingQuestionSet;
+  const question = questionSet?.questions[questionSet.currentIndex];
+  if (!questionSet || !question) return;
+
+  const reply = text.trim();
+  if (!reply) return;
+
+  const numbers = /^\d+(\s*,\s*\d+)*$/.test(reply) ? reply.split(',').map(n => parseInt(n, 10) - 1) : [];
+  const picked = numbers.every(i => i >= 0 && i < question.options.length)
+    ? numbers.map(i => question.options[i].label)
+    : [];
+
+  let answer: string;
+  if (picked.length > 0 && (question.multiSelect || picked.length === 1)) {
+    answer = picked.join(', ');
+  } else {
+    // Free text, together with any options picked by reaction
+    const selected = question.multiSelect ? (question.selected ?? []).map(i => question.options[i].label) : [];
+    answer = [...selected, reply].join(', ');
+  }
+
+  questionSet.awaitingReply = false;
+  await answerCurrentQuestion(session, answer, username, ctx);
+}
+
+/**
+ * Record the answer to the current question, then post the next question or
+ * send all answers to Claude.
+ */
+async function answerCurrentQuestion(
+  session: Session,
+  answer: string,
+  username: string,
+  ctx: SessionContext
+): Promise<void> {
+  const questionSet = session.pendingQuestionSet;
+  if (!questionSet) return;
+
+  const { currentIndex, currentPostId, questions } = questionSet;
+  const question = questions[currentIndex];
+  question.answer = answer;
+  if (ctx.config.debug) log.debug(`💬 @${username} answered "${question.header}": ${answer}`);
 
   // Update the post to show answer
-  await withErrorHandling(
-    () => session.platform.updatePost(postId, `✅ **${question.header}**: ${selectedOption.label}`),
-    { action: 'Update answered question', session }
-  );
+  if (currentPostId) {
+    await withErrorHandling(
+      () => session.platform.updatePost(currentPostId, `✅ **${question.header}**: ${answer}`),
+      { action: 'Update answered question', session }
+    );
+  }
 
   // Move to next question or finish
-  session.pendingQuestionSet.currentIndex++;
+  questionSet.currentIndex++;
+  questionSet.awaitingReply = false;
 
-  if (session.pendingQuestionSet.currentIndex < questions.length) {
+  if (questionSet.currentIndex < questions.length) {
     // Post next question - must register post for reaction routing
     await postCurrentQuestion(session, ctx);
   } else {
@@ -133,6 +227,38 @@ export async function handleApprovalReaction(
   }
 }
 
+/**
+ * Reject the pending plan with a thread reply; the reply is sent to Claude as
+ * the changes to make, and Claude presents a revised plan.
+ */
+export async function handlePlanFeedback(
+  session: Session,
+  text: string,
+  username: string,
+  ctx: SessionContext
+): Promise<void> {
+  if (session.pendingApproval?.type !== 'plan') return;
+
+  const feedback = text.trim();
+  if (!feedback) return;
+
+  const { postId } = session.pendingApproval;
+  const shortId = session.threadId.substring(0, 8);
+  log.info(`✏️ Plan changes requested (${shortId}…) by @${username}`);
+
+  await withErrorHandling(
+    () => session.platform.updatePost(postId, `✏️ **Changes requested** by @${username}`),
+    { action: 'Update approval post', session }
+  );
+
+  session.pendingApproval = null;
+
+  if (session.claude.isRunning()) {
+    session.claude.sendMessage(`Please revise the plan. I would like these changes:\n\n${feedback}`);
+    ctx.ops.startTyping(session);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Message approval reaction handling
 // ---------------------------------------------------------------------------
@@ -178,6 +304,7 @@ export async function handleMessageApprovalReaction(
       `✅ @${pending.fromUser} invited to session by @${approver}`
     );
     await ctx.ops.updateSessionHeader(session);
+    ctx.ops.persistSession(session);
     session.claude.sendMessage(pending.originalMessage);
     session.lastActivityAt = new Date();
     ctx.ops.startTyping(session);
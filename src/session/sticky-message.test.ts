@@ -537,6 +537,30 @@ describe('buildStickyMessage', () => {
   });
 });
 
+describe('buildStickyMessage with queued sessions', () => {
+  it('lists queued requests for the platform in order', async () => {
+    const sessions = new Map([['test-platform:thread-1', createMockSession()]]);
+    const queue = [
+      { platformId: 'test-platform', threadId: 'q-1', username: 'alice', displayName: 'Alice', prompt: 'Fix the build', queuePostId: 'p1', queuedAt: new Date() },
+      { platformId: 'other-platform', threadId: 'q-2', username: 'bob', prompt: 'Elsewhere', queuePostId: 'p2', queuedAt: new Date() },
+      { platformId: 'test-platform', threadId: 'q-3', username: 'carol', prompt: 'Write docs', queuePostId: 'p3', queuedAt: new Date() },
+    ];
+
+    const result = await buildStickyMessage(sessions, 'test-platform', testConfig, queue);
+
+    expect(result).toContain('**Queued** (2)');
+    expect(result).toContain('1. [Fix the build](/_redirect/pl/q-1) · **Alice**');
+    expect(result).toContain('2. [Write docs](/_redirect/pl/q-3) · **carol**');
+    expect(result).not.toContain('Elsewhere');
+  });
+
+  it('omits the section when nothing is queued', async () => {
+    const sessions = new Map([['test-platform:thread-1', createMockSession()]]);
+    const result = await buildStickyMessage(sessions, 'test-platform', testConfig, []);
+    expect(result).not.toContain('**Queued**');
+  });
+});
+
 describe('getPendingPrompts', () => {
   it('returns empty array when no pending prompts', () => {
     const session = createMockSession();
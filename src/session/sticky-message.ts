@@ -7,6 +7,7 @@
  */
 
 import type { Session } from './types.js';
+import type { QueuedSession } from './queue.js';
 import type { PlatformClient } from '../platform/index.js';
 import type { SessionStore, PersistedSession } from '../persistence/session-store.js';
 import type { WorktreeMode } from '../config.js';
@@ -19,6 +20,9 @@ import { formatPullRequestLink } from '../utils/pr-detector.js';
 import { getClaudeCliVersion } from '../claude/version-check.js';
 import { keepAlive } from '../utils/keep-alive.js';
 
+/** Builds the link to a thread (see PlatformClient.getThreadLink) */
+type ThreadLinkFn = (threadId: string) => string;
+
 const log = createLogger('sticky');
 
 // Bot start time for uptime tracking
@@ -230,11 +234,12 @@ function getHistorySessionTopic(session: PersistedSession): string {
 /**
  * Format a history session entry for display.
  * @param session - The inactive session from history (completed or timed out)
+ * @param getThreadLink - Builds the link to the session's thread
  * @returns Formatted line for the sticky message
  */
-function formatHistoryEntry(session: PersistedSession): string[] {
+function formatHistoryEntry(session: PersistedSession, getThreadLink: ThreadLinkFn): string[] {
   const topic = getHistorySessionTopic(session);
-  const threadLink = `[${topic}](/_redirect/pl/${session.threadId})`;
+  const threadLink = `[${topic}](${getThreadLink(session.threadId)})`;
   const displayName = session.startedByDisplayName || session.startedBy;
   // Determine if this is a timed-out (resumable) session or a completed session
   // Check both new and legacy field names for backward compatibility
@@ -349,14 +354,31 @@ function formatTopicFromPrompt(prompt: string | undefined): string {
   return cleaned || '_No topic_';
 }
 
+/**
+ * Format the queued session requests for a platform (empty if none)
+ */
+function formatQueueSection(queue: readonly QueuedSession[], platformId: string, getThreadLink: ThreadLinkFn): string[] {
+  const platformQueue = queue.filter(e => e.platformId === platformId);
+  if (platformQueue.length === 0) return [];
+
+  const lines = ['', `**Queued** (${platformQueue.length})`, ''];
+  platformQueue.forEach((entry, index) => {
+    const threadLink = `[${formatTopicFromPrompt(entry.prompt)}](${getThreadLink(entry.threadId)})`;
+    const displayName = entry.displayName || entry.username;
+    lines.push(`  ${index + 1}. ${threadLink} · **${displayName}** · ${formatRelativeTimeShort(entry.queuedAt)}`);
+  });
+  return lines;
+}
 
 /**
- * Build the sticky message content showing all active sessions
+ * Build the sticky message content showing all active and queued sessions
  */
 export async function buildStickyMessage(
   sessions: Map<string, Session>,
   platformId: string,
-  config: StickyMessageConfig
+  config: StickyMessageConfig,
+  queue: readonly QueuedSession[] = [],
+  getThreadLink: ThreadLinkFn = threadId => `/_redirect/pl/${threadId}`
 ): Promise<string> {
   // Filter sessions for this platform
   const platformSessions = [...sessions.values()].filter(
@@ -379,6 +401,7 @@ export async function buildStickyMessage(
       '**Active Claude Threads**',
       '',
       '_No active sessions_',
+      ...formatQueueSection(queue, platformId, getThreadLink),
     ];
 
     // Add history section if there are recent completed sessions
@@ -387,7 +410,7 @@ export async function buildStickyMessage(
       lines.push(`**Recent** (${historySessions.length})`);
       lines.push('');
       for (const historySession of historySessions) {
-        lines.push(...formatHistoryEntry(historySession));
+        lines.push(...formatHistoryEntry(historySession, getThreadLink));
       }
     }
 
@@ -411,7 +434,7 @@ export async function buildStickyMessage(
 
   for (const session of platformSessions) {
     const topic = getSessionTopic(session);
-    const threadLink = `[${topic}](/_redirect/pl/${session.threadId})`;
+    const threadLink = `[${topic}](${getThreadLink(session.threadId)})`;
     const displayName = session.startedByDisplayName || session.startedBy;
     const time = formatRelativeTimeShort(session.startedAt);
 
@@ -422,7 +445,12 @@ export async function buildStickyMessage(
     // Build PR link if available (compact format on same line)
     const prStr = session.pullRequestUrl ? ` · ${formatPullRequestLink(session.pullRequestUrl)}` : '';
 
-    lines.push(`▸ ${threadLink} · **${displayName}**${progressStr}${prStr} · ${time}`);
+    // Mark sessions forked with !fork
+    const forkStr = session.forkedFromThreadId ? ' · 🔀 fork' : '';
+
+    const modelStr = session.usageStats ? ` · 🤖 ${session.usageStats.modelDisplayName}` : '';
+
+    lines.push(`▸ ${threadLink}${forkStr} · **${displayName}**${modelStr}${progressStr}${prStr} · ${time}`);
 
     // Add description on next line if available
     if (session.sessionDescription) {
@@ -442,13 +470,15 @@ export async function buildStickyMessage(
     }
   }
 
+  lines.push(...formatQueueSection(queue, platformId, getThreadLink));
+
   // Add history section if there are recent completed sessions
   if (historySessions.length > 0) {
     lines.push('');
     lines.push(`**Recent** (${historySessions.length})`);
     lines.push('');
     for (const historySession of historySessions) {
-      lines.push(...formatHistoryEntry(historySession));
+      lines.push(...formatHistoryEntry(historySession, getThreadLink));
     }
   }
 
@@ -468,7 +498,8 @@ export async function buildStickyMessage(
 export async function updateStickyMessage(
   platform: PlatformClient,
   sessions: Map<string, Session>,
-  config: StickyMessageConfig
+  config: StickyMessageConfig,
+  queue: readonly QueuedSession[] = []
 ): Promise<void> {
   const platformId = platform.platformId;
 
@@ -484,7 +515,7 @@ export async function updateStickyMessage(
   updateLocks.set(platformId, lock);
 
   try {
-    await updateStickyMessageImpl(platform, sessions, config);
+    await updateStickyMessageImpl(platform, sessions, config, queue);
   } finally {
     if (releaseLock) releaseLock();
     updateLocks.delete(platformId);
@@ -497,7 +528,8 @@ export async function updateStickyMessage(
 async function updateStickyMessageImpl(
   platform: PlatformClient,
   sessions: Map<string, Session>,
-  config: StickyMessageConfig
+  config: StickyMessageConfig,
+  queue: readonly QueuedSession[]
 ): Promise<void> {
   const platformSessions = [...sessions.values()].filter(s => s.platformId === platform.platformId);
   log.debug(`updateStickyMessage for ${platform.platformId}, ${platformSessions.length} sessions`);
@@ -505,7 +537,7 @@ async function updateStickyMessageImpl(
     log.debug(`  - ${s.sessionId}: title="${s.sessionTitle}" firstPrompt="${s.firstPrompt?.substring(0, 30)}..."`);
   }
 
-  const content = await buildStickyMessage(sessions, platform.platformId, config);
+  const content = await buildStickyMessage(sessions, platform.platformId, config, queue, threadId => platform.getThreadLink(threadId));
   const existingPostId = stickyPostIds.get(platform.platformId);
   const shouldBump = needsBump.get(platform.platformId) ?? false;
 
@@ -588,10 +620,11 @@ async function updateStickyMessageImpl(
 export async function updateAllStickyMessages(
   platforms: Map<string, PlatformClient>,
   sessions: Map<string, Session>,
-  config: StickyMessageConfig
+  config: StickyMessageConfig,
+  queue: readonly QueuedSession[] = []
 ): Promise<void> {
   const updates = [...platforms.values()].map(platform =>
-    updateStickyMessage(platform, sessions, config)
+    updateStickyMessage(platform, sessions, config, queue)
   );
   await Promise.all(updates);
 }
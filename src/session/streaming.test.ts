@@ -10,12 +10,19 @@ import {
   shouldFlushEarly,
   endsAtBreakpoint,
   getCodeBlockState,
+  findOversizedCodeBlock,
+  codeBlockFileName,
+  buildMessageContent,
+  getAttachmentKind,
+  MAX_TEXT_BYTES,
   SOFT_BREAK_THRESHOLD,
+  UPLOAD_THRESHOLD_LINES,
+  UPLOAD_PREVIEW_LINES,
   MIN_BREAK_THRESHOLD,
   MAX_LINES_BEFORE_BREAK,
 } from './streaming.js';
 import type { Session } from './types.js';
-import type { PlatformClient, PlatformPost } from '../platform/index.js';
+import type { PlatformClient, PlatformFile, PlatformPost } from '../platform/index.js';
 
 // Mock platform client
 function createMockPlatform() {
@@ -113,6 +120,7 @@ function createTestSession(platform: PlatformClient): Session {
     activeToolStarts: new Map(),
     messageCount: 0,
     statusBarTimer: null,
+    hasClaudeResponded: false,
   };
 }
 
@@ -356,6 +364,27 @@ describe('flush with continuation (message splitting)', () => {
   });
 });
 
+describe('flush with platform message limits', () => {
+  test('splits the first post when content exceeds a small platform limit', async () => {
+    const platform = createMockPlatform();
+    (platform as { getMessageLimits?: () => { maxLength: number; hardThreshold: number } }).getMessageLimits =
+      () => ({ maxLength: 2000, hardThreshold: 1900 });
+    const session = createTestSession(platform);
+    const registerPost = mock((_postId: string, _threadId: string) => {});
+
+    session.pendingContent = Array.from({ length: 100 }, (_, i) => `line ${i} ${'x'.repeat(40)}`).join('\n');
+
+    await flush(session, registerPost);
+
+    // Every post must fit within the platform limit
+    expect(platform.posts.size).toBeGreaterThan(2);
+    for (const message of platform.posts.values()) {
+      expect(message.length).toBeLessThanOrEqual(2000);
+    }
+    expect(registerPost).toHaveBeenCalledTimes(platform.posts.size);
+  });
+});
+
 describe('flush with completed tasks', () => {
   let platform: PlatformClient & { posts: Map<string, string> };
   let session: Session;
@@ -715,3 +744,205 @@ describe('findLogicalBreakpoint with code blocks', () => {
     expect(result?.type).toBe('code_block_end');
   });
 });
+
+describe('findOversizedCodeBlock', () => {
+  const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join('\n');
+
+  test('ignores blocks within the limits', () => {
+    expect(findOversizedCodeBlock('```ts\n' + lines(UPLOAD_THRESHOLD_LINES) + '\n```', 10000)).toBeNull();
+  });
+
+  test('finds a block over the line threshold', () => {
+    const content = 'Before\n```ts\nshort\n```\n```diff\n' + lines(UPLOAD_THRESHOLD_LINES + 1) + '\n```\nAfter';
+    const block = findOversizedCodeBlock(content, 10000);
+    expect(block?.language).toBe('diff');
+    expect(block?.lineCount).toBe(UPLOAD_THRESHOLD_LINES + 1);
+    expect(content.substring(block?.start ?? 0, block?.end)).toStartWith('```diff\nline 1');
+    expect(content.substring(block?.end ?? 0)).toBe('\nAfter');
+  });
+
+  test('finds a block over the character limit', () => {
+    expect(findOversizedCodeBlock('```\n' + 'x'.repeat(600) + '\n```', 500)?.lineCount).toBe(1);
+  });
+
+  test('ignores an unclosed block', () => {
+    expect(findOversizedCodeBlock('```ts\n' + lines(100), 10000)).toBeNull();
+  });
+});
+
+describe('codeBlockFileName', () => {
+  const date = new Date('2026-01-02T15:30:00Z');
+
+  test('uses the language for the extension', () => {
+    expect(codeBlockFileName('diff', date)).toBe('diff-20260102-153000.diff');
+    expect(codeBlockFileName('typescript', date)).toBe('code-20260102-153000.ts');
+    expect(codeBlockFileName('', date)).toBe('code-20260102-153000.txt');
+  });
+});
+
+describe('flush with oversized code blocks', () => {
+  let platform: PlatformClient & { posts: Map<string, string> };
+  let session: Session;
+  let registerPost: ReturnType<typeof mock>;
+  const code = Array.from({ length: 60 }, (_, i) => `+ line ${i + 1}`).join('\n');
+
+  beforeEach(() => {
+    platform = createMockPlatform();
+    session = createTestSession(platform);
+    registerPost = mock((_postId: string, _threadId: string) => {});
+  });
+
+  function enableUploads() {
+    (platform as any).uploadFile = mock(async (_threadId: string, _name: string, _data: Buffer, _mime: string, message?: string): Promise<PlatformPost> => {
+      platform.posts.set('upload_1', message ?? '');
+      return { id: 'upload_1', platformId: 'test', channelId: 'channel1', userId: 'bot', message: message ?? '' };
+    });
+  }
+
+  test('uploads the block with a preview and posts the text around it', async () => {
+    enableUploads();
+    session.currentPostId = 'post_existing';
+    session.pendingContent = 'Working on it\n\n✏️ **Edit** `src/a.ts`\n```diff\n' + code + '\n```\n  ↳ ✓\nDone';
+
+    await flush(session, registerPost);
+
+    // Text before the block stays in the current post
+    expect(platform.updatePost).toHaveBeenCalledWith('post_existing', 'Working on it');
+
+    const [threadId, name, data, mimeType, message] = (platform.uploadFile as ReturnType<typeof mock>).mock.calls[0];
+    expect(threadId).toBe('thread1');
+    expect(name).toMatch(/^diff-\d{8}-\d{6}\.diff$/);
+    expect((data as Buffer).toString()).toBe(code + '\n');
+    expect(mimeType).toBe('text/x-diff');
+    expect(message).toStartWith('✏️ **Edit** `src/a.ts`\n```diff\n+ line 1\n');
+    expect(message).toContain(`+ line ${UPLOAD_PREVIEW_LINES}\n\`\`\``);
+    expect(message).not.toContain(`+ line ${UPLOAD_PREVIEW_LINES + 1}`);
+    expect(message).toContain('60 lines - full diff in the attached');
+    expect(registerPost).toHaveBeenCalledWith('upload_1', 'thread1');
+
+    // The rest goes into a new post below the upload
+    expect(platform.createPost).toHaveBeenCalledWith('↳ ✓\nDone', 'thread1');
+    expect(session.currentPostId).toBe('post_1');
+  });
+
+  test('replaces a post that only holds the partly streamed block', async () => {
+    enableUploads();
+    session.currentPostId = 'post_existing';
+    session.pendingContent = '✏️ **Edit** `a.ts`\n```diff\n' + code + '\n```';
+
+    await flush(session, registerPost);
+
+    expect(platform.deletePost).toHaveBeenCalledWith('post_existing');
+    expect(platform.updatePost).not.toHaveBeenCalled();
+    const message = (platform.uploadFile as ReturnType<typeof mock>).mock.calls[0][4] as string;
+    expect(message).toStartWith('✏️ **Edit** `a.ts`\n```diff\n+ line 1\n');
+    expect(session.currentPostId).toBeNull();
+  });
+
+  test('posts the block inline when the upload fails', async () => {
+    enableUploads();
+    (platform.uploadFile as ReturnType<typeof mock>).mockImplementation(async () => {
+      throw new Error('too large');
+    });
+    session.pendingContent = '```\n' + code + '\n```';
+
+    await flush(session, registerPost);
+
+    expect(platform.createPost).toHaveBeenCalledWith('```\n' + code + '\n```', 'thread1');
+  });
+
+  test('updates the inline post on later flushes after an upload failure', async () => {
+    enableUploads();
+    (platform.uploadFile as ReturnType<typeof mock>).mockImplementation(async () => {
+      throw new Error('too large');
+    });
+    session.pendingContent = '```\n' + code + '\n```';
+
+    await flush(session, registerPost);
+    session.pendingContent += '\n\nMore text';
+    await flush(session, registerPost);
+    await flush(session, registerPost);
+
+    expect(platform.uploadFile).toHaveBeenCalledTimes(1);
+    expect(platform.createPost).toHaveBeenCalledTimes(1);
+    expect(platform.updatePost).toHaveBeenLastCalledWith('post_1', '```\n' + code + '\n```\n\nMore text');
+  });
+
+  test('posts the block inline on platforms without uploads', async () => {
+    session.pendingContent = '```\n' + code + '\n```';
+
+    await flush(session, registerPost);
+
+    expect(platform.createPost).toHaveBeenCalledWith('```\n' + code + '\n```', 'thread1');
+  });
+});
+
+describe('getAttachmentKind', () => {
+  const file = (name: string, mimeType: string): PlatformFile => ({ id: name, name, size: 10, mimeType });
+
+  test('classifies images, PDFs and text files', () => {
+    expect(getAttachmentKind(file('shot.png', 'image/png'))).toBe('image');
+    expect(getAttachmentKind(file('spec.pdf', 'application/pdf'))).toBe('pdf');
+    expect(getAttachmentKind(file('data.csv', 'text/csv'))).toBe('text');
+    expect(getAttachmentKind(file('config.json', 'application/json'))).toBe('text');
+    // Source files are often reported as octet-stream
+    expect(getAttachmentKind(file('main.rs', 'application/octet-stream'))).toBe('text');
+  });
+
+  test('rejects unsupported types', () => {
+    expect(getAttachmentKind(file('archive.zip', 'application/zip'))).toBeNull();
+    expect(getAttachmentKind(file('icon.bmp', 'image/bmp'))).toBeNull();
+  });
+});
+
+describe('buildMessageContent', () => {
+  let platform: PlatformClient & { posts: Map<string, string> };
+  const contents: Record<string, Buffer> = {
+    'log-1': Buffer.from('error: boom'),
+    'pdf-1': Buffer.from('%PDF-1.7'),
+    'bin-1': Buffer.from([0x7f, 0x45, 0x00, 0x46]),
+  };
+
+  beforeEach(() => {
+    platform = createMockPlatform();
+    (platform as any).downloadFile = mock(async (id: string) => contents[id]);
+  });
+
+  test('returns plain text without files', async () => {
+    expect(await buildMessageContent('hello', platform)).toBe('hello');
+  });
+
+  test('inlines text files and passes PDFs as documents', async () => {
+    const content = await buildMessageContent('look at these', platform, [
+      { id: 'log-1', name: 'app.log', size: 11, mimeType: 'text/plain' },
+      { id: 'pdf-1', name: 'spec.pdf', size: 8, mimeType: 'application/pdf' },
+    ], false, 'thread1');
+
+    expect(content).toEqual([
+      { type: 'text', text: '<attachment name="app.log">\nerror: boom\n</attachment>' },
+      { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: contents['pdf-1'].toString('base64') }, title: 'spec.pdf' },
+      { type: 'text', text: 'look at these' },
+    ]);
+    expect(platform.createPost).toHaveBeenCalledWith('📎 Attached 2 files for Claude: `app.log`, `spec.pdf`', 'thread1');
+  });
+
+  test('reports files that are too large, unsupported or binary', async () => {
+    const content = await buildMessageContent('hi', platform, [
+      { id: 'big', name: 'huge.log', size: MAX_TEXT_BYTES * 4, mimeType: 'text/plain' },
+      { id: 'zip', name: 'build.zip', size: 10, mimeType: 'application/zip' },
+      { id: 'bin-1', name: 'data.txt', size: 4, mimeType: 'text/plain' },
+    ], false, 'thread1');
+
+    expect(content).toBe('hi');
+    expect(platform.downloadFile).toHaveBeenCalledTimes(1);
+    const summary = (platform.createPost as ReturnType<typeof mock>).mock.calls[0][0] as string;
+    expect(summary).toStartWith('⚠️ Not attached: `huge.log` (1 MB, limit 256 KB)');
+    expect(summary).toContain('`build.zip` (unsupported file type)');
+    expect(summary).toContain('`data.txt` (binary content)');
+  });
+
+  test('does not post a confirmation without a thread', async () => {
+    await buildMessageContent('hi', platform, [{ id: 'log-1', name: 'app.log', size: 11, mimeType: 'text/plain' }]);
+    expect(platform.createPost).not.toHaveBeenCalled();
+  });
+});
@@ -10,6 +10,8 @@ import type { Session } from './types.js';
 import type { ContentBlock } from '../claude/cli.js';
 import { TASK_TOGGLE_EMOJIS } from '../utils/emoji.js';
 import { createLogger } from '../utils/logger.js';
+import { fileTimestamp, getMimeType } from './uploads.js';
+import { formatBytes } from '../utils/format.js';
 
 const log = createLogger('streaming');
 
@@ -64,6 +66,12 @@ function getTaskDisplayContent(session: Session): string {
  */
 export const SOFT_BREAK_THRESHOLD = 2000;
 
+/**
+ * Post length limits used when the platform doesn't specify its own.
+ * Mattermost allows ~16K characters per post.
+ */
+export const DEFAULT_MESSAGE_LIMITS = { maxLength: 16000, hardThreshold: 14000 };
+
 /**
  * Minimum content size before we consider breaking.
  * Prevents breaking very short messages unnecessarily.
@@ -76,6 +84,18 @@ export const MIN_BREAK_THRESHOLD = 500;
  */
 export const MAX_LINES_BEFORE_BREAK = 15;
 
+/**
+ * Code blocks longer than this are uploaded as a file instead of being posted
+ * inline (on platforms that support uploads). Blocks longer than half the
+ * platform's hard threshold are uploaded regardless of their line count.
+ */
+export const UPLOAD_THRESHOLD_LINES = 40;
+
+/**
+ * Lines of an uploaded code block shown inline as a preview.
+ */
+export const UPLOAD_PREVIEW_LINES = 8;
+
 // ---------------------------------------------------------------------------
 // Logical breakpoint detection
 // ---------------------------------------------------------------------------
@@ -288,6 +308,162 @@ export function endsAtBreakpoint(content: string): BreakpointType {
 // Scheduled updates
 // ---------------------------------------------------------------------------
 
+// ---------------------------------------------------------------------------
+// Oversized code blocks
+// ---------------------------------------------------------------------------
+
+/**
+ * A complete code block that is too long to post inline.
+ */
+export interface OversizedCodeBlock {
+  /** Position of the opening ``` in the content */
+  start: number;
+  /** Position just after the closing ``` */
+  end: number;
+  /** The language of the code block (e.g., 'diff', 'typescript') */
+  language: string;
+  /** The code between the fences */
+  code: string;
+  lineCount: number;
+}
+
+/**
+ * Find the first complete code block that exceeds UPLOAD_THRESHOLD_LINES
+ * lines or maxChars characters.
+ *
+ * @param content - The full content string
+ * @param maxChars - Character limit for a block posted inline
+ * @returns The oversized block, or null if there is none
+ */
+export function findOversizedCodeBlock(content: string, maxChars: number): OversizedCodeBlock | null {
+  const markerRegex = /^```(\w*)?$/gm;
+  let open: { index: number; bodyStart: number; language: string } | null = null;
+  let match;
+
+  while ((match = markerRegex.exec(content)) !== null) {
+    if (!open) {
+      open = { index: match.index, bodyStart: match.index + match[0].length + 1, language: match[1] ?? '' };
+      continue;
+    }
+    const code = content.substring(open.bodyStart, match.index).replace(/\n$/, '');
+    const lineCount = code.split('\n').length;
+    if (lineCount > UPLOAD_THRESHOLD_LINES || code.length > maxChars) {
+      return { start: open.index, end: match.index + match[0].length, language: open.language, code, lineCount };
+    }
+    open = null;
+  }
+
+  return null;
+}
+
+const CODE_FILE_EXTENSIONS: Record<string, string> = {
+  typescript: 'ts',
+  javascript: 'js',
+  python: 'py',
+  bash: 'sh',
+  shell: 'sh',
+  rust: 'rs',
+  ruby: 'rb',
+  markdown: 'md',
+  yml: 'yaml',
+};
+
+/**
+ * File name for an uploaded code block, e.g. diff-20260102-153000.diff
+ */
+export function codeBlockFileName(language: string, date: Date = new Date()): string {
+  const lang = language.toLowerCase();
+  const ext = CODE_FILE_EXTENSIONS[lang] ?? (/^[a-z0-9]{1,6}$/.test(lang) ? lang : 'txt');
+  return `${lang === 'diff' ? 'diff' : 'code'}-${fileTimestamp(date)}.${ext}`;
+}
+
+/**
+ * Inline preview posted with an uploaded code block.
+ */
+export function formatCodeBlockPreview(block: OversizedCodeBlock, fileName: string, caption?: string): string {
+  const preview = block.code.split('\n').slice(0, UPLOAD_PREVIEW_LINES).join('\n');
+  const what = block.language === 'diff' ? 'diff' : 'code';
+  return (caption ? `${caption}\n` : '') +
+    '```' + block.language + '\n' + preview + '\n```\n' +
+    `📎 _${block.lineCount} lines - full ${what} in the attached \`${fileName}\`_`;
+}
+
+/**
+ * Post content containing an oversized code block: the text before the block,
+ * then the block as an uploaded file with a short preview, then the rest.
+ * Falls back to posting the block inline if the upload fails, and stops
+ * uploading for the session - the inline block stays in the pending content,
+ * so later flushes must update that post rather than try (and post) again.
+ */
+async function flushWithCodeUpload(
+  session: Session,
+  content: string,
+  block: OversizedCodeBlock,
+  registerPost: (postId: string, threadId: string) => void
+): Promise<void> {
+  let before = content.substring(0, block.start).trim();
+  const rest = content.substring(block.end).trim();
+
+  // Keep a heading line directly above the block (e.g. "✏️ Edit file.ts") with the preview
+  let caption: string | undefined;
+  if (!/\n\s*\n$/.test(content.substring(0, block.start))) {
+    const lastBreak = before.lastIndexOf('\n');
+    caption = before.substring(lastBreak + 1) || undefined;
+    before = lastBreak === -1 ? '' : before.substring(0, lastBreak).trim();
+  }
+
+  // Post the text before the block first so the thread stays in order.
+  // Without any, the current post only holds the partly streamed block,
+  // which the upload replaces.
+  if (before) {
+    session.pendingContent = before;
+    await flushPending(session, registerPost);
+  } else if (session.currentPostId) {
+    const postId = session.currentPostId;
+    try {
+      await session.platform.deletePost(postId);
+    } catch (err) {
+      log.warn(`Failed to delete partly streamed code block post: ${err}`);
+    }
+  }
+  session.currentPostId = null;
+  session.pendingContent = '';
+
+  const fileName = codeBlockFileName(block.language);
+  const mimeType = getMimeType(fileName);
+  let uploaded = false;
+  try {
+    if (session.platform.uploadFile) {
+      const post = await session.platform.uploadFile(
+        session.threadId,
+        fileName,
+        Buffer.from(block.code + '\n', 'utf-8'),
+        mimeType === 'application/octet-stream' ? 'text/plain' : mimeType,
+        formatCodeBlockPreview(block, fileName, caption)
+      );
+      registerPost(post.id, session.threadId);
+      uploaded = true;
+      log.debug(`Uploaded ${block.lineCount}-line code block as ${fileName}`);
+    }
+  } catch (err) {
+    log.warn(`Failed to upload code block, posting it inline: ${err}`);
+    session.codeUploadFailed = true;
+  }
+
+  if (!uploaded) {
+    const raw = content.substring(block.start, block.end);
+    session.pendingContent = [caption, raw].filter(Boolean).join('\n') + (rest ? `\n\n${rest}` : '');
+    await flushPending(session, registerPost);
+    return;
+  }
+
+  // The rest may hold more oversized blocks
+  session.pendingContent = rest;
+  if (rest) {
+    await flush(session, registerPost);
+  }
+}
+
 /**
  * Schedule a delayed flush of the session's pending content.
  * If an update is already scheduled, this is a no-op.
@@ -302,63 +478,180 @@ export function scheduleUpdate(session: Session, onFlush: (session: Session) =>
   }, 500);
 }
 
+// ---------------------------------------------------------------------------
+// Attachments
+// ---------------------------------------------------------------------------
+
+/** Image types Claude accepts */
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/** Size limits for files handed to Claude */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_PDF_BYTES = 10 * 1024 * 1024;
+export const MAX_TEXT_BYTES = 256 * 1024;
+
+/** Non-text/* MIME types that are plain text */
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/toml',
+  'application/javascript',
+  'application/typescript',
+  'application/x-sh',
+  'application/sql',
+  'application/x-ndjson',
+];
+
+/** Extensions of text files that platforms often report as application/octet-stream */
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'log', 'md', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'env', 'xml', 'html', 'css',
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'diff', 'patch', 'graphql', 'proto', 'vue', 'svelte', 'tf',
+]);
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+/**
+ * Work out how a file can be handed to Claude, or null if it can't.
+ */
+export function getAttachmentKind(file: PlatformFile): AttachmentKind | null {
+  const mimeType = file.mimeType.toLowerCase().split(';')[0].trim();
+  const extension = (file.extension ?? file.name.split('.').pop() ?? '').toLowerCase().replace(/^\./, '');
+  if (IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType) || TEXT_EXTENSIONS.has(extension)) {
+    return 'text';
+  }
+  return null;
+}
+
+const SIZE_LIMITS: Record<AttachmentKind, number> = {
+  image: MAX_IMAGE_BYTES,
+  pdf: MAX_PDF_BYTES,
+  text: MAX_TEXT_BYTES,
+};
+
+/**
+ * Confirmation posted in the thread listing the files handed to Claude
+ * and the ones that were left out.
+ */
+export function formatAttachmentSummary(
+  attached: string[],
+  skipped: { name: string; reason: string }[]
+): string | null {
+  const lines: string[] = [];
+  if (attached.length > 0) {
+    const noun = attached.length === 1 ? 'file' : 'files';
+    lines.push(`📎 Attached ${attached.length} ${noun} for Claude: ${attached.map(n => `\`${n}\``).join(', ')}`);
+  }
+  if (skipped.length > 0) {
+    lines.push(`⚠️ Not attached: ${skipped.map(s => `\`${s.name}\` (${s.reason})`).join(', ')}`);
+  }
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
 /**
- * Build message content for Claude, including images if present.
+ * Build message content for Claude, including attached files.
+ * Images become image blocks, PDFs document blocks, and text files (logs,
+ * CSV, JSON, source code) are inlined as text blocks. Files over the size
+ * limits or of other types are left out.
  * Returns either a string or an array of content blocks.
  *
  * @param text - The text message
- * @param platform - Platform client for downloading images
+ * @param platform - Platform client for downloading files
  * @param files - Optional files attached to the message
  * @param debug - Whether to log debug info
- * @returns Plain string or content blocks array with images
+ * @param threadId - Thread to post the "attached N files" confirmation in
+ * @returns Plain string or content blocks array with attachments
  */
 export async function buildMessageContent(
   text: string,
   platform: PlatformClient,
   files?: PlatformFile[],
-  debug: boolean = false
+  debug: boolean = false,
+  threadId?: string
 ): Promise<string | ContentBlock[]> {
-  // Filter to only image files
-  const imageFiles = files?.filter(f =>
-    f.mimeType.startsWith('image/') &&
-    ['image/jpeg', 'image/png', 'image/gif', 'image/webp'].includes(f.mimeType)
-  ) || [];
-
-  // If no images, return plain text
-  if (imageFiles.length === 0) {
+  if (!files?.length) {
     return text;
   }
 
-  // Build content blocks with images
   const blocks: ContentBlock[] = [];
+  const attached: string[] = [];
+  const skipped: { name: string; reason: string }[] = [];
+
+  for (const file of files) {
+    const kind = getAttachmentKind(file);
+    if (!kind) {
+      skipped.push({ name: file.name, reason: 'unsupported file type' });
+      continue;
+    }
+    if (file.size > SIZE_LIMITS[kind]) {
+      skipped.push({ name: file.name, reason: `${formatBytes(file.size)}, limit ${formatBytes(SIZE_LIMITS[kind])}` });
+      continue;
+    }
 
-  // Download and add each image
-  for (const file of imageFiles) {
     try {
       if (!platform.downloadFile) {
         log.warn(`Platform does not support file downloads, skipping ${file.name}`);
+        skipped.push({ name: file.name, reason: 'downloads not supported' });
         continue;
       }
       const buffer = await platform.downloadFile(file.id);
-      const base64 = buffer.toString('base64');
 
-      blocks.push({
-        type: 'image',
-        source: {
-          type: 'base64',
-          media_type: file.mimeType,
-          data: base64,
-        },
-      });
+      if (kind === 'image') {
+        blocks.push({
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: file.mimeType,
+            data: buffer.toString('base64'),
+          },
+        });
+      } else if (kind === 'pdf') {
+        blocks.push({
+          type: 'document',
+          source: {
+            type: 'base64',
+            media_type: 'application/pdf',
+            data: buffer.toString('base64'),
+          },
+          title: file.name,
+        });
+      } else {
+        if (buffer.includes(0)) {
+          skipped.push({ name: file.name, reason: 'binary content' });
+          continue;
+        }
+        blocks.push({
+          type: 'text',
+          text: `<attachment name="${file.name}">\n${buffer.toString('utf-8')}\n</attachment>`,
+        });
+      }
+      attached.push(file.name);
 
       if (debug) {
-        log.debug(`Attached image: ${file.name} (${file.mimeType}, ${Math.round(buffer.length / 1024)}KB)`);
+        log.debug(`Attached ${kind}: ${file.name} (${file.mimeType}, ${Math.round(buffer.length / 1024)}KB)`);
       }
     } catch (err) {
-      log.error(`Failed to download image ${file.name}: ${err}`);
+      log.error(`Failed to download ${file.name}: ${err}`);
+      skipped.push({ name: file.name, reason: 'download failed' });
     }
   }
 
+  const summary = formatAttachmentSummary(attached, skipped);
+  if (summary && threadId) {
+    await platform.createPost(summary, threadId).catch(err => {
+      log.warn(`Failed to post attachment summary: ${err}`);
+    });
+  }
+
+  // Nothing attached - send the text alone
+  if (blocks.length === 0) {
+    return text;
+  }
+
   // Add the text message
   if (text) {
     blocks.push({
@@ -501,6 +794,7 @@ export async function bumpTasksToBottom(
  * - Logical message breaking (headings, tool results, code blocks)
  * - Soft threshold breaking to avoid "Show More" collapse
  * - Hard message length limits (splits into multiple posts if needed)
+ * - Uploading oversized code blocks and diffs as files (where supported)
  * - Creating vs updating posts
  * - Post registration for reaction routing
  * - Keeping task list at the bottom (sticky tasks)
@@ -514,11 +808,35 @@ export async function flush(
 ): Promise<void> {
   if (!session.pendingContent.trim()) return;
 
+  // Long code blocks and diffs are uploaded as files instead of flooding the thread
+  if (session.platform.uploadFile && !session.codeUploadFailed) {
+    const content = session.pendingContent.replace(/\n{3,}/g, '\n\n').trim();
+    const limits = session.platform.getMessageLimits?.() ?? DEFAULT_MESSAGE_LIMITS;
+    const block = findOversizedCodeBlock(content, Math.floor(limits.hardThreshold / 2));
+    if (block) {
+      await flushWithCodeUpload(session, content, block, registerPost);
+      return;
+    }
+  }
+
+  await flushPending(session, registerPost);
+}
+
+/**
+ * Post the pending content, splitting it across posts where needed.
+ */
+async function flushPending(
+  session: Session,
+  registerPost: (postId: string, threadId: string) => void
+): Promise<void> {
+  if (!session.pendingContent.trim()) return;
+
   let content = session.pendingContent.replace(/\n{3,}/g, '\n\n').trim();
 
-  // Most chat platforms have post length limits (~16K)
-  const MAX_POST_LENGTH = 16000;  // Hard limit - leave some margin
-  const HARD_CONTINUATION_THRESHOLD = 14000;  // Absolute max before we force a break
+  // Most chat platforms have post length limits (~16K), some are much lower
+  const limits = session.platform.getMessageLimits?.() ?? DEFAULT_MESSAGE_LIMITS;
+  const MAX_POST_LENGTH = limits.maxLength;  // Hard limit - leave some margin
+  const HARD_CONTINUATION_THRESHOLD = limits.hardThreshold;  // Absolute max before we force a break
 
   // Check if we should break early based on logical breakpoints
   // This helps avoid "Show More" collapse on some platforms
@@ -527,7 +845,8 @@ export async function flush(
     shouldFlushEarly(content);
 
   // Check if we need to start a new message due to length or logical breakpoint
-  if (session.currentPostId && (content.length > HARD_CONTINUATION_THRESHOLD || shouldBreakEarly)) {
+  // (a hard break also applies to the first post when the limit is small)
+  if (content.length > HARD_CONTINUATION_THRESHOLD || (session.currentPostId && shouldBreakEarly)) {
     // Determine where to break
     let breakPoint: number;
 
@@ -579,7 +898,9 @@ export async function flush(
         breakPoint = breakInfo.position;
       } else {
         // No good breakpoint found, just update the current post and wait
-        await session.platform.updatePost(session.currentPostId, content);
+        if (session.currentPostId) {
+          await session.platform.updatePost(session.currentPostId, content);
+        }
         return;
       }
     }
@@ -601,13 +922,24 @@ export async function flush(
       ? firstPart + '\n\n*... (continued below)*'
       : firstPart;
 
-    // Update the current post with the first part
-    await session.platform.updatePost(session.currentPostId, firstPartWithMarker);
+    // Update the current post with the first part (or create it if this is the first flush)
+    if (session.currentPostId) {
+      await session.platform.updatePost(session.currentPostId, firstPartWithMarker);
+    } else {
+      const post = await session.platform.createPost(firstPartWithMarker, session.threadId);
+      registerPost(post.id, session.threadId);
+    }
 
     // Start a new post for the continuation
     session.currentPostId = null;
     session.pendingContent = remainder;
 
+    // Remainder still too long for one post (small platform limits) - split again
+    if (remainder.length > HARD_CONTINUATION_THRESHOLD) {
+      session.pendingContent = '*(continued)*\n\n' + remainder;
+      return flushPending(session, registerPost);
+    }
+
     // Create the continuation post if there's content
     if (remainder) {
       // If we have an active (non-completed) task list, reuse its post and bump it to the bottom
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  buildSummaryPrompt,
+  condenseTranscript,
+  formatSummary,
+  getChangedFiles,
+  getOpenTasks,
+  summarizeSession,
+} from './summary.js';
+import { getTranscriptPath, type TranscriptItem } from '../claude/session-files.js';
+import type { Session } from './types.js';
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    threadId: 'thread-123456',
+    claudeSessionId: 'claude-1',
+    startedBy: 'alice',
+    workingDir: '/repo',
+    lastTasksContent: null,
+    platform: {
+      createPost: mock(() => Promise.resolve({ id: 'summary-post', message: '', userId: 'bot' })),
+      updatePost: mock(() => Promise.resolve({ id: 'summary-post', message: '', userId: 'bot' })),
+    },
+    ...overrides,
+  } as unknown as Session;
+}
+
+const items: TranscriptItem[] = [
+  { kind: 'user', text: 'Fix the flaky login test' },
+  { kind: 'assistant', text: 'Looking at the test first.' },
+  { kind: 'tool', id: 't1', name: 'Read', input: { file_path: '/repo/src/login.test.ts' } },
+  { kind: 'tool', id: 't2', name: 'Edit', input: { file_path: '/repo/src/login.ts' } },
+  { kind: 'tool', id: 't3', name: 'Write', input: { file_path: 'docs/login.md' } },
+  { kind: 'tool', id: 't4', name: 'Edit', input: { file_path: '/repo/src/login.ts' } },
+  { kind: 'tool', id: 't5', name: 'Edit', input: { file_path: '/repo/src/broken.ts' }, isError: true },
+  { kind: 'tool', id: 't6', name: 'Bash', input: { command: 'npm test' } },
+];
+
+describe('getChangedFiles', () => {
+  it('lists each changed file once, relative to the working directory', () => {
+    expect(getChangedFiles(items, '/repo')).toEqual(['src/login.ts', 'docs/login.md']);
+  });
+
+  it('keeps absolute paths outside the working directory', () => {
+    const outside: TranscriptItem[] = [{ kind: 'tool', id: 't1', name: 'Write', input: { file_path: '/tmp/notes.md' } }];
+    expect(getChangedFiles(outside, '/repo')).toEqual(['/tmp/notes.md']);
+  });
+});
+
+describe('getOpenTasks', () => {
+  it('returns in-progress and pending tasks', () => {
+    const content = '---\n📋 **Tasks** (1/3 · 33%)\n\n✅ ~~Reproduce~~\n🔄 **Fixing the test** (12s)\n○ Open a PR';
+    expect(getOpenTasks(content)).toEqual(['Fixing the test', 'Open a PR']);
+  });
+
+  it('returns nothing without a task list or when all tasks are done', () => {
+    expect(getOpenTasks(null)).toEqual([]);
+    expect(getOpenTasks('---\n📋 ~~Tasks~~ *(completed)*')).toEqual([]);
+  });
+});
+
+describe('condenseTranscript', () => {
+  it('lists messages and tool calls', () => {
+    const text = condenseTranscript(items);
+    expect(text).toContain('User: Fix the flaky login test');
+    expect(text).toContain('Claude: Looking at the test first.');
+    expect(text).toContain('[Tool Edit: /repo/src/login.ts]');
+    expect(text).toContain('[Tool Bash: npm test]');
+  });
+
+  it('keeps the first prompt and the most recent messages when too long', () => {
+    const long: TranscriptItem[] = [
+      { kind: 'user', text: 'The goal' },
+      ...Array.from({ length: 20 }, (_, i): TranscriptItem => ({ kind: 'assistant', text: `Step ${i} `.padEnd(50, '.') })),
+    ];
+    const text = condenseTranscript(long, 300);
+    expect(text.startsWith('User: The goal\n[... earlier conversation left out ...]')).toBe(true);
+    expect(text).toContain('Step 19');
+    expect(text).not.toContain('Step 0 ');
+  });
+
+  it('returns an empty string without messages', () => {
+    expect(condenseTranscript([])).toBe('');
+  });
+});
+
+describe('buildSummaryPrompt', () => {
+  it('asks for the goal and decisions and includes the transcript', () => {
+    const prompt = buildSummaryPrompt('User: hi');
+    expect(prompt).toContain('**Goal**');
+    expect(prompt).toContain('**Decisions**');
+    expect(prompt).toContain('<transcript>\nUser: hi\n</transcript>');
+  });
+});
+
+describe('formatSummary', () => {
+  it('adds files, open tasks and the pull request', () => {
+    const session = createSession({ sessionTitle: 'Fix login', pullRequestUrl: 'https://github.com/org/repo/pull/42' });
+    const text = formatSummary(session, '**Goal** Fix it', ['src/login.ts'], ['Open a PR']);
+    expect(text).toContain('📝 **Session summary** - Fix login');
+    expect(text).toContain('**Goal** Fix it');
+    expect(text).toContain('**Files changed**\n- `src/login.ts`');
+    expect(text).toContain('**Open tasks**\n- Open a PR');
+    expect(text).toContain('**Pull request:**');
+    expect(text).toContain('pull/42');
+  });
+
+  it('leaves out empty sections', () => {
+    const text = formatSummary(createSession(), '**Goal** Fix it', [], []);
+    expect(text).toBe('📝 **Session summary**\n\n**Goal** Fix it');
+  });
+
+  it('shortens long file lists', () => {
+    const files = Array.from({ length: 20 }, (_, i) => `f${i}.ts`);
+    const text = formatSummary(createSession(), 'recap', files, []);
+    expect(text).toContain('- `f14.ts`');
+    expect(text).not.toContain('- `f15.ts`');
+    expect(text).toContain('_and 5 more_');
+  });
+});
+
+describe('summarizeSession', () => {
+  let configDir: string;
+  const originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'summary-test-'));
+    process.env.CLAUDE_CONFIG_DIR = configDir;
+  });
+
+  afterEach(() => {
+    if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+    else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function writeTranscript(lines: object[]): void {
+    const path = getTranscriptPath('claude-1', '/repo', configDir);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, lines.map(l => JSON.stringify(l)).join('\n'));
+  }
+
+  it('warns when there is no transcript yet', async () => {
+    const session = createSession();
+    const run = mock(() => Promise.resolve('recap'));
+    await summarizeSession(session, run);
+
+    expect(run).not.toHaveBeenCalled();
+    const message = (session.platform.createPost as ReturnType<typeof mock>).mock.calls[0][0] as string;
+    expect(message).toContain('Nothing to summarize yet');
+  });
+
+  it('posts a placeholder and replaces it with the summary', async () => {
+    writeTranscript([
+      { type: 'user', message: { content: 'Fix the flaky login test' } },
+      { type: 'assistant', message: { content: [{ type: 'tool_use', id: 't1', name: 'Edit', input: { file_path: '/repo/src/login.ts' } }] } },
+    ]);
+    const session = createSession({ lastTasksContent: '---\n📋 **Tasks** (0/1 · 0%)\n\n○ Open a PR' });
+    const run = mock((_prompt: string) => Promise.resolve('**Goal** Fix the login test'));
+    await summarizeSession(session, run);
+
+    expect(run.mock.calls[0][0]).toContain('User: Fix the flaky login test');
+    expect((session.platform.createPost as ReturnType<typeof mock>).mock.calls[0][0]).toContain('Summarizing the session');
+    const [postId, message] = (session.platform.updatePost as ReturnType<typeof mock>).mock.calls[0] as [string, string];
+    expect(postId).toBe('summary-post');
+    expect(message).toContain('**Goal** Fix the login test');
+    expect(message).toContain('- `src/login.ts`');
+    expect(message).toContain('- Open a PR');
+  });
+
+  it('reports a failed Claude call in the placeholder post', async () => {
+    writeTranscript([{ type: 'user', message: { content: 'Hello' } }]);
+    const session = createSession();
+    await summarizeSession(session, () => Promise.reject(new Error('not logged in')));
+
+    const message = (session.platform.updatePost as ReturnType<typeof mock>).mock.calls[0][1] as string;
+    expect(message).toBe('❌ Could not summarize the session: not logged in');
+  });
+});
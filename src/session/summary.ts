@@ -0,0 +1,177 @@
+/**
+ * Session summary (!summary)
+ *
+ * Catches up people who join a long thread: the goal of the session and the
+ * decisions so far, written by a one-shot Claude call over the transcript
+ * (the session's own Claude is not involved, so its context stays as it is),
+ * followed by the files changed, the open tasks and the pull request.
+ */
+
+import { relative, isAbsolute } from 'path';
+import type { Session } from './types.js';
+import { readTranscript, type TranscriptItem } from '../claude/session-files.js';
+import { runClaudeOneShot } from '../claude/one-shot.js';
+import { truncate } from '../utils/format.js';
+import { formatPullRequestLink } from '../utils/pr-detector.js';
+import { postInfo, postWarning } from './post-helpers.js';
+import { withErrorHandling } from './error-handler.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('summary');
+
+/** Lightweight model for summaries */
+export const SUMMARY_MODEL = 'haiku';
+
+/** Transcript characters sent to Claude; older parts are left out beyond this */
+const MAX_TRANSCRIPT_CHARS = 60_000;
+
+/** Per-message limit in the condensed transcript */
+const MAX_MESSAGE_CHARS = 1500;
+
+/** Tools that change files, and the input holding the path */
+const FILE_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+export type SummaryRunner = (prompt: string) => Promise<string>;
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Files changed by Claude, relative to the working directory where possible
+ */
+export function getChangedFiles(items: TranscriptItem[], workingDir: string): string[] {
+  const files = new Set<string>();
+  for (const item of items) {
+    if (item.kind !== 'tool' || item.isError) continue;
+    const field = FILE_TOOLS[item.name];
+    const path = field ? item.input[field] : undefined;
+    if (typeof path !== 'string' || !path) continue;
+    const rel = isAbsolute(path) ? relative(workingDir, path) : path;
+    files.add(rel.startsWith('..') ? path : rel);
+  }
+  return [...files];
+}
+
+/**
+ * Tasks not yet completed, from the task list (lastTasksContent)
+ */
+export function getOpenTasks(tasksContent: string | null): string[] {
+  if (!tasksContent) return [];
+  return tasksContent
+    .split('\n')
+    .filter(line => line.startsWith('○ ') || line.startsWith('🔄 '))
+    .map(line => line
+      .replace(/^(○|🔄) /, '')
+      .replace(/\*\*/g, '')
+      .replace(/ \(\d+s\)$/, '')
+      .trim());
+}
+
+/**
+ * Condensed conversation for the summary prompt: messages and the tools used.
+ * Keeps the first prompt and as much of the recent conversation as fits.
+ */
+export function condenseTranscript(items: TranscriptItem[], maxChars = MAX_TRANSCRIPT_CHARS): string {
+  const lines = items.map(item => {
+    if (item.kind === 'tool') {
+      const field = FILE_TOOLS[item.name];
+      const target = field ? item.input[field] : item.name === 'Bash' ? item.input.command : undefined;
+      return `[Tool ${item.name}${typeof target === 'string' ? `: ${truncate(target, 200)}` : ''}]`;
+    }
+    const who = item.kind === 'user' ? 'User' : 'Claude';
+    return `${who}: ${truncate(item.text.trim(), MAX_MESSAGE_CHARS)}`;
+  });
+  if (lines.length === 0) return '';
+
+  const [first, ...rest] = lines;
+  const kept: string[] = [];
+  let length = first.length;
+  for (let i = rest.length - 1; i >= 0; i--) {
+    if (length + rest[i].length + 1 > maxChars) {
+      kept.unshift('[... earlier conversation left out ...]');
+      break;
+    }
+    length += rest[i].length + 1;
+    kept.unshift(rest[i]);
+  }
+  return [first, ...kept].join('\n');
+}
+
+export function buildSummaryPrompt(transcript: string): string {
+  return [
+    'Summarize this chat session between users and Claude, a coding assistant, for someone who is joining the thread late.',
+    'Answer in Markdown with exactly these two parts and nothing else:',
+    '**Goal** - one or two sentences on what the session is trying to achieve.',
+    '**Decisions** - up to six short bullet points with the key decisions, findings and the current state.',
+    'Be concise and do not use any tools.',
+    '',
+    '<transcript>',
+    transcript,
+    '</transcript>',
+  ].join('\n');
+}
+
+/**
+ * The summary post: Claude's recap plus files, open tasks and the PR
+ */
+export function formatSummary(session: Session, recap: string, files: string[], tasks: string[]): string {
+  const sections = [`📝 **Session summary**${session.sessionTitle ? ` - ${session.sessionTitle}` : ''}`, recap.trim()];
+
+  if (files.length > 0) {
+    const shown = files.slice(0, 15).map(f => `- \`${f}\``);
+    if (files.length > 15) shown.push(`- _and ${files.length - 15} more_`);
+    sections.push(`**Files changed**\n${shown.join('\n')}`);
+  }
+  if (tasks.length > 0) {
+    sections.push(`**Open tasks**\n${tasks.map(t => `- ${t}`).join('\n')}`);
+  }
+  if (session.pullRequestUrl) {
+    sections.push(`**Pull request:** ${formatPullRequestLink(session.pullRequestUrl)}`);
+  }
+  return sections.join('\n\n');
+}
+
+// =============================================================================
+// Command
+// =============================================================================
+
+/**
+ * Post a recap of the session in its thread.
+ *
+ * @param run - Sends the prompt to Claude (a one-shot call by default)
+ */
+export async function summarizeSession(
+  session: Session,
+  run: SummaryRunner = (prompt) => runClaudeOneShot(prompt, { model: SUMMARY_MODEL })
+): Promise<void> {
+  const items = readTranscript(session.claudeSessionId, session.workingDir);
+  const transcript = items ? condenseTranscript(items) : '';
+  if (!items || !transcript) {
+    await postWarning(session, `Nothing to summarize yet - no conversation has been saved for this session`);
+    return;
+  }
+
+  const post = await postInfo(session, `📝 *Summarizing the session…*`);
+  const shortId = session.threadId.substring(0, 8);
+
+  let message: string;
+  try {
+    const recap = await run(buildSummaryPrompt(transcript));
+    message = formatSummary(session, recap, getChangedFiles(items, session.workingDir), getOpenTasks(session.lastTasksContent));
+    log.info(`📝 Summarized session (${shortId}…)`);
+  } catch (err) {
+    log.warn(`Failed to summarize session (${shortId}…): ${err}`);
+    message = `❌ Could not summarize the session: ${err instanceof Error ? err.message : err}`;
+  }
+
+  await withErrorHandling(
+    () => session.platform.updatePost(post.id, message),
+    { action: 'Update summary post', session }
+  );
+}
@@ -3,7 +3,7 @@
  */
 
 import type { ClaudeCli } from '../claude/cli.js';
-import type { PlatformClient } from '../platform/index.js';
+import type { PlatformClient, PlatformFile } from '../platform/index.js';
 import type { WorktreeInfo } from '../persistence/session-store.js';
 import type { PendingContextPrompt } from './context-prompt.js';
 
@@ -62,8 +62,11 @@ export interface PendingQuestionSet {
     header: string;
     question: string;
     options: QuestionOption[];
+    multiSelect?: boolean;
+    selected?: number[];   // Option indexes picked so far (multi-select)
     answer: string | null;
   }>;
+  awaitingReply?: boolean;  // 💬 was picked: the next thread reply is the answer
 }
 
 export interface PendingApproval {
@@ -72,6 +75,18 @@ export interface PendingApproval {
   toolUseId: string;
 }
 
+/**
+ * Follow-up sent while Claude was busy, waiting for the end of the turn
+ */
+export interface QueuedMessage {
+  /** The user's post (⏳ reaction, ❌ withdraws it) */
+  postId: string;
+  username: string;
+  message: string;
+  files?: PlatformFile[];
+  queuedAt: Date;
+}
+
 /**
  * Pending message from unauthorized user awaiting approval
  */
@@ -79,6 +94,30 @@ export interface PendingMessageApproval {
   postId: string;
   originalMessage: string;
   fromUser: string;
+  /** The user's post, if known (edits update the message, deleting it withdraws it) */
+  sourcePostId?: string;
+}
+
+/**
+ * A user's post that was sent to Claude
+ */
+export interface SentMessage {
+  postId: string;
+  username: string;
+  message: string;
+}
+
+/**
+ * Offer to re-run the last turn after its message was edited
+ */
+export interface PendingRerun {
+  /** The offer post (🔄 re-runs) */
+  postId: string;
+  /** The edited post */
+  sourcePostId: string;
+  username: string;
+  /** The edited message */
+  message: string;
 }
 
 /**
@@ -119,16 +158,23 @@ export interface Session {
 
   // Claude process
   claude: ClaudeCli;
+  model?: string;  // Model chosen with !model (otherwise the repo/platform default)
 
   // Post state for streaming updates
   currentPostId: string | null;
   pendingContent: string;
+  codeUploadFailed?: boolean;  // Uploading a code block failed; later blocks are posted inline
 
   // Interactive state
   pendingApproval: PendingApproval | null;
   pendingQuestionSet: PendingQuestionSet | null;
   pendingMessageApproval: PendingMessageApproval | null;
+  messageQueue?: QueuedMessage[];  // Follow-ups sent while Claude was busy
+  lastSentMessage?: SentMessage;  // Last user post sent to Claude (editing it offers a re-run)
+  pendingRerun?: PendingRerun;
+  rerunMessage?: string;  // Edited message to send once the interrupted turn has stopped
   planApproved: boolean;
+  planVersions?: string[];  // Plans presented with ExitPlanMode, oldest first (v1, v2...)
 
   // Collaboration - per-session allowlist
   sessionAllowedUsers: Set<string>;
@@ -172,6 +218,9 @@ export interface Session {
   // Tool timing - track when tools started for elapsed time display
   activeToolStarts: Map<string, number>;  // toolUseId -> start timestamp
 
+  // Chrome tool calls whose result images (screenshots) are uploaded to the thread
+  chromeToolUseIds?: Set<string>;
+
   // Worktree support
   worktreeInfo?: WorktreeInfo;              // Active worktree info
   pendingWorktreePrompt?: boolean;          // Waiting for branch name response
@@ -199,12 +248,24 @@ export interface Session {
   // Pull request URL (detected from Claude output when PR is created)
   pullRequestUrl?: string;     // Full URL to the PR (GitHub, GitLab, Bitbucket, Azure DevOps, etc.)
 
+  // Forks (!fork) - cross-linked in the session headers
+  forkedFromThreadId?: string;  // Thread of the session this one was forked from
+  forkThreadIds?: string[];     // Threads forked from this session
+
   // Message counter for periodic reminders
   messageCount: number;  // Number of user messages sent to Claude in this session
 
   // Usage stats from Claude CLI (updated on each result event)
   usageStats?: SessionUsageStats;
 
+  // Cost budgets (see budget.ts)
+  spentUSD?: number;             // Cost across Claude restarts, counted against the session budget
+  recordedCost?: { claude: ClaudeCli; totalUSD: number };  // Process cost total already recorded
+  budgetWarnings?: string[];     // Session budget warnings already posted
+
+  // Usage log (see persistence/usage-log.ts)
+  recordedUsage?: { claude: ClaudeCli; modelUsage: Record<string, ModelTokenUsage> };  // Process totals already logged
+
   // Status bar update timer (for periodic refreshes)
   statusBarTimer: ReturnType<typeof setInterval> | null;
 }
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { attachFile, getMimeType, resolveWorkingDirPath } from './uploads.js';
+import type { Session } from './types.js';
+import type { PlatformClient } from '../platform/index.js';
+
+describe('getMimeType', () => {
+  it('maps known extensions and falls back to octet-stream', () => {
+    expect(getMimeType('shot.PNG')).toBe('image/png');
+    expect(getMimeType('changes.diff')).toBe('text/x-diff');
+    expect(getMimeType('build.bin')).toBe('application/octet-stream');
+  });
+});
+
+describe('resolveWorkingDirPath', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-uploads-'));
+    mkdirSync(join(dir, 'repo', 'out'), { recursive: true });
+    writeFileSync(join(dir, 'secret.txt'), 'secret');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts paths inside the working directory', () => {
+    expect(resolveWorkingDirPath(join(dir, 'repo'), 'out/report.html')).toEndWith(join('repo', 'out', 'report.html'));
+  });
+
+  it('rejects paths that leave the working directory', () => {
+    expect(resolveWorkingDirPath(join(dir, 'repo'), '../secret.txt')).toBeNull();
+    expect(resolveWorkingDirPath(join(dir, 'repo'), join(dir, 'secret.txt'))).toBeNull();
+  });
+
+  it('rejects symlinks pointing outside the working directory', () => {
+    symlinkSync(join(dir, 'secret.txt'), join(dir, 'repo', 'link.txt'));
+    expect(resolveWorkingDirPath(join(dir, 'repo'), 'link.txt')).toBeNull();
+  });
+});
+
+describe('attachFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-threads-attach-'));
+    writeFileSync(join(dir, 'report.html'), '<h1>Report</h1>');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createSession(withUpload = true): Session {
+    const platform = {
+      platformType: 'test',
+      createPost: mock(() => Promise.resolve({ id: 'post', message: '', userId: 'bot' })),
+      ...(withUpload && { uploadFile: mock(() => Promise.resolve({ id: 'upload', message: '', userId: 'bot' })) }),
+    } as unknown as PlatformClient;
+    return { platform, threadId: 'thread-1', workingDir: dir } as Session;
+  }
+
+  it('uploads the file with its MIME type', async () => {
+    const session = createSession();
+    await attachFile(session, 'report.html');
+
+    expect(session.platform.uploadFile).toHaveBeenCalledWith(
+      'thread-1', 'report.html', Buffer.from('<h1>Report</h1>'), 'text/html', '📎 `report.html`'
+    );
+  });
+
+  it('reports missing files and directories', async () => {
+    const session = createSession();
+    await attachFile(session, 'missing.txt');
+    await attachFile(session, '.');
+
+    expect(session.platform.uploadFile).not.toHaveBeenCalled();
+    const messages = (session.platform.createPost as ReturnType<typeof mock>).mock.calls.map(c => c[0]);
+    expect(messages[0]).toContain('File does not exist');
+    expect(messages[1]).toContain('Not a file');
+  });
+
+  it('explains when the platform cannot upload files', async () => {
+    const session = createSession(false);
+    await attachFile(session, 'report.html');
+
+    expect(session.platform.createPost).toHaveBeenCalledWith(
+      expect.stringContaining('File uploads are not supported on test'), 'thread-1'
+    );
+  });
+});
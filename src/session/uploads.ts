@@ -0,0 +1,149 @@
+/**
+ * File uploads to session threads
+ *
+ * Attaches files to the thread on platforms that implement
+ * PlatformClient.uploadFile: files from the working directory (!attach),
+ * screenshots taken by Chrome automation, exports, and code blocks too long
+ * to post inline.
+ */
+
+import { existsSync, readFileSync, realpathSync, statSync } from 'fs';
+import { basename, extname, isAbsolute, relative, resolve, sep } from 'path';
+import type { Session } from './types.js';
+import { postError, postWarning } from './post-helpers.js';
+import { withErrorHandling } from './error-handler.js';
+import { formatBytes } from '../utils/format.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('uploads');
+
+/** Largest file !attach will upload */
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.diff': 'text/x-diff',
+  '.patch': 'text/x-diff',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+};
+
+/**
+ * Guess a MIME type from a file name's extension
+ */
+export function getMimeType(name: string): string {
+  return MIME_TYPES[extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Timestamp for generated file names, e.g. 20260102-153000
+ */
+export function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+}
+
+/**
+ * Upload a file to the session thread. Returns false if the platform cannot
+ * upload files or the upload failed (the error is logged).
+ */
+export async function uploadToThread(
+  session: Session,
+  name: string,
+  data: Buffer,
+  mimeType: string,
+  message?: string
+): Promise<boolean> {
+  const upload = session.platform.uploadFile?.bind(session.platform);
+  if (!upload) return false;
+  const post = await withErrorHandling(
+    () => upload(session.threadId, name, data, mimeType, message),
+    { action: `Upload ${name}`, session }
+  );
+  return post !== undefined;
+}
+
+/**
+ * Resolve a path relative to the session's working directory. Returns null if
+ * it points outside the working directory (symlinks included).
+ */
+export function resolveWorkingDirPath(workingDir: string, path: string): string | null {
+  const root = existsSync(workingDir) ? realpathSync(workingDir) : resolve(workingDir);
+  const target = resolve(root, path);
+  const real = existsSync(target) ? realpathSync(target) : target;
+  const rel = relative(root, real);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) return null;
+  return real;
+}
+
+/**
+ * Attach a file from the working directory to the thread (!attach)
+ */
+export async function attachFile(session: Session, path: string): Promise<void> {
+  if (!session.platform.uploadFile) {
+    await postWarning(session, `File uploads are not supported on ${session.platform.platformType}`);
+    return;
+  }
+
+  const fullPath = resolveWorkingDirPath(session.workingDir, path);
+  if (!fullPath) {
+    await postError(session, `Only files inside the working directory can be attached: \`${path}\``);
+    return;
+  }
+  if (!existsSync(fullPath)) {
+    await postError(session, `File does not exist: \`${path}\``);
+    return;
+  }
+  const stats = statSync(fullPath);
+  if (!stats.isFile()) {
+    await postError(session, `Not a file: \`${path}\``);
+    return;
+  }
+  if (stats.size > MAX_UPLOAD_BYTES) {
+    await postError(session, `File is too large to attach: \`${path}\` is ${formatBytes(stats.size)} (limit ${formatBytes(MAX_UPLOAD_BYTES)})`);
+    return;
+  }
+
+  const name = basename(fullPath);
+  if (await uploadToThread(session, name, readFileSync(fullPath), getMimeType(name), `📎 \`${path}\``)) {
+    log.info(`📎 Attached ${path} (${formatBytes(stats.size)}) to ${session.threadId.substring(0, 8)}`);
+  }
+}
+
+/**
+ * Content of a tool result that carries an image (e.g. a Chrome screenshot)
+ */
+interface ImageBlock {
+  type: 'image';
+  source?: { type?: string; media_type?: string; data?: string };
+}
+
+/**
+ * Upload the images in a tool result to the thread. Chrome automation returns
+ * screenshots this way; without the upload they are only visible to Claude.
+ */
+export async function uploadToolResultImages(session: Session, content: unknown): Promise<void> {
+  if (!Array.isArray(content) || !session.platform.uploadFile) return;
+
+  const images = (content as ImageBlock[]).filter(
+    b => b?.type === 'image' && b.source?.type === 'base64' && typeof b.source.data === 'string'
+  );
+  const stamp = fileTimestamp();
+  for (const [index, image] of images.entries()) {
+    const mimeType = image.source?.media_type ?? 'image/png';
+    const ext = mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1] ?? 'png';
+    const name = `screenshot-${stamp}${images.length > 1 ? `-${index + 1}` : ''}.${ext}`;
+    await uploadToThread(session, name, Buffer.from(image.source?.data ?? '', 'base64'), mimeType, `📸 ${name}`);
+  }
+}
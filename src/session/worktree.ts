@@ -19,6 +19,7 @@ import {
 } from '../git/worktree.js';
 import type { ClaudeCliOptions, ClaudeEvent } from '../claude/cli.js';
 import { ClaudeCli } from '../claude/cli.js';
+import { resolveSessionModel } from '../claude/model.js';
 import { randomUUID } from 'crypto';
 import { withErrorHandling, logAndNotify } from './error-handler.js';
 import { postWarning, postError, postSuccess, postInfo, resetSessionActivity } from './post-helpers.js';
@@ -315,6 +316,7 @@ export async function createAndSwitchToWorktree(
         chrome: options.chromeEnabled,
         platformConfig: session.platform.getMcpConfig(),
         appendSystemPrompt: needsTitlePrompt ? options.appendSystemPrompt : undefined,
+        model: resolveSessionModel(session.model, worktreePath, session.platformId),
       };
       session.claude = new ClaudeCli(cliOptions);
 
@@ -0,0 +1,70 @@
+/**
+ * `claude-threads usage` subcommand
+ *
+ * Prints cost and token usage from the usage log, broken down by user, model,
+ * repository and session.
+ */
+
+import {
+  formatUsageText,
+  getPeriodStart,
+  queryUsageLog,
+  readUsageLog,
+  summarizeUsage,
+  USAGE_LOG_PATH,
+  USAGE_PERIODS,
+  type UsageFilter,
+  type UsagePeriod,
+} from './persistence/usage-log.js';
+import { parseAuditDate } from './persistence/audit-log.js';
+import { dim, red } from './utils/output.js';
+
+export interface UsageCommandOptions {
+  period?: string;
+  since?: string;
+  until?: string;
+  user?: string;
+  json?: boolean;
+}
+
+/**
+ * Print a usage report. Returns the process exit code.
+ */
+export function runUsageCommand(options: UsageCommandOptions, path: string = USAGE_LOG_PATH): number {
+  const period = (options.period ?? 'month').toLowerCase() as UsagePeriod;
+  if (!USAGE_PERIODS.includes(period)) {
+    console.error(red(`Invalid --period value "${options.period}" (use ${USAGE_PERIODS.join(', ')})`));
+    return 1;
+  }
+
+  const filter: UsageFilter = {
+    user: options.user?.replace(/^@/, ''),
+    since: getPeriodStart(period),
+  };
+  for (const key of ['since', 'until'] as const) {
+    const value = options[key];
+    if (value === undefined) continue;
+    const date = parseAuditDate(value);
+    if (!date) {
+      console.error(red(`Invalid --${key} value "${value}" (use a date like 2026-01-31 or an age like 24h or 7d)`));
+      return 1;
+    }
+    filter[key] = date;
+  }
+
+  const entries = queryUsageLog(readUsageLog(path), filter);
+
+  if (options.json) {
+    for (const entry of entries) {
+      console.log(JSON.stringify(entry));
+    }
+    return 0;
+  }
+
+  if (entries.length === 0) {
+    console.log(dim(`No matching usage in ${path}`));
+    return 0;
+  }
+  console.log(formatUsageText(summarizeUsage(entries)));
+  return 0;
+}
@@ -3,6 +3,7 @@ import {
   isApprovalEmoji,
   isDenialEmoji,
   isAllowAllEmoji,
+  isAllowToolEmoji,
   isCancelEmoji,
   isEscapeEmoji,
   isResumeEmoji,
@@ -10,6 +11,7 @@ import {
   APPROVAL_EMOJIS,
   DENIAL_EMOJIS,
   ALLOW_ALL_EMOJIS,
+  ALLOW_TOOL_EMOJIS,
   NUMBER_EMOJIS,
   CANCEL_EMOJIS,
   ESCAPE_EMOJIS,
@@ -83,6 +85,23 @@ describe('emoji helpers', () => {
     });
   });
 
+  describe('isAllowToolEmoji', () => {
+    it('returns true for unlock', () => {
+      expect(isAllowToolEmoji('unlock')).toBe(true);
+    });
+
+    it('returns false for other emojis', () => {
+      expect(isAllowToolEmoji('white_check_mark')).toBe(false);
+      expect(isAllowToolEmoji('+1')).toBe(false);
+    });
+
+    it('matches all ALLOW_TOOL_EMOJIS', () => {
+      for (const emoji of ALLOW_TOOL_EMOJIS) {
+        expect(isAllowToolEmoji(emoji)).toBe(true);
+      }
+    });
+  });
+
   describe('isCancelEmoji', () => {
     it('returns true for x', () => {
       expect(isCancelEmoji('x')).toBe(true);
@@ -188,9 +207,15 @@ describe('emoji helpers', () => {
       expect(getNumberEmojiIndex('4️⃣')).toBe(3);
     });
 
+    it('supports options up to nine', () => {
+      expect(getNumberEmojiIndex('five')).toBe(4);
+      expect(getNumberEmojiIndex('nine')).toBe(8);
+      expect(getNumberEmojiIndex('9️⃣')).toBe(8);
+    });
+
     it('returns -1 for non-number emojis', () => {
       expect(getNumberEmojiIndex('heart')).toBe(-1);
-      expect(getNumberEmojiIndex('five')).toBe(-1);
+      expect(getNumberEmojiIndex('keycap_ten')).toBe(-1);
       expect(getNumberEmojiIndex('+1')).toBe(-1);
     });
 
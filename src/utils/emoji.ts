@@ -11,15 +11,27 @@ export const APPROVAL_EMOJIS = ['+1', 'thumbsup'] as const;
 /** Emoji names that indicate denial */
 export const DENIAL_EMOJIS = ['-1', 'thumbsdown'] as const;
 
-/** Emoji names that indicate "allow all" / invite / session-wide approval */
+/** Emoji names that indicate "allow all" / invite / session-wide approval (also confirms multi-select answers) */
 export const ALLOW_ALL_EMOJIS = ['white_check_mark', 'heavy_check_mark'] as const;
 
-/** Number emojis for multi-choice questions (1-4) */
-export const NUMBER_EMOJIS = ['one', 'two', 'three', 'four'] as const;
+/** Emoji names that allow the current tool (command prefix / directory) for the rest of the session */
+export const ALLOW_TOOL_EMOJIS = ['unlock'] as const;
+
+/** Number emojis for multi-choice questions (1-9) */
+export const NUMBER_EMOJIS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'] as const;
+
+/** Unicode characters of NUMBER_EMOJIS, for option lists in messages */
+export const NUMBER_EMOJI_CHARACTERS = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣'] as const;
+
+/** Emoji names for answering a question in a reply instead of picking an option */
+export const OTHER_ANSWER_EMOJIS = ['speech_balloon'] as const;
 
 /** Emojis for canceling/killing a session */
 export const CANCEL_EMOJIS = ['x', 'octagonal_sign', 'stop_sign'] as const;
 
+/** Emoji added to follow-ups queued while Claude is busy */
+export const QUEUED_EMOJIS = ['hourglass_flowing_sand'] as const;
+
 /** Emojis for escaping/pausing a session */
 export const ESCAPE_EMOJIS = ['double_vertical_bar', 'pause_button'] as const;
 
@@ -50,6 +62,20 @@ export function isAllowAllEmoji(emoji: string): boolean {
   return (ALLOW_ALL_EMOJIS as readonly string[]).includes(emoji);
 }
 
+/**
+ * Check if the emoji allows the current tool for the rest of the session
+ */
+export function isAllowToolEmoji(emoji: string): boolean {
+  return (ALLOW_TOOL_EMOJIS as readonly string[]).includes(emoji);
+}
+
+/**
+ * Check if the emoji asks to answer a question in a reply ("Other")
+ */
+export function isOtherAnswerEmoji(emoji: string): boolean {
+  return (OTHER_ANSWER_EMOJIS as readonly string[]).includes(emoji);
+}
+
 /**
  * Check if the emoji indicates session cancellation
  */
@@ -79,12 +105,9 @@ export function isTaskToggleEmoji(emoji: string): boolean {
 }
 
 /** Unicode number emoji variants that also map to indices */
-const UNICODE_NUMBER_EMOJIS: Record<string, number> = {
-  '1️⃣': 0,
-  '2️⃣': 1,
-  '3️⃣': 2,
-  '4️⃣': 3,
-};
+const UNICODE_NUMBER_EMOJIS: Record<string, number> = Object.fromEntries(
+  NUMBER_EMOJI_CHARACTERS.map((char, index) => [char, index])
+);
 
 /**
  * Get the index (0-based) for a number emoji, or -1 if not a number emoji